@@ -10,8 +10,29 @@ import { HeaderRenderer } from './rendering/HeaderRenderer.js';
 import { TextRenderer } from './rendering/TextRenderer.js';
 import { VirtualGrid } from './core/virtual-grid/VirtualGrid.js';
 import { SparseMatrix } from './core/sparse-matrix/SparseMatrix.js';
-import { OperationHistory, type AnyOperation } from './core/operation-history/OperationHistory.js';
-import { FormulaManager, type CellValue } from './core/formulas/FormulaManager.js';
+import {
+  OperationHistory,
+  type AnyOperation,
+  type StructuralChange,
+} from './core/operation-history/OperationHistory.js';
+import {
+  FormulaManager,
+  type CellValue,
+  type RewrittenFormula,
+} from './core/formulas/FormulaManager.js';
+import { FormulaUtils, MAX_COL_INDEX, MAX_ROW_INDEX } from './core/formulas/FormulaAST.js';
+import { DateSerial } from './core/formulas/DateSerial.js';
+import { NumberFormat } from './core/formulas/NumberFormat.js';
+import { Workbook } from './core/workbook/Workbook.js';
+import { CalculationClient } from './core/worker/CalculationClient.js';
+import {
+  FormulaAssist,
+  type FormulaAssistState,
+  type FormulaSuggestion,
+} from './core/formulas/FormulaAssist.js';
+
+// Клавиши, перемещающие курсор в строке формул - после них подсказки обновляются
+const CARET_KEYS = ['ArrowLeft', 'ArrowRight', 'Home', 'End'];
 
 export class App {
   private config: AppConfig;
@@ -22,14 +43,29 @@ export class App {
   private headerRenderer: HeaderRenderer | null = null;
   private textRenderer: TextRenderer | null = null;
   private virtualGrid: VirtualGrid | null = null;
-  private sparseMatrix: SparseMatrix | null = null;
+  private workbook: Workbook | null = null;
+  private sparseMatrix: SparseMatrix | null = null; // Матрица активного листа
   private operationHistory: OperationHistory | null = null;
   private formulaManager: FormulaManager | null = null;
+  private calculation: CalculationClient | null = null; // Вычисление формул в Web Worker
   private isInitialized = false;
 
   // Координаты для контекстного меню
   private contextMenuCell: { row: number; col: number } | null = null;
 
+  // Внутренний буфер обмена: значение и ячейка, откуда оно скопировано или вырезано
+  private clipboard: {
+    sheet: string;
+    row: number;
+    col: number;
+    value: string;
+    isCut: boolean;
+  } | null = null;
+
+  // Подсказки строки формул и выбранный вариант автодополнения
+  private formulaAssist: FormulaAssistState | null = null;
+  private selectedSuggestion = 0;
+
   // FPS tracking
   private frameCount = 0;
   private fps = 0;
@@ -163,7 +199,7 @@ export class App {
   private initializeSparseMatrix(): void {
     console.log('🔧 Инициализация разреженной матрицы...');
 
-    this.sparseMatrix = new SparseMatrix();
+    this.resetWorkbook();
 
     console.log('✅ Разреженная матрица инициализирована');
 
@@ -171,30 +207,25 @@ export class App {
     this.operationHistory = new OperationHistory(100);
     console.log('✅ История операций инициализирована');
 
-    // Инициализируем менеджер формул
-    this.formulaManager = new FormulaManager({
-      getCellValue: (row: number, col: number) => this.getCellValue(row, col),
-      getCellRange: (startRow: number, startCol: number, endRow: number, endCol: number) =>
-        this.getCellRange(startRow, startCol, endRow, endCol),
-    });
+    console.log('✅ Менеджер формул инициализирован');
 
-    // Устанавливаем callback для обновления формул в SparseMatrix
-    this.formulaManager.setUpdateFormulaCallback((row: number, col: number, formula: string) => {
-      this.sparseMatrix?.setCell(row, col, formula);
+    // Значения формул вычисляются в Web Worker и приходят после пересчета
+    this.calculation = CalculationClient.create(this.config.functionModules);
+    this.calculation.onRecalculated(() => {
+      this.virtualGrid?.clearCache();
+      this.needsRender = true;
     });
 
-    console.log('✅ Менеджер формул инициализирован');
-
     // Устанавливаем провайдер значений в VirtualGrid для формул
     if (this.virtualGrid) {
       this.virtualGrid.setCellValueProvider((row: number, col: number) => {
-        const cellValue = this.getCellValue(row, col);
-        return cellValue.value; // Возвращаем только значение, не тип
+        return this.formatCellValue(this.getCellValue(row, col));
       });
     }
 
     // ДОБАВЛЯЕМ ТЕСТОВЫЕ ДАННЫЕ для демонстрации текста
     this.addTestData();
+    this.calculation.connect(this.workbook!);
   }
 
   /**
@@ -364,6 +395,9 @@ export class App {
     // Обработчики клавиатуры
     this.setupKeyboardHandlers();
 
+    // Вкладки листов
+    this.renderSheetTabs();
+
     console.log('✅ Обработчики событий настроены');
   }
 
@@ -390,10 +424,30 @@ export class App {
 
     if (formulaInput) {
       formulaInput.addEventListener('keydown', event => {
+        if (this.handleSuggestionKey(formulaInput, event)) {
+          return;
+        }
         if (event.key === 'Enter') {
+          this.hideFormulaAssist();
           this.handleFormulaSubmit(formulaInput.value);
         }
       });
+
+      // Подсказки обновляются при вводе и перемещении курсора
+      formulaInput.addEventListener('input', () => this.updateFormulaAssist(formulaInput));
+      formulaInput.addEventListener('click', () => this.updateFormulaAssist(formulaInput));
+      formulaInput.addEventListener('keyup', event => {
+        if (CARET_KEYS.includes(event.key)) {
+          this.updateFormulaAssist(formulaInput);
+        }
+      });
+      formulaInput.addEventListener('scroll', () => {
+        const highlight = document.getElementById('formula-highlight');
+        if (highlight) {
+          highlight.scrollLeft = formulaInput.scrollLeft;
+        }
+      });
+      formulaInput.addEventListener('blur', () => this.hideFormulaAssist());
     }
 
     if (enterButton) {
@@ -405,6 +459,159 @@ export class App {
     }
   }
 
+  /**
+   * Разбор текста строки формул и обновление подсказок
+   */
+  private updateFormulaAssist(formulaInput: HTMLInputElement): void {
+    if (!this.formulaManager || !this.workbook) return;
+
+    const caret = formulaInput.selectionStart ?? formulaInput.value.length;
+    this.formulaAssist = FormulaAssist.analyze(
+      formulaInput.value,
+      caret,
+      this.formulaManager.getFunctions(),
+      this.workbook.getNames()
+    );
+    this.selectedSuggestion = 0;
+    this.renderFormulaAssist(formulaInput.value);
+  }
+
+  /**
+   * Скрытие подсказок строки формул
+   */
+  private hideFormulaAssist(): void {
+    this.formulaAssist = null;
+    this.renderFormulaAssist('');
+  }
+
+  /**
+   * Клавиши списка автодополнения; true - нажатие обработано
+   */
+  private handleSuggestionKey(formulaInput: HTMLInputElement, event: KeyboardEvent): boolean {
+    const suggestions = this.formulaAssist?.suggestions ?? [];
+    if (!this.formulaAssist || suggestions.length === 0) return false;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        this.selectedSuggestion =
+          (this.selectedSuggestion + step + suggestions.length) % suggestions.length;
+        this.renderFormulaAssist(formulaInput.value);
+        return true;
+      }
+      case 'Tab':
+      case 'Enter':
+        event.preventDefault();
+        this.acceptSuggestion(formulaInput, suggestions[this.selectedSuggestion]!);
+        return true;
+      case 'Escape':
+        this.formulaAssist = { ...this.formulaAssist, suggestions: [] };
+        this.renderFormulaAssist(formulaInput.value);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Подстановка выбранной функции или имени в строку формул
+   */
+  private acceptSuggestion(formulaInput: HTMLInputElement, suggestion: FormulaSuggestion): void {
+    if (!this.formulaAssist) return;
+
+    const { text, caret } = FormulaAssist.applySuggestion(
+      formulaInput.value,
+      this.formulaAssist,
+      suggestion
+    );
+    formulaInput.value = text;
+    formulaInput.setSelectionRange(caret, caret);
+    this.updateFormulaAssist(formulaInput);
+  }
+
+  /**
+   * Отрисовка подсказок: список автодополнения, подсказка аргументов и подсветка скобок
+   */
+  private renderFormulaAssist(text: string): void {
+    const suggestionList = document.getElementById('formula-suggestions');
+    const signatureHint = document.getElementById('formula-signature');
+    const highlight = document.getElementById('formula-highlight');
+    const assist = this.formulaAssist;
+
+    if (suggestionList) {
+      suggestionList.replaceChildren(
+        ...(assist?.suggestions ?? []).map((suggestion, index) => {
+          const item = document.createElement('div');
+          item.className = `formula-suggestion${index === this.selectedSuggestion ? ' selected' : ''}`;
+          const label = document.createElement('span');
+          label.className = `formula-suggestion-label ${suggestion.kind}`;
+          label.textContent = suggestion.label;
+          const detail = document.createElement('span');
+          detail.className = 'formula-suggestion-detail';
+          detail.textContent = suggestion.detail;
+          item.append(label, detail);
+
+          // mousedown вместо click - поле ввода не теряет фокус
+          item.addEventListener('mousedown', event => {
+            event.preventDefault();
+            const formulaInput = document.getElementById('formula-input') as HTMLInputElement;
+            this.acceptSuggestion(formulaInput, suggestion);
+          });
+          return item;
+        })
+      );
+      suggestionList.style.display = suggestionList.childElementCount > 0 ? 'block' : 'none';
+    }
+
+    // Подсказка аргументов показывается, когда нет списка автодополнения
+    const signature = assist?.suggestions.length === 0 ? assist.signature : null;
+    if (signatureHint) {
+      signatureHint.replaceChildren();
+      if (signature) {
+        const call = document.createElement('div');
+        call.append(`${signature.name}(`);
+        signature.params.forEach((param, index) => {
+          if (index > 0) call.append(', ');
+          const part = document.createElement(index === signature.activeParam ? 'b' : 'span');
+          part.textContent = param;
+          call.append(part);
+        });
+        call.append(')');
+
+        const description = document.createElement('div');
+        description.className = 'formula-signature-description';
+        description.textContent =
+          signature.activeParam === -1 ? 'Слишком много аргументов' : signature.description;
+        signatureHint.append(call, description);
+      }
+      signatureHint.style.display = signature ? 'block' : 'none';
+    }
+
+    // Подсветка скобок: копия текста под полем ввода с выделенными скобками
+    if (highlight) {
+      const marks = new Map<number, string>();
+      assist?.unmatched.forEach(position => marks.set(position, 'bracket-unmatched'));
+      if (assist?.brackets) {
+        marks.set(assist.brackets.open, 'bracket-match');
+        marks.set(assist.brackets.close, 'bracket-match');
+      }
+
+      const parts: Array<string | HTMLElement> = [];
+      let position = 0;
+      for (const index of [...marks.keys()].sort((a, b) => a - b)) {
+        parts.push(text.slice(position, index));
+        const mark = document.createElement('span');
+        mark.className = marks.get(index)!;
+        mark.textContent = text[index] ?? '';
+        parts.push(mark);
+        position = index + 1;
+      }
+      highlight.replaceChildren(...parts, marks.size > 0 ? text.slice(position) : '');
+    }
+  }
+
   /**
    * Настройка обработчиков canvas
    */
@@ -478,9 +685,15 @@ export class App {
       case 'copy':
         this.copy();
         break;
+      case 'cut':
+        this.copy(true);
+        break;
       case 'paste':
         this.paste();
         break;
+      case 'define-name':
+        this.defineName();
+        break;
       case 'test-1000x1000':
         this.generateTestData1000x1000();
         break;
@@ -627,10 +840,14 @@ export class App {
     // Получаем видимые ячейки
     const visibleCells = this.virtualGrid.getVisibleCells();
 
-    // Заполняем ячейки данными из SparseMatrix
+    // Введенные значения показываются как есть; формулы и перенесенные значения
+    // динамических массивов приходят из провайдера VirtualGrid
     if (this.sparseMatrix) {
       visibleCells.forEach(cell => {
-        cell.value = this.sparseMatrix!.getCell(cell.row, cell.col);
+        const value = this.sparseMatrix!.getCell(cell.row, cell.col);
+        if (value !== null && value !== undefined && !String(value).startsWith('=')) {
+          cell.value = value;
+        }
       });
     }
 
@@ -761,6 +978,7 @@ export class App {
     if (formulaInput && this.sparseMatrix) {
       const value = this.sparseMatrix.getCell(cell.row, cell.col);
       formulaInput.value = value || '';
+      this.hideFormulaAssist();
     }
   }
 
@@ -910,7 +1128,9 @@ export class App {
 
     if (this.sparseMatrix && this.virtualGrid) {
       // Очищаем все данные
-      this.sparseMatrix.clear();
+      this.resetWorkbook();
+      this.calculation?.connect(this.workbook!);
+      this.renderSheetTabs();
 
       // Возвращаемся в начало
       this.virtualGrid.scrollToHome();
@@ -946,10 +1166,19 @@ export class App {
             const data = JSON.parse(e.target?.result as string);
 
             // Очищаем текущие данные
-            this.sparseMatrix!.clear();
+            this.resetWorkbook();
 
             // Загружаем новые данные
-            if (data.cells) {
+            if (Array.isArray(data.sheets)) {
+              this.loadSheets(data.sheets);
+              this.loadNames(data.names ?? []);
+              if (data.iterativeCalculation) {
+                this.formulaManager?.setIterativeCalculation(data.iterativeCalculation);
+              }
+              if (data.dateLocale) {
+                this.workbook?.setDateLocale(data.dateLocale);
+              }
+            } else if (data.cells) {
               Object.entries(data.cells).forEach(([key, value]) => {
                 const parts = key.split(',').map(Number);
                 const row = parts[0];
@@ -959,8 +1188,11 @@ export class App {
                 }
               });
             }
+            this.calculation?.connect(this.workbook!);
 
             // Обновляем отображение
+            this.virtualGrid?.clearCache();
+            this.renderSheetTabs();
             this.updateDisplay();
             this.needsRender = true;
 
@@ -977,12 +1209,97 @@ export class App {
     input.click();
   }
 
+  /**
+   * Создание новой книги с одним пустым листом
+   */
+  private resetWorkbook(): void {
+    // Книга владеет листами и менеджером формул, матрица - данные активного листа
+    this.workbook = new Workbook();
+    this.sparseMatrix = this.workbook.getActiveSheet().matrix;
+    this.formulaManager = this.workbook.getFormulaManager();
+  }
+
+  /**
+   * Загрузка листов из сохраненного файла
+   */
+  private loadSheets(
+    sheets: Array<{ name: string; cells: Array<{ row: number; col: number; value: any }> }>
+  ): void {
+    if (!this.workbook) return;
+
+    sheets.forEach((sheetData, index) => {
+      // Первый лист уже создан в новой книге - переименовываем его
+      const defaultSheet = this.workbook!.getActiveSheet();
+      if (index === 0 && defaultSheet.name !== sheetData.name) {
+        this.workbook!.renameSheet(defaultSheet.name, sheetData.name);
+      }
+      const sheet = index === 0 ? defaultSheet : this.workbook!.addSheet(sheetData.name);
+
+      for (const cell of sheetData.cells) {
+        sheet.matrix.setCell(cell.row, cell.col, cell.value);
+      }
+    });
+  }
+
+  /**
+   * Загрузка определенных имен из сохраненного файла
+   */
+  private loadNames(names: Array<{ name: string; refersTo: string }>): void {
+    for (const { name, refersTo } of names) {
+      try {
+        // Сохраненные определения уже содержат имена листов
+        this.formulaManager?.defineName(name, refersTo);
+      } catch (error) {
+        console.error(`❌ Ошибка загрузки имени ${name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Определение имени через диалог (TaxRate = $B$1)
+   */
+  private defineName(): void {
+    if (!this.workbook) return;
+
+    const existing = this.workbook
+      .getNames()
+      .map(({ name, refersTo }) => `${name} ${refersTo}`)
+      .join('\n');
+    const input = prompt(
+      `${existing ? `Имена:\n${existing}\n\n` : ''}Новое имя (например, TaxRate = $B$1):`
+    );
+    if (!input) return;
+
+    const separatorIndex = input.indexOf('=');
+    if (separatorIndex === -1) {
+      alert('Ожидается запись вида Имя = ссылка');
+      return;
+    }
+
+    try {
+      const name = input.slice(0, separatorIndex).trim();
+      const refersTo = input.slice(separatorIndex + 1).trim();
+      this.workbook.defineName(name, refersTo);
+      this.calculation?.defineName(name, refersTo, this.workbook.getActiveSheet().name);
+      this.virtualGrid?.clearCache();
+      this.needsRender = true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  }
+
   private saveSpreadsheet(): void {
     console.log('💾 Сохранение таблицы');
 
-    if (this.sparseMatrix) {
+    if (this.workbook) {
       const data = {
-        cells: this.sparseMatrix.getAllCells(),
+        sheets: this.workbook.getSheets().map(sheet => ({
+          name: sheet.name,
+          cells: sheet.matrix.getAllCells(),
+        })),
+        names: this.workbook.getNames(),
+        iterativeCalculation: this.workbook.getFormulaManager().getIterativeCalculation(),
+        dateLocale: this.workbook.getDateLocale(),
         createdAt: new Date().toISOString(),
       };
 
@@ -1001,10 +1318,10 @@ export class App {
     }
   }
 
-  private copy(): void {
-    console.log('📋 Копирование');
+  private copy(isCut = false): void {
+    console.log(isCut ? '✂️ Вырезание' : '📋 Копирование');
 
-    if (this.virtualGrid && this.sparseMatrix) {
+    if (this.virtualGrid && this.sparseMatrix && this.workbook) {
       const activeCell = this.virtualGrid.getActiveCell();
       if (activeCell) {
         const value = this.sparseMatrix.getCell(activeCell.row, activeCell.col);
@@ -1021,8 +1338,14 @@ export class App {
             });
         }
 
-        // Также сохраняем внутри приложения
-        (this as any).clipboardValue = value || '';
+        // Также сохраняем внутри приложения вместе с исходной ячейкой
+        this.clipboard = {
+          sheet: this.workbook.getActiveSheet().name,
+          row: activeCell.row,
+          col: activeCell.col,
+          value: String(value ?? ''),
+          isCut,
+        };
 
         console.log(`✅ Скопировано: "${value}" из ячейки ${activeCell.row},${activeCell.col}`);
       }
@@ -1040,6 +1363,11 @@ export class App {
           navigator.clipboard
             .readText()
             .then(text => {
+              // Скопированное в приложении вставляется со сдвигом ссылок формулы
+              if (text === this.clipboard?.value) {
+                this.pasteFromInternalClipboard(activeCell);
+                return;
+              }
               this.sparseMatrix!.setCell(activeCell.row, activeCell.col, text);
               this.updateDisplay();
               this.needsRender = true;
@@ -1058,13 +1386,83 @@ export class App {
   }
 
   private pasteFromInternalClipboard(activeCell: { row: number; col: number }): void {
-    const clipboardValue = (this as any).clipboardValue;
-    if (clipboardValue !== undefined && this.sparseMatrix) {
-      this.sparseMatrix.setCell(activeCell.row, activeCell.col, clipboardValue);
-      this.updateDisplay();
-      this.needsRender = true;
-      console.log(`✅ Вставлено: "${clipboardValue}" в ячейку ${activeCell.row},${activeCell.col}`);
+    const clipboard = this.clipboard;
+    if (!clipboard || !this.sparseMatrix || !this.workbook) {
+      return;
+    }
+
+    // Вырезанная ячейка перемещается в пределах листа, ссылки на нее следуют за ней
+    if (clipboard.isCut && clipboard.sheet === this.workbook.getActiveSheet().name) {
+      this.moveCell(clipboard, activeCell);
+      this.clipboard = null;
+      return;
+    }
+
+    const value =
+      this.formulaManager?.translateFormula(
+        clipboard.value,
+        activeCell.row - clipboard.row,
+        activeCell.col - clipboard.col
+      ) ?? clipboard.value;
+    this.sparseMatrix.setCell(activeCell.row, activeCell.col, value);
+    this.updateDisplay();
+    this.needsRender = true;
+    console.log(`✅ Вставлено: "${value}" в ячейку ${activeCell.row},${activeCell.col}`);
+  }
+
+  /**
+   * Перемещение вырезанной ячейки на место активной
+   */
+  private moveCell(
+    source: { sheet: string; row: number; col: number },
+    target: { row: number; col: number }
+  ): void {
+    if (!this.sparseMatrix || (source.row === target.row && source.col === target.col)) {
+      return;
     }
+
+    const { row, col } = source;
+    this.sparseMatrix.moveBlock(row, col, row, col, target.row, target.col);
+    this.calculation?.moveCells(
+      source.sheet,
+      { startRow: row, startCol: col, endRow: row, endCol: col },
+      target.row,
+      target.col
+    );
+
+    this.virtualGrid?.clearCache();
+    this.updateDisplay();
+    this.needsRender = true;
+    console.log(`✅ Ячейка ${row},${col} перемещена в ${target.row},${target.col}`);
+  }
+
+  /**
+   * Заполнение активной ячейки из соседней (Ctrl+D - сверху, Ctrl+R - слева)
+   * со сдвигом относительных ссылок формулы
+   */
+  private fillFromNeighbor(rowOffset: number, colOffset: number): void {
+    const activeCell = this.virtualGrid?.getActiveCell();
+    if (!activeCell || !this.sparseMatrix) {
+      return;
+    }
+
+    const sourceRow = activeCell.row - rowOffset;
+    const sourceCol = activeCell.col - colOffset;
+    if (sourceRow < 0 || sourceCol < 0) {
+      return;
+    }
+
+    const value = this.sparseMatrix.getCell(sourceRow, sourceCol);
+    const filled =
+      typeof value === 'string'
+        ? (this.formulaManager?.translateFormula(value, rowOffset, colOffset) ?? value)
+        : value;
+    this.sparseMatrix.setCell(activeCell.row, activeCell.col, filled);
+    this.updateDisplay();
+    this.needsRender = true;
+    console.log(
+      `✅ Ячейка ${activeCell.row},${activeCell.col} заполнена из ${sourceRow},${sourceCol}`
+    );
   }
 
   /**
@@ -1147,6 +1545,9 @@ export class App {
       case 'copy':
         this.copy();
         break;
+      case 'cut':
+        this.copy(true);
+        break;
       case 'paste':
         this.paste();
         break;
@@ -1162,6 +1563,12 @@ export class App {
       case 'delete-col':
         this.deleteColumn();
         break;
+      case 'move-row':
+        this.moveRow();
+        break;
+      case 'move-col':
+        this.moveColumn();
+        break;
       case 'clear-cell':
         this.clearCell();
         break;
@@ -1171,15 +1578,15 @@ export class App {
   }
 
   /**
-   * Вставка строки
+   * Вставка count строк
    */
-  private insertRow(): void {
+  private insertRow(count = 1): void {
     if (!this.sparseMatrix || !this.operationHistory) return;
 
     // Используем координаты из контекстного меню
     const insertAtRow = this.contextMenuCell ? this.contextMenuCell.row : 0;
 
-    console.log(`➕ Вставка строки на позиции ${insertAtRow}`);
+    console.log(`➕ Вставка ${count} строк на позиции ${insertAtRow}`);
 
     // Собираем данные о затронутых ячейках для отмены
     const affectedCells: Array<{ row: number; col: number; value: any }> = [];
@@ -1197,13 +1604,8 @@ export class App {
       }
     }
 
-    // Вставляем строку в SparseMatrix
-    this.sparseMatrix.insertRow(insertAtRow);
-
-    // Обрабатываем формулы
-    if (this.formulaManager) {
-      this.formulaManager.handleRowInsertion(insertAtRow);
-    }
+    // Вставляем строки и сдвигаем ссылки формул
+    this.shiftLines({ axis: 'rows', shift: { type: 'insert', at: insertAtRow, count } });
 
     // Очищаем кеш VirtualGrid
     if (this.virtualGrid) {
@@ -1215,6 +1617,7 @@ export class App {
       type: 'insert_row',
       data: {
         atRow: insertAtRow,
+        count,
         affectedCells: affectedCells,
       },
       description: `Вставка строки на позиции ${insertAtRow + 1}`,
@@ -1226,15 +1629,15 @@ export class App {
   }
 
   /**
-   * Вставка столбца
+   * Вставка count столбцов
    */
-  private insertColumn(): void {
+  private insertColumn(count = 1): void {
     if (!this.sparseMatrix || !this.operationHistory) return;
 
     // Используем координаты из контекстного меню
     const insertAtCol = this.contextMenuCell ? this.contextMenuCell.col : 0;
 
-    console.log(`➕ Вставка столбца на позиции ${insertAtCol}`);
+    console.log(`➕ Вставка ${count} столбцов на позиции ${insertAtCol}`);
 
     // Собираем данные о затронутых ячейках для отмены
     const affectedCells: Array<{ row: number; col: number; value: any }> = [];
@@ -1252,13 +1655,8 @@ export class App {
       }
     }
 
-    // Вставляем столбец в SparseMatrix
-    this.sparseMatrix.insertColumn(insertAtCol);
-
-    // Обрабатываем формулы
-    if (this.formulaManager) {
-      this.formulaManager.handleColumnInsertion(insertAtCol);
-    }
+    // Вставляем столбцы и сдвигаем ссылки формул
+    this.shiftLines({ axis: 'columns', shift: { type: 'insert', at: insertAtCol, count } });
 
     // Очищаем кеш VirtualGrid
     if (this.virtualGrid) {
@@ -1271,6 +1669,7 @@ export class App {
       type: 'insert_column',
       data: {
         atCol: insertAtCol,
+        count,
         affectedCells: affectedCells,
       },
       description: `Вставка столбца ${columnLetter}`,
@@ -1282,9 +1681,9 @@ export class App {
   }
 
   /**
-   * Удаление строки
+   * Удаление count строк
    */
-  private deleteRow(): void {
+  private deleteRow(count = 1): void {
     if (!this.sparseMatrix || !this.operationHistory) return;
 
     // Используем координаты из контекстного меню
@@ -1304,41 +1703,25 @@ export class App {
     console.log(`🗑️ Удаление строки ${deleteAtRow}`);
 
     // Собираем данные удаляемых ячеек для отмены
-    const deletedCells: Array<{ row: number; col: number; value: any }> = [];
-
-    // Получаем viewport для сбора данных
-    if (this.virtualGrid) {
-      const viewport = this.virtualGrid.getViewport();
-      for (let col = viewport.startCol; col < viewport.endCol; col++) {
-        const value = this.sparseMatrix.getCell(deleteAtRow, col);
-        if (value !== null) {
-          deletedCells.push({ row: deleteAtRow, col, value });
-        }
-      }
-    }
-
-    // Удаляем строку из SparseMatrix
-    this.sparseMatrix.deleteRow(deleteAtRow);
-
-    // Обрабатываем формулы
-    if (this.formulaManager) {
-      this.formulaManager.handleRowDeletion(deleteAtRow);
-    }
-
-    // Очищаем кеш VirtualGrid
-    if (this.virtualGrid) {
-      this.virtualGrid.clearCache();
-    }
+    const deletedCells = this.sparseMatrix.getCellsInRange(
+      deleteAtRow,
+      0,
+      deleteAtRow + count - 1,
+      MAX_COL_INDEX
+    );
 
-    // Сохраняем операцию в историю
+    // Сохраняем операцию в историю и удаляем строки со сдвигом ссылок формул
     this.operationHistory.addOperation({
       type: 'delete_row',
       data: {
         atRow: deleteAtRow,
+        count,
         deletedCells: deletedCells,
+        rewrittenFormulas: [],
       },
       description: `Удаление строки ${deleteAtRow + 1}`,
     });
+    this.applyOperation(this.operationHistory.getState().lastOperation!, false);
 
     // Принудительно перерисовываем
     this.needsRender = true;
@@ -1346,9 +1729,9 @@ export class App {
   }
 
   /**
-   * Удаление столбца
+   * Удаление count столбцов
    */
-  private deleteColumn(): void {
+  private deleteColumn(count = 1): void {
     if (!this.sparseMatrix || !this.operationHistory) return;
 
     // Используем координаты из контекстного меню
@@ -1371,47 +1754,100 @@ export class App {
     console.log(`🗑️ Удаление столбца ${deleteAtCol} (${columnLetter})`);
 
     // Собираем данные удаляемых ячеек для отмены
-    const deletedCells: Array<{ row: number; col: number; value: any }> = [];
-
-    // Получаем viewport для сбора данных
-    if (this.virtualGrid) {
-      const viewport = this.virtualGrid.getViewport();
-      for (let row = viewport.startRow; row < viewport.endRow; row++) {
-        const value = this.sparseMatrix.getCell(row, deleteAtCol);
-        if (value !== null) {
-          deletedCells.push({ row, col: deleteAtCol, value });
-        }
-      }
-    }
-
-    // Удаляем столбец из SparseMatrix
-    this.sparseMatrix.deleteColumn(deleteAtCol);
-
-    // Обрабатываем формулы
-    if (this.formulaManager) {
-      this.formulaManager.handleColumnDeletion(deleteAtCol);
-    }
-
-    // Очищаем кеш VirtualGrid
-    if (this.virtualGrid) {
-      this.virtualGrid.clearCache();
-    }
+    const deletedCells = this.sparseMatrix.getCellsInRange(
+      0,
+      deleteAtCol,
+      MAX_ROW_INDEX,
+      deleteAtCol + count - 1
+    );
 
-    // Сохраняем операцию в историю
+    // Сохраняем операцию в историю и удаляем столбцы со сдвигом ссылок формул
     this.operationHistory.addOperation({
       type: 'delete_column',
       data: {
         atCol: deleteAtCol,
+        count,
         deletedCells: deletedCells,
+        rewrittenFormulas: [],
       },
       description: `Удаление столбца ${columnLetter}`,
     });
+    this.applyOperation(this.operationHistory.getState().lastOperation!, false);
 
     // Принудительно перерисовываем
     this.needsRender = true;
     this.render();
   }
 
+  /**
+   * Перенос строки контекстного меню на место перед указанной строкой
+   */
+  private moveRow(): void {
+    if (!this.sparseMatrix || !this.operationHistory || !this.contextMenuCell) return;
+
+    const atRow = this.contextMenuCell.row;
+    const input = prompt(`Перенести строку ${atRow + 1} перед строкой:`);
+    const toRow = input ? parseInt(input, 10) - 1 : NaN;
+    if (!Number.isInteger(toRow) || toRow < 0 || toRow === atRow || toRow === atRow + 1) return;
+
+    console.log(`↕️ Перенос строки ${atRow} перед строкой ${toRow}`);
+
+    this.shiftLines({ axis: 'rows', shift: { type: 'move', at: atRow, count: 1, to: toRow } });
+    this.virtualGrid?.clearCache();
+
+    this.operationHistory.addOperation({
+      type: 'move_rows',
+      data: { atRow, count: 1, toRow },
+      description: `Перенос строки ${atRow + 1} перед строкой ${toRow + 1}`,
+    });
+
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Перенос столбца контекстного меню на место перед указанным столбцом
+   */
+  private moveColumn(): void {
+    if (!this.sparseMatrix || !this.operationHistory || !this.contextMenuCell) return;
+
+    const atCol = this.contextMenuCell.col;
+    const columnLetter = this.indexToColumnLetter(atCol);
+    const input = prompt(`Перенести столбец ${columnLetter} перед столбцом:`);
+    const letter = input?.trim().toUpperCase() ?? '';
+    const toCol = /^[A-Z]{1,3}$/.test(letter) ? FormulaUtils.columnLetterToIndex(letter) : -1;
+    if (toCol < 0 || toCol === atCol || toCol === atCol + 1) return;
+
+    console.log(`↔️ Перенос столбца ${atCol} перед столбцом ${toCol}`);
+
+    this.shiftLines({ axis: 'columns', shift: { type: 'move', at: atCol, count: 1, to: toCol } });
+    this.virtualGrid?.clearCache();
+
+    this.operationHistory.addOperation({
+      type: 'move_columns',
+      data: { atCol, count: 1, toCol },
+      description: `Перенос столбца ${columnLetter} перед столбцом ${this.indexToColumnLetter(toCol)}`,
+    });
+
+    this.needsRender = true;
+    this.render();
+  }
+
+  /**
+   * Вставка, удаление или перенос строк (столбцов) активного листа; ссылки формул
+   * сдвигаются в потоке вычислений, переписанные формулы возвращаются в лист.
+   * Промис разрешается прежними положением и текстом переписанных формул
+   */
+  private shiftLines({ axis, shift }: StructuralChange): Promise<RewrittenFormula[]> {
+    if (!this.sparseMatrix) return Promise.resolve([]);
+
+    this.sparseMatrix.shiftLines(axis, shift);
+    if (this.calculation && this.workbook) {
+      return this.calculation.shiftLines(this.workbook.getActiveSheet().name, axis, shift);
+    }
+    return Promise.resolve([]);
+  }
+
   /**
    * Очистка ячейки
    */
@@ -1446,7 +1882,7 @@ export class App {
       return;
     }
 
-    // Обработка Undo/Redo
+    // Обработка Undo/Redo, буфера обмена и заполнения
     if (event.ctrlKey || event.metaKey) {
       switch (event.key.toLowerCase()) {
         case 'z':
@@ -1461,6 +1897,26 @@ export class App {
           event.preventDefault();
           this.redo(); // Ctrl+Y для Redo
           return;
+        case 'c':
+          event.preventDefault();
+          this.copy();
+          return;
+        case 'x':
+          event.preventDefault();
+          this.copy(true);
+          return;
+        case 'v':
+          event.preventDefault();
+          this.paste();
+          return;
+        case 'd':
+          event.preventDefault();
+          this.fillFromNeighbor(1, 0); // Ctrl+D - заполнить вниз
+          return;
+        case 'r':
+          event.preventDefault();
+          this.fillFromNeighbor(0, 1); // Ctrl+R - заполнить вправо
+          return;
       }
     }
 
@@ -1589,84 +2045,131 @@ export class App {
   }
 
   /**
-   * Получение значения ячейки для формул
+   * Получение значения ячейки активного листа для формул
    */
   private getCellValue(row: number, col: number): CellValue {
-    if (!this.sparseMatrix) {
+    if (!this.workbook) {
       return { value: null, type: 'empty' };
     }
 
-    const value = this.sparseMatrix.getCell(row, col);
+    // Формулы не вычисляются при рендеринге - берем значение из кэша потока вычислений
+    const sheet = this.workbook.getActiveSheet();
+    const value = sheet.matrix.getCell(row, col);
+    if (typeof value === 'string' && value.startsWith('=')) {
+      return this.calculation?.getCellValue(row, col, sheet.name) ?? { value: null, type: 'empty' };
+    }
 
-    if (value === null) {
-      return { value: null, type: 'empty' };
+    // Значения, перенесенные формулами динамических массивов, не хранятся в листе
+    if (value === null || value === undefined) {
+      return (
+        this.calculation?.getSpillValue(row, col, sheet.name) ?? { value: null, type: 'empty' }
+      );
     }
 
-    // Проверяем, является ли значение формулой
-    if (typeof value === 'string' && value.startsWith('=')) {
-      // Сначала устанавливаем формулу в менеджер, если её там нет
-      if (this.formulaManager) {
-        const existingFormula = this.formulaManager.getFormula(row, col);
-        if (!existingFormula) {
-          this.formulaManager.setFormula(row, col, value);
-        }
-        // Вычисляем формулу
-        const result = this.formulaManager.evaluateFormula(row, col);
-        console.log(
-          `🔍 getCellValue(${row},${col}): формула ${value} -> ${JSON.stringify(result)}`
-        );
+    return this.workbook.getCellValue(row, col);
+  }
 
-        // Отладка для формул в столбце 3
-        if (col === 3 && row >= 5) {
-          console.log(`🔍 ОТЛАДКА ФОРМУЛЫ: ${row},${col} = ${value} -> ${JSON.stringify(result)}`);
-        }
+  /**
+   * Отображаемое значение ячейки: даты и время - в формате локали книги
+   */
+  private formatCellValue(cellValue: CellValue): any {
+    if (cellValue.type !== 'number' || !cellValue.format || !this.workbook) {
+      return cellValue.value; // Возвращаем только значение, не тип
+    }
 
-        return result;
-      }
+    try {
+      const format = DateSerial.formatCode(cellValue.format, this.workbook.getDateLocale());
+      return NumberFormat.format(cellValue.value, format);
+    } catch {
+      // Число вне диапазона дат показывается как есть
+      return cellValue.value;
     }
+  }
 
-    // Обычное значение
-    if (typeof value === 'number') {
-      const result = { value, type: 'number' as const };
-      console.log(`🔍 getCellValue(${row},${col}): число ${value} -> ${JSON.stringify(result)}`);
-      return result;
-    } else if (typeof value === 'string') {
-      // Проверяем, является ли строка числом
-      const numValue = parseFloat(value);
-      if (!isNaN(numValue) && isFinite(numValue)) {
-        const result = { value: numValue, type: 'number' as const };
-        console.log(
-          `🔍 getCellValue(${row},${col}): строка-число ${value} -> ${JSON.stringify(result)}`
-        );
-        return result;
-      } else {
-        const result = { value, type: 'string' as const };
-        console.log(`🔍 getCellValue(${row},${col}): строка ${value} -> ${JSON.stringify(result)}`);
-        return result;
+  /**
+   * Имя активного листа
+   */
+  private getActiveSheetName(): string | undefined {
+    return this.workbook?.getActiveSheet().name;
+  }
+
+  /**
+   * Переключение активного листа
+   */
+  private switchSheet(name: string): void {
+    if (!this.workbook) return;
+
+    this.sparseMatrix = this.workbook.setActiveSheet(name).matrix;
+    console.log(`📄 Активный лист: ${name}`);
+
+    if (this.virtualGrid) {
+      this.virtualGrid.clearCache();
+      const activeCell = this.virtualGrid.getActiveCell();
+      if (activeCell) {
+        this.updateFormulaBar(activeCell);
       }
     }
 
-    return { value: null, type: 'empty' };
+    this.renderSheetTabs();
+    this.needsRender = true;
   }
 
   /**
-   * Получение диапазона ячеек для формул
+   * Добавление нового листа
    */
-  private getCellRange(
-    startRow: number,
-    startCol: number,
-    endRow: number,
-    endCol: number
-  ): CellValue[] {
-    const values: CellValue[] = [];
+  private addSheet(): void {
+    if (!this.workbook) return;
 
-    for (let row = startRow; row <= endRow; row++) {
-      for (let col = startCol; col <= endCol; col++) {
-        values.push(this.getCellValue(row, col));
-      }
+    const sheet = this.workbook.addSheet();
+    this.calculation?.addSheet(sheet.name);
+    this.switchSheet(sheet.name);
+  }
+
+  /**
+   * Переименование листа через диалог
+   */
+  private renameSheet(name: string): void {
+    if (!this.workbook) return;
+
+    const newName = prompt('Новое имя листа', name);
+    if (newName === null || newName === name) return;
+
+    try {
+      this.workbook.renameSheet(name, newName);
+      this.calculation?.renameSheet(name, newName);
+      this.virtualGrid?.clearCache();
+      this.renderSheetTabs();
+      this.needsRender = true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
     }
+  }
 
-    return values;
+  /**
+   * Отрисовка вкладок листов
+   */
+  private renderSheetTabs(): void {
+    const container = document.getElementById('sheet-tabs');
+    if (!container || !this.workbook) return;
+
+    container.innerHTML = '';
+    const activeName = this.getActiveSheetName();
+
+    for (const sheet of this.workbook.getSheets()) {
+      const tab = document.createElement('div');
+      tab.className = sheet.name === activeName ? 'sheet-tab active' : 'sheet-tab';
+      tab.textContent = sheet.name;
+      tab.addEventListener('click', () => this.switchSheet(sheet.name));
+      tab.addEventListener('dblclick', () => this.renameSheet(sheet.name));
+      container.appendChild(tab);
+    }
+
+    const addButton = document.createElement('div');
+    addButton.className = 'sheet-tab';
+    addButton.textContent = '+';
+    addButton.title = 'Добавить лист';
+    addButton.addEventListener('click', () => this.addSheet());
+    container.appendChild(addButton);
   }
 
   /**
@@ -1684,7 +2187,7 @@ export class App {
     console.log(`↶ Отмена операции: ${operation.type}`);
 
     try {
-      this.applyUndoOperation(operation);
+      this.applyOperation(operation, true);
       this.needsRender = true;
       this.render();
     } catch (error) {
@@ -1707,7 +2210,7 @@ export class App {
     console.log(`↷ Повтор операции: ${operation.type}`);
 
     try {
-      this.applyRedoOperation(operation);
+      this.applyOperation(operation, false);
       this.needsRender = true;
       this.render();
     } catch (error) {
@@ -1716,80 +2219,17 @@ export class App {
   }
 
   /**
-   * Применение операции отмены
+   * Выполнение, отмена или повтор операции истории
    */
-  private applyUndoOperation(operation: AnyOperation): void {
-    switch (operation.type) {
-      case 'insert_row':
-        // Отмена вставки строки = удаление строки
-        this.sparseMatrix!.deleteRow(operation.data.atRow);
-        break;
-      case 'delete_row':
-        // Отмена удаления строки = восстановление данных
-        this.sparseMatrix!.insertRow(operation.data.atRow);
-        // Восстанавливаем данные ячеек
-        for (const cell of operation.data.deletedCells) {
-          this.sparseMatrix!.setCell(cell.row, cell.col, cell.value);
-        }
-        break;
-      case 'insert_column':
-        // Отмена вставки столбца = удаление столбца
-        this.sparseMatrix!.deleteColumn(operation.data.atCol);
-        break;
-      case 'delete_column':
-        // Отмена удаления столбца = восстановление данных
-        this.sparseMatrix!.insertColumn(operation.data.atCol);
-        // Восстанавливаем данные ячеек
-        for (const cell of operation.data.deletedCells) {
-          this.sparseMatrix!.setCell(cell.row, cell.col, cell.value);
-        }
-        break;
-      case 'set_cell':
-        // Отмена изменения ячейки = восстановление старого значения
-        this.sparseMatrix!.setCell(operation.data.row, operation.data.col, operation.data.oldValue);
-        break;
-      case 'clear_cell':
-        // Отмена очистки ячейки = восстановление значения
-        this.sparseMatrix!.setCell(operation.data.row, operation.data.col, operation.data.oldValue);
-        break;
-    }
-
-    // Очищаем кеш VirtualGrid после любой операции
-    if (this.virtualGrid) {
-      this.virtualGrid.clearCache();
-    }
-  }
-
-  /**
-   * Применение операции повтора
-   */
-  private applyRedoOperation(operation: AnyOperation): void {
-    switch (operation.type) {
-      case 'insert_row':
-        // Повтор вставки строки
-        this.sparseMatrix!.insertRow(operation.data.atRow);
-        break;
-      case 'delete_row':
-        // Повтор удаления строки
-        this.sparseMatrix!.deleteRow(operation.data.atRow);
-        break;
-      case 'insert_column':
-        // Повтор вставки столбца
-        this.sparseMatrix!.insertColumn(operation.data.atCol);
-        break;
-      case 'delete_column':
-        // Повтор удаления столбца
-        this.sparseMatrix!.deleteColumn(operation.data.atCol);
-        break;
-      case 'set_cell':
-        // Повтор изменения ячейки
-        this.sparseMatrix!.setCell(operation.data.row, operation.data.col, operation.data.newValue);
-        break;
-      case 'clear_cell':
-        // Повтор очистки ячейки
-        this.sparseMatrix!.removeCell(operation.data.row, operation.data.col);
-        break;
-    }
+  private applyOperation(operation: AnyOperation, isUndo: boolean): void {
+    OperationHistory.applyOperation(operation, isUndo, {
+      shiftLines: change => this.shiftLines(change),
+      setCell: (row, col, value, sheet) => {
+        const matrix = sheet ? this.workbook?.getSheet(sheet)?.matrix : this.sparseMatrix;
+        matrix?.setCell(row, col, value);
+      },
+      removeCell: (row, col) => this.sparseMatrix?.removeCell(row, col),
+    });
 
     // Очищаем кеш VirtualGrid после любой операции
     if (this.virtualGrid) {
@@ -0,0 +1,86 @@
+/**
+ * Поиск циклических ссылок - компоненты сильной связности графа формул (алгоритм Тарьяна)
+ */
+
+interface VisitFrame {
+  key: string;
+  successors: Iterator<string>;
+}
+
+export class CycleDetector {
+  /**
+   * Циклы, достижимые из начальных вершин; каждый цикл - список вершин компоненты
+   * @param getSuccessors Вершины, которые зависят от данной (ребра графа)
+   */
+  static findCycles(
+    startKeys: Iterable<string>,
+    getSuccessors: (key: string) => Iterable<string>
+  ): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const selfLoops = new Set<string>();
+    const cycles: string[][] = [];
+    let nextIndex = 0;
+
+    // Обход без рекурсии, чтобы длинные цепочки формул не переполняли стек
+    const frames: VisitFrame[] = [];
+    const visit = (key: string) => {
+      indices.set(key, nextIndex);
+      lowLinks.set(key, nextIndex);
+      nextIndex++;
+      stack.push(key);
+      onStack.add(key);
+      frames.push({ key, successors: getSuccessors(key)[Symbol.iterator]() });
+    };
+
+    for (const start of startKeys) {
+      if (indices.has(start)) {
+        continue;
+      }
+
+      visit(start);
+
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1]!;
+        const next = frame.successors.next();
+
+        if (!next.done) {
+          const successor = next.value;
+          if (successor === frame.key) {
+            selfLoops.add(successor);
+          } else if (!indices.has(successor)) {
+            visit(successor);
+          } else if (onStack.has(successor)) {
+            lowLinks.set(frame.key, Math.min(lowLinks.get(frame.key)!, indices.get(successor)!));
+          }
+          continue;
+        }
+
+        frames.pop();
+        const parent = frames[frames.length - 1];
+        if (parent) {
+          lowLinks.set(parent.key, Math.min(lowLinks.get(parent.key)!, lowLinks.get(frame.key)!));
+        }
+
+        // Вершина - корень компоненты: снимаем компоненту со стека
+        if (lowLinks.get(frame.key) === indices.get(frame.key)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.key);
+
+          if (component.length > 1 || selfLoops.has(frame.key)) {
+            cycles.push(component.reverse());
+          }
+        }
+      }
+    }
+
+    return cycles;
+  }
+}
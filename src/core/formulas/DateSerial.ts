@@ -0,0 +1,270 @@
+/**
+ * Даты и время как серийные числа Excel (система 1900): 1 - 01.01.1900,
+ * дробная часть - доля суток; 29.02.1900 существует (серийный номер 60), как в Excel
+ */
+
+import { FormulaError } from './FormulaErrors.js';
+
+export interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number; // 0 только у серийного номера 0 (00.01.1900)
+}
+
+export interface TimeParts {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Вид отображения числа, полученного из даты или времени
+export type DateFormatKind = 'date' | 'time' | 'datetime';
+
+// Локаль по умолчанию для разбора введенных дат
+export const DEFAULT_DATE_LOCALE = 'ru-RU';
+
+// 31.12.9999 - наибольшая дата
+export const MAX_DATE_SERIAL = 2958465;
+
+const MS_PER_DAY = 86400000;
+const SECONDS_PER_DAY = 86400;
+const EPOCH = Date.UTC(1899, 11, 31);
+// Первый серийный номер после несуществующего 29.02.1900
+const FIRST_SHIFTED_SERIAL = 61;
+
+type DatePart = 'day' | 'month' | 'year';
+
+// Порядок частей даты и разделитель по локали (кэш Intl)
+const localeLayouts = new Map<string, { order: DatePart[]; separator: string }>();
+
+export class DateSerial {
+  /**
+   * Серийный номер даты как в DATE: месяц и день могут выходить за пределы
+   * (DATE(2026,14,0)), год 0-1899 отсчитывается от 1900
+   */
+  static fromParts(year: number, month: number, day: number): number {
+    let fullYear = Math.trunc(year);
+    if (fullYear < 0 || fullYear > 9999) {
+      throw new FormulaError('#NUM!', `Недопустимый год: ${year}`);
+    }
+    if (fullYear < 1900) {
+      fullYear += 1900;
+    }
+
+    // День отсчитывается от первого числа месяца - так DATE(1900,2,29) дает 60
+    const monthStart = Date.UTC(fullYear, Math.trunc(month) - 1, 1);
+    let serial = Math.round((monthStart - EPOCH) / MS_PER_DAY);
+    if (serial >= FIRST_SHIFTED_SERIAL - 1) {
+      serial++;
+    }
+    serial += Math.trunc(day) - 1;
+
+    if (serial < 0 || serial > MAX_DATE_SERIAL) {
+      throw new FormulaError('#NUM!', 'Дата вне допустимого диапазона');
+    }
+    return serial;
+  }
+
+  /**
+   * Год, месяц и день серийного номера (дробная часть отбрасывается)
+   */
+  static toParts(serial: number): DateParts {
+    const day = DateSerial.checkSerial(serial);
+    if (day === 0) {
+      return { year: 1900, month: 1, day: 0 };
+    }
+    if (day === FIRST_SHIFTED_SERIAL - 1) {
+      return { year: 1900, month: 2, day: 29 };
+    }
+
+    const date = new Date(EPOCH + (day < FIRST_SHIFTED_SERIAL ? day : day - 1) * MS_PER_DAY);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+
+  /**
+   * Доля суток для времени; часы и минуты могут выходить за пределы, полные сутки отбрасываются
+   */
+  static fromTime(hour: number, minute: number, second: number): number {
+    const seconds = Math.trunc(hour) * 3600 + Math.trunc(minute) * 60 + Math.trunc(second);
+    if (seconds < 0) {
+      throw new FormulaError('#NUM!', 'Время не может быть отрицательным');
+    }
+    return (seconds % SECONDS_PER_DAY) / SECONDS_PER_DAY;
+  }
+
+  /**
+   * Часы, минуты и секунды серийного номера (с округлением до секунды)
+   */
+  static toTime(serial: number): TimeParts {
+    DateSerial.checkSerial(serial);
+    const seconds = Math.round((serial - Math.floor(serial)) * SECONDS_PER_DAY) % SECONDS_PER_DAY;
+    return {
+      hour: Math.floor(seconds / 3600),
+      minute: Math.floor(seconds / 60) % 60,
+      second: seconds % 60,
+    };
+  }
+
+  /**
+   * Серийный номер момента по местному времени
+   */
+  static fromDate(date: Date): number {
+    const day = DateSerial.fromParts(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    const seconds =
+      date.getHours() * 3600 +
+      date.getMinutes() * 60 +
+      date.getSeconds() +
+      date.getMilliseconds() / 1000;
+    return day + seconds / SECONDS_PER_DAY;
+  }
+
+  /**
+   * День недели серийного номера: 0 - воскресенье ... 6 - суббота
+   * (01.01.1900 - воскресенье, как в Excel)
+   */
+  static weekday(serial: number): number {
+    return (((Math.floor(serial) - 1) % 7) + 7) % 7;
+  }
+
+  /**
+   * Разбор введенной даты и/или времени: "2026-10-19", "19.10.2026" (порядок частей -
+   * по локали), "14:30", "19.10.2026 14:30:05"; без локали - только ISO и время
+   */
+  static parse(text: string, locale?: string): { serial: number; kind: DateFormatKind } | null {
+    const match =
+      /^(?:(\d{1,4})([./-])(\d{1,2})\2(\d{1,4}))?(?:(?:^|[ T]+)(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AaPp][Mm]))?)?$/.exec(
+        text.trim()
+      );
+    if (!match || (!match[1] && !match[5])) {
+      return null;
+    }
+
+    let serial = 0;
+    const [, first, , second, third, hours, minutes, seconds, meridiem] = match;
+
+    if (first && second && third) {
+      let parts: Record<DatePart, string>;
+      if (first.length === 4) {
+        parts = { year: first, month: second, day: third };
+      } else if (locale !== undefined) {
+        const { order } = DateSerial.getLayout(locale);
+        const values = [first, second, third];
+        parts = {
+          day: values[order.indexOf('day')]!,
+          month: values[order.indexOf('month')]!,
+          year: values[order.indexOf('year')]!,
+        };
+      } else {
+        return null;
+      }
+
+      const year = DateSerial.expandYear(parts.year);
+      const month = Number(parts.month);
+      const day = Number(parts.day);
+      if (year === null || month < 1 || month > 12 || day < 1 || day > 31) {
+        return null;
+      }
+
+      // Несуществующий день (31.04) не является датой
+      serial = DateSerial.fromParts(year, month, day);
+      const parsed = DateSerial.toParts(serial);
+      if (parsed.month !== month || parsed.day !== day) {
+        return null;
+      }
+    }
+
+    if (hours === undefined) {
+      return { serial, kind: 'date' };
+    }
+
+    let hour = Number(hours);
+    const minute = Number(minutes);
+    const secondValue = Number(seconds ?? 0);
+    if (meridiem) {
+      if (hour < 1 || hour > 12) {
+        return null;
+      }
+      hour = (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+    }
+    if (hour > 23 || minute > 59 || secondValue > 59) {
+      return null;
+    }
+
+    return {
+      serial: serial + DateSerial.fromTime(hour, minute, secondValue),
+      kind: first ? 'datetime' : 'time',
+    };
+  }
+
+  /**
+   * Код формата для отображения даты или времени в локали ("dd.mm.yyyy hh:mm")
+   */
+  static formatCode(kind: DateFormatKind, locale: string = DEFAULT_DATE_LOCALE): string {
+    const { order, separator } = DateSerial.getLayout(locale);
+    const codes: Record<DatePart, string> = { day: 'dd', month: 'mm', year: 'yyyy' };
+    const date = order.map(part => codes[part]).join(separator);
+
+    switch (kind) {
+      case 'date':
+        return date;
+      case 'time':
+        return 'hh:mm';
+      case 'datetime':
+        return `${date} hh:mm`;
+    }
+  }
+
+  /**
+   * Проверка, поддерживается ли локаль для разбора дат
+   */
+  static isSupportedLocale(locale: string): boolean {
+    try {
+      return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Целая часть серийного номера в допустимом диапазоне
+   */
+  private static checkSerial(serial: number): number {
+    if (!(serial >= 0 && serial < MAX_DATE_SERIAL + 1)) {
+      throw new FormulaError('#NUM!', `Недопустимая дата: ${serial}`);
+    }
+    return Math.floor(serial);
+  }
+
+  /**
+   * Год из введенного текста: две цифры 00-29 - 2000-е, 30-99 - 1900-е
+   */
+  private static expandYear(text: string): number | null {
+    const year = Number(text);
+    if (text.length <= 2) {
+      return year < 30 ? 2000 + year : 1900 + year;
+    }
+    return year >= 1900 && year <= 9999 ? year : null;
+  }
+
+  /**
+   * Порядок частей даты и разделитель в локали
+   */
+  private static getLayout(locale: string): { order: DatePart[]; separator: string } {
+    let layout = localeLayouts.get(locale);
+    if (!layout) {
+      const parts = new Intl.DateTimeFormat(locale, {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      }).formatToParts(new Date(2000, 0, 2));
+
+      const order = parts
+        .map(part => part.type)
+        .filter((type): type is DatePart => type === 'day' || type === 'month' || type === 'year');
+      const separator = parts.find(part => part.type === 'literal')?.value.trim() || '.';
+      layout = { order, separator };
+      localeLayouts.set(locale, layout);
+    }
+    return layout;
+  }
+}
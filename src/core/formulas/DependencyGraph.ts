@@ -0,0 +1,221 @@
+/**
+ * Граф зависимостей формул - пространственный индекс областей, на которые ссылаются формулы
+ */
+
+import { FormulaUtils } from './FormulaAST.js';
+
+/**
+ * Прямоугольная область листа, от которой зависит формула (ячейка - область 1x1)
+ */
+export interface DependencyArea {
+  sheet: string;
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+interface IndexEntry {
+  formulaKey: string;
+  area: DependencyArea;
+}
+
+interface SheetIndex {
+  buckets: Map<string, Set<IndexEntry>>; // "bucketRow_bucketCol" -> области, пересекающие корзину
+  largeAreas: Set<IndexEntry>; // Области, покрывающие слишком много корзин (A:A, 1:1)
+}
+
+// Размер корзины сетки и порог, после которого область хранится в общем списке
+const BUCKET_SIZE = 128;
+const MAX_BUCKETS_PER_AREA = 64;
+
+export class DependencyGraph {
+  private sheets: Map<string, SheetIndex> = new Map(); // ЛИСТ -> индекс
+  private entries: Map<string, IndexEntry[]> = new Map(); // Ключ формулы -> ее области
+
+  /**
+   * Установка областей, от которых зависит формула (заменяет предыдущие)
+   */
+  setPrecedents(formulaKey: string, areas: DependencyArea[]): void {
+    this.removeFormula(formulaKey);
+
+    if (areas.length === 0) {
+      return;
+    }
+
+    const entries = areas.map(area => ({ formulaKey, area: this.normalizeArea(area) }));
+    for (const entry of entries) {
+      this.forEachBucket(entry, (bucket, index) => {
+        if (bucket) {
+          let set = index.buckets.get(bucket);
+          if (!set) {
+            set = new Set();
+            index.buckets.set(bucket, set);
+          }
+          set.add(entry);
+        } else {
+          index.largeAreas.add(entry);
+        }
+      });
+    }
+
+    this.entries.set(formulaKey, entries);
+  }
+
+  /**
+   * Удаление формулы из графа
+   */
+  removeFormula(formulaKey: string): void {
+    const entries = this.entries.get(formulaKey);
+    if (!entries) {
+      return;
+    }
+
+    for (const entry of entries) {
+      this.forEachBucket(entry, (bucket, index) => {
+        if (bucket) {
+          const set = index.buckets.get(bucket);
+          set?.delete(entry);
+          if (set?.size === 0) {
+            index.buckets.delete(bucket);
+          }
+        } else {
+          index.largeAreas.delete(entry);
+        }
+      });
+    }
+
+    this.entries.delete(formulaKey);
+  }
+
+  /**
+   * Области, от которых зависит формула
+   */
+  getPrecedents(formulaKey: string): DependencyArea[] {
+    return (this.entries.get(formulaKey) ?? []).map(entry => entry.area);
+  }
+
+  /**
+   * Формулы, которые ссылаются на ячейку (включая ячейки с обычными значениями)
+   */
+  getDependents(sheet: string, row: number, col: number): Set<string> {
+    const result = new Set<string>();
+    const index = this.sheets.get(FormulaUtils.normalizeSheetName(sheet));
+    if (!index) {
+      return result;
+    }
+
+    const bucket = this.getBucketKey(Math.floor(row / BUCKET_SIZE), Math.floor(col / BUCKET_SIZE));
+    const candidates = [index.buckets.get(bucket) ?? [], index.largeAreas];
+
+    for (const set of candidates) {
+      for (const entry of set) {
+        if (this.contains(entry.area, row, col)) {
+          result.add(entry.formulaKey);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Очистка графа
+   */
+  clear(): void {
+    this.sheets.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Статистика графа
+   */
+  getStats(): { formulas: number; areas: number; rangeAreas: number; largeAreas: number } {
+    let areas = 0;
+    let rangeAreas = 0;
+    for (const entries of this.entries.values()) {
+      areas += entries.length;
+      rangeAreas += entries.filter(({ area }) => !this.isSingleCell(area)).length;
+    }
+
+    let largeAreas = 0;
+    for (const index of this.sheets.values()) {
+      largeAreas += index.largeAreas.size;
+    }
+
+    return { formulas: this.entries.size, areas, rangeAreas, largeAreas };
+  }
+
+  /**
+   * Обход корзин области; bucket = null означает список больших областей
+   */
+  private forEachBucket(
+    entry: IndexEntry,
+    callback: (bucket: string | null, index: SheetIndex) => void
+  ): void {
+    const index = this.getSheetIndex(entry.area.sheet);
+    const { startRow, startCol, endRow, endCol } = entry.area;
+
+    const firstRow = Math.floor(startRow / BUCKET_SIZE);
+    const lastRow = Math.floor(endRow / BUCKET_SIZE);
+    const firstCol = Math.floor(startCol / BUCKET_SIZE);
+    const lastCol = Math.floor(endCol / BUCKET_SIZE);
+
+    if ((lastRow - firstRow + 1) * (lastCol - firstCol + 1) > MAX_BUCKETS_PER_AREA) {
+      callback(null, index);
+      return;
+    }
+
+    for (let bucketRow = firstRow; bucketRow <= lastRow; bucketRow++) {
+      for (let bucketCol = firstCol; bucketCol <= lastCol; bucketCol++) {
+        callback(this.getBucketKey(bucketRow, bucketCol), index);
+      }
+    }
+  }
+
+  /**
+   * Получение (или создание) индекса листа
+   */
+  private getSheetIndex(sheet: string): SheetIndex {
+    let index = this.sheets.get(sheet);
+    if (!index) {
+      index = { buckets: new Map(), largeAreas: new Set() };
+      this.sheets.set(sheet, index);
+    }
+    return index;
+  }
+
+  /**
+   * Приведение области к нормализованному имени листа и упорядоченным границам
+   */
+  private normalizeArea(area: DependencyArea): DependencyArea {
+    return {
+      sheet: FormulaUtils.normalizeSheetName(area.sheet),
+      startRow: Math.min(area.startRow, area.endRow),
+      startCol: Math.min(area.startCol, area.endCol),
+      endRow: Math.max(area.startRow, area.endRow),
+      endCol: Math.max(area.startCol, area.endCol),
+    };
+  }
+
+  /**
+   * Проверка попадания ячейки в область
+   */
+  private contains(area: DependencyArea, row: number, col: number): boolean {
+    return row >= area.startRow && row <= area.endRow && col >= area.startCol && col <= area.endCol;
+  }
+
+  /**
+   * Проверка, что область состоит из одной ячейки
+   */
+  private isSingleCell(area: DependencyArea): boolean {
+    return area.startRow === area.endRow && area.startCol === area.endCol;
+  }
+
+  /**
+   * Ключ корзины сетки
+   */
+  private getBucketKey(bucketRow: number, bucketCol: number): string {
+    return `${bucketRow}_${bucketCol}`;
+  }
+}
@@ -2,12 +2,20 @@
  * AST (Abstract Syntax Tree) для формул Excel
  */
 
+import type { FormulaErrorCode } from './FormulaErrors.js';
+
+// Последние индексы строки и столбца листа (1048576 строк, столбцы до XFD)
+export const MAX_ROW_INDEX = 1048575;
+export const MAX_COL_INDEX = 16383;
+
 export interface CellReference {
   type: 'cell';
   row: number;
   col: number;
   absoluteRow?: boolean;
   absoluteCol?: boolean;
+  sheet?: string; // Лист ссылки (Sheet2!A1), по умолчанию - лист формулы
+  spill?: boolean; // Ссылка на область переноса массива формулы ячейки (A1#)
 }
 
 export interface CellRange {
@@ -20,6 +28,24 @@ export interface CellRange {
   absoluteStartCol?: boolean;
   absoluteEndRow?: boolean;
   absoluteEndCol?: boolean;
+  sheet?: string; // Лист диапазона или первый лист 3D-диапазона
+  endSheet?: string; // Последний лист 3D-диапазона (Sheet1:Sheet3!A1)
+  // Неограниченный диапазон: 'column' - A:A, 'row' - 1:1, 'open' - A2:A (до конца листа)
+  extent?: 'column' | 'row' | 'open';
+}
+
+/**
+ * Структурное изменение строк или столбцов листа: вставка count штук перед at,
+ * удаление count штук начиная с at или перенос count штук, начиная с at, на место перед to
+ */
+export type AxisShift =
+  | { type: 'insert'; at: number; count: number }
+  | { type: 'delete'; at: number; count: number }
+  | { type: 'move'; at: number; count: number; to: number };
+
+export interface NameReference {
+  type: 'name';
+  name: string; // Имя в том виде, как оно записано в формуле
 }
 
 export interface NumberLiteral {
@@ -32,6 +58,23 @@ export interface StringLiteral {
   value: string;
 }
 
+export interface BooleanLiteral {
+  type: 'boolean';
+  value: boolean;
+}
+
+export interface ErrorLiteral {
+  type: 'error';
+  value: FormulaErrorCode;
+}
+
+/**
+ * Пропущенный аргумент функции: IF(A1,,1), XLOOKUP(A1,B:B,C:C,,0)
+ */
+export interface MissingArgument {
+  type: 'missing';
+}
+
 export interface FunctionCall {
   type: 'function';
   name: string;
@@ -40,7 +83,7 @@ export interface FunctionCall {
 
 export interface BinaryOperation {
   type: 'binary';
-  operator: '+' | '-' | '*' | '/' | '^' | '=' | '<' | '>' | '<=' | '>=' | '<>';
+  operator: '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<' | '>' | '<=' | '>=' | '<>';
   left: FormulaNode;
   right: FormulaNode;
 }
@@ -51,20 +94,73 @@ export interface UnaryOperation {
   operand: FormulaNode;
 }
 
+export interface LetBinding {
+  name: string; // Имя в том виде, как оно записано в формуле
+  value: FormulaNode;
+}
+
+/**
+ * LET(имя, значение, ..., выражение) - выражение с локальными именами
+ */
+export interface LetExpression {
+  type: 'let';
+  bindings: LetBinding[];
+  body: FormulaNode;
+}
+
+/**
+ * LAMBDA(параметр, ..., выражение) - функция, которая вызывается позже
+ */
+export interface LambdaExpression {
+  type: 'lambda';
+  params: string[];
+  body: FormulaNode;
+}
+
+/**
+ * Вызов функции, заданной выражением: LAMBDA(x,x+1)(5)
+ */
+export interface LambdaCall {
+  type: 'call';
+  callee: FormulaNode;
+  args: FormulaNode[];
+}
+
 export type FormulaNode =
   | CellReference
   | CellRange
+  | NameReference
   | NumberLiteral
   | StringLiteral
+  | BooleanLiteral
+  | ErrorLiteral
   | FunctionCall
   | BinaryOperation
-  | UnaryOperation;
+  | UnaryOperation
+  | LetExpression
+  | LambdaExpression
+  | LambdaCall
+  | MissingArgument;
+
+/**
+ * Положение узла в тексте формулы (включая начальный =): [start, end)
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
 
 export interface FormulaAST {
   root: FormulaNode;
   originalFormula: string;
+  // Положения ссылок в originalFormula - позволяют переписать ссылки, не меняя остальной текст
+  spans?: Map<FormulaNode, SourceSpan>;
 }
 
+// Имена листов, которые можно писать в формуле без кавычек
+const UNQUOTED_SHEET_NAME_PATTERN = /^[\p{L}_][\p{L}\p{N}_.]*$/u;
+const CELL_LIKE_PATTERN = /^[A-Za-z]{1,3}\d+$/;
+
 /**
  * Утилиты для работы с формулами
  */
@@ -115,7 +211,7 @@ export class FormulaUtils {
   }
 
   /**
-   * Парсинг диапазона ячеек (A1:B2, $A$1:$B$2)
+   * Парсинг диапазона ячеек (A1:B2, $A$1:$B$2, A:A, 1:1, A2:A)
    */
   static parseCellRange(range: string): CellRange {
     const [startRef, endRef] = range.split(':');
@@ -123,22 +219,142 @@ export class FormulaUtils {
       throw new Error(`Неверный диапазон ячеек: ${range}`);
     }
 
-    const start = this.parseCellReference(startRef);
-    const end = this.parseCellReference(endRef);
+    const start = this.parseRangeEndpoint(startRef);
+    const end = this.parseRangeEndpoint(endRef);
+    if (!start || !end) {
+      throw new Error(`Неверный диапазон ячеек: ${range}`);
+    }
+
+    const base = {
+      type: 'range' as const,
+      absoluteStartRow: start.absoluteRow,
+      absoluteStartCol: start.absoluteCol,
+      absoluteEndRow: end.absoluteRow,
+      absoluteEndCol: end.absoluteCol,
+    };
+
+    // A1:B2
+    if (start.row !== undefined && start.col !== undefined) {
+      if (end.row !== undefined && end.col !== undefined) {
+        return {
+          ...base,
+          startRow: start.row,
+          startCol: start.col,
+          endRow: end.row,
+          endCol: end.col,
+        };
+      }
+
+      // A2:A - от строки до конца листа
+      if (end.col !== undefined) {
+        return {
+          ...base,
+          startRow: start.row,
+          startCol: start.col,
+          endRow: MAX_ROW_INDEX,
+          endCol: end.col,
+          extent: 'open',
+        };
+      }
+    }
+
+    // A:A, B:D - столбцы целиком
+    if (
+      start.row === undefined &&
+      end.row === undefined &&
+      start.col !== undefined &&
+      end.col !== undefined
+    ) {
+      return {
+        ...base,
+        startRow: 0,
+        startCol: start.col,
+        endRow: MAX_ROW_INDEX,
+        endCol: end.col,
+        extent: 'column',
+      };
+    }
+
+    // 1:1, 2:5 - строки целиком
+    if (
+      start.col === undefined &&
+      end.col === undefined &&
+      start.row !== undefined &&
+      end.row !== undefined
+    ) {
+      return {
+        ...base,
+        startRow: start.row,
+        startCol: 0,
+        endRow: end.row,
+        endCol: MAX_COL_INDEX,
+        extent: 'row',
+      };
+    }
+
+    throw new Error(`Неверный диапазон ячеек: ${range}`);
+  }
+
+  /**
+   * Парсинг конца диапазона: ячейка (A1), только столбец (A) или только строка (1)
+   */
+  private static parseRangeEndpoint(ref: string): {
+    row?: number;
+    col?: number;
+    absoluteRow: boolean;
+    absoluteCol: boolean;
+  } | null {
+    const match = ref.match(/^(\$?)([A-Z]*)(\$?)(\d*)$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, dollarCol = '', colLetter = '', dollarRow = '', rowStr = ''] = match;
+    // Знак $ относится к столбцу, только если за ним есть буквы
+    const hasCol = colLetter.length > 0;
+    const hasRow = rowStr.length > 0;
+    if ((!hasCol && !hasRow) || (!hasCol && dollarRow === '$' && dollarCol === '$')) {
+      return null;
+    }
+    if (hasRow && parseInt(rowStr, 10) < 1) {
+      return null;
+    }
 
     return {
-      type: 'range',
-      startRow: start.row,
-      startCol: start.col,
-      endRow: end.row,
-      endCol: end.col,
-      absoluteStartRow: start.absoluteRow || false,
-      absoluteStartCol: start.absoluteCol || false,
-      absoluteEndRow: end.absoluteRow || false,
-      absoluteEndCol: end.absoluteCol || false,
+      ...(hasCol ? { col: this.columnLetterToIndex(colLetter) } : {}),
+      ...(hasRow ? { row: parseInt(rowStr, 10) - 1 } : {}),
+      absoluteCol: hasCol && dollarCol === '$',
+      absoluteRow: hasRow && (dollarRow === '$' || (!hasCol && dollarCol === '$')),
     };
   }
 
+  /**
+   * Нормализация имени листа для сравнения (имена листов не зависят от регистра)
+   */
+  static normalizeSheetName(name: string): string {
+    return name.toUpperCase();
+  }
+
+  /**
+   * Форматирование префикса листа (Sheet2!, 'My Sheet'!, Sheet1:Sheet3!)
+   */
+  static formatSheetPrefix(sheet?: string, endSheet?: string): string {
+    if (!sheet) {
+      return '';
+    }
+
+    const names = endSheet ? [sheet, endSheet] : [sheet];
+    const needsQuotes = names.some(
+      name => !UNQUOTED_SHEET_NAME_PATTERN.test(name) || CELL_LIKE_PATTERN.test(name)
+    );
+
+    if (needsQuotes) {
+      return `'${names.join(':').replace(/'/g, "''")}'!`;
+    }
+
+    return `${names.join(':')}!`;
+  }
+
   /**
    * Форматирование ссылки на ячейку
    */
@@ -149,7 +365,9 @@ export class FormulaUtils {
     const colPrefix = cell.absoluteCol ? '$' : '';
     const rowPrefix = cell.absoluteRow ? '$' : '';
 
-    return `${colPrefix}${colLetter}${rowPrefix}${rowNum}`;
+    const spillSuffix = cell.spill ? '#' : '';
+
+    return `${this.formatSheetPrefix(cell.sheet)}${colPrefix}${colLetter}${rowPrefix}${rowNum}${spillSuffix}`;
   }
 
   /**
@@ -172,122 +390,162 @@ export class FormulaUtils {
       absoluteCol: range.absoluteEndCol || false,
     };
 
-    return `${this.formatCellReference(startRef)}:${this.formatCellReference(endRef)}`;
+    const sheetPrefix = this.formatSheetPrefix(range.sheet, range.endSheet);
+    const column = (col: number, absolute?: boolean) =>
+      `${absolute ? '$' : ''}${this.indexToColumnLetter(col)}`;
+    const row = (index: number, absolute?: boolean) => `${absolute ? '$' : ''}${index + 1}`;
+
+    switch (range.extent) {
+      case 'column':
+        return `${sheetPrefix}${column(range.startCol, range.absoluteStartCol)}:${column(range.endCol, range.absoluteEndCol)}`;
+      case 'row':
+        return `${sheetPrefix}${row(range.startRow, range.absoluteStartRow)}:${row(range.endRow, range.absoluteEndRow)}`;
+      case 'open':
+        return `${sheetPrefix}${this.formatCellReference(startRef)}:${column(range.endCol, range.absoluteEndCol)}`;
+    }
+
+    const startText = this.formatCellReference(startRef);
+    const endText = this.formatCellReference(endRef);
+
+    // 3D-ссылка на одну ячейку (Sheet1:Sheet3!A1) хранится как диапазон из одной ячейки
+    if (range.endSheet && startText === endText) {
+      return `${sheetPrefix}${startText}`;
+    }
+
+    return `${sheetPrefix}${startText}:${endText}`;
   }
 
   /**
-   * Сдвиг ссылки на ячейку при операциях со строками/столбцами
+   * Сдвиг ссылки на ячейку: rowOffset и colOffset меняют только относительные части,
+   * изменения строк и столбцов листа сдвигают и абсолютные; null - ячейка удалена.
+   * Ссылка без изменений возвращается как есть
    */
   static shiftCellReference(
     cell: CellReference,
     rowOffset: number,
     colOffset: number,
-    insertRow?: number,
-    insertCol?: number,
-    deleteRow?: number,
-    deleteCol?: number
-  ): CellReference {
-    let newRow = cell.row;
-    let newCol = cell.col;
-
-    // Обрабатываем абсолютные ссылки
-    if (!cell.absoluteRow) {
-      // Обрабатываем вставку строки
-      if (insertRow !== undefined && cell.row >= insertRow) {
-        newRow += 1;
-      }
-
-      // Обрабатываем удаление строки
-      if (deleteRow !== undefined) {
-        if (newRow > deleteRow) {
-          newRow -= 1;
-        } else if (newRow === deleteRow) {
-          // Ячейка была удалена - возвращаем ошибку
-          throw new Error(`Ссылка на удаленную ячейку: ${this.formatCellReference(cell)}`);
-        }
-      }
-
-      // Применяем общий сдвиг строки
-      newRow += rowOffset;
+    rowShift?: AxisShift,
+    colShift?: AxisShift
+  ): CellReference | null {
+    const rows = this.shiftBounds(cell.row, cell.row, rowShift);
+    const cols = this.shiftBounds(cell.col, cell.col, colShift);
+    if (!rows || !cols) {
+      return null;
     }
 
-    if (!cell.absoluteCol) {
-      // Обрабатываем вставку столбца
-      if (insertCol !== undefined && cell.col >= insertCol) {
-        newCol += 1;
-      }
-
-      // Обрабатываем удаление столбца
-      if (deleteCol !== undefined) {
-        if (newCol > deleteCol) {
-          newCol -= 1;
-        } else if (newCol === deleteCol) {
-          // Ячейка была удалена - возвращаем ошибку
-          throw new Error(`Ссылка на удаленную ячейку: ${this.formatCellReference(cell)}`);
-        }
-      }
+    const row = cell.absoluteRow ? rows[0] : rows[0] + rowOffset;
+    const col = cell.absoluteCol ? cols[0] : cols[0] + colOffset;
+    return row === cell.row && col === cell.col ? cell : { ...cell, row, col };
+  }
 
-      // Применяем общий сдвиг столбца
-      newCol += colOffset;
+  /**
+   * Перенос ссылки при копировании формулы на rowOffset строк и colOffset столбцов:
+   * сдвигаются только относительные части; null - ссылка вышла за пределы листа
+   */
+  static translateReference(
+    reference: CellReference | CellRange,
+    rowOffset: number,
+    colOffset: number
+  ): CellReference | CellRange | null {
+    const isInside = (row: number, col: number) =>
+      row >= 0 && row <= MAX_ROW_INDEX && col >= 0 && col <= MAX_COL_INDEX;
+
+    if (reference.type === 'cell') {
+      const cell = this.shiftCellReference(reference, rowOffset, colOffset);
+      return cell && isInside(cell.row, cell.col) ? cell : null;
     }
 
-    return {
-      ...cell,
-      row: newRow,
-      col: newCol,
-    };
+    const range = this.shiftCellRange(reference, rowOffset, colOffset);
+    return range && isInside(range.startRow, range.startCol) && isInside(range.endRow, range.endCol)
+      ? range
+      : null;
   }
 
   /**
-   * Сдвиг диапазона ячеек
+   * Сдвиг диапазона ячеек: вставка внутрь диапазона расширяет его, удаление крайних
+   * или внутренних строк (столбцов) сужает; null - удалены все строки или столбцы диапазона
    */
   static shiftCellRange(
     range: CellRange,
     rowOffset: number,
     colOffset: number,
-    insertRow?: number,
-    insertCol?: number,
-    deleteRow?: number,
-    deleteCol?: number
-  ): CellRange {
-    const start = this.shiftCellReference(
-      {
-        type: 'cell',
-        row: range.startRow,
-        col: range.startCol,
-        absoluteRow: range.absoluteStartRow || false,
-        absoluteCol: range.absoluteStartCol || false,
-      },
-      rowOffset,
-      colOffset,
-      insertRow,
-      insertCol,
-      deleteRow,
-      deleteCol
-    );
+    rowShift?: AxisShift,
+    colShift?: AxisShift
+  ): CellRange | null {
+    // У столбцов целиком не меняются строки, у строк целиком - столбцы,
+    // а открытый диапазон (A2:A) всегда продолжается до конца листа
+    const fixedRows = range.extent === 'column';
+    const fixedCols = range.extent === 'row';
+    const fixedEndRow = fixedRows || range.extent === 'open';
+
+    const rows = this.shiftBounds(range.startRow, range.endRow, fixedRows ? undefined : rowShift);
+    const cols = this.shiftBounds(range.startCol, range.endCol, fixedCols ? undefined : colShift);
+    if (!rows || !cols) {
+      return null;
+    }
 
-    const end = this.shiftCellReference(
-      {
-        type: 'cell',
-        row: range.endRow,
-        col: range.endCol,
-        absoluteRow: range.absoluteEndRow || false,
-        absoluteCol: range.absoluteEndCol || false,
-      },
-      rowOffset,
-      colOffset,
-      insertRow,
-      insertCol,
-      deleteRow,
-      deleteCol
-    );
+    const startRow = fixedRows || range.absoluteStartRow ? rows[0] : rows[0] + rowOffset;
+    const startCol = fixedCols || range.absoluteStartCol ? cols[0] : cols[0] + colOffset;
+    const endRow = fixedEndRow
+      ? range.endRow
+      : range.absoluteEndRow
+        ? rows[1]
+        : rows[1] + rowOffset;
+    const endCol = fixedCols || range.absoluteEndCol ? cols[1] : cols[1] + colOffset;
+
+    const isSame =
+      startRow === range.startRow &&
+      startCol === range.startCol &&
+      endRow === range.endRow &&
+      endCol === range.endCol;
+    return isSame ? range : { ...range, startRow, startCol, endRow, endCol };
+  }
 
-    return {
-      ...range,
-      startRow: start.row,
-      startCol: start.col,
-      endRow: end.row,
-      endCol: end.col,
-    };
+  /**
+   * Новая позиция строки (столбца) после структурного изменения; null - удалена
+   */
+  static shiftIndex(index: number, shift?: AxisShift): number | null {
+    return this.shiftBounds(index, index, shift)?.[0] ?? null;
+  }
+
+  /**
+   * Границы строк (столбцов) ссылки после структурного изменения;
+   * null - удалены все строки (столбцы) ссылки
+   */
+  private static shiftBounds(
+    start: number,
+    end: number,
+    shift?: AxisShift
+  ): [number, number] | null {
+    if (!shift) {
+      return [start, end];
+    }
+
+    const { at, count } = shift;
+    switch (shift.type) {
+      case 'insert':
+        return [start >= at ? start + count : start, end >= at ? end + count : end];
+
+      case 'delete': {
+        // Удаленные первые строки заменяются следующими, удаленные последние - предыдущими
+        const newStart = start >= at + count ? start - count : Math.min(start, at);
+        const newEnd = end >= at + count ? end - count : end >= at ? at - 1 : end;
+        return newStart <= newEnd ? [newStart, newEnd] : null;
+      }
+
+      case 'move': {
+        // Ссылка внутри переносимого блока переносится вместе с ним
+        const target = shift.to > at ? shift.to - count : shift.to;
+        if (start >= at && end < at + count) {
+          return [start + target - at, end + target - at];
+        }
+
+        // Остальные сдвигаются так, будто блок удалили и вставили на новое место
+        const remaining = this.shiftBounds(start, end, { type: 'delete', at, count });
+        return remaining
+          ? this.shiftBounds(remaining[0], remaining[1], { type: 'insert', at: target, count })
+          : null;
+      }
+    }
   }
 }
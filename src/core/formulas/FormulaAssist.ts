@@ -0,0 +1,263 @@
+/**
+ * Подсказки при вводе формулы: автодополнение функций и имен, подсказка аргументов,
+ * парные скобки. Текст разбирается терпимо - незавершенная формула не считается ошибкой
+ */
+
+import { FormulaLexer, FormulaToken, ParseError } from './FormulaLexer.js';
+import {
+  ArgumentKind,
+  FunctionArgument,
+  FunctionDefinition,
+  FunctionRegistry,
+  MAX_FUNCTION_ARGUMENTS,
+} from './FunctionRegistry.js';
+
+export interface FormulaSuggestion {
+  kind: 'function' | 'name';
+  label: string;
+  detail: string; // Описание функции или то, на что ссылается имя
+}
+
+export interface FormulaSignature {
+  name: string;
+  params: string[]; // Необязательные параметры - в квадратных скобках, ... - повторение
+  activeParam: number; // -1 - аргументов больше, чем принимает функция
+  description: string;
+}
+
+export interface FormulaAssistState {
+  // Заменяемый при автодополнении фрагмент текста: [replaceStart, replaceEnd)
+  replaceStart: number;
+  replaceEnd: number;
+  suggestions: FormulaSuggestion[];
+  signature: FormulaSignature | null;
+  brackets: { open: number; close: number } | null; // Пара скобок рядом с курсором
+  unmatched: number[]; // Позиции скобок без пары
+}
+
+// Наибольшее число вариантов автодополнения
+const MAX_SUGGESTIONS = 10;
+
+// Начало имени функции или определенного имени (без $ - это ссылка)
+const WORD_PREFIX_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+// Названия параметров по виду аргумента
+const PARAMETER_LABELS: Record<ArgumentKind, string> = {
+  value: 'значение',
+  lazy: 'значение',
+  range: 'диапазон',
+  reference: 'ссылка',
+  array: 'массив',
+  lambda: 'функция',
+};
+
+export class FormulaAssist {
+  private static lexer = new FormulaLexer();
+
+  /**
+   * Подсказки для текста поля ввода и положения курсора; не формула - без подсказок
+   */
+  static analyze(
+    text: string,
+    caret: number,
+    functions: FunctionDefinition<FunctionArgument[]>[],
+    names: Array<{ name: string; refersTo: string }>
+  ): FormulaAssistState {
+    const state: FormulaAssistState = {
+      replaceStart: caret,
+      replaceEnd: caret,
+      suggestions: [],
+      signature: null,
+      brackets: null,
+      unmatched: [],
+    };
+    if (!text.startsWith('=') || caret < 1) {
+      return state;
+    }
+
+    const tokens = this.tokenize(text);
+    const before = tokens.filter(token => token.end <= caret);
+
+    // Слово, которое набирается перед курсором
+    const word = before[before.length - 1];
+    const previous = before[before.length - 2];
+    if (
+      word &&
+      word.end === caret &&
+      (word.type === 'identifier' || word.type === 'reference') &&
+      WORD_PREFIX_PATTERN.test(word.value) &&
+      previous?.type !== 'sheet'
+    ) {
+      state.replaceStart = word.position;
+      state.replaceEnd = word.end;
+      state.suggestions = this.getSuggestions(word.value, functions, names);
+    }
+
+    state.signature = this.getSignature(before, functions);
+    Object.assign(state, this.matchBrackets(tokens, caret));
+    return state;
+  }
+
+  /**
+   * Текст после выбора варианта: имя функции дополняется открывающей скобкой
+   */
+  static applySuggestion(
+    text: string,
+    state: FormulaAssistState,
+    suggestion: FormulaSuggestion
+  ): { text: string; caret: number } {
+    const rest = text.slice(state.replaceEnd);
+    const hasParen = rest.trimStart().startsWith('(');
+    const insert =
+      suggestion.kind === 'function' && !hasParen ? `${suggestion.label}(` : suggestion.label;
+
+    return {
+      text: text.slice(0, state.replaceStart) + insert + rest,
+      caret: state.replaceStart + insert.length,
+    };
+  }
+
+  /**
+   * Параметры функции по числу и видам аргументов: значение1, [значение2], ...
+   */
+  static getParameters(definition: FunctionDefinition<FunctionArgument[]>): string[] {
+    const isVariadic = definition.maxArgs === MAX_FUNCTION_ARGUMENTS;
+    const count = isVariadic ? Math.max(definition.minArgs, 1) + 1 : definition.maxArgs;
+    const labels = Array.from(
+      { length: count },
+      (_, index) => PARAMETER_LABELS[FunctionRegistry.getArgumentKind(definition, index)]
+    );
+
+    // Номер добавляется только к повторяющимся названиям
+    const params = labels.map((label, index) => {
+      const isRepeated = labels.indexOf(label) !== labels.lastIndexOf(label);
+      const param = isRepeated ? `${label}${index + 1}` : label;
+      return index < definition.minArgs ? param : `[${param}]`;
+    });
+    return isVariadic ? [...params, '...'] : params;
+  }
+
+  /**
+   * Токены формулы (без =) с позициями в тексте поля; после ошибки лексера
+   * (незакрытая строка, неизвестный символ) разбирается только текст до нее
+   */
+  private static tokenize(text: string): FormulaToken[] {
+    let source = text.substring(1);
+    for (;;) {
+      try {
+        return this.lexer
+          .tokenize(source)
+          .filter(token => token.type !== 'eof')
+          .map(token => ({ ...token, position: token.position + 1, end: token.end + 1 }));
+      } catch (error) {
+        // Текст укорачивается на каждом шаге - цикл конечен
+        source = source.slice(0, Math.min((error as ParseError).position, source.length - 1));
+      }
+    }
+  }
+
+  /**
+   * Функции и имена, начинающиеся с набранного текста (без учета регистра)
+   */
+  private static getSuggestions(
+    prefix: string,
+    functions: FunctionDefinition<FunctionArgument[]>[],
+    names: Array<{ name: string; refersTo: string }>
+  ): FormulaSuggestion[] {
+    const upperPrefix = prefix.toUpperCase();
+    const matches = (name: string) => name.toUpperCase().startsWith(upperPrefix);
+
+    const suggestions: FormulaSuggestion[] = [
+      ...names
+        .filter(({ name }) => matches(name))
+        .map(
+          ({ name, refersTo }): FormulaSuggestion => ({
+            kind: 'name',
+            label: name,
+            detail: refersTo,
+          })
+        ),
+      ...functions
+        .filter(({ name }) => matches(name))
+        .map(
+          ({ name, description }): FormulaSuggestion => ({
+            kind: 'function',
+            label: name,
+            detail: description,
+          })
+        ),
+    ];
+    return suggestions.slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Подсказка для функции, внутри скобок которой стоит курсор
+   */
+  private static getSignature(
+    before: FormulaToken[],
+    functions: FunctionDefinition<FunctionArgument[]>[]
+  ): FormulaSignature | null {
+    // Открытые скобки перед курсором: имя функции (null - группировка) и номер аргумента
+    const calls: Array<{ name: string | null; argument: number }> = [];
+    before.forEach((token, index) => {
+      const previous = before[index - 1];
+      if (token.type === 'lparen') {
+        const isCall = previous?.type === 'identifier';
+        calls.push({ name: isCall ? previous.value : null, argument: 0 });
+      } else if (token.type === 'rparen') {
+        calls.pop();
+      } else if (token.type === 'comma' && calls.length > 0) {
+        calls[calls.length - 1]!.argument++;
+      }
+    });
+
+    const call = [...calls].reverse().find(frame => frame.name !== null);
+    const definition = call && functions.find(fn => fn.name === call.name!.toUpperCase());
+    if (!call || !definition) {
+      return null;
+    }
+
+    const params = this.getParameters(definition);
+    const isVariadic = definition.maxArgs === MAX_FUNCTION_ARGUMENTS;
+    let activeParam = call.argument < definition.maxArgs ? call.argument : -1;
+    if (isVariadic && activeParam >= params.length - 1) {
+      activeParam = params.length - 1; // Повторяющийся аргумент - на месте ...
+    }
+
+    return { name: definition.name, params, activeParam, description: definition.description };
+  }
+
+  /**
+   * Пара скобки перед курсором (или после него) и скобки без пары
+   */
+  private static matchBrackets(
+    tokens: FormulaToken[],
+    caret: number
+  ): Pick<FormulaAssistState, 'brackets' | 'unmatched'> {
+    const pairs: Array<{ open: number; close: number }> = [];
+    const open: number[] = [];
+    const unmatched: number[] = [];
+
+    for (const token of tokens) {
+      if (token.type === 'lparen') {
+        open.push(token.position);
+      } else if (token.type === 'rparen') {
+        const start = open.pop();
+        if (start === undefined) {
+          unmatched.push(token.position);
+        } else {
+          pairs.push({ open: start, close: token.position });
+        }
+      }
+    }
+    unmatched.push(...open);
+
+    const isAt = (position: number) => position === caret - 1 || position === caret;
+    const brackets =
+      pairs.find(pair => pair.close === caret - 1 || pair.open === caret - 1) ??
+      pairs.find(pair => isAt(pair.open) || isAt(pair.close)) ??
+      null;
+
+    return { brackets, unmatched: unmatched.sort((a, b) => a - b) };
+  }
+}
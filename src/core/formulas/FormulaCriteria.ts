@@ -0,0 +1,142 @@
+/**
+ * Условия отбора для SUMIF/COUNTIF и их вариантов: 5, TRUE, ">100", "<>x", "ab*", "="
+ */
+
+import { CellValue } from './FormulaEngine.js';
+import { FormulaError } from './FormulaErrors.js';
+import { FormulaValues } from './FormulaValues.js';
+
+export type CriteriaMatcher = (value: CellValue) => boolean;
+
+type CriteriaOperator = '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export class FormulaCriteria {
+  /**
+   * Проверка значения по условию: значение проверяется на равенство,
+   * текст может начинаться с оператора сравнения и содержать подстановочные знаки
+   */
+  static parse(criterion: CellValue): CriteriaMatcher {
+    if (Array.isArray(criterion.value)) {
+      throw new FormulaError('#VALUE!', 'Условие должно быть одним значением');
+    }
+
+    if (criterion.type === 'string') {
+      return FormulaCriteria.parseText(String(criterion.value));
+    }
+
+    // Пустая ячейка в качестве условия равна 0
+    const operand: CellValue =
+      criterion.type === 'empty' ? { value: 0, type: 'number' } : criterion;
+    return FormulaCriteria.compareWith('=', operand);
+  }
+
+  /**
+   * Разбор текстового условия: необязательный оператор и операнд
+   */
+  private static parseText(text: string): CriteriaMatcher {
+    const [, operator = '', source = ''] = /^(<=|>=|<>|=|<|>)?([\s\S]*)$/.exec(text)!;
+
+    if (source === '') {
+      // "" - пустые ячейки и пустые строки, "=" - только пустые ячейки, "<>" - непустые
+      switch (operator) {
+        case '':
+          return value => value.type === 'empty' || (value.type === 'string' && value.value === '');
+        case '=':
+          return value => value.type === 'empty';
+        case '<>':
+          return value => value.type !== 'empty';
+        default:
+          return () => false;
+      }
+    }
+
+    return FormulaCriteria.compareWith(
+      (operator || '=') as CriteriaOperator,
+      FormulaCriteria.parseOperand(source)
+    );
+  }
+
+  /**
+   * Типизированный операнд условия: число, логическое значение, код ошибки или текст
+   */
+  private static parseOperand(source: string): CellValue {
+    const text = source.trim();
+    const number = Number(text);
+    if (text !== '' && !isNaN(number)) {
+      return { value: number, type: 'number' };
+    }
+
+    const upper = text.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') {
+      return { value: upper === 'TRUE', type: 'boolean' };
+    }
+    if (FormulaError.isErrorCode(upper)) {
+      return FormulaValues.error(upper);
+    }
+
+    return { value: source, type: 'string' };
+  }
+
+  /**
+   * Проверка сравнением с операндом; значения другого типа условию не удовлетворяют
+   */
+  private static compareWith(operator: CriteriaOperator, operand: CellValue): CriteriaMatcher {
+    if (operator === '<>') {
+      const equals = FormulaCriteria.compareWith('=', operand);
+      return value => !equals(value);
+    }
+
+    if (operand.type === 'error') {
+      return value => operator === '=' && value.type === 'error' && value.value === operand.value;
+    }
+
+    if (operand.type === 'string' && operator === '=') {
+      // Текст сравнивается без учета регистра, * и ? - подстановочные знаки
+      const pattern = new RegExp(`^${FormulaValues.wildcardSource(operand.value)}$`, 'i');
+      return value => value.type === 'string' && pattern.test(value.value);
+    }
+
+    return value => {
+      const candidate = FormulaCriteria.coerce(value, operand.type, operator === '=');
+      if (candidate === null) {
+        return false;
+      }
+
+      const comparison = FormulaValues.compare(candidate, operand);
+      switch (operator) {
+        case '=':
+          return comparison === 0;
+        case '<':
+          return comparison < 0;
+        case '>':
+          return comparison > 0;
+        case '<=':
+          return comparison <= 0;
+        case '>=':
+          return comparison >= 0;
+      }
+    };
+  }
+
+  /**
+   * Значение того же типа, что и операнд (null - не сравнивается);
+   * при проверке равенства подходит и число, записанное текстом
+   */
+  private static coerce(
+    value: CellValue,
+    type: CellValue['type'],
+    isEquality: boolean
+  ): CellValue | null {
+    if (value.type === type) {
+      return type === 'number' ? { value: FormulaValues.normalize(value.value), type } : value;
+    }
+
+    if (type === 'number' && isEquality && value.type === 'string') {
+      const text = String(value.value).trim();
+      const number = Number(text);
+      return text !== '' && !isNaN(number) ? { value: number, type: 'number' } : null;
+    }
+
+    return null;
+  }
+}
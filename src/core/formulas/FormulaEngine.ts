@@ -7,32 +7,135 @@ import {
   FormulaNode,
   CellReference,
   CellRange,
+  NameReference,
   FunctionCall,
   BinaryOperation,
   UnaryOperation,
+  LetExpression,
+  LambdaExpression,
+  LambdaCall,
 } from './FormulaAST.js';
+import type { DateFormatKind } from './DateSerial.js';
+import { FormulaError } from './FormulaErrors.js';
+import { FormulaValues } from './FormulaValues.js';
+import { NameManager } from './NameManager.js';
+import {
+  ArgumentKind,
+  FunctionArgument,
+  FunctionContext,
+  FunctionRegistry,
+  LambdaArgument,
+  ReferenceArgument,
+} from './FunctionRegistry.js';
+import { functionRegistry } from './functions/index.js';
 
 export interface CellValue {
   value: any;
-  type: 'number' | 'string' | 'error' | 'empty';
+  type: 'number' | 'string' | 'boolean' | 'error' | 'empty';
+  // Форма массива значений диапазона (по строкам), если она известна
+  rows?: number;
+  cols?: number;
+  // Число - дата или время (для отображения в формате локали)
+  format?: DateFormatKind;
+}
+
+/**
+ * Ячейка вычисляемой формулы; в dynamicDependencies собираются области,
+ * прочитанные по вычисленным ссылкам (OFFSET, INDIRECT)
+ */
+export interface FormulaCell {
+  row: number;
+  col: number;
+  dynamicDependencies: ReferenceArgument[];
 }
 
 export interface FormulaContext {
-  getCellValue: (row: number, col: number) => CellValue;
-  getCellRange: (startRow: number, startCol: number, endRow: number, endCol: number) => CellValue[];
+  getCellValue: (row: number, col: number, sheet?: string) => CellValue;
+  getCellRange: (
+    startRow: number,
+    startCol: number,
+    endRow: number,
+    endCol: number,
+    sheet?: string
+  ) => CellValue[];
+  // Имена листов 3D-диапазона по порядку книги, null - если лист не найден
+  getSheetSpan?: (startSheet: string, endSheet: string) => string[] | null;
+  // Только заполненные ячейки диапазона в порядке строк (для A:A, 1:1, A2:A)
+  getPopulatedCells?: (
+    startRow: number,
+    startCol: number,
+    endRow: number,
+    endCol: number,
+    sheet?: string
+  ) => CellValue[];
+  // Последние заполненные строка и столбец листа, null - лист пуст
+  getUsedBounds?: (sheet?: string) => { lastRow: number; lastCol: number } | null;
+  // Область переноса массива формулы ячейки (A1#), null - формула не переносит массив
+  getSpillArea?: (
+    row: number,
+    col: number,
+    sheet?: string
+  ) => { startRow: number; startCol: number; endRow: number; endCol: number } | null;
+  // Ячейка не заполнена (значения, перенесенные формулами массивов, не учитываются)
+  isBlank?: (row: number, col: number, sheet?: string) => boolean;
+}
+
+/**
+ * Функция LAMBDA вместе с локальными именами, видимыми в месте ее создания
+ */
+interface LambdaClosure {
+  type: 'lambda';
+  params: string[];
+  body: FormulaNode;
+  scope: Scope;
 }
 
+// Локальные имена LET и параметры LAMBDA: ИМЯ -> значение или функция
+type Scope = Map<string, CellValue | LambdaClosure>;
+
+// Предельная глубина вложенных вызовов LAMBDA (рекурсивные именованные функции)
+const MAX_LAMBDA_DEPTH = 200;
+
 export class FormulaEngine {
   private context: FormulaContext;
-
-  constructor(context: FormulaContext) {
+  private currentSheet: string | undefined; // Лист вычисляемой формулы
+  private currentCell: FormulaCell | undefined; // Ячейка вычисляемой формулы
+  private scope: Scope = new Map(); // Локальные имена вычисляемого выражения
+  private lambdaDepth = 0;
+  private names: NameManager;
+  private evaluatingNames: Set<string> = new Set(); // Защита от имен, ссылающихся на себя
+  private functions: FunctionRegistry;
+
+  constructor(
+    context: FormulaContext,
+    names: NameManager = new NameManager(),
+    functions: FunctionRegistry = functionRegistry
+  ) {
     this.context = context;
+    this.names = names;
+    this.functions = functions;
+  }
+
+  /**
+   * Реестр функций, доступных формулам
+   */
+  getFunctionRegistry(): FunctionRegistry {
+    return this.functions;
   }
 
   /**
    * Вычисление формулы
+   * @param cell Ячейка формулы - для ROW(), COLUMN() и сбора динамических зависимостей
    */
-  evaluate(ast: FormulaAST): CellValue {
+  evaluate(ast: FormulaAST, sheet?: string, cell?: FormulaCell): CellValue {
+    // Вычисление может быть вложенным (формула ссылается на формулу другого листа)
+    const previousSheet = this.currentSheet;
+    const previousCell = this.currentCell;
+    const previousScope = this.scope;
+    this.currentSheet = sheet;
+    this.currentCell = cell;
+    this.scope = new Map();
+
     try {
       console.log(`🧮 Вычисление формулы: ${ast.originalFormula}`);
       const result = this.evaluateNode(ast.root);
@@ -40,10 +143,11 @@ export class FormulaEngine {
       return result;
     } catch (error) {
       console.error(`❌ Ошибка вычисления формулы: ${error}`);
-      return {
-        value: `#ERROR: ${error}`,
-        type: 'error',
-      };
+      return FormulaValues.error(FormulaError.toErrorCode(error));
+    } finally {
+      this.currentSheet = previousSheet;
+      this.currentCell = previousCell;
+      this.scope = previousScope;
     }
   }
 
@@ -64,12 +168,24 @@ export class FormulaEngine {
           type: 'string',
         };
 
+      case 'boolean':
+        return {
+          value: node.value,
+          type: 'boolean',
+        };
+
+      case 'error':
+        return FormulaValues.error(node.value);
+
       case 'cell':
         return this.evaluateCellReference(node);
 
       case 'range':
         return this.evaluateCellRange(node);
 
+      case 'name':
+        return this.evaluateName(node);
+
       case 'function':
         return this.evaluateFunction(node);
 
@@ -79,6 +195,20 @@ export class FormulaEngine {
       case 'unary':
         return this.evaluateUnaryOperation(node);
 
+      case 'let':
+        return this.evaluateLet(node);
+
+      case 'lambda':
+        // Невызванная функция не является значением ячейки
+        throw new FormulaError('#CALC!', 'Функция LAMBDA должна быть вызвана');
+
+      case 'call':
+        return this.evaluateCall(node);
+
+      case 'missing':
+        // Пропущенный аргумент LAMBDA - пустое значение
+        return { value: null, type: 'empty' };
+
       default:
         throw new Error(`Неизвестный тип узла: ${(node as any).type}`);
     }
@@ -88,284 +218,529 @@ export class FormulaEngine {
    * Вычисление ссылки на ячейку
    */
   private evaluateCellReference(cell: CellReference): CellValue {
-    return this.context.getCellValue(cell.row, cell.col);
+    if (cell.spill) {
+      return this.readArea(this.createReference(cell));
+    }
+    return this.context.getCellValue(cell.row, cell.col, cell.sheet ?? this.currentSheet);
   }
 
   /**
-   * Вычисление диапазона ячеек
+   * Вычисление диапазона ячеек; isAligned - все ячейки по позициям,
+   * чтобы элементы разных диапазонов соответствовали друг другу (SUMIF)
    */
-  private evaluateCellRange(range: CellRange): CellValue {
-    const values = this.context.getCellRange(
-      range.startRow,
-      range.startCol,
-      range.endRow,
-      range.endCol
-    );
-
-    // Для диапазонов возвращаем массив значений
-    return {
-      value: values,
-      type: 'number', // Упрощение - считаем диапазон числовым
-    };
-  }
+  private evaluateCellRange(range: CellRange, isAligned = false): CellValue {
+    const sheets = this.resolveRangeSheets(range);
+
+    // Неограниченные диапазоны читают только заполненные ячейки, а не миллион пустых
+    const getPopulatedCells = this.context.getPopulatedCells;
+    if (range.extent && !isAligned && getPopulatedCells) {
+      const values = sheets.flatMap(sheet =>
+        getPopulatedCells.call(
+          this.context,
+          range.startRow,
+          range.startCol,
+          range.endRow,
+          range.endCol,
+          sheet
+        )
+      );
+      // Форма массива неизвестна
+      return { value: values, type: 'number' };
+    }
 
-  /**
-   * Вычисление функции
-   */
-  private evaluateFunction(func: FunctionCall): CellValue {
-    const args = func.args.map(arg => this.evaluateNode(arg));
-
-    switch (func.name) {
-      case 'SUM':
-        return this.evaluateSum(args);
-      case 'MIN':
-        return this.evaluateMin(args);
-      case 'MAX':
-        return this.evaluateMax(args);
-      case 'AVERAGE':
-        return this.evaluateAverage(args);
-      case 'COUNT':
-        return this.evaluateCount(args);
-      default:
-        throw new Error(`Неизвестная функция: ${func.name}`);
+    const areas = sheets.map(sheet => this.readArea({ ...this.createReference(range), sheet }));
+    if (areas.length === 1) {
+      return areas[0]!;
     }
+
+    // 3D-диапазон - значения всех листов подряд
+    return { value: areas.flatMap(area => area.value as CellValue[]), type: 'number' };
   }
 
   /**
-   * Функция SUM
+   * Значения области листа массивом с формой; неограниченное измерение
+   * обрезается по заполненной части листа
    */
-  private evaluateSum(args: CellValue[]): CellValue {
-    let sum = 0;
-    let hasNumbers = false;
-
-    for (const arg of args) {
-      if (arg.type === 'number' && !Array.isArray(arg.value)) {
-        // Обычное число
-        sum += arg.value;
-        hasNumbers = true;
-      } else if (arg.type === 'empty') {
-        // Пустые ячейки игнорируем
-        continue;
-      } else if (Array.isArray(arg.value)) {
-        // Диапазон ячеек (может быть type='number' с массивом в value)
-        for (const cellValue of arg.value) {
-          if (cellValue.type === 'number') {
-            sum += cellValue.value;
-            hasNumbers = true;
-          }
-        }
+  private readArea(reference: ReferenceArgument): CellValue {
+    const { startRow, startCol, sheet } = reference;
+    let { endRow, endCol } = reference;
+
+    if (reference.extent && this.context.getUsedBounds) {
+      const bounds = this.context.getUsedBounds(sheet);
+      if (reference.extent === 'row') {
+        endCol = Math.min(endCol, bounds?.lastCol ?? -1);
+      } else {
+        endRow = Math.min(endRow, bounds?.lastRow ?? -1);
       }
     }
+
     return {
-      value: hasNumbers ? sum : 0,
-      type: 'number',
+      value: this.context.getCellRange(startRow, startCol, endRow, endCol, sheet),
+      type: 'number', // Упрощение - считаем диапазон числовым
+      rows: Math.max(0, endRow - startRow + 1),
+      cols: Math.max(0, endCol - startCol + 1),
     };
   }
 
   /**
-   * Функция MIN
+   * Область листа по ссылке на ячейку или диапазон (без листа - лист формулы)
    */
-  private evaluateMin(args: CellValue[]): CellValue {
-    let min: number | null = null;
-
-    for (const arg of args) {
-      if (arg.type === 'number' && !Array.isArray(arg.value)) {
-        // Обычное число
-        if (min === null || arg.value < min) {
-          min = arg.value;
-        }
-      } else if (Array.isArray(arg.value)) {
-        for (const cellValue of arg.value) {
-          if (cellValue.type === 'number') {
-            if (min === null || cellValue.value < min) {
-              min = cellValue.value;
-            }
-          }
-        }
+  private createReference(node: CellReference | CellRange): ReferenceArgument {
+    if (node.type === 'cell' && node.spill) {
+      const sheet = node.sheet ?? this.currentSheet;
+      const area = this.context.getSpillArea?.(node.row, node.col, sheet);
+      if (!area) {
+        throw new FormulaError('#REF!', 'Ячейка не содержит перенесенного массива');
       }
+      const { startRow, startCol, endRow, endCol } = area;
+      return { type: 'reference', sheet, startRow, startCol, endRow, endCol };
     }
-    if (min === null) {
+
+    if (node.type === 'cell') {
       return {
-        value: 0,
-        type: 'number',
+        type: 'reference',
+        sheet: node.sheet ?? this.currentSheet,
+        startRow: node.row,
+        startCol: node.col,
+        endRow: node.row,
+        endCol: node.col,
       };
     }
 
     return {
-      value: min,
-      type: 'number',
+      type: 'reference',
+      sheet: node.sheet ?? this.currentSheet,
+      startRow: node.startRow,
+      startCol: node.startCol,
+      endRow: node.endRow,
+      endCol: node.endCol,
+      ...(node.extent ? { extent: node.extent } : {}),
     };
   }
 
   /**
-   * Функция MAX
+   * Вычисление именованного диапазона или константы
    */
-  private evaluateMax(args: CellValue[]): CellValue {
-    let max: number | null = null;
-
-    for (const arg of args) {
-      if (arg.type === 'number' && !Array.isArray(arg.value)) {
-        // Обычное число
-        if (max === null || arg.value > max) {
-          max = arg.value;
-        }
-      } else if (Array.isArray(arg.value)) {
-        for (const cellValue of arg.value) {
-          if (cellValue.type === 'number') {
-            if (max === null || cellValue.value > max) {
-              max = cellValue.value;
-            }
-          }
-        }
-      }
+  private evaluateName(node: NameReference): CellValue {
+    const local = this.scope.get(NameManager.normalize(node.name));
+    if (local?.type === 'lambda') {
+      throw new FormulaError('#CALC!', 'Функция LAMBDA должна быть вызвана');
     }
-    if (max === null) {
-      return {
-        value: 0,
-        type: 'number',
-      };
+    if (local) {
+      return local;
     }
 
-    return {
-      value: max,
-      type: 'number',
-    };
+    const definition = this.names.get(node.name);
+    if (!definition) {
+      throw new FormulaError('#NAME?', `Неизвестное имя: ${node.name}`);
+    }
+
+    const key = NameManager.normalize(node.name);
+    if (this.evaluatingNames.has(key)) {
+      throw new FormulaError('#CIRC!', `Имя ссылается само на себя: ${node.name}`);
+    }
+
+    this.evaluatingNames.add(key);
+    try {
+      // Определение имени не видит локальных имен формулы
+      return this.withScope(new Map(), () => this.evaluateNode(definition.ast));
+    } finally {
+      this.evaluatingNames.delete(key);
+    }
   }
 
   /**
-   * Функция AVERAGE
+   * Листы, которые покрывает диапазон (для 3D-диапазона - все листы между крайними)
    */
-  private evaluateAverage(args: CellValue[]): CellValue {
-    let sum = 0;
-    let count = 0;
-
-    for (const arg of args) {
-      if (arg.type === 'number' && !Array.isArray(arg.value)) {
-        // Обычное число
-        sum += arg.value;
-        count++;
-      } else if (Array.isArray(arg.value)) {
-        for (const cellValue of arg.value) {
-          if (cellValue.type === 'number') {
-            sum += cellValue.value;
-            count++;
-          }
-        }
+  private resolveRangeSheets(range: CellRange): (string | undefined)[] {
+    if (!range.sheet || !range.endSheet) {
+      return [range.sheet ?? this.currentSheet];
+    }
+
+    const span = this.context.getSheetSpan?.(range.sheet, range.endSheet);
+    if (!span) {
+      throw new FormulaError('#REF!');
+    }
+    return span;
+  }
+
+  /**
+   * Вычисление функции по определению из реестра
+   */
+  private evaluateFunction(func: FunctionCall): CellValue {
+    // Функция, объявленная в LET или параметром LAMBDA, перекрывает встроенную
+    const local = this.scope.get(NameManager.normalize(func.name));
+    if (local?.type === 'lambda') {
+      return this.callLambda(local, func.args);
+    }
+
+    const definition = this.functions.get(func.name);
+    if (!definition) {
+      // Имя книги, определенное как LAMBDA, - пользовательская функция
+      const named = this.names.get(func.name)?.ast;
+      if (named?.type === 'lambda') {
+        return this.callLambda(this.createClosure(named, new Map()), func.args);
       }
+      throw new FormulaError('#NAME?', `Неизвестная функция: ${func.name}`);
     }
-    if (count === 0) {
-      return {
-        value: 0,
-        type: 'number',
-      };
+
+    const { minArgs, maxArgs } = definition;
+    if (func.args.length < minArgs || func.args.length > maxArgs) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : `от ${minArgs} до ${maxArgs}`;
+      throw new FormulaError('#VALUE!', `Функция ${func.name} ожидает ${expected} аргументов`);
     }
 
+    const args = func.args.map((node, index) =>
+      node.type === 'missing'
+        ? FunctionRegistry.getMissingArgument(definition, index)
+        : this.evaluateArgument(node, FunctionRegistry.getArgumentKind(definition, index))
+    );
+    // Пропущенный необязательный аргумент (undefined) функция заменяет значением по умолчанию
+    return definition.evaluate(args as FunctionArgument[], this.createFunctionContext(func.name));
+  }
+
+  /**
+   * Контекст вызова функции: положение формулы и чтение областей листа
+   */
+  private createFunctionContext(name: string): FunctionContext {
+    const cell = this.currentCell;
     return {
-      value: sum / count,
-      type: 'number',
+      name,
+      sheet: this.currentSheet,
+      row: cell?.row,
+      col: cell?.col,
+      readReference: reference => this.readArea(reference),
+      readDynamicReference: reference => {
+        cell?.dynamicDependencies.push(reference);
+        return this.readArea(reference);
+      },
     };
   }
 
   /**
-   * Функция COUNT
+   * Вычисление аргумента функции в соответствии с его видом
    */
-  private evaluateCount(args: CellValue[]): CellValue {
-    let count = 0;
-
-    for (const arg of args) {
-      if (arg.type === 'number' || arg.type === 'string') {
-        count++;
-      } else if (Array.isArray(arg.value)) {
-        for (const cellValue of arg.value) {
-          if (cellValue.type === 'number' || cellValue.type === 'string') {
-            count++;
-          }
+  private evaluateArgument(node: FormulaNode, kind: ArgumentKind): FunctionArgument {
+    switch (kind) {
+      case 'lazy':
+        // Вызывается синхронно внутри функции, поэтому лист формулы тот же
+        return () => this.evaluateSafely(node);
+      case 'range':
+        if (node.type !== 'cell' && node.type !== 'range' && node.type !== 'name') {
+          throw new FormulaError('#VALUE!', 'Аргумент должен быть ссылкой');
+        }
+        return node.type === 'range' ? this.evaluateCellRange(node, true) : this.evaluateNode(node);
+      case 'reference': {
+        // Имя, определенное как ссылка, тоже передается областью; 3D-диапазон - значением
+        const isGlobalName =
+          node.type === 'name' && !this.scope.has(NameManager.normalize(node.name));
+        const target = isGlobalName ? this.names.get(node.name)?.ast : node;
+        if (target?.type === 'cell' || (target?.type === 'range' && !target.endSheet)) {
+          return this.createReference(target);
         }
+        return this.evaluateNode(node);
       }
+      case 'array':
+        return this.evaluateArray(node);
+      case 'lambda': {
+        const closure = this.findLambda(node);
+        return closure ? this.createLambdaArgument(closure) : this.evaluateArray(node);
+      }
+      case 'value':
+        return this.evaluateNode(node);
     }
+  }
 
+  /**
+   * Вычисление узла как массива: диапазон читается по позициям с формой
+   */
+  private evaluateArray(node: FormulaNode): CellValue {
+    return node.type === 'range' ? this.evaluateCellRange(node, true) : this.evaluateNode(node);
+  }
+
+  /**
+   * Вычисление LET: значения имен по порядку, каждое видит предыдущие
+   */
+  private evaluateLet(node: LetExpression): CellValue {
+    let scope = this.scope;
+    for (const binding of node.bindings) {
+      const value = this.withScope(scope, () => this.evaluateBinding(binding.value));
+      scope = new Map(scope).set(NameManager.normalize(binding.name), value);
+    }
+    return this.withScope(scope, () => this.evaluateNode(node.body));
+  }
+
+  /**
+   * Вызов функции, заданной выражением: LAMBDA(x,x+1)(5), (f)(5)
+   */
+  private evaluateCall(node: LambdaCall): CellValue {
+    const closure = this.findLambda(node.callee);
+    if (!closure) {
+      throw new FormulaError('#VALUE!', 'Выражение не является функцией LAMBDA');
+    }
+    return this.callLambda(closure, node.args);
+  }
+
+  /**
+   * Значение для локального имени или параметра: функция LAMBDA или массив с формой
+   */
+  private evaluateBinding(node: FormulaNode): CellValue | LambdaClosure {
+    return this.findLambda(node) ?? this.evaluateArray(node);
+  }
+
+  /**
+   * Функция LAMBDA, которую обозначает узел: выражение LAMBDA, локальное имя
+   * или имя книги; null - узел не является функцией
+   */
+  private findLambda(node: FormulaNode): LambdaClosure | null {
+    if (node.type === 'lambda') {
+      return this.createClosure(node, this.scope);
+    }
+    if (node.type !== 'name') {
+      return null;
+    }
+
+    const local = this.scope.get(NameManager.normalize(node.name));
+    if (local) {
+      return local.type === 'lambda' ? local : null;
+    }
+
+    const named = this.names.get(node.name)?.ast;
+    return named?.type === 'lambda' ? this.createClosure(named, new Map()) : null;
+  }
+
+  /**
+   * Функция LAMBDA с локальными именами места создания
+   */
+  private createClosure(node: LambdaExpression, scope: Scope): LambdaClosure {
+    return { type: 'lambda', params: node.params, body: node.body, scope };
+  }
+
+  /**
+   * Вызов функции LAMBDA с аргументами, вычисленными в текущей области имен
+   */
+  private callLambda(closure: LambdaClosure, argNodes: FormulaNode[]): CellValue {
+    return this.invokeLambda(
+      closure,
+      argNodes.map(node => this.evaluateBinding(node))
+    );
+  }
+
+  /**
+   * Вычисление тела LAMBDA: параметры добавляются к именам места создания
+   */
+  private invokeLambda(closure: LambdaClosure, args: (CellValue | LambdaClosure)[]): CellValue {
+    if (args.length !== closure.params.length) {
+      throw new FormulaError(
+        '#VALUE!',
+        `LAMBDA ожидает ${closure.params.length} аргументов, передано ${args.length}`
+      );
+    }
+    if (this.lambdaDepth >= MAX_LAMBDA_DEPTH) {
+      throw new FormulaError('#NUM!', 'Слишком глубокая рекурсия LAMBDA');
+    }
+
+    const scope = new Map(closure.scope);
+    closure.params.forEach((param, index) => scope.set(NameManager.normalize(param), args[index]!));
+
+    this.lambdaDepth++;
+    try {
+      return this.withScope(scope, () => this.evaluateNode(closure.body));
+    } finally {
+      this.lambdaDepth--;
+    }
+  }
+
+  /**
+   * Функция LAMBDA как аргумент встроенной функции (MAP, REDUCE)
+   */
+  private createLambdaArgument(closure: LambdaClosure): LambdaArgument {
     return {
-      value: count,
-      type: 'number',
+      type: 'lambda',
+      params: closure.params.length,
+      invoke: args => {
+        try {
+          return this.invokeLambda(closure, args);
+        } catch (error) {
+          return FormulaValues.error(FormulaError.toErrorCode(error));
+        }
+      },
     };
   }
 
+  /**
+   * Вычисление в заданной области локальных имен
+   */
+  private withScope<T>(scope: Scope, evaluate: () => T): T {
+    const previousScope = this.scope;
+    this.scope = scope;
+    try {
+      return evaluate();
+    } finally {
+      this.scope = previousScope;
+    }
+  }
+
   /**
    * Вычисление бинарной операции
    */
   private evaluateBinaryOperation(op: BinaryOperation): CellValue {
-    const left = this.evaluateNode(op.left);
-    const right = this.evaluateNode(op.right);
+    const left = this.evaluateArray(op.left);
+    const right = this.evaluateArray(op.right);
+
+    // Операция над массивами выполняется поэлементно
+    if (Array.isArray(left.value) || Array.isArray(right.value)) {
+      return FormulaValues.mapElements([left, right], ([leftElement, rightElement]) =>
+        this.calculateBinaryOperation(op.operator, leftElement!, rightElement!)
+      );
+    }
+
+    return this.calculateBinaryOperation(op.operator, left, right);
+  }
+
+  /**
+   * Бинарная операция над одиночными значениями
+   */
+  private calculateBinaryOperation(
+    operator: BinaryOperation['operator'],
+    left: CellValue,
+    right: CellValue
+  ): CellValue {
+    if (this.isComparisonOperator(operator)) {
+      return this.evaluateComparison(operator, left, right);
+    }
+
+    // Ошибки операндов распространяются на результат
+    if (left.type === 'error') {
+      return left;
+    }
+    if (right.type === 'error') {
+      return right;
+    }
+
+    if (operator === '&') {
+      return { value: FormulaValues.toText(left) + FormulaValues.toText(right), type: 'string' };
+    }
 
     // Преобразуем в числа для арифметических операций
-    const leftNum = this.toNumber(left);
-    const rightNum = this.toNumber(right);
+    const leftNum = FormulaValues.toNumber(left);
+    const rightNum = FormulaValues.toNumber(right);
 
-    switch (op.operator) {
+    switch (operator) {
       case '+':
-        return { value: leftNum + rightNum, type: 'number' };
+        return FormulaValues.number(leftNum + rightNum);
       case '-':
-        return { value: leftNum - rightNum, type: 'number' };
+        return FormulaValues.number(leftNum - rightNum);
       case '*':
-        return { value: leftNum * rightNum, type: 'number' };
+        return FormulaValues.number(leftNum * rightNum);
       case '/':
         if (rightNum === 0) {
-          return { value: '#DIV/0!', type: 'error' };
+          return FormulaValues.error('#DIV/0!');
         }
-        return { value: leftNum / rightNum, type: 'number' };
+        return FormulaValues.number(leftNum / rightNum);
       case '^':
-        return { value: Math.pow(leftNum, rightNum), type: 'number' };
+        return FormulaValues.power(leftNum, rightNum);
+      default:
+        throw new Error(`Неизвестный оператор: ${operator}`);
+    }
+  }
+
+  /**
+   * Проверка, является ли оператор оператором сравнения
+   */
+  private isComparisonOperator(operator: BinaryOperation['operator']): boolean {
+    return ['=', '<', '>', '<=', '>=', '<>'].includes(operator);
+  }
+
+  /**
+   * Вычисление операции сравнения
+   */
+  private evaluateComparison(
+    operator: BinaryOperation['operator'],
+    left: CellValue,
+    right: CellValue
+  ): CellValue {
+    if (left.type === 'error') {
+      return left;
+    }
+    if (right.type === 'error') {
+      return right;
+    }
+
+    const comparison = FormulaValues.compare(left, right);
+
+    let result: boolean;
+    switch (operator) {
       case '=':
-        return { value: leftNum === rightNum, type: 'number' };
+        result = comparison === 0;
+        break;
       case '<':
-        return { value: leftNum < rightNum, type: 'number' };
+        result = comparison < 0;
+        break;
       case '>':
-        return { value: leftNum > rightNum, type: 'number' };
+        result = comparison > 0;
+        break;
       case '<=':
-        return { value: leftNum <= rightNum, type: 'number' };
+        result = comparison <= 0;
+        break;
       case '>=':
-        return { value: leftNum >= rightNum, type: 'number' };
+        result = comparison >= 0;
+        break;
       case '<>':
-        return { value: leftNum !== rightNum, type: 'number' };
+        result = comparison !== 0;
+        break;
       default:
-        throw new Error(`Неизвестный оператор: ${op.operator}`);
+        throw new Error(`Неизвестный оператор сравнения: ${operator}`);
     }
+
+    return { value: result, type: 'boolean' };
   }
 
   /**
    * Вычисление унарной операции
    */
   private evaluateUnaryOperation(op: UnaryOperation): CellValue {
-    const operand = this.evaluateNode(op.operand);
-    const num = this.toNumber(operand);
+    const operand = this.evaluateArray(op.operand);
+    if (Array.isArray(operand.value)) {
+      return FormulaValues.mapElements([operand], ([element]) =>
+        this.calculateUnaryOperation(op.operator, element!)
+      );
+    }
+
+    return this.calculateUnaryOperation(op.operator, operand);
+  }
+
+  /**
+   * Унарная операция над одиночным значением
+   */
+  private calculateUnaryOperation(
+    operator: UnaryOperation['operator'],
+    operand: CellValue
+  ): CellValue {
+    if (operand.type === 'error') {
+      return operand;
+    }
+
+    const num = FormulaValues.toNumber(operand);
 
-    switch (op.operator) {
+    switch (operator) {
       case '+':
         return { value: +num, type: 'number' };
       case '-':
         return { value: -num, type: 'number' };
       default:
-        throw new Error(`Неизвестный унарный оператор: ${op.operator}`);
+        throw new Error(`Неизвестный унарный оператор: ${operator}`);
     }
   }
 
   /**
-   * Преобразование значения в число
+   * Вычисление узла с преобразованием исключений в значения-ошибки
    */
-  private toNumber(value: CellValue): number {
-    if (value.type === 'number') {
-      return value.value;
-    }
-    if (value.type === 'string') {
-      const parsed = parseFloat(value.value);
-      return isNaN(parsed) ? 0 : parsed;
-    }
-    if (value.type === 'empty') {
-      return 0;
-    }
-    if (value.type === 'error') {
-      return 0;
+  private evaluateSafely(node: FormulaNode): CellValue {
+    try {
+      return this.evaluateNode(node);
+    } catch (error) {
+      return FormulaValues.error(FormulaError.toErrorCode(error));
     }
-    return 0;
   }
 }
@@ -0,0 +1,75 @@
+/**
+ * Ошибки формул в формате Excel
+ */
+
+export type FormulaErrorCode =
+  | '#NULL!'
+  | '#DIV/0!'
+  | '#VALUE!'
+  | '#REF!'
+  | '#NAME?'
+  | '#NUM!'
+  | '#N/A'
+  | '#CIRC!'
+  | '#SPILL!'
+  | '#CALC!';
+
+// Коды функции ERROR.TYPE (у #CIRC! нет аналога в Excel)
+const ERROR_TYPE_NUMBERS: Partial<Record<FormulaErrorCode, number>> = {
+  '#NULL!': 1,
+  '#DIV/0!': 2,
+  '#VALUE!': 3,
+  '#REF!': 4,
+  '#NAME?': 5,
+  '#NUM!': 6,
+  '#N/A': 7,
+  '#SPILL!': 9,
+  '#CALC!': 14,
+};
+
+const ERROR_CODES: readonly FormulaErrorCode[] = [
+  '#NULL!',
+  '#DIV/0!',
+  '#VALUE!',
+  '#REF!',
+  '#NAME?',
+  '#NUM!',
+  '#N/A',
+  '#CIRC!',
+  '#SPILL!',
+  '#CALC!',
+];
+
+/**
+ * Исключение вычисления формулы с кодом ошибки Excel
+ */
+export class FormulaError extends Error {
+  readonly code: FormulaErrorCode;
+
+  constructor(code: FormulaErrorCode, message?: string) {
+    super(message || code);
+    this.name = 'FormulaError';
+    this.code = code;
+  }
+
+  /**
+   * Проверка, является ли строка кодом ошибки (#DIV/0!, #N/A, ...)
+   */
+  static isErrorCode(value: unknown): value is FormulaErrorCode {
+    return typeof value === 'string' && ERROR_CODES.includes(value as FormulaErrorCode);
+  }
+
+  /**
+   * Номер ошибки для функции ERROR.TYPE
+   */
+  static getErrorTypeNumber(code: FormulaErrorCode): number | null {
+    return ERROR_TYPE_NUMBERS[code] ?? null;
+  }
+
+  /**
+   * Преобразование произвольного исключения в код ошибки
+   */
+  static toErrorCode(error: unknown): FormulaErrorCode {
+    return error instanceof FormulaError ? error.code : '#VALUE!';
+  }
+}
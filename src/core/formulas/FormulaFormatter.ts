@@ -0,0 +1,168 @@
+/**
+ * Преобразование AST формулы обратно в текст
+ */
+
+import {
+  BinaryOperation,
+  FormulaAST,
+  FormulaNode,
+  FormulaUtils,
+  SourceSpan,
+} from './FormulaAST.js';
+
+// Приоритеты операторов в порядке разбора FormulaParser: чем больше, тем сильнее связывает
+const BINARY_PRECEDENCE: Record<BinaryOperation['operator'], number> = {
+  '=': 1,
+  '<': 1,
+  '>': 1,
+  '<=': 1,
+  '>=': 1,
+  '<>': 1,
+  '&': 2,
+  '+': 3,
+  '-': 3,
+  '*': 4,
+  '/': 4,
+  '^': 5,
+};
+const UNARY_PRECEDENCE = 6; // Унарный минус связывает сильнее ^: -2^2 = 4
+const ATOM_PRECEDENCE = 7;
+
+export class FormulaFormatter {
+  /**
+   * Текст выражения (без =) с минимально необходимыми скобками
+   */
+  static format(node: FormulaNode): string {
+    switch (node.type) {
+      case 'number':
+        return node.value.toString();
+      case 'string':
+        return `"${node.value.replace(/"/g, '""')}"`;
+      case 'boolean':
+        return node.value ? 'TRUE' : 'FALSE';
+      case 'error':
+        return node.value;
+      case 'cell':
+        return FormulaUtils.formatCellReference(node);
+      case 'range':
+        return FormulaUtils.formatCellRange(node);
+      case 'name':
+        return node.name;
+      case 'function':
+        return `${node.name.toUpperCase()}(${this.formatList(node.args)})`;
+      case 'binary': {
+        // Операторы левоассоциативны: правому операнду того же приоритета нужны скобки
+        const precedence = BINARY_PRECEDENCE[node.operator];
+        const left = this.formatOperand(node.left, precedence);
+        const right = this.formatOperand(node.right, precedence + 1);
+        return `${left}${node.operator}${right}`;
+      }
+      case 'unary':
+        return `${node.operator}${this.formatOperand(node.operand, UNARY_PRECEDENCE)}`;
+      case 'let': {
+        const bindings = node.bindings.map(
+          binding => `${binding.name},${this.format(binding.value)},`
+        );
+        return `LET(${bindings.join('')}${this.format(node.body)})`;
+      }
+      case 'lambda':
+        return `LAMBDA(${[...node.params, this.format(node.body)].join(',')})`;
+      case 'call': {
+        const callee = this.format(node.callee);
+        return node.callee.type === 'lambda' || node.callee.type === 'call'
+          ? `${callee}(${this.formatList(node.args)})`
+          : `(${callee})(${this.formatList(node.args)})`;
+      }
+      case 'missing':
+        return '';
+    }
+  }
+
+  /**
+   * Текст формулы после замены ссылок: заменяется только текст ссылок, пробелы и регистр
+   * остального текста сохраняются. null - положение замененной ссылки неизвестно
+   */
+  static replaceReferences(
+    ast: FormulaAST,
+    replacements: Map<FormulaNode, FormulaNode>
+  ): { text: string; spans: Map<FormulaNode, SourceSpan> } | null {
+    if (!ast.spans) {
+      return null;
+    }
+
+    const edits: Array<{ span: SourceSpan; node: FormulaNode }> = [];
+    for (const [original, node] of replacements) {
+      const span = ast.spans.get(original);
+      if (!span) {
+        return null;
+      }
+      edits.push({ span, node });
+    }
+    edits.sort((left, right) => left.span.start - right.span.start);
+
+    const source = ast.originalFormula;
+    const spans = new Map<FormulaNode, SourceSpan>();
+    // Сдвиг позиций исходного текста после каждой замены
+    const shifts: Array<{ after: number; delta: number }> = [];
+    let text = '';
+    let position = 0;
+
+    for (const { span, node } of edits) {
+      text += source.slice(position, span.start);
+      const replacement = this.format(node);
+      if (node.type === 'cell' || node.type === 'range') {
+        spans.set(node, { start: text.length, end: text.length + replacement.length });
+      }
+      text += replacement;
+      position = span.end;
+      shifts.push({ after: span.end, delta: text.length - span.end });
+    }
+    text += source.slice(position);
+
+    // Положения незамененных ссылок сдвигаются на длину предшествующих замен
+    for (const [node, span] of ast.spans) {
+      if (replacements.has(node)) {
+        continue;
+      }
+      let delta = 0;
+      for (const shift of shifts) {
+        if (shift.after > span.start) {
+          break;
+        }
+        delta = shift.delta;
+      }
+      spans.set(node, { start: span.start + delta, end: span.end + delta });
+    }
+
+    return { text, spans };
+  }
+
+  /**
+   * Операнд оператора: в скобках, если он связывает слабее, чем требуется
+   */
+  private static formatOperand(node: FormulaNode, minPrecedence: number): string {
+    const text = this.format(node);
+    return this.getPrecedence(node) < minPrecedence ? `(${text})` : text;
+  }
+
+  /**
+   * Приоритет узла: у операторов - приоритет оператора, у остальных - наивысший
+   */
+  private static getPrecedence(node: FormulaNode): number {
+    switch (node.type) {
+      case 'binary':
+        return BINARY_PRECEDENCE[node.operator];
+      case 'unary':
+        return UNARY_PRECEDENCE;
+      default:
+        return ATOM_PRECEDENCE;
+    }
+  }
+
+  /**
+   * Аргументы через запятую
+   */
+  private static formatList(args: FormulaNode[]): string {
+    return args.map(arg => this.format(arg)).join(',');
+  }
+}
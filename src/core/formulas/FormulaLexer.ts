@@ -0,0 +1,269 @@
+/**
+ * Лексер формул Excel - разбивает текст формулы на поток типизированных токенов
+ */
+
+export interface ParseError {
+  message: string;
+  position: number;
+  expected?: string;
+}
+
+export type FormulaTokenType =
+  | 'number'
+  | 'string'
+  | 'error'
+  | 'identifier'
+  | 'reference'
+  | 'sheet'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'colon'
+  | 'eof';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  value: string;
+  position: number; // Позиция первого символа токена
+  end: number; // Позиция после последнего символа токена
+}
+
+// Операторы упорядочены так, чтобы двухсимвольные проверялись раньше односимвольных
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>'];
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const WORD_PATTERN = /^[A-Za-z_$][A-Za-z0-9_.$]*/;
+const CELL_REFERENCE_PATTERN = /^\$?[A-Za-z]+\$?\d+$/;
+// Части неограниченных диапазонов: столбец (A в A:A, A2:A) и строка (1 в 1:1)
+const COLUMN_PART_PATTERN = /^\$?[A-Za-z]{1,3}$/;
+const ROW_PART_PATTERN = /^\$?\d+$/;
+const ERROR_PATTERN = /^#(NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|CIRC!|SPILL!|CALC!)/i;
+const SHEET_PATTERN = /^[\p{L}_][\p{L}\p{N}_.]*(:[\p{L}_][\p{L}\p{N}_.]*)?!/u;
+
+export class FormulaLexer {
+  private input: string = '';
+  private position: number = 0;
+
+  /**
+   * Разбиение строки формулы (без ведущего =) на токены
+   */
+  tokenize(input: string): FormulaToken[] {
+    this.input = input;
+    this.position = 0;
+
+    const tokens: FormulaToken[] = [];
+
+    this.skipWhitespace();
+    while (this.position < this.input.length) {
+      tokens.push(this.readToken());
+      this.skipWhitespace();
+    }
+
+    tokens.push({ type: 'eof', value: '', position: this.position, end: this.position });
+    return tokens;
+  }
+
+  /**
+   * Чтение очередного токена
+   */
+  private readToken(): FormulaToken {
+    const char = this.input[this.position] || '';
+    const rest = this.input.substring(this.position);
+
+    // Префиксы листов: Sheet2!, 'My Sheet'!, Sheet1:Sheet3!
+    if (char === "'") {
+      return this.readQuotedSheet();
+    }
+
+    const sheetMatch = rest.match(SHEET_PATTERN);
+    if (sheetMatch) {
+      const token = this.createToken('sheet', sheetMatch[0]);
+      return { ...token, value: sheetMatch[0].slice(0, -1) };
+    }
+
+    // Числа: 42, 3.14, .5, 1e5, 2.5E-3
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (numberMatch && (this.isDigit(char) || this.isDigit(rest[1] || ''))) {
+      // Номер строки в диапазоне строк (1:1)
+      if (ROW_PART_PATTERN.test(numberMatch[0]) && this.isRangePart(numberMatch[0])) {
+        return this.createToken('reference', numberMatch[0]);
+      }
+      return this.createToken('number', numberMatch[0]);
+    }
+
+    // Строки с экранированием кавычек через ""
+    if (char === '"') {
+      return this.readString();
+    }
+
+    // Литералы ошибок: #N/A, #DIV/0!, ...
+    const errorMatch = rest.match(ERROR_PATTERN);
+    if (errorMatch) {
+      return this.createToken('error', errorMatch[0]);
+    }
+
+    // Ссылки на ячейки и идентификаторы
+    const wordMatch = rest.match(WORD_PATTERN);
+    if (wordMatch) {
+      return this.readWord(wordMatch[0]);
+    }
+
+    switch (char) {
+      case '(':
+        return this.createToken('lparen', char);
+      case ')':
+        return this.createToken('rparen', char);
+      case ',':
+        return this.createToken('comma', char);
+      case ':':
+        return this.createToken('colon', char);
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      return this.createToken('operator', operator);
+    }
+
+    throw this.createError(`Неожиданный символ: ${char}`);
+  }
+
+  /**
+   * Чтение строкового литерала
+   */
+  private readString(): FormulaToken {
+    const start = this.position;
+    let value = '';
+    let index = start + 1;
+
+    while (index < this.input.length) {
+      const char = this.input[index];
+      if (char === '"') {
+        // Две кавычки подряд - экранированная кавычка
+        if (this.input[index + 1] === '"') {
+          value += '"';
+          index += 2;
+          continue;
+        }
+
+        this.position = index + 1;
+        return { type: 'string', value, position: start, end: this.position };
+      }
+
+      value += char;
+      index++;
+    }
+
+    throw this.createError('Ожидается закрывающая кавычка', start);
+  }
+
+  /**
+   * Чтение имени листа в кавычках ('My Sheet'!) с экранированием через ''
+   */
+  private readQuotedSheet(): FormulaToken {
+    const start = this.position;
+    let value = '';
+    let index = start + 1;
+
+    while (index < this.input.length) {
+      const char = this.input[index];
+      if (char === "'") {
+        if (this.input[index + 1] === "'") {
+          value += "'";
+          index += 2;
+          continue;
+        }
+
+        if (this.input[index + 1] !== '!' || value.length === 0) {
+          throw this.createError('Ожидается ! после имени листа', index + 1);
+        }
+
+        this.position = index + 2;
+        return { type: 'sheet', value, position: start, end: this.position };
+      }
+
+      value += char;
+      index++;
+    }
+
+    throw this.createError('Ожидается закрывающая кавычка имени листа', start);
+  }
+
+  /**
+   * Чтение слова: ссылка на ячейку (A1, $B$2) или идентификатор (SUM, ERROR.TYPE)
+   */
+  private readWord(word: string): FormulaToken {
+    const start = this.position;
+    const isFunctionCall = this.peekNonWhitespace(start + word.length) === '(';
+
+    if (CELL_REFERENCE_PATTERN.test(word) && !isFunctionCall) {
+      // Ссылка на область переноса динамического массива: A1#
+      const isSpillReference = this.input[start + word.length] === '#';
+      return this.createToken('reference', isSpillReference ? `${word}#` : word);
+    }
+
+    const isPartialReference = COLUMN_PART_PATTERN.test(word) || ROW_PART_PATTERN.test(word);
+    if (isPartialReference && !isFunctionCall && this.isRangePart(word)) {
+      return this.createToken('reference', word);
+    }
+
+    if (word.includes('$')) {
+      throw this.createError(`Неверная ссылка на ячейку: ${word}`, start);
+    }
+
+    return this.createToken('identifier', word);
+  }
+
+  /**
+   * Проверка, стоит ли текст в текущей позиции рядом с двоеточием диапазона
+   */
+  private isRangePart(text: string): boolean {
+    return this.input[this.position - 1] === ':' || this.input[this.position + text.length] === ':';
+  }
+
+  /**
+   * Создание токена с продвижением позиции
+   */
+  private createToken(type: FormulaTokenType, value: string): FormulaToken {
+    const position = this.position;
+    this.position += value.length;
+    return { type, value, position, end: this.position };
+  }
+
+  /**
+   * Пропуск пробельных символов
+   */
+  private skipWhitespace(): void {
+    while (this.position < this.input.length && /\s/.test(this.input[this.position] || '')) {
+      this.position++;
+    }
+  }
+
+  /**
+   * Получение первого непробельного символа начиная с позиции
+   */
+  private peekNonWhitespace(from: number): string {
+    let index = from;
+    while (index < this.input.length && /\s/.test(this.input[index] || '')) {
+      index++;
+    }
+    return this.input[index] || '';
+  }
+
+  /**
+   * Проверка, является ли символ цифрой
+   */
+  private isDigit(char: string): boolean {
+    return char >= '0' && char <= '9';
+  }
+
+  /**
+   * Создание ошибки лексического анализа
+   */
+  private createError(message: string, position: number = this.position): ParseError {
+    return {
+      message,
+      position,
+    };
+  }
+}
@@ -3,64 +3,170 @@
  */
 
 import { FormulaParser } from './FormulaParser.js';
-import { FormulaEngine, FormulaContext, CellValue } from './FormulaEngine.js';
-import { FormulaAST, FormulaNode, FormulaUtils } from './FormulaAST.js';
+import { FormulaFormatter } from './FormulaFormatter.js';
+import { FormulaEngine, FormulaContext, CellValue, FormulaCell } from './FormulaEngine.js';
+import {
+  FormulaAST,
+  FormulaNode,
+  FormulaUtils,
+  CellReference,
+  CellRange,
+  AxisShift,
+  MAX_COL_INDEX,
+  MAX_ROW_INDEX,
+} from './FormulaAST.js';
+import { FormulaError } from './FormulaErrors.js';
+import { FormulaValues } from './FormulaValues.js';
+import { NameManager, DefinedName } from './NameManager.js';
+import { DependencyGraph, DependencyArea } from './DependencyGraph.js';
+import { CycleDetector } from './CycleDetector.js';
+import { FunctionArgument, FunctionDefinition, FunctionRegistry } from './FunctionRegistry.js';
+import { functionRegistry } from './functions/index.js';
 
 export type { CellValue } from './FormulaEngine.js';
+export type { DefinedName } from './NameManager.js';
+export type { DependencyArea } from './DependencyGraph.js';
+
+// Лист, на котором находятся формулы, если лист не указан явно
+export const DEFAULT_SHEET_NAME = 'Sheet1';
 
 export interface FormulaInfo {
   ast: FormulaAST;
-  dependencies: Set<string>; // Ссылки на ячейки в формате "row:col"
-  dependents: Set<string>; // Ячейки, которые зависят от этой
+  sheet: string; // Лист, на котором находится формула
+  row: number;
+  col: number;
+  names: Set<string>; // Используемые имена (в верхнем регистре)
+  functions: Set<string>; // Вызываемые функции (в верхнем регистре)
+  dynamicDependencies: DependencyArea[]; // Области, прочитанные OFFSET/INDIRECT при последнем вычислении
+}
+
+export interface CellPosition {
+  sheet: string;
+  row: number;
+  col: number;
+}
+
+/**
+ * Формула, переписанная изменением листа: прежние положение и текст (для отмены)
+ */
+export interface RewrittenFormula extends CellPosition {
+  formula: string;
+}
+
+/**
+ * Параметры итеративного вычисления циклических ссылок (как в Excel)
+ */
+export interface IterativeCalculationOptions {
+  enabled: boolean;
+  maxIterations: number; // Предельное число итераций
+  maxChange: number; // Итерации прекращаются, когда значения меняются меньше чем на эту величину
+}
+
+export const DEFAULT_ITERATIVE_CALCULATION: IterativeCalculationOptions = {
+  enabled: false,
+  maxIterations: 100,
+  maxChange: 0.001,
+};
+
+/**
+ * Область переноса динамического массива - ячейки справа и снизу от формулы
+ */
+export interface SpillRange {
+  sheet: string;
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+  result: CellValue; // Массив значений с формой (по строкам), первый элемент - в ячейке формулы
+}
+
+// Предельное число проходов пересчета: перенос массива может заново пометить
+// для пересчета формулы, уже вычисленные в этом пересчете
+const MAX_RECALCULATION_PASSES = 100;
+
+// Функции, результат которых зависит от положения формулы (ROW(), INDIRECT("R[-1]C", FALSE))
+const POSITION_FUNCTIONS = ['ROW', 'COLUMN', 'INDIRECT'];
+
+export type UpdateFormulaCallback = (
+  row: number,
+  col: number,
+  formula: string,
+  sheet: string
+) => void;
+
+/**
+ * Параметры структурного изменения листа (вставка, удаление или перенос строк либо столбцов)
+ */
+interface StructuralShift {
+  sheet: string;
+  rows?: AxisShift;
+  cols?: AxisShift;
 }
 
 export class FormulaManager {
   private parser: FormulaParser;
   private engine: FormulaEngine;
-  private formulas: Map<string, FormulaInfo> = new Map(); // "row:col" -> FormulaInfo
-  private updateFormulaCallback?: (row: number, col: number, formula: string) => void;
+  private context: FormulaContext;
+  private names: NameManager = new NameManager();
+  private dependencyGraph: DependencyGraph = new DependencyGraph();
+  private formulas: Map<string, FormulaInfo> = new Map(); // "ЛИСТ!row:col" -> FormulaInfo
+  private values: Map<string, CellValue> = new Map(); // Кэш вычисленных значений формул
+  private dirtyFormulas: Set<string> = new Set(); // Формулы, требующие пересчета
+  private evaluatingFormulas: Set<string> = new Set(); // Защита от бесконечной рекурсии
+  private cycles: Map<string, string[]> = new Map(); // Ключ формулы -> формулы ее цикла
+  private iterativeCalculation: IterativeCalculationOptions = { ...DEFAULT_ITERATIVE_CALCULATION };
+  private iteratingFormulas: Set<string> | null = null; // Цикл, который сейчас вычисляется итерациями
+  private volatileFormulas: Set<string> = new Set(); // Формулы с волатильными функциями (RAND, NOW)
+  private functionsVersion: number; // Версия реестра функций, по которой построен volatileFormulas
+  private spills: Map<string, SpillRange> = new Map(); // Ключ формулы -> область переноса ее массива
+  private spillCells: Map<string, string> = new Map(); // Ключ ячейки области переноса -> ключ формулы
+  private currentCell: FormulaCell | undefined; // Вычисляемая формула (зависимости от перенесенных значений)
+  private recalculatedFormulas: Set<string> = new Set(); // Формулы, пересчитанные последним recalculate
+  private updateFormulaCallback?: UpdateFormulaCallback;
 
   constructor(context: FormulaContext) {
     this.parser = new FormulaParser();
-    this.engine = new FormulaEngine(context);
+    // Свой реестр поверх общего: функции, зарегистрированные менеджером, не видны другим книгам
+    this.engine = new FormulaEngine(
+      context,
+      this.names,
+      new FunctionRegistry([], functionRegistry)
+    );
+    this.context = context;
+    this.functionsVersion = this.engine.getFunctionRegistry().getVersion();
     console.log('📊 FormulaManager инициализирован');
   }
 
   /**
    * Установка callback для обновления формулы в SparseMatrix
    */
-  setUpdateFormulaCallback(callback: (row: number, col: number, formula: string) => void): void {
+  setUpdateFormulaCallback(callback: UpdateFormulaCallback): void {
     this.updateFormulaCallback = callback;
   }
 
   /**
    * Установка формулы в ячейку
    */
-  setFormula(row: number, col: number, formula: string): void {
-    const cellKey = `${row}:${col}`;
+  setFormula(row: number, col: number, formula: string, sheet: string = DEFAULT_SHEET_NAME): void {
+    const cellKey = this.getCellKey(row, col, sheet);
 
     try {
       // Парсим формулу
       const ast = this.parser.parse(formula);
 
-      // Находим зависимости
-      const dependencies = this.extractDependencies(ast.root);
+      // Находим зависимости - области листов, на которые ссылается формула
+      const dependencies = this.extractDependencies(ast.root, sheet);
 
-      // Удаляем старые зависимости
-      this.removeDependencies(cellKey);
+      // Сохраняем формулу и заменяем ее зависимости в графе
+      const formulaInfo = this.createFormulaInfo(ast, sheet, row, col);
+      this.formulas.set(cellKey, formulaInfo);
+      this.updateVolatility(cellKey, formulaInfo);
+      this.dependencyGraph.setPrecedents(cellKey, dependencies);
+      this.updateCycles([cellKey]);
+      this.invalidateCell(row, col, sheet);
 
-      // Сохраняем формулу
-      this.formulas.set(cellKey, {
-        ast,
-        dependencies,
-        dependents: new Set(),
-      });
-
-      // Добавляем новые зависимости
-      this.addDependencies(cellKey, dependencies);
-
-      console.log(`📝 Формула установлена в ячейку ${row},${col}: ${formula}`);
-      console.log(`🔗 Зависимости: ${Array.from(dependencies).join(', ')}`);
+      console.log(`📝 Формула установлена в ячейку ${sheet}!${row},${col}: ${formula}`);
+      console.log(`🔗 Зависимостей: ${dependencies.length}`);
     } catch (error) {
       console.error(`❌ Ошибка установки формулы: ${error}`);
       throw error;
@@ -70,571 +176,1773 @@ export class FormulaManager {
   /**
    * Получение формулы из ячейки
    */
-  getFormula(row: number, col: number): string | null {
-    const cellKey = `${row}:${col}`;
-    const formulaInfo = this.formulas.get(cellKey);
+  getFormula(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): string | null {
+    const formulaInfo = this.formulas.get(this.getCellKey(row, col, sheet));
     return formulaInfo ? formulaInfo.ast.originalFormula : null;
   }
 
   /**
    * Удаление формулы из ячейки
    */
-  removeFormula(row: number, col: number): void {
-    const cellKey = `${row}:${col}`;
-    this.removeDependencies(cellKey);
+  removeFormula(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): void {
+    const cellKey = this.getCellKey(row, col, sheet);
+    this.dependencyGraph.removeFormula(cellKey);
     this.formulas.delete(cellKey);
-    console.log(`🗑️ Формула удалена из ячейки ${row},${col}`);
+    this.values.delete(cellKey);
+    this.setSpill(cellKey, null);
+    this.dirtyFormulas.delete(cellKey);
+    this.volatileFormulas.delete(cellKey);
+    this.updateCycles([cellKey]);
+    this.invalidateCell(row, col, sheet);
+    console.log(`🗑️ Формула удалена из ячейки ${sheet}!${row},${col}`);
   }
 
   /**
-   * Вычисление формулы в ячейке
+   * Значение формулы в ячейке (из кэша, если формула не помечена для пересчета)
    */
-  evaluateFormula(row: number, col: number): CellValue {
-    const cellKey = `${row}:${col}`;
+  evaluateFormula(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): CellValue {
+    const cellKey = this.getCellKey(row, col, sheet);
     const formulaInfo = this.formulas.get(cellKey);
 
     if (!formulaInfo) {
       return { value: null, type: 'empty' };
     }
 
-    try {
-      return this.engine.evaluate(formulaInfo.ast);
-    } catch (error) {
-      console.error(`❌ Ошибка вычисления формулы в ${row},${col}: ${error}`);
-      return { value: `#ERROR: ${error}`, type: 'error' };
+    this.refreshFunctions();
+
+    // Внутри итерации цикла используется значение предыдущей итерации
+    if (this.iteratingFormulas?.has(cellKey)) {
+      return this.values.get(cellKey) ?? { value: null, type: 'empty' };
+    }
+
+    const cached = this.values.get(cellKey);
+    if (cached && !this.dirtyFormulas.has(cellKey)) {
+      return cached;
     }
+
+    return this.computeFormula(cellKey, formulaInfo);
   }
 
   /**
-   * Обработка сдвига при операциях со строками/столбцами
+   * Значение, перенесенное в ячейку массивом другой формулы (null - ячейка вне областей переноса)
    */
-  handleRowInsertion(atRow: number): void {
-    console.log(`📊 Обработка вставки строки на позиции ${atRow}`);
-    console.log(`📊 Текущие формулы:`, Array.from(this.formulas.keys()));
-
-    const newFormulas = new Map<string, FormulaInfo>();
-
-    for (const [cellKey, formulaInfo] of this.formulas) {
-      const [rowStr, colStr] = cellKey.split(':');
-      const row = parseInt(rowStr || '0', 10);
-      const col = parseInt(colStr || '0', 10);
-
-      let newRow = row;
-      let newCol = col;
-
-      // Сдвигаем ячейки ниже точки вставки
-      if (row >= atRow) {
-        newRow = row + 1;
-      }
-
-      console.log(`📊 Формула ${cellKey} -> ${newRow}:${newCol} (сдвиг строки)`);
-
-      // Сдвигаем ссылки в формуле
-      console.log(`📊 Сдвигаем формулу ${cellKey}: ${JSON.stringify(formulaInfo.ast.root)}`);
-      const shiftedAST = this.shiftFormulaAST(
-        formulaInfo.ast,
-        0,
-        0,
-        atRow,
-        undefined,
-        undefined,
-        undefined
-      );
-      console.log(`📊 Результат сдвига: ${JSON.stringify(shiftedAST.root)}`);
-
-      const newCellKey = `${newRow}:${newCol}`;
+  getSpillValue(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): CellValue | null {
+    const cellKey = this.getCellKey(row, col, sheet);
+    let anchorKey = this.spillCells.get(cellKey);
+
+    // Устаревшая формула массива вычисляется заново - область переноса может измениться
+    if (anchorKey !== undefined && this.dirtyFormulas.has(anchorKey)) {
+      const anchor = this.formulas.get(anchorKey)!;
+      this.evaluateFormula(anchor.row, anchor.col, anchor.sheet);
+      anchorKey = this.spillCells.get(cellKey);
+    }
 
-      // Обновляем исходную строку формулы в SparseMatrix
-      const newFormulaString = this.formatFormula(shiftedAST.root);
-      console.log(`🔧 Обновляем формулу: ${cellKey} -> ${newCellKey}: ${newFormulaString}`);
+    const spill = anchorKey !== undefined ? this.spills.get(anchorKey) : undefined;
+    if (anchorKey === undefined || !spill) {
+      return null;
+    }
 
-      // Вызываем callback для обновления формулы в SparseMatrix
-      if (this.updateFormulaCallback) {
-        this.updateFormulaCallback(newRow, newCol, `=${newFormulaString}`);
-      }
+    // Формула массива читает собственную область переноса
+    if (this.evaluatingFormulas.has(anchorKey)) {
+      return { value: '#CIRC!', type: 'error' };
+    }
 
-      newFormulas.set(newCellKey, {
-        ast: shiftedAST,
-        dependencies: this.extractDependencies(shiftedAST.root),
-        dependents: new Set(),
+    // Читающая формула пересчитывается вместе с формулой массива
+    const dependencies = this.currentCell?.dynamicDependencies;
+    const isKnown = dependencies?.some(
+      area =>
+        area.sheet === spill.sheet &&
+        area.startRow === spill.startRow &&
+        area.startCol === spill.startCol
+    );
+    if (dependencies && !isKnown) {
+      dependencies.push({
+        type: 'reference',
+        sheet: spill.sheet,
+        startRow: spill.startRow,
+        startCol: spill.startCol,
+        endRow: spill.startRow,
+        endCol: spill.startCol,
       });
     }
 
-    // Обновляем карту формул
-    this.formulas = newFormulas;
-    this.rebuildDependencies();
+    return this.getSpillElement(spill, row, col);
+  }
 
-    console.log(`✅ Обработана вставка строки: ${this.formulas.size} формул обновлено`);
+  /**
+   * Область переноса массива формулы ячейки (для ссылки A1#), null - формула не переносит массив
+   */
+  getSpillArea(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): SpillRange | null {
+    const cellKey = this.getCellKey(row, col, sheet);
+    if (!this.formulas.has(cellKey)) {
+      return null;
+    }
 
-    // Принудительно пересчитываем все формулы
-    this.recalculateAllFormulas();
+    this.evaluateFormula(row, col, sheet);
+    return this.spills.get(cellKey) ?? null;
   }
 
   /**
-   * Обработка удаления строки
+   * Настройка итеративного вычисления циклических ссылок
    */
-  handleRowDeletion(atRow: number): void {
-    console.log(`📊 Обработка удаления строки на позиции ${atRow}`);
-
-    const newFormulas = new Map<string, FormulaInfo>();
+  setIterativeCalculation(options: Partial<IterativeCalculationOptions>): void {
+    this.iterativeCalculation = { ...this.iterativeCalculation, ...options };
+    console.log(
+      `🔁 Итеративное вычисление: ${this.iterativeCalculation.enabled ? 'включено' : 'выключено'}`
+    );
 
-    for (const [cellKey, formulaInfo] of this.formulas) {
-      const [rowStr, colStr] = cellKey.split(':');
-      const row = parseInt(rowStr || '0', 10);
-      const col = parseInt(colStr || '0', 10);
+    for (const cellKey of this.cycles.keys()) {
+      const { sheet, row, col } = this.formulas.get(cellKey)!;
+      this.invalidateCell(row, col, sheet);
+    }
+    this.recalculate();
+  }
 
-      // Удаляем формулу из удаляемой строки
-      if (row === atRow) {
-        continue;
-      }
+  /**
+   * Текущие параметры итеративного вычисления
+   */
+  getIterativeCalculation(): IterativeCalculationOptions {
+    return { ...this.iterativeCalculation };
+  }
 
-      let newRow = row;
-      let newCol = col;
+  /**
+   * Все найденные циклы (ячейки каждого цикла)
+   */
+  getCircularReferences(): CellPosition[][] {
+    return Array.from(new Set(this.cycles.values())).map(cycle =>
+      cycle.map(cellKey => this.getCellPosition(cellKey))
+    );
+  }
 
-      // Сдвигаем ячейки выше точки удаления
-      if (row > atRow) {
-        newRow = row - 1;
-      }
+  /**
+   * Путь цикла через ячейку: ячейка, ячейки, на которые она ссылается, ..., снова ячейка
+   */
+  getCyclePath(
+    row: number,
+    col: number,
+    sheet: string = DEFAULT_SHEET_NAME
+  ): CellPosition[] | null {
+    const cellKey = this.getCellKey(row, col, sheet);
+    const cycle = this.cycles.get(cellKey);
+    if (!cycle) {
+      return null;
+    }
 
-      // Сдвигаем ссылки в формуле
-      const shiftedAST = this.shiftFormulaAST(
-        formulaInfo.ast,
-        0,
-        0,
-        undefined,
-        undefined,
-        atRow,
-        undefined
-      );
+    // Поиск в ширину по ссылкам внутри цикла до возврата в исходную ячейку
+    const previous = new Map<string, string>();
+    const queue = [cellKey];
 
-      const newCellKey = `${newRow}:${newCol}`;
+    for (let index = 0; index < queue.length; index++) {
+      const key = queue[index]!;
 
-      // Обновляем исходную строку формулы в SparseMatrix
-      const newFormulaString = this.formatFormula(shiftedAST.root);
-      console.log(`🔧 Обновляем формулу: ${cellKey} -> ${newCellKey}: ${newFormulaString}`);
+      for (const precedent of this.getCyclePrecedents(key, cycle)) {
+        if (precedent === cellKey) {
+          const path = [key];
+          while (path[0] !== cellKey) {
+            path.unshift(previous.get(path[0]!)!);
+          }
+          path.push(cellKey);
+          return path.map(pathKey => this.getCellPosition(pathKey));
+        }
 
-      // Вызываем callback для обновления формулы в SparseMatrix
-      if (this.updateFormulaCallback) {
-        this.updateFormulaCallback(newRow, newCol, `=${newFormulaString}`);
+        if (!previous.has(precedent)) {
+          previous.set(precedent, key);
+          queue.push(precedent);
+        }
       }
-
-      newFormulas.set(newCellKey, {
-        ast: shiftedAST,
-        dependencies: this.extractDependencies(shiftedAST.root),
-        dependents: new Set(),
-      });
     }
 
-    // Обновляем карту формул
-    this.formulas = newFormulas;
-    this.rebuildDependencies();
-
-    console.log(`✅ Обработано удаление строки: ${this.formulas.size} формул обновлено`);
+    return null;
+  }
 
-    // Принудительно пересчитываем все формулы
-    this.recalculateAllFormulas();
+  /**
+   * Ячейки всех зарегистрированных формул
+   */
+  getFormulaCells(): CellPosition[] {
+    return Array.from(this.formulas.values()).map(({ sheet, row, col }) => ({ sheet, row, col }));
   }
 
   /**
-   * Обработка вставки столбца
+   * Ячейки формул, помеченных для пересчета
    */
-  handleColumnInsertion(atCol: number): void {
-    console.log(`📊 Обработка вставки столбца на позиции ${atCol}`);
-    console.log(`📊 Текущие формулы:`, Array.from(this.formulas.keys()));
+  getDirtyFormulas(): CellPosition[] {
+    return Array.from(this.dirtyFormulas)
+      .filter(cellKey => this.formulas.has(cellKey))
+      .map(cellKey => this.getCellPosition(cellKey));
+  }
 
-    const newFormulas = new Map<string, FormulaInfo>();
+  /**
+   * Пометка формул, зависящих от ячейки (прямо или через другие формулы), для пересчета
+   */
+  invalidateCell(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): void {
+    const cellKey = this.getCellKey(row, col, sheet);
+    if (this.formulas.has(cellKey)) {
+      this.dirtyFormulas.add(cellKey);
+    }
 
-    for (const [cellKey, formulaInfo] of this.formulas) {
-      console.log(`🔧 Обрабатываем формулу: ${cellKey}`);
-      const [rowStr, colStr] = cellKey.split(':');
-      const row = parseInt(rowStr || '0', 10);
-      const col = parseInt(colStr || '0', 10);
-
-      let newRow = row;
-      let newCol = col;
-
-      // Сдвигаем ячейки правее точки вставки
-      if (col >= atCol) {
-        newCol = col + 1;
-        console.log(`🔧 Сдвигаем столбец: ${col} -> ${newCol}`);
-      }
-
-      // Сдвигаем ссылки в формуле
-      console.log(`📊 Сдвигаем формулу ${cellKey}: ${JSON.stringify(formulaInfo.ast.root)}`);
-      const shiftedAST = this.shiftFormulaAST(
-        formulaInfo.ast,
-        0,
-        0,
-        undefined,
-        atCol,
-        undefined,
-        undefined
-      );
-      console.log(`📊 Результат сдвига: ${JSON.stringify(shiftedAST.root)}`);
+    const visited = new Set<string>([cellKey]);
+    const queue = [{ sheet, row, col }];
 
-      const newCellKey = `${newRow}:${newCol}`;
+    for (let index = 0; index < queue.length; index++) {
+      const cell = queue[index]!;
 
-      // Обновляем исходную строку формулы в SparseMatrix
-      const newFormulaString = this.formatFormula(shiftedAST.root);
-      console.log(`🔧 Обновляем формулу: ${cellKey} -> ${newCellKey}: ${newFormulaString}`);
+      for (const dependentKey of this.dependencyGraph.getDependents(
+        cell.sheet,
+        cell.row,
+        cell.col
+      )) {
+        const dependent = this.formulas.get(dependentKey);
+        if (visited.has(dependentKey) || !dependent) {
+          continue;
+        }
 
-      // Вызываем callback для обновления формулы в SparseMatrix
-      if (this.updateFormulaCallback) {
-        this.updateFormulaCallback(newRow, newCol, `=${newFormulaString}`);
+        visited.add(dependentKey);
+        this.dirtyFormulas.add(dependentKey);
+        queue.push(dependent);
       }
-
-      newFormulas.set(newCellKey, {
-        ast: shiftedAST,
-        dependencies: this.extractDependencies(shiftedAST.root),
-        dependents: new Set(),
-      });
     }
+  }
 
-    // Обновляем карту формул
-    this.formulas = newFormulas;
-    this.rebuildDependencies();
-
-    console.log(`✅ Обработана вставка столбца: ${this.formulas.size} формул обновлено`);
+  /**
+   * Пометка всех формул для пересчета
+   */
+  invalidateAll(): void {
+    for (const cellKey of this.formulas.keys()) {
+      this.dirtyFormulas.add(cellKey);
+    }
+  }
 
-    // Принудительно пересчитываем все формулы
-    this.recalculateAllFormulas();
+  /**
+   * Пометка для пересчета формул с волатильными функциями и зависящих от них формул
+   */
+  invalidateVolatile(): void {
+    for (const cellKey of this.volatileFormulas) {
+      const { sheet, row, col } = this.formulas.get(cellKey)!;
+      this.invalidateCell(row, col, sheet);
+    }
   }
 
   /**
-   * Обработка удаления столбца
+   * Регистрация пользовательской функции только для формул этого менеджера (для всех книг -
+   * registerFunction из functions/index); формулы, которые ее вызывают, пересчитываются
    */
-  handleColumnDeletion(atCol: number): void {
-    console.log(`📊 Обработка удаления столбца на позиции ${atCol}`);
+  registerFunction<TArgs extends FunctionArgument[] = CellValue[]>(
+    definition: FunctionDefinition<TArgs>
+  ): void {
+    this.engine.getFunctionRegistry().register(definition);
+    this.refreshFunctions();
+    this.recalculate();
+  }
 
-    const newFormulas = new Map<string, FormulaInfo>();
+  /**
+   * Все доступные функции в алфавитном порядке (подсказки при вводе формулы)
+   */
+  getFunctions(): FunctionDefinition<FunctionArgument[]>[] {
+    return this.engine.getFunctionRegistry().getAll();
+  }
 
-    for (const [cellKey, formulaInfo] of this.formulas) {
-      const [rowStr, colStr] = cellKey.split(':');
-      const row = parseInt(rowStr || '0', 10);
-      const col = parseInt(colStr || '0', 10);
+  /**
+   * Пересчет помеченных формул в топологическом порядке (сначала влияющие ячейки)
+   * @returns Количество пересчитанных формул
+   */
+  recalculate(): number {
+    this.refreshFunctions();
+    this.invalidateVolatile();
+    this.recalculatedFormulas = new Set();
+
+    // Формулы, прочитавшие ячейки до переноса в них массива, пересчитываются следующим проходом
+    for (let pass = 0; pass < MAX_RECALCULATION_PASSES; pass++) {
+      const pending = new Set(Array.from(this.dirtyFormulas).filter(key => this.formulas.has(key)));
+      this.dirtyFormulas = pending;
+
+      if (pending.size === 0) {
+        break;
+      }
 
-      // Удаляем формулу из удаляемого столбца
-      if (col === atCol) {
-        continue;
+      for (const cellKey of this.getCalculationOrder(pending)) {
+        const formulaInfo = this.formulas.get(cellKey);
+        if (formulaInfo && this.dirtyFormulas.has(cellKey)) {
+          this.computeFormula(cellKey, formulaInfo);
+        }
+        this.recalculatedFormulas.add(cellKey);
       }
+    }
 
-      let newRow = row;
-      let newCol = col;
+    if (this.recalculatedFormulas.size > 0) {
+      console.log(`🔄 Пересчитано формул: ${this.recalculatedFormulas.size}`);
+    }
+    return this.recalculatedFormulas.size;
+  }
 
-      // Сдвигаем ячейки левее точки удаления
-      if (col > atCol) {
-        newCol = col - 1;
-      }
+  /**
+   * Формулы, пересчитанные последним вызовом recalculate
+   */
+  getRecalculatedFormulas(): CellPosition[] {
+    return Array.from(this.recalculatedFormulas)
+      .filter(cellKey => this.formulas.has(cellKey))
+      .map(cellKey => this.getCellPosition(cellKey));
+  }
 
-      // Сдвигаем ссылки в формуле
-      const shiftedAST = this.shiftFormulaAST(
-        formulaInfo.ast,
-        0,
-        0,
-        undefined,
-        undefined,
-        undefined,
-        atCol
+  /**
+   * Порядок пересчета формул: формула вычисляется после формул, на которые ссылается;
+   * формулы циклов - в конце
+   */
+  private getCalculationOrder(pending: Set<string>): string[] {
+    // Ребра графа внутри пересчитываемого множества: формула -> зависящие от нее формулы
+    const inDegree = new Map<string, number>();
+    const edges = new Map<string, string[]>();
+
+    for (const cellKey of pending) {
+      const { sheet, row, col } = this.formulas.get(cellKey)!;
+      const dependents = Array.from(this.dependencyGraph.getDependents(sheet, row, col)).filter(
+        key => key !== cellKey && pending.has(key)
       );
 
-      const newCellKey = `${newRow}:${newCol}`;
-
-      // Обновляем исходную строку формулы в SparseMatrix
-      const newFormulaString = this.formatFormula(shiftedAST.root);
-      console.log(`🔧 Обновляем формулу: ${cellKey} -> ${newCellKey}: ${newFormulaString}`);
+      edges.set(cellKey, dependents);
+      for (const dependent of dependents) {
+        inDegree.set(dependent, (inDegree.get(dependent) ?? 0) + 1);
+      }
+    }
 
-      // Вызываем callback для обновления формулы в SparseMatrix
-      if (this.updateFormulaCallback) {
-        this.updateFormulaCallback(newRow, newCol, `=${newFormulaString}`);
+    const order = Array.from(pending).filter(key => !inDegree.has(key));
+    for (let index = 0; index < order.length; index++) {
+      for (const dependent of edges.get(order[index]!) ?? []) {
+        const degree = (inDegree.get(dependent) ?? 0) - 1;
+        inDegree.set(dependent, degree);
+        if (degree === 0) {
+          order.push(dependent);
+        }
       }
+    }
 
-      newFormulas.set(newCellKey, {
-        ast: shiftedAST,
-        dependencies: this.extractDependencies(shiftedAST.root),
-        dependents: new Set(),
-      });
+    // Формулы, оставшиеся вне порядка, образуют циклы и вычисляются как есть
+    const ordered = new Set(order);
+    for (const cellKey of pending) {
+      if (!ordered.has(cellKey)) {
+        order.push(cellKey);
+      }
     }
 
-    // Обновляем карту формул
-    this.formulas = newFormulas;
-    this.rebuildDependencies();
+    return order;
+  }
+
+  /**
+   * Определение имени (TaxRate = $B$1, Sales = Data!A2:A500)
+   * @param sheet Лист, к которому привязываются ссылки определения без имени листа
+   */
+  defineName(name: string, refersTo: string, sheet?: string): void {
+    const formula = refersTo.startsWith('=') ? refersTo : `=${refersTo}`;
+    const parsed = this.parser.parse(formula).root;
+
+    const ast =
+      sheet === undefined
+        ? parsed
+        : this.mapReferences(parsed, reference =>
+            reference.sheet ? reference : { ...reference, sheet }
+          );
 
-    console.log(`✅ Обработано удаление столбца: ${this.formulas.size} формул обновлено`);
+    this.names.set({ name, refersTo: `=${FormulaFormatter.format(ast)}`, ast });
+    console.log(`🏷️ Имя ${name} определено как ${FormulaFormatter.format(ast)}`);
 
-    // Принудительно пересчитываем все формулы
-    this.recalculateAllFormulas();
+    this.refreshNameDependents();
   }
 
   /**
-   * Форматирование AST в строку формулы
+   * Удаление имени - формулы с этим именем вычисляются в #NAME?
    */
-  private formatFormula(node: FormulaNode): string {
-    switch (node.type) {
-      case 'number':
-        return node.value.toString();
-      case 'string':
-        return `"${node.value}"`;
-      case 'cell':
-        return FormulaUtils.formatCellReference(node);
-      case 'range':
-        return FormulaUtils.formatCellRange(node);
-      case 'function':
-        const args = node.args.map(arg => this.formatFormula(arg)).join(',');
-        return `${node.name.toUpperCase()}(${args})`;
-      case 'binary':
-        const left = this.formatFormula(node.left);
-        const right = this.formatFormula(node.right);
-        return `${left}${node.operator}${right}`;
-      case 'unary':
-        return `${node.operator}${this.formatFormula(node.operand)}`;
-      default:
-        return '';
+  removeName(name: string): void {
+    if (this.names.delete(name)) {
+      console.log(`🗑️ Имя ${name} удалено`);
+      this.refreshNameDependents();
     }
   }
 
   /**
-   * Принудительное пересчитывание всех формул
+   * Получение определения имени
    */
-  private recalculateAllFormulas(): void {
-    console.log(`🔄 Пересчитываем все ${this.formulas.size} формул`);
+  getName(name: string): DefinedName | null {
+    return this.names.get(name);
+  }
 
-    for (const [cellKey] of this.formulas) {
-      try {
-        const [rowStr, colStr] = cellKey.split(':');
-        const row = parseInt(rowStr || '0', 10);
-        const col = parseInt(colStr || '0', 10);
-        const result = this.evaluateFormula(row, col);
-        console.log(`🔄 Формула ${cellKey} пересчитана: ${JSON.stringify(result)}`);
-      } catch (error) {
-        console.error(`❌ Ошибка пересчета формулы ${cellKey}:`, error);
-      }
-    }
+  /**
+   * Все определенные имена
+   */
+  getNames(): DefinedName[] {
+    return this.names.getAll();
   }
 
   /**
-   * Извлечение зависимостей из AST
+   * Формулы, которые ссылаются на ячейку (в формате "ЛИСТ!row:col"); ячейка может быть и без формулы
    */
-  private extractDependencies(node: FormulaNode): Set<string> {
-    const dependencies = new Set<string>();
+  getDependents(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): string[] {
+    return Array.from(this.dependencyGraph.getDependents(sheet, row, col));
+  }
 
-    const traverse = (n: FormulaNode) => {
-      switch (n.type) {
-        case 'cell':
-          dependencies.add(`${n.row}:${n.col}`);
-          break;
-        case 'range':
-          // Добавляем все ячейки в диапазоне
-          for (let row = n.startRow; row <= n.endRow; row++) {
-            for (let col = n.startCol; col <= n.endCol; col++) {
-              dependencies.add(`${row}:${col}`);
-            }
-          }
-          break;
-        case 'function':
-          n.args.forEach(traverse);
-          break;
-        case 'binary':
-          traverse(n.left);
-          traverse(n.right);
-          break;
-        case 'unary':
-          traverse(n.operand);
-          break;
-      }
-    };
+  /**
+   * Области, на которые ссылается формула ячейки
+   */
+  getPrecedents(row: number, col: number, sheet: string = DEFAULT_SHEET_NAME): DependencyArea[] {
+    return this.dependencyGraph.getPrecedents(this.getCellKey(row, col, sheet));
+  }
 
-    traverse(node);
-    return dependencies;
+  /**
+   * Ячейки с формулами, которые используют имя
+   */
+  getNameDependents(name: string): CellPosition[] {
+    const key = NameManager.normalize(name);
+    return Array.from(this.formulas.values())
+      .filter(info => info.names.has(key))
+      .map(({ sheet, row, col }) => ({ sheet, row, col }));
   }
 
   /**
-   * Сдвиг AST формулы
+   * Обработка вставки, удаления или переноса строк либо столбцов листа
+   * @returns Формулы с переписанными ссылками - их прежние положение и текст
    */
-  private shiftFormulaAST(
-    ast: FormulaAST,
-    rowOffset: number,
-    colOffset: number,
-    insertRow?: number,
-    insertCol?: number,
-    deleteRow?: number,
-    deleteCol?: number
-  ): FormulaAST {
-    const shiftedRoot = this.shiftNode(
-      ast.root,
-      rowOffset,
-      colOffset,
-      insertRow,
-      insertCol,
-      deleteRow,
-      deleteCol
+  handleLineShift(sheet: string, axis: 'rows' | 'columns', shift: AxisShift): RewrittenFormula[] {
+    const lines = axis === 'rows' ? 'строк' : 'столбцов';
+    console.log(
+      `📊 Обработка сдвига ${lines} (${shift.type}) на позиции ${shift.at} (лист ${sheet})`
+    );
+    return this.applyStructuralShift(
+      axis === 'rows' ? { sheet, rows: shift } : { sheet, cols: shift }
     );
+  }
 
-    return {
-      ...ast,
-      root: shiftedRoot,
-    };
+  /**
+   * Обработка вставки count строк перед строкой atRow
+   */
+  handleRowInsertion(atRow: number, sheet: string = DEFAULT_SHEET_NAME, count = 1): void {
+    console.log(`📊 Обработка вставки ${count} строк на позиции ${atRow} (лист ${sheet})`);
+    this.applyStructuralShift({ sheet, rows: { type: 'insert', at: atRow, count } });
+    console.log(`✅ Обработана вставка строк: ${this.formulas.size} формул обновлено`);
   }
 
   /**
-   * Сдвиг узла AST
+   * Обработка удаления count строк, начиная со строки atRow
    */
-  private shiftNode(
-    node: FormulaNode,
-    rowOffset: number,
-    colOffset: number,
-    insertRow?: number,
-    insertCol?: number,
-    deleteRow?: number,
-    deleteCol?: number
-  ): FormulaNode {
-    console.log(
-      `🔧 shiftNode: type=${node.type}, rowOffset=${rowOffset}, colOffset=${colOffset}, insertCol=${insertCol}`
-    );
+  handleRowDeletion(atRow: number, sheet: string = DEFAULT_SHEET_NAME, count = 1): void {
+    console.log(`📊 Обработка удаления ${count} строк на позиции ${atRow} (лист ${sheet})`);
+    this.applyStructuralShift({ sheet, rows: { type: 'delete', at: atRow, count } });
+    console.log(`✅ Обработано удаление строк: ${this.formulas.size} формул обновлено`);
+  }
 
-    switch (node.type) {
-      case 'cell':
-        const shiftedCell = FormulaUtils.shiftCellReference(
-          node,
-          rowOffset,
-          colOffset,
-          insertRow,
-          insertCol,
-          deleteRow,
-          deleteCol
-        );
-        console.log(
-          `🔧 shiftNode cell: ${node.row},${node.col} -> ${shiftedCell.row},${shiftedCell.col}`
-        );
-        return shiftedCell;
+  /**
+   * Обработка переноса count строк, начиная со строки atRow, на место перед строкой toRow
+   */
+  handleRowMove(
+    atRow: number,
+    count: number,
+    toRow: number,
+    sheet: string = DEFAULT_SHEET_NAME
+  ): void {
+    console.log(`📊 Обработка переноса ${count} строк с ${atRow} перед ${toRow} (лист ${sheet})`);
+    this.applyStructuralShift({ sheet, rows: { type: 'move', at: atRow, count, to: toRow } });
+  }
 
-      case 'range':
-        const shiftedRange = FormulaUtils.shiftCellRange(
-          node,
-          rowOffset,
-          colOffset,
-          insertRow,
-          insertCol,
-          deleteRow,
-          deleteCol
-        );
-        console.log(
-          `🔧 shiftNode range: ${node.startRow},${node.startCol}:${node.endRow},${node.endCol} -> ${shiftedRange.startRow},${shiftedRange.startCol}:${shiftedRange.endRow},${shiftedRange.endCol}`
-        );
-        return shiftedRange;
-
-      case 'function':
-        return {
-          ...node,
-          args: node.args.map(arg =>
-            this.shiftNode(arg, rowOffset, colOffset, insertRow, insertCol, deleteRow, deleteCol)
-          ),
-        };
-
-      case 'binary':
-        return {
-          ...node,
-          left: this.shiftNode(
-            node.left,
-            rowOffset,
-            colOffset,
-            insertRow,
-            insertCol,
-            deleteRow,
-            deleteCol
-          ),
-          right: this.shiftNode(
-            node.right,
-            rowOffset,
-            colOffset,
-            insertRow,
-            insertCol,
-            deleteRow,
-            deleteCol
-          ),
-        };
-
-      case 'unary':
-        return {
-          ...node,
-          operand: this.shiftNode(
-            node.operand,
-            rowOffset,
-            colOffset,
-            insertRow,
-            insertCol,
-            deleteRow,
-            deleteCol
-          ),
-        };
+  /**
+   * Обработка вставки count столбцов перед столбцом atCol
+   */
+  handleColumnInsertion(atCol: number, sheet: string = DEFAULT_SHEET_NAME, count = 1): void {
+    console.log(`📊 Обработка вставки ${count} столбцов на позиции ${atCol} (лист ${sheet})`);
+    this.applyStructuralShift({ sheet, cols: { type: 'insert', at: atCol, count } });
+    console.log(`✅ Обработана вставка столбцов: ${this.formulas.size} формул обновлено`);
+  }
 
-      default:
-        return node; // Числа, строки и т.д. не сдвигаются
-    }
+  /**
+   * Обработка удаления count столбцов, начиная со столбца atCol
+   */
+  handleColumnDeletion(atCol: number, sheet: string = DEFAULT_SHEET_NAME, count = 1): void {
+    console.log(`📊 Обработка удаления ${count} столбцов на позиции ${atCol} (лист ${sheet})`);
+    this.applyStructuralShift({ sheet, cols: { type: 'delete', at: atCol, count } });
+    console.log(`✅ Обработано удаление столбцов: ${this.formulas.size} формул обновлено`);
   }
 
   /**
-   * Добавление зависимостей
+   * Обработка переноса count столбцов, начиная со столбца atCol, на место перед столбцом toCol
    */
-  private addDependencies(cellKey: string, dependencies: Set<string>): void {
-    for (const dep of dependencies) {
-      const depInfo = this.formulas.get(dep);
-      if (depInfo) {
-        depInfo.dependents.add(cellKey);
-      }
-    }
+  handleColumnMove(
+    atCol: number,
+    count: number,
+    toCol: number,
+    sheet: string = DEFAULT_SHEET_NAME
+  ): void {
+    console.log(
+      `📊 Обработка переноса ${count} столбцов с ${atCol} перед ${toCol} (лист ${sheet})`
+    );
+    this.applyStructuralShift({ sheet, cols: { type: 'move', at: atCol, count, to: toCol } });
   }
 
   /**
-   * Удаление зависимостей
+   * Обработка переименования листа - перенос формул и обновление ссылок
    */
-  private removeDependencies(cellKey: string): void {
-    const formulaInfo = this.formulas.get(cellKey);
-    if (formulaInfo) {
-      for (const dep of formulaInfo.dependencies) {
-        const depInfo = this.formulas.get(dep);
-        if (depInfo) {
-          depInfo.dependents.delete(cellKey);
+  handleSheetRename(oldName: string, newName: string): void {
+    console.log(`📊 Переименование листа ${oldName} -> ${newName}`);
+
+    const oldKey = FormulaUtils.normalizeSheetName(oldName);
+    const isRenamed = (sheet?: string) =>
+      sheet !== undefined && FormulaUtils.normalizeSheetName(sheet) === oldKey;
+
+    this.rewriteFormulas(
+      sheet => (isRenamed(sheet) ? newName : sheet),
+      reference => {
+        if (
+          !isRenamed(reference.sheet) &&
+          !(reference.type === 'range' && isRenamed(reference.endSheet))
+        ) {
+          return reference;
+        }
+
+        const renamed = { ...reference };
+        if (isRenamed(renamed.sheet)) {
+          renamed.sheet = newName;
         }
+        if (renamed.type === 'range' && isRenamed(renamed.endSheet)) {
+          renamed.endSheet = newName;
+        }
+        return renamed;
+      },
+      this.getSheetArea(oldName)
+    );
+  }
+
+  /**
+   * Обработка удаления листа - формулы листа удаляются, ссылки на него становятся #REF!
+   * @param sheetOrder Порядок листов книги до удаления (для сужения 3D-диапазонов)
+   */
+  handleSheetDeletion(name: string, sheetOrder: string[]): void {
+    console.log(`📊 Удаление листа ${name}`);
+
+    const deletedKey = FormulaUtils.normalizeSheetName(name);
+    const order = sheetOrder.map(sheet => FormulaUtils.normalizeSheetName(sheet));
+    const deletedIndex = order.indexOf(deletedKey);
+
+    this.rewriteFormulas(
+      sheet => (FormulaUtils.normalizeSheetName(sheet) === deletedKey ? null : sheet),
+      reference => {
+        if (!reference.sheet) {
+          return reference;
+        }
+
+        const startIndex = order.indexOf(FormulaUtils.normalizeSheetName(reference.sheet));
+
+        if (reference.type === 'range' && reference.endSheet) {
+          const endIndex = order.indexOf(FormulaUtils.normalizeSheetName(reference.endSheet));
+          if (startIndex !== deletedIndex && endIndex !== deletedIndex) {
+            return reference;
+          }
+          if (startIndex === endIndex) {
+            return { type: 'error', value: '#REF!' };
+          }
+
+          // Удаляемый крайний лист 3D-диапазона заменяется соседним внутри диапазона
+          const step = startIndex < endIndex ? 1 : -1;
+          return startIndex === deletedIndex
+            ? { ...reference, sheet: sheetOrder[startIndex + step] ?? reference.sheet }
+            : { ...reference, endSheet: sheetOrder[endIndex - step] ?? reference.endSheet };
+        }
+
+        return startIndex === deletedIndex && deletedIndex !== -1
+          ? { type: 'error', value: '#REF!' }
+          : reference;
+      },
+      this.getSheetArea(name)
+    );
+  }
+
+  /**
+   * Обработка перемещения листа - меняется состав 3D-диапазонов
+   */
+  handleSheetMove(): void {
+    const previous = new Map(
+      Array.from(this.formulas.keys(), cellKey => [
+        cellKey,
+        JSON.stringify(this.dependencyGraph.getPrecedents(cellKey)),
+      ])
+    );
+    this.rebuildDependencies();
+
+    // Пересчитываются только формулы, у которых изменились области зависимостей
+    for (const [cellKey, { sheet, row, col }] of this.formulas) {
+      if (JSON.stringify(this.dependencyGraph.getPrecedents(cellKey)) !== previous.get(cellKey)) {
+        this.invalidateCell(row, col, sheet);
       }
     }
+    this.recalculate();
   }
 
   /**
-   * Перестройка всех зависимостей
+   * Перенос формулы в ячейку, смещенную на rowOffset строк и colOffset столбцов
+   * (копирование, заполнение): относительные части ссылок сдвигаются, абсолютные ($A$1)
+   * остаются, ссылка за пределы листа становится #REF!; не формула возвращается как есть
    */
-  private rebuildDependencies(): void {
-    // Очищаем все зависимости
-    for (const formulaInfo of this.formulas.values()) {
-      formulaInfo.dependents.clear();
+  translateFormula(formula: string, rowOffset: number, colOffset: number): string {
+    if (!formula.startsWith('=') || (rowOffset === 0 && colOffset === 0)) {
+      return formula;
     }
 
-    // Перестраиваем зависимости
-    for (const [cellKey, formulaInfo] of this.formulas) {
-      this.addDependencies(cellKey, formulaInfo.dependencies);
+    let ast: FormulaAST;
+    try {
+      ast = this.parser.parse(formula);
+    } catch (error) {
+      return formula; // Формула с ошибкой копируется текстом
     }
+
+    return this.rewriteAST(
+      ast,
+      reference =>
+        FormulaUtils.translateReference(reference, rowOffset, colOffset) ?? {
+          type: 'error',
+          value: '#REF!',
+        }
+    ).originalFormula;
   }
 
   /**
-   * Получение статистики
+   * Обработка перемещения блока ячеек (вырезание и вставка); ячейки листа уже перемещены.
+   * Формулы блока переносятся, ссылки на ячейки блока во всех формулах следуют за ними
+   * (абсолютные тоже), ссылки на замененные ячейки становятся #REF!
    */
-  getStats(): {
-    totalFormulas: number;
-    formulasByType: Record<string, number>;
-    totalDependencies: number;
-  } {
-    const formulasByType: Record<string, number> = {};
-    let totalDependencies = 0;
+  handleMove(source: DependencyArea, targetRow: number, targetCol: number): void {
+    console.log(
+      `📊 Перемещение блока ${source.startRow},${source.startCol}:${source.endRow},${source.endCol} -> ${targetRow},${targetCol} (лист ${source.sheet})`
+    );
 
-    for (const formulaInfo of this.formulas.values()) {
-      const rootType = formulaInfo.ast.root.type;
-      formulasByType[rootType] = (formulasByType[rootType] || 0) + 1;
-      totalDependencies += formulaInfo.dependencies.size;
-    }
+    const rowOffset = targetRow - source.startRow;
+    const colOffset = targetCol - source.startCol;
+    const target: DependencyArea = {
+      sheet: source.sheet,
+      startRow: targetRow,
+      startCol: targetCol,
+      endRow: source.endRow + rowOffset,
+      endCol: source.endCol + colOffset,
+    };
+
+    const sheetKey = FormulaUtils.normalizeSheetName(source.sheet);
+    const isOnSheet = (sheet: string | undefined) =>
+      sheet !== undefined && FormulaUtils.normalizeSheetName(sheet) === sheetKey;
+    const contains = (area: DependencyArea, row: number, col: number) =>
+      row >= area.startRow && row <= area.endRow && col >= area.startCol && col <= area.endCol;
+
+    const moveReference = (
+      reference: CellReference | CellRange,
+      hostSheet: string | undefined
+    ): FormulaNode => {
+      // Неограниченные и 3D-диапазоны не следуют за блоком
+      if (
+        !isOnSheet(reference.sheet ?? hostSheet) ||
+        (reference.type === 'range' && (reference.endSheet || reference.extent))
+      ) {
+        return reference;
+      }
+
+      const [startRow, startCol, endRow, endCol] =
+        reference.type === 'cell'
+          ? [reference.row, reference.col, reference.row, reference.col]
+          : [reference.startRow, reference.startCol, reference.endRow, reference.endCol];
+
+      // Ссылка целиком внутри блока перемещается вместе с ним
+      if (contains(source, startRow, startCol) && contains(source, endRow, endCol)) {
+        return reference.type === 'cell'
+          ? { ...reference, row: reference.row + rowOffset, col: reference.col + colOffset }
+          : {
+              ...reference,
+              startRow: reference.startRow + rowOffset,
+              startCol: reference.startCol + colOffset,
+              endRow: reference.endRow + rowOffset,
+              endCol: reference.endCol + colOffset,
+            };
+      }
+
+      // Ячейки, на место которых вставлен блок, потеряны
+      if (contains(target, startRow, startCol) && contains(target, endRow, endCol)) {
+        return { type: 'error', value: '#REF!' };
+      }
+      return reference;
+    };
+
+    for (const definition of this.names.getAll()) {
+      this.updateNameDefinition(
+        definition,
+        this.mapReferences(definition.ast, reference => moveReference(reference, undefined))
+      );
+    }
+
+    this.relocateFormulas(
+      position => {
+        const { sheet, row, col } = position;
+        if (isOnSheet(sheet) && contains(source, row, col)) {
+          return { sheet, row: row + rowOffset, col: col + colOffset };
+        }
+        // Ячейка заменена содержимым блока
+        return isOnSheet(sheet) && contains(target, row, col) ? null : position;
+      },
+      hostSheet => reference => moveReference(reference, hostSheet),
+      [source, target]
+    );
+  }
+
+  /**
+   * Применение структурного изменения листа ко всем формулам за один проход:
+   * переформатируются только формулы, в которых изменились ссылки
+   */
+  private applyStructuralShift(shift: StructuralShift): RewrittenFormula[] {
+    const targetSheet = FormulaUtils.normalizeSheetName(shift.sheet);
+
+    this.shiftNames(shift);
+    return this.relocateFormulas(
+      position => {
+        const { sheet, row, col } = position;
+        if (FormulaUtils.normalizeSheetName(sheet) !== targetSheet) {
+          return position;
+        }
+
+        // Ячейка в удаляемой строке/столбце удаляется
+        const newRow = FormulaUtils.shiftIndex(row, shift.rows);
+        const newCol = FormulaUtils.shiftIndex(col, shift.cols);
+        return newRow === null || newCol === null ? null : { sheet, row: newRow, col: newCol };
+      },
+      hostSheet => this.createShiftMapper(hostSheet, shift),
+      [this.getShiftedArea(shift)]
+    );
+  }
+
+  /**
+   * Перезапись ссылок во всех формулах (операции с листами)
+   * @param resolveSheet Новое имя листа или null, если лист удаляется
+   * @param changedArea Лист, ссылки на который изменились
+   */
+  private rewriteFormulas(
+    resolveSheet: (sheet: string) => string | null,
+    mapper: (reference: CellReference | CellRange) => FormulaNode,
+    changedArea: DependencyArea
+  ): void {
+    // Определения имен ссылаются на листы так же, как формулы
+    for (const definition of this.names.getAll()) {
+      this.updateNameDefinition(definition, this.mapReferences(definition.ast, mapper));
+    }
+
+    this.relocateFormulas(
+      ({ sheet, row, col }) => {
+        const newSheet = resolveSheet(sheet);
+        return newSheet === null ? null : { sheet: newSheet, row, col };
+      },
+      () => mapper,
+      [changedArea]
+    );
+  }
+
+  /**
+   * Перенос формул на новые места и перезапись их ссылок после изменения листов.
+   * Значения и области переноса массивов следуют за формулами; пересчитываются только
+   * формулы с переписанными ссылками, формулы, читающие измененные области по ссылкам,
+   * которые не переписываются (A:A, INDIRECT, имена), и зависящие от них
+   * @param relocate Новое положение ячейки или null, если ее содержимое потеряно
+   * @param createMapper Преобразование ссылок формул листа
+   * @param changedAreas Области (в прежних координатах), содержимое которых изменилось
+   * @returns Формулы с переписанными ссылками - их прежние положение и текст
+   */
+  private relocateFormulas(
+    relocate: (position: CellPosition) => CellPosition | null,
+    createMapper: (hostSheet: string) => (reference: CellReference | CellRange) => FormulaNode,
+    changedAreas: DependencyArea[]
+  ): RewrittenFormula[] {
+    const previousValues = this.values;
+    const previousSpills = this.spills;
+    const previousDirty = this.dirtyFormulas;
+    const newFormulas = new Map<string, FormulaInfo>();
+    const rewritten: Array<{ position: CellPosition; formula: string }> = [];
+    const originals: RewrittenFormula[] = [];
+    const staleCells: CellPosition[] = [];
+
+    this.values = new Map();
+    this.spills = new Map();
+    this.spillCells.clear();
+    this.dirtyFormulas = new Set();
+
+    for (const [cellKey, formulaInfo] of this.formulas) {
+      const position = relocate({
+        sheet: formulaInfo.sheet,
+        row: formulaInfo.row,
+        col: formulaInfo.col,
+      });
+      // Формула удалена вместе с ячейкой
+      if (!position) {
+        continue;
+      }
+
+      const { sheet, row, col } = position;
+      const newCellKey = this.getCellKey(row, col, sheet);
+      const ast = this.rewriteAST(formulaInfo.ast, createMapper(formulaInfo.sheet));
+      const isMoved =
+        sheet !== formulaInfo.sheet || row !== formulaInfo.row || col !== formulaInfo.col;
+
+      if (ast !== formulaInfo.ast) {
+        console.log(`🔧 Обновляем формулу: ${cellKey} -> ${newCellKey}: ${ast.originalFormula}`);
+        rewritten.push({ position, formula: ast.originalFormula });
+        originals.push({
+          sheet: formulaInfo.sheet,
+          row: formulaInfo.row,
+          col: formulaInfo.col,
+          formula: formulaInfo.ast.originalFormula,
+        });
+      }
+
+      // Область переноса - зависимость формулы, она переносится вместе с массивом
+      const spill = previousSpills.get(cellKey);
+      const movedSpill = spill ? this.relocateSpill(spill, relocate) : null;
+      const isOwnSpill = (area: DependencyArea) =>
+        spill !== undefined &&
+        area.startRow >= spill.startRow &&
+        area.startCol >= spill.startCol &&
+        area.endRow <= spill.endRow &&
+        area.endCol <= spill.endCol;
+      const hasDynamicDependencies = formulaInfo.dynamicDependencies.some(
+        area => !isOwnSpill(area)
+      );
+
+      const isStale =
+        ast !== formulaInfo.ast ||
+        (spill !== undefined && !movedSpill) ||
+        (isMoved &&
+          (hasDynamicDependencies ||
+            POSITION_FUNCTIONS.some(name => formulaInfo.functions.has(name)))) ||
+        this.dependencyGraph
+          .getPrecedents(cellKey)
+          .some(
+            area =>
+              !isOwnSpill(area) && changedAreas.some(changed => this.areasIntersect(area, changed))
+          );
+
+      let newInfo = formulaInfo;
+      if (isMoved || ast !== formulaInfo.ast) {
+        newInfo = this.createFormulaInfo(ast, sheet, row, col);
+        if (movedSpill && !isStale) {
+          newInfo.dynamicDependencies = this.getSpillAreas(movedSpill);
+        }
+      }
+      newFormulas.set(newCellKey, newInfo);
+
+      const value = previousValues.get(cellKey);
+      if (value) {
+        this.values.set(newCellKey, value);
+      }
+      if (movedSpill) {
+        this.spills.set(newCellKey, movedSpill);
+        for (const cell of this.getSpillCells(movedSpill)) {
+          this.spillCells.set(this.getCellKey(cell.row, cell.col, sheet), newCellKey);
+        }
+      } else if (spill) {
+        // Ячейки, которые читали перенесенные значения, пересчитываются
+        for (const cell of this.getSpillCells(spill)) {
+          const moved = relocate({ sheet: spill.sheet, ...cell });
+          if (moved) {
+            staleCells.push(moved);
+          }
+        }
+      }
+
+      if (isStale) {
+        staleCells.push(position);
+      } else if (previousDirty.has(cellKey)) {
+        this.dirtyFormulas.add(newCellKey);
+      }
+    }
+
+    this.formulas = newFormulas;
+    this.rebuildDependencies();
+
+    // Формулы записываются в SparseMatrix (ячейки уже перемещены) после замены карты формул
+    for (const { position, formula } of rewritten) {
+      this.updateFormulaCallback?.(position.row, position.col, formula, position.sheet);
+    }
+    for (const { sheet, row, col } of staleCells) {
+      this.invalidateCell(row, col, sheet);
+    }
+    this.recalculate();
+    return originals;
+  }
+
+  /**
+   * Область переноса на новом месте формулы; null - ячейки области потеряны или сдвинуты
+   * не вместе с формулой, и массив переносится заново
+   */
+  private relocateSpill(
+    spill: SpillRange,
+    relocate: (position: CellPosition) => CellPosition | null
+  ): SpillRange | null {
+    const anchor = relocate({ sheet: spill.sheet, row: spill.startRow, col: spill.startCol });
+    if (!anchor) {
+      return null;
+    }
+
+    const rowOffset = anchor.row - spill.startRow;
+    const colOffset = anchor.col - spill.startCol;
+    const isMovedTogether = this.getSpillCells(spill).every(({ row, col }) => {
+      const moved = relocate({ sheet: spill.sheet, row, col });
+      return (
+        moved?.sheet === anchor.sheet &&
+        moved.row === row + rowOffset &&
+        moved.col === col + colOffset
+      );
+    });
+
+    return isMovedTogether
+      ? {
+          ...spill,
+          sheet: anchor.sheet,
+          startRow: anchor.row,
+          startCol: anchor.col,
+          endRow: spill.endRow + rowOffset,
+          endCol: spill.endCol + colOffset,
+        }
+      : null;
+  }
+
+  /**
+   * Строки или столбцы, содержимое которых меняется при структурном изменении листа
+   */
+  private getShiftedArea(shift: StructuralShift): DependencyArea {
+    const getBounds = (axisShift: AxisShift | undefined, maxIndex: number): [number, number] => {
+      if (!axisShift) {
+        return [0, maxIndex];
+      }
+      // Перенос затрагивает строки между старым и новым местом, вставка и удаление - все ниже
+      return axisShift.type === 'move'
+        ? [
+            Math.min(axisShift.at, axisShift.to),
+            Math.max(axisShift.at + axisShift.count, axisShift.to) - 1,
+          ]
+        : [axisShift.at, maxIndex];
+    };
+
+    const [startRow, endRow] = getBounds(shift.rows, MAX_ROW_INDEX);
+    const [startCol, endCol] = getBounds(shift.cols, MAX_COL_INDEX);
+    return { sheet: shift.sheet, startRow, startCol, endRow, endCol };
+  }
+
+  /**
+   * Весь лист как область зависимостей
+   */
+  private getSheetArea(sheet: string): DependencyArea {
+    return { sheet, startRow: 0, startCol: 0, endRow: MAX_ROW_INDEX, endCol: MAX_COL_INDEX };
+  }
+
+  /**
+   * Проверка, что области пересекаются
+   */
+  private areasIntersect(first: DependencyArea, second: DependencyArea): boolean {
+    return (
+      FormulaUtils.normalizeSheetName(first.sheet) ===
+        FormulaUtils.normalizeSheetName(second.sheet) &&
+      first.startRow <= second.endRow &&
+      second.startRow <= first.endRow &&
+      first.startCol <= second.endCol &&
+      second.startCol <= first.endCol
+    );
+  }
+
+  /**
+   * Замена AST определения имени (без изменений, если узел тот же)
+   */
+  private updateNameDefinition(definition: DefinedName, ast: FormulaNode): void {
+    if (ast !== definition.ast) {
+      this.names.set({ ...definition, ast, refersTo: `=${FormulaFormatter.format(ast)}` });
+    }
+  }
+
+  /**
+   * Обновление зависимостей и значений формул после изменения определений имен
+   */
+  private refreshNameDependents(): void {
+    for (const [cellKey, formulaInfo] of this.formulas) {
+      if (formulaInfo.names.size > 0) {
+        this.dependencyGraph.setPrecedents(cellKey, this.getDependencies(formulaInfo));
+        this.invalidateCell(formulaInfo.row, formulaInfo.col, formulaInfo.sheet);
+      }
+    }
+
+    // Имена меняют связи между формулами - циклы ищутся заново
+    this.detectAllCycles();
+    this.recalculate();
+  }
+
+  /**
+   * Вычисление формулы и сохранение результата в кэш
+   */
+  private computeFormula(cellKey: string, formulaInfo: FormulaInfo): CellValue {
+    const cycle = this.cycles.get(cellKey);
+    if (cycle && this.iterativeCalculation.enabled) {
+      this.iterateCycle(cycle);
+      return this.values.get(cellKey) ?? { value: null, type: 'empty' };
+    }
+
+    // Повторный вход в вычисляемую формулу означает циклическую ссылку
+    if (this.evaluatingFormulas.has(cellKey)) {
+      return { value: '#CIRC!', type: 'error' };
+    }
+
+    let result: CellValue;
+    if (cycle) {
+      result = { value: '#CIRC!', type: 'error' };
+      this.setSpill(cellKey, null);
+    } else {
+      this.evaluatingFormulas.add(cellKey);
+      try {
+        result = this.evaluateAST(cellKey, formulaInfo);
+      } finally {
+        this.evaluatingFormulas.delete(cellKey);
+      }
+    }
+
+    this.values.set(cellKey, result);
+    this.dirtyFormulas.delete(cellKey);
+    return result;
+  }
+
+  /**
+   * Вычисление AST формулы; исключения превращаются в коды ошибок
+   */
+  private evaluateAST(cellKey: string, formulaInfo: FormulaInfo): CellValue {
+    const cell: FormulaCell = {
+      row: formulaInfo.row,
+      col: formulaInfo.col,
+      dynamicDependencies: [],
+    };
+    const previousCell = this.currentCell;
+    this.currentCell = cell;
+
+    let result: CellValue;
+    try {
+      result = this.engine.evaluate(formulaInfo.ast, formulaInfo.sheet, cell);
+    } catch (error) {
+      console.error(`❌ Ошибка вычисления формулы ${cellKey}: ${error}`);
+      result = { value: FormulaError.toErrorCode(error), type: 'error' };
+    } finally {
+      this.currentCell = previousCell;
+    }
+
+    const value = this.spillResult(cellKey, formulaInfo, cell, result);
+    this.updateDynamicDependencies(cellKey, formulaInfo, cell);
+    return value;
+  }
+
+  /**
+   * Перенос массива-результата в ячейки справа и снизу от формулы. Область переноса -
+   * зависимость формулы: запись в нее дает #SPILL!, а очистка снова переносит массив
+   * @returns Значение ячейки формулы - первый элемент массива или ошибка
+   */
+  private spillResult(
+    cellKey: string,
+    formulaInfo: FormulaInfo,
+    cell: FormulaCell,
+    result: CellValue
+  ): CellValue {
+    if (!Array.isArray(result.value) || result.value.length <= 1) {
+      this.setSpill(cellKey, null);
+      return Array.isArray(result.value)
+        ? (result.value[0] ?? FormulaValues.error('#CALC!'))
+        : result;
+    }
+
+    // Пустые элементы массива, как и в Excel, отображаются нулями
+    const values = (result.value as CellValue[]).map(element =>
+      element.type === 'empty' ? { value: 0, type: 'number' as const } : element
+    );
+    const { rows, cols } = FormulaValues.getShape(result);
+    const { sheet, row, col } = formulaInfo;
+    const spill: SpillRange = {
+      sheet,
+      startRow: row,
+      startCol: col,
+      endRow: row + rows - 1,
+      endCol: col + cols - 1,
+      result: { value: values, type: 'number', rows, cols },
+    };
+
+    if (spill.endRow > MAX_ROW_INDEX || spill.endCol > MAX_COL_INDEX) {
+      this.setSpill(cellKey, null);
+      return FormulaValues.error('#SPILL!');
+    }
+
+    for (const area of this.getSpillAreas(spill)) {
+      cell.dynamicDependencies.push({ type: 'reference', ...area });
+    }
+
+    if (this.isSpillBlocked(cellKey, spill)) {
+      this.setSpill(cellKey, null);
+      return FormulaValues.error('#SPILL!');
+    }
+
+    this.setSpill(cellKey, spill);
+    return values[0]!;
+  }
+
+  /**
+   * Проверка, что область переноса занята значениями или массивом другой формулы
+   */
+  private isSpillBlocked(cellKey: string, spill: SpillRange): boolean {
+    const { sheet } = spill;
+    const isBlank = (row: number, col: number) =>
+      this.context.isBlank
+        ? this.context.isBlank(row, col, sheet)
+        : this.context.getCellValue(row, col, sheet).type === 'empty';
+
+    return this.getSpillCells(spill).some(({ row, col }) => {
+      const owner = this.spillCells.get(this.getCellKey(row, col, sheet));
+      return (owner !== undefined && owner !== cellKey) || !isBlank(row, col);
+    });
+  }
+
+  /**
+   * Замена области переноса формулы (null - формула не переносит массив); формулы,
+   * читающие изменившиеся перенесенные значения, помечаются для пересчета
+   */
+  private setSpill(cellKey: string, spill: SpillRange | null): void {
+    const previous = this.spills.get(cellKey);
+    if (!previous && !spill) {
+      return;
+    }
+
+    const changedCells: CellPosition[] = [];
+
+    if (previous) {
+      this.spills.delete(cellKey);
+      for (const { row, col } of this.getSpillCells(previous)) {
+        this.spillCells.delete(this.getCellKey(row, col, previous.sheet));
+
+        const before = this.getSpillElement(previous, row, col);
+        const after =
+          spill && this.isInSpill(spill, row, col) ? this.getSpillElement(spill, row, col) : null;
+        if (
+          after?.type !== before.type ||
+          after.value !== before.value ||
+          after.format !== before.format
+        ) {
+          changedCells.push({ sheet: previous.sheet, row, col });
+        }
+      }
+    }
+
+    if (spill) {
+      this.spills.set(cellKey, spill);
+      for (const { row, col } of this.getSpillCells(spill)) {
+        this.spillCells.set(this.getCellKey(row, col, spill.sheet), cellKey);
+        if (!previous || !this.isInSpill(previous, row, col)) {
+          changedCells.push({ sheet: spill.sheet, row, col });
+        }
+      }
+    }
+
+    for (const { sheet, row, col } of changedCells) {
+      this.invalidateCell(row, col, sheet);
+    }
+    // Формула зависит от своей области переноса, но уже вычислена
+    this.dirtyFormulas.delete(cellKey);
+  }
+
+  /**
+   * Область переноса без ячейки формулы (иначе формула зависит от себя): часть строки
+   * справа от формулы и строки под ней
+   */
+  private getSpillAreas(spill: SpillRange): DependencyArea[] {
+    const { sheet, startRow, startCol, endRow, endCol } = spill;
+    const areas: DependencyArea[] = [];
+    if (endCol > startCol) {
+      areas.push({ sheet, startRow, startCol: startCol + 1, endRow: startRow, endCol });
+    }
+    if (endRow > startRow) {
+      areas.push({ sheet, startRow: startRow + 1, startCol, endRow, endCol });
+    }
+    return areas;
+  }
+
+  /**
+   * Ячейки области переноса, кроме ячейки формулы
+   */
+  private getSpillCells(spill: SpillRange): Array<{ row: number; col: number }> {
+    const cells: Array<{ row: number; col: number }> = [];
+    for (let row = spill.startRow; row <= spill.endRow; row++) {
+      for (let col = spill.startCol; col <= spill.endCol; col++) {
+        if (row !== spill.startRow || col !== spill.startCol) {
+          cells.push({ row, col });
+        }
+      }
+    }
+    return cells;
+  }
+
+  /**
+   * Проверка, что ячейка входит в область переноса
+   */
+  private isInSpill(spill: SpillRange, row: number, col: number): boolean {
+    return (
+      row >= spill.startRow && row <= spill.endRow && col >= spill.startCol && col <= spill.endCol
+    );
+  }
+
+  /**
+   * Перенесенное значение ячейки области переноса
+   */
+  private getSpillElement(spill: SpillRange, row: number, col: number): CellValue {
+    const cols = spill.endCol - spill.startCol + 1;
+    const index = (row - spill.startRow) * cols + (col - spill.startCol);
+    return (spill.result.value as CellValue[])[index]!;
+  }
+
+  /**
+   * Регистрация в графе областей, прочитанных по вычисленным ссылкам (OFFSET, INDIRECT):
+   * изменение ячеек этих областей помечает формулу для пересчета
+   */
+  private updateDynamicDependencies(
+    cellKey: string,
+    formulaInfo: FormulaInfo,
+    cell: FormulaCell
+  ): void {
+    const areas = cell.dynamicDependencies.map(({ sheet, startRow, startCol, endRow, endCol }) => ({
+      sheet: sheet ?? formulaInfo.sheet,
+      startRow,
+      startCol,
+      endRow,
+      endCol,
+    }));
+
+    if (JSON.stringify(areas) === JSON.stringify(formulaInfo.dynamicDependencies)) {
+      return;
+    }
+
+    formulaInfo.dynamicDependencies = areas;
+    // Формула могла быть заменена во время вычисления
+    if (this.formulas.get(cellKey) === formulaInfo) {
+      this.dependencyGraph.setPrecedents(cellKey, this.getDependencies(formulaInfo));
+    }
+  }
+
+  /**
+   * Итеративное вычисление цикла до сходимости или предельного числа итераций
+   */
+  private iterateCycle(cycle: string[]): void {
+    const { maxIterations, maxChange } = this.iterativeCalculation;
+    const outerCycle = this.iteratingFormulas;
+    let iterations = 0;
+
+    this.iteratingFormulas = new Set(cycle);
+    try {
+      while (iterations < maxIterations) {
+        iterations++;
+        let change = 0;
+
+        for (const cellKey of cycle) {
+          const formulaInfo = this.formulas.get(cellKey);
+          if (!formulaInfo) {
+            continue;
+          }
+
+          const previous = this.values.get(cellKey);
+          const result = this.evaluateAST(cellKey, formulaInfo);
+          this.values.set(cellKey, result);
+          change = Math.max(change, this.getValueChange(previous, result));
+        }
+
+        if (change < maxChange) {
+          break;
+        }
+      }
+    } finally {
+      this.iteratingFormulas = outerCycle;
+    }
+
+    for (const cellKey of cycle) {
+      this.dirtyFormulas.delete(cellKey);
+    }
+    console.log(`🔁 Цикл из ${cycle.length} формул вычислен за ${iterations} итераций`);
+  }
+
+  /**
+   * Изменение значения между итерациями (для нечисловых значений - 0 или бесконечность)
+   */
+  private getValueChange(previous: CellValue | undefined, current: CellValue): number {
+    const toNumber = (value: CellValue | undefined) =>
+      value === undefined || value.type === 'empty' ? 0 : value.value;
+
+    const before = toNumber(previous);
+    const after = toNumber(current);
+    if (typeof before === 'number' && typeof after === 'number') {
+      return Math.abs(after - before);
+    }
+    return before === after ? 0 : Infinity;
+  }
+
+  /**
+   * Обновление списка циклов после изменения формул
+   * @param cellKeys Измененные формулы; циклы, в которые они входили, проверяются заново
+   */
+  private updateCycles(cellKeys: string[]): void {
+    const startKeys = new Set<string>();
+    for (const cellKey of cellKeys) {
+      startKeys.add(cellKey);
+      for (const member of this.cycles.get(cellKey) ?? []) {
+        startKeys.add(member);
+      }
+    }
+
+    for (const cellKey of startKeys) {
+      this.cycles.delete(cellKey);
+    }
+
+    const cycles = CycleDetector.findCycles(
+      Array.from(startKeys).filter(cellKey => this.formulas.has(cellKey)),
+      cellKey => this.getFormulaDependents(cellKey)
+    );
+
+    for (const cycle of cycles) {
+      for (const cellKey of cycle) {
+        this.cycles.set(cellKey, cycle);
+      }
+      console.log(`🔁 Найдена циклическая ссылка: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  /**
+   * Формулы, которые ссылаются на ячейку формулы
+   */
+  private getFormulaDependents(cellKey: string): string[] {
+    const formulaInfo = this.formulas.get(cellKey);
+    if (!formulaInfo) {
+      return [];
+    }
+
+    const { sheet, row, col } = formulaInfo;
+    return Array.from(this.dependencyGraph.getDependents(sheet, row, col)).filter(key =>
+      this.formulas.has(key)
+    );
+  }
+
+  /**
+   * Формулы цикла, на которые ссылается формула
+   */
+  private getCyclePrecedents(cellKey: string, cycle: string[]): string[] {
+    return cycle.filter(member => this.getFormulaDependents(member).includes(cellKey));
+  }
+
+  /**
+   * Позиция ячейки формулы по ключу
+   */
+  private getCellPosition(cellKey: string): CellPosition {
+    const { sheet, row, col } = this.formulas.get(cellKey)!;
+    return { sheet, row, col };
+  }
+
+  /**
+   * Ключ ячейки в карте формул (имя листа без учета регистра)
+   */
+  private getCellKey(row: number, col: number, sheet: string): string {
+    return `${FormulaUtils.normalizeSheetName(sheet)}!${row}:${col}`;
+  }
+
+  /**
+   * Извлечение зависимостей из AST - областей листов без перечисления ячеек диапазонов
+   */
+  private extractDependencies(node: FormulaNode, hostSheet: string): DependencyArea[] {
+    const dependencies: DependencyArea[] = [];
+    const visitedNames = new Set<string>();
+
+    const traverse = (n: FormulaNode) => {
+      switch (n.type) {
+        case 'cell':
+          dependencies.push({
+            sheet: n.sheet ?? hostSheet,
+            startRow: n.row,
+            startCol: n.col,
+            endRow: n.row,
+            endCol: n.col,
+          });
+          break;
+        case 'range': {
+          const { startRow, startCol, endRow, endCol } = n;
+          for (const sheet of this.resolveRangeSheets(n, hostSheet)) {
+            dependencies.push({ sheet, startRow, startCol, endRow, endCol });
+          }
+          break;
+        }
+        case 'name': {
+          // Ячейки, на которые ссылается имя, - тоже зависимости формулы
+          const key = NameManager.normalize(n.name);
+          const definition = this.names.get(n.name);
+          if (definition && !visitedNames.has(key)) {
+            visitedNames.add(key);
+            traverse(definition.ast);
+          }
+          break;
+        }
+        case 'function': {
+          // Тело именованной LAMBDA читает ячейки так же, как сама формула
+          const key = NameManager.normalize(n.name);
+          const definition = this.getNamedLambda(n.name);
+          if (definition && !visitedNames.has(key)) {
+            visitedNames.add(key);
+            traverse(definition.ast);
+          }
+          n.args.forEach(traverse);
+          break;
+        }
+        case 'binary':
+          traverse(n.left);
+          traverse(n.right);
+          break;
+        case 'unary':
+          traverse(n.operand);
+          break;
+        default:
+          this.getChildNodes(n).forEach(traverse);
+      }
+    };
+
+    traverse(node);
+    return dependencies;
+  }
+
+  /**
+   * Все зависимости формулы: ссылки из AST и динамические области
+   */
+  private getDependencies(formulaInfo: FormulaInfo): DependencyArea[] {
+    return [
+      ...this.extractDependencies(formulaInfo.ast.root, formulaInfo.sheet),
+      ...formulaInfo.dynamicDependencies,
+    ];
+  }
+
+  /**
+   * Сведения о формуле: AST, положение, используемые имена и функции
+   */
+  private createFormulaInfo(ast: FormulaAST, sheet: string, row: number, col: number): FormulaInfo {
+    return {
+      ast,
+      sheet,
+      row,
+      col,
+      names: this.extractNames(ast.root),
+      functions: this.extractFunctions(ast.root),
+      dynamicDependencies: [],
+    };
+  }
+
+  /**
+   * Извлечение функций, которые вызывает формула
+   */
+  private extractFunctions(node: FormulaNode): Set<string> {
+    const functions = new Set<string>();
+
+    const traverse = (n: FormulaNode) => {
+      switch (n.type) {
+        case 'function':
+          functions.add(n.name.toUpperCase());
+          n.args.forEach(traverse);
+          break;
+        case 'binary':
+          traverse(n.left);
+          traverse(n.right);
+          break;
+        case 'unary':
+          traverse(n.operand);
+          break;
+        default:
+          this.getChildNodes(n).forEach(traverse);
+      }
+    };
+
+    traverse(node);
+    return functions;
+  }
+
+  /**
+   * Учет формулы в списке волатильных
+   */
+  private updateVolatility(cellKey: string, formulaInfo: FormulaInfo): void {
+    const registry = this.engine.getFunctionRegistry();
+    const isVolatile = Array.from(formulaInfo.functions).some(
+      name => registry.get(name)?.volatile === true
+    );
+
+    if (isVolatile) {
+      this.volatileFormulas.add(cellKey);
+    } else {
+      this.volatileFormulas.delete(cellKey);
+    }
+  }
+
+  /**
+   * Обработка изменения реестра функций: формулы с функциями вычисляются заново
+   */
+  private refreshFunctions(): void {
+    const version = this.engine.getFunctionRegistry().getVersion();
+    if (version === this.functionsVersion) {
+      return;
+    }
+
+    this.functionsVersion = version;
+    for (const [cellKey, formulaInfo] of this.formulas) {
+      this.updateVolatility(cellKey, formulaInfo);
+      if (formulaInfo.functions.size > 0) {
+        this.invalidateCell(formulaInfo.row, formulaInfo.col, formulaInfo.sheet);
+      }
+    }
+  }
+
+  /**
+   * Извлечение имен, которые использует формула
+   */
+  private extractNames(node: FormulaNode): Set<string> {
+    const names = new Set<string>();
+
+    const traverse = (n: FormulaNode) => {
+      switch (n.type) {
+        case 'name':
+          names.add(NameManager.normalize(n.name));
+          break;
+        case 'function':
+          // Функция, которой нет в реестре, может быть именем книги с LAMBDA
+          if (!this.engine.getFunctionRegistry().has(n.name)) {
+            names.add(NameManager.normalize(n.name));
+          }
+          n.args.forEach(traverse);
+          break;
+        case 'binary':
+          traverse(n.left);
+          traverse(n.right);
+          break;
+        case 'unary':
+          traverse(n.operand);
+          break;
+        default:
+          this.getChildNodes(n).forEach(traverse);
+      }
+    };
+
+    traverse(node);
+    return names;
+  }
+
+  /**
+   * Вложенные выражения LET, LAMBDA и вызова LAMBDA
+   */
+  private getChildNodes(node: FormulaNode): FormulaNode[] {
+    switch (node.type) {
+      case 'let':
+        return [...node.bindings.map(binding => binding.value), node.body];
+      case 'lambda':
+        return [node.body];
+      case 'call':
+        return [node.callee, ...node.args];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Определение имени книги, заданного как LAMBDA, для вызова функции без определения в реестре
+   */
+  private getNamedLambda(name: string): DefinedName | null {
+    if (this.engine.getFunctionRegistry().has(name)) {
+      return null;
+    }
+    const definition = this.names.get(name);
+    return definition?.ast.type === 'lambda' ? definition : null;
+  }
+
+  /**
+   * Листы диапазона (для 3D-диапазона - по текущему порядку листов книги)
+   */
+  private resolveRangeSheets(range: CellRange, hostSheet: string): string[] {
+    const sheet = range.sheet ?? hostSheet;
+    if (!range.endSheet) {
+      return [sheet];
+    }
+    return this.context.getSheetSpan?.(sheet, range.endSheet) ?? [sheet, range.endSheet];
+  }
+
+  /**
+   * Сдвиг ссылок в определениях имен
+   */
+  private shiftNames(shift: StructuralShift): void {
+    for (const definition of this.names.getAll()) {
+      this.updateNameDefinition(
+        definition,
+        this.mapReferences(definition.ast, this.createShiftMapper(undefined, shift))
+      );
+    }
+  }
+
+  /**
+   * Сдвиг ссылок на лист, где вставлена или удалена строка/столбец
+   * @param hostSheet Лист для ссылок без имени листа (у определений имен его нет)
+   */
+  private createShiftMapper(
+    hostSheet: string | undefined,
+    shift: StructuralShift
+  ): (reference: CellReference | CellRange) => FormulaNode {
+    const targetSheet = FormulaUtils.normalizeSheetName(shift.sheet);
+
+    return reference => {
+      // Сдвигаются только ссылки на изменяемый лист; 3D-диапазоны не меняются
+      const sheet = reference.sheet ?? hostSheet;
+      if (
+        sheet === undefined ||
+        FormulaUtils.normalizeSheetName(sheet) !== targetSheet ||
+        (reference.type === 'range' && reference.endSheet)
+      ) {
+        return reference;
+      }
+
+      const shifted =
+        reference.type === 'cell'
+          ? FormulaUtils.shiftCellReference(reference, 0, 0, shift.rows, shift.cols)
+          : FormulaUtils.shiftCellRange(reference, 0, 0, shift.rows, shift.cols);
+
+      // Ссылка на удаленные ячейки становится #REF!
+      return shifted ?? { type: 'error', value: '#REF!' };
+    };
+  }
+
+  /**
+   * Преобразование ссылок формулы: в тексте заменяются только измененные ссылки,
+   * пробелы и регистр остального текста сохраняются; неизмененная формула возвращается как есть
+   */
+  private rewriteAST(
+    ast: FormulaAST,
+    mapper: (reference: CellReference | CellRange) => FormulaNode
+  ): FormulaAST {
+    const replacements = new Map<FormulaNode, FormulaNode>();
+    const root = this.mapReferences(ast.root, reference => {
+      const mapped = mapper(reference);
+      if (mapped !== reference) {
+        replacements.set(reference, mapped);
+      }
+      return mapped;
+    });
+    if (root === ast.root) {
+      return ast;
+    }
+
+    // Без положений ссылок формула собирается из AST заново
+    const rewritten = FormulaFormatter.replaceReferences(ast, replacements);
+    return rewritten
+      ? { root, originalFormula: rewritten.text, spans: rewritten.spans }
+      : { root, originalFormula: `=${FormulaFormatter.format(root)}` };
+  }
+
+  /**
+   * Преобразование всех ссылок AST; неизмененные поддеревья возвращаются как есть
+   */
+  private mapReferences(
+    node: FormulaNode,
+    mapper: (reference: CellReference | CellRange) => FormulaNode
+  ): FormulaNode {
+    switch (node.type) {
+      case 'cell':
+      case 'range':
+        return mapper(node);
+
+      case 'function': {
+        const args = node.args.map(arg => this.mapReferences(arg, mapper));
+        return args.every((arg, index) => arg === node.args[index]) ? node : { ...node, args };
+      }
+
+      case 'binary': {
+        const left = this.mapReferences(node.left, mapper);
+        const right = this.mapReferences(node.right, mapper);
+        return left === node.left && right === node.right ? node : { ...node, left, right };
+      }
+
+      case 'unary': {
+        const operand = this.mapReferences(node.operand, mapper);
+        return operand === node.operand ? node : { ...node, operand };
+      }
+
+      case 'let': {
+        const bindings = node.bindings.map(binding => {
+          const value = this.mapReferences(binding.value, mapper);
+          return value === binding.value ? binding : { ...binding, value };
+        });
+        const body = this.mapReferences(node.body, mapper);
+        return body === node.body &&
+          bindings.every((binding, index) => binding === node.bindings[index])
+          ? node
+          : { ...node, bindings, body };
+      }
+
+      case 'lambda': {
+        const body = this.mapReferences(node.body, mapper);
+        return body === node.body ? node : { ...node, body };
+      }
+
+      case 'call': {
+        const callee = this.mapReferences(node.callee, mapper);
+        const args = node.args.map(arg => this.mapReferences(arg, mapper));
+        return callee === node.callee && args.every((arg, index) => arg === node.args[index])
+          ? node
+          : { ...node, callee, args };
+      }
+
+      default:
+        return node; // Числа, строки и т.д. не содержат ссылок
+    }
+  }
+
+  /**
+   * Перестройка графа зависимостей для всех формул
+   */
+  private rebuildDependencies(): void {
+    this.dependencyGraph.clear();
+    this.volatileFormulas.clear();
+
+    for (const [cellKey, formulaInfo] of this.formulas) {
+      this.updateVolatility(cellKey, formulaInfo);
+      this.dependencyGraph.setPrecedents(cellKey, this.getDependencies(formulaInfo));
+    }
+
+    this.detectAllCycles();
+  }
+
+  /**
+   * Поиск циклов среди всех формул
+   */
+  private detectAllCycles(): void {
+    this.cycles.clear();
+    this.updateCycles(Array.from(this.formulas.keys()));
+  }
+
+  /**
+   * Получение статистики
+   */
+  getStats(): {
+    totalFormulas: number;
+    formulasByType: Record<string, number>;
+    totalDependencies: number;
+    totalRangeDependencies: number;
+    cachedValues: number;
+    dirtyFormulas: number;
+    circularReferences: number;
+    volatileFormulas: number;
+  } {
+    const formulasByType: Record<string, number> = {};
+
+    for (const formulaInfo of this.formulas.values()) {
+      const rootType = formulaInfo.ast.root.type;
+      formulasByType[rootType] = (formulasByType[rootType] || 0) + 1;
+    }
+
+    const graphStats = this.dependencyGraph.getStats();
 
     return {
       totalFormulas: this.formulas.size,
       formulasByType,
-      totalDependencies,
+      totalDependencies: graphStats.areas,
+      totalRangeDependencies: graphStats.rangeAreas,
+      cachedValues: this.values.size,
+      dirtyFormulas: this.dirtyFormulas.size,
+      circularReferences: new Set(this.cycles.values()).size,
+      volatileFormulas: this.volatileFormulas.size,
     };
   }
 }
@@ -6,24 +6,31 @@ import {
   FormulaAST,
   FormulaNode,
   CellReference,
+  CellRange,
+  NameReference,
   NumberLiteral,
   StringLiteral,
+  BooleanLiteral,
+  ErrorLiteral,
   FunctionCall,
   BinaryOperation,
   UnaryOperation,
+  LetExpression,
+  LambdaExpression,
+  SourceSpan,
   FormulaUtils,
 } from './FormulaAST.js';
+import { FormulaLexer, FormulaToken, FormulaTokenType, ParseError } from './FormulaLexer.js';
+import type { FormulaErrorCode } from './FormulaErrors.js';
+import { NameManager } from './NameManager.js';
 
-export interface ParseError {
-  message: string;
-  position: number;
-  expected?: string;
-}
+export type { ParseError } from './FormulaLexer.js';
 
 export class FormulaParser {
-  private input: string = '';
-  private position: number = 0;
-  private length: number = 0;
+  private lexer: FormulaLexer = new FormulaLexer();
+  private tokens: FormulaToken[] = [];
+  private current: number = 0;
+  private spans: Map<FormulaNode, SourceSpan> = new Map();
 
   /**
    * Парсинг формулы
@@ -33,23 +40,24 @@ export class FormulaParser {
       throw new Error('Формула должна начинаться с =');
     }
 
-    this.input = formula.substring(1); // Убираем =
-    this.position = 0;
-    this.length = this.input.length;
-
     console.log(`🔍 Парсинг формулы: ${formula}`);
 
     try {
+      this.tokens = this.lexer.tokenize(formula.substring(1)); // Убираем =
+      this.current = 0;
+      this.spans = new Map();
+
       const root = this.parseExpression();
 
       // Проверяем, что весь ввод был обработан
-      if (this.position < this.length) {
-        throw this.createError(`Неожиданный символ: ${this.currentChar()}`);
+      if (!this.check('eof')) {
+        throw this.createError(`Неожиданный токен: ${this.peek().value}`);
       }
 
       const ast: FormulaAST = {
         root,
         originalFormula: formula,
+        spans: this.spans,
       };
 
       console.log(`✅ Формула успешно распарсена`);
@@ -64,49 +72,18 @@ export class FormulaParser {
    * Парсинг выражения (самый низкий приоритет)
    */
   private parseExpression(): FormulaNode {
-    return this.parseRange();
-  }
-
-  /**
-   * Парсинг диапазонов (A1:B2)
-   */
-  private parseRange(): FormulaNode {
-    let left = this.parseComparison();
-
-    // Проверяем, является ли это диапазоном
-    if (this.match([':'])) {
-      const right = this.parseComparison();
-
-      // Если оба операнда - ссылки на ячейки, создаем диапазон
-      if (left.type === 'cell' && right.type === 'cell') {
-        return {
-          type: 'range',
-          startRow: left.row,
-          startCol: left.col,
-          endRow: right.row,
-          endCol: right.col,
-          absoluteStartRow: left.absoluteRow || false,
-          absoluteStartCol: left.absoluteCol || false,
-          absoluteEndRow: right.absoluteRow || false,
-          absoluteEndCol: right.absoluteCol || false,
-        };
-      } else {
-        throw this.createError('Диапазон может содержать только ссылки на ячейки');
-      }
-    }
-
-    return left;
+    return this.parseComparison();
   }
 
   /**
    * Парсинг сравнения (=, <, >, <=, >=, <>)
    */
   private parseComparison(): FormulaNode {
-    let left = this.parseAddition();
+    let left = this.parseConcatenation();
 
-    while (this.match(['=', '<', '>', '<=', '>=', '<>'])) {
-      const operator = this.previousToken();
-      const right = this.parseAddition();
+    while (this.matchOperator(['=', '<', '>', '<=', '>=', '<>'])) {
+      const operator = this.previous().value;
+      const right = this.parseConcatenation();
       left = {
         type: 'binary',
         operator: operator as BinaryOperation['operator'],
@@ -118,14 +95,28 @@ export class FormulaParser {
     return left;
   }
 
+  /**
+   * Парсинг объединения строк (&) - приоритет ниже сложения, выше сравнения
+   */
+  private parseConcatenation(): FormulaNode {
+    let left = this.parseAddition();
+
+    while (this.matchOperator(['&'])) {
+      const right = this.parseAddition();
+      left = { type: 'binary', operator: '&', left, right };
+    }
+
+    return left;
+  }
+
   /**
    * Парсинг сложения и вычитания
    */
   private parseAddition(): FormulaNode {
     let left = this.parseMultiplication();
 
-    while (this.match(['+', '-'])) {
-      const operator = this.previousToken();
+    while (this.matchOperator(['+', '-'])) {
+      const operator = this.previous().value;
       const right = this.parseMultiplication();
       left = {
         type: 'binary',
@@ -144,8 +135,8 @@ export class FormulaParser {
   private parseMultiplication(): FormulaNode {
     let left = this.parseExponentiation();
 
-    while (this.match(['*', '/'])) {
-      const operator = this.previousToken();
+    while (this.matchOperator(['*', '/'])) {
+      const operator = this.previous().value;
       const right = this.parseExponentiation();
       left = {
         type: 'binary',
@@ -164,8 +155,8 @@ export class FormulaParser {
   private parseExponentiation(): FormulaNode {
     let left = this.parseUnary();
 
-    while (this.match(['^'])) {
-      const operator = this.previousToken();
+    while (this.matchOperator(['^'])) {
+      const operator = this.previous().value;
       const right = this.parseUnary();
       left = {
         type: 'binary',
@@ -182,8 +173,8 @@ export class FormulaParser {
    * Парсинг унарных операций
    */
   private parseUnary(): FormulaNode {
-    if (this.match(['+', '-'])) {
-      const operator = this.previousToken();
+    if (this.matchOperator(['+', '-'])) {
+      const operator = this.previous().value;
       const operand = this.parseUnary();
       return {
         type: 'unary',
@@ -199,59 +190,68 @@ export class FormulaParser {
    * Парсинг первичных выражений
    */
   private parsePrimary(): FormulaNode {
-    // Числа
-    if (this.isDigit(this.currentChar())) {
-      return this.parseNumber();
-    }
+    const token = this.peek();
 
-    // Строки
-    if (this.currentChar() === '"') {
-      return this.parseString();
-    }
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return this.parseNumber(token);
+
+      case 'string':
+        this.advance();
+        return this.parseString(token);
+
+      case 'error':
+        this.advance();
+        return this.parseErrorLiteral(token);
+
+      case 'reference':
+        this.advance();
+        return this.recordSpan(this.parseReference(token), token);
+
+      case 'sheet':
+        this.advance();
+        return this.recordSpan(this.parseSheetReference(token), token);
+
+      case 'identifier':
+        this.advance();
+        if (this.check('lparen')) {
+          switch (token.value.toUpperCase()) {
+            case 'LET':
+              return this.parseLet();
+            case 'LAMBDA':
+              return this.parseCalls(this.parseLambda());
+            default:
+              return this.parseFunction(token.value);
+          }
+        }
+        if (this.isBooleanLiteral(token.value)) {
+          return this.parseBoolean(token);
+        }
+        return this.parseName(token);
 
-    // Функции
-    if (this.isAlpha(this.currentChar())) {
-      const name = this.parseIdentifier();
-      if (this.currentChar() === '(') {
-        return this.parseFunction(name);
-      } else {
-        // Это ссылка на ячейку
-        return this.parseCellReference(name);
+      case 'lparen': {
+        this.advance(); // Пропускаем (
+        const expr = this.parseExpression();
+        this.consume('rparen', 'Ожидается закрывающая скобка');
+        return this.parseCalls(expr);
       }
-    }
 
-    // Ссылки на ячейки (начинающиеся с $)
-    if (this.currentChar() === '$') {
-      this.advance();
-      const name = this.parseIdentifier();
-      return this.parseCellReference('$' + name);
-    }
+      case 'eof':
+        throw this.createError('Неожиданный конец формулы', token);
 
-    // Скобки
-    if (this.currentChar() === '(') {
-      this.advance(); // Пропускаем (
-      const expr = this.parseExpression();
-      this.consume(')', 'Ожидается закрывающая скобка');
-      return expr;
+      default:
+        throw this.createError(`Неожиданный токен: ${token.value}`, token);
     }
-
-    throw this.createError(`Неожиданный символ: ${this.currentChar()}`);
   }
 
   /**
    * Парсинг числа
    */
-  private parseNumber(): NumberLiteral {
-    let value = '';
-
-    while (this.isDigit(this.currentChar()) || this.currentChar() === '.') {
-      value += this.currentChar();
-      this.advance();
-    }
-
-    const numValue = parseFloat(value);
-    if (isNaN(numValue)) {
-      throw this.createError(`Неверное число: ${value}`);
+  private parseNumber(token: FormulaToken): NumberLiteral {
+    const numValue = Number(token.value);
+    if (!isFinite(numValue)) {
+      throw this.createError(`Неверное число: ${token.value}`, token);
     }
 
     return {
@@ -263,28 +263,40 @@ export class FormulaParser {
   /**
    * Парсинг строки
    */
-  private parseString(): StringLiteral {
-    this.consume('"', 'Ожидается открывающая кавычка');
+  private parseString(token: FormulaToken): StringLiteral {
+    return {
+      type: 'string',
+      value: token.value,
+    };
+  }
 
-    let value = '';
-    while (this.currentChar() !== '"' && !this.isAtEnd()) {
-      if (this.currentChar() === '\\') {
-        this.advance();
-        if (this.isAtEnd()) {
-          throw this.createError('Незавершенная escape-последовательность');
-        }
-        value += this.currentChar();
-      } else {
-        value += this.currentChar();
-      }
-      this.advance();
-    }
+  /**
+   * Парсинг литерала ошибки (#N/A, #DIV/0!, ...)
+   */
+  private parseErrorLiteral(token: FormulaToken): ErrorLiteral {
+    return {
+      type: 'error',
+      value: token.value.toUpperCase() as FormulaErrorCode,
+    };
+  }
 
-    this.consume('"', 'Ожидается закрывающая кавычка');
+  /**
+   * Парсинг логического литерала (TRUE, FALSE)
+   */
+  private parseBoolean(token: FormulaToken): BooleanLiteral {
+    return {
+      type: 'boolean',
+      value: token.value.toUpperCase() === 'TRUE',
+    };
+  }
 
+  /**
+   * Парсинг ссылки на именованный диапазон (TaxRate, Sales)
+   */
+  private parseName(token: FormulaToken): NameReference {
     return {
-      type: 'string',
-      value,
+      type: 'name',
+      name: token.value,
     };
   }
 
@@ -292,147 +304,286 @@ export class FormulaParser {
    * Парсинг функции
    */
   private parseFunction(name: string): FunctionCall {
-    this.consume('(', 'Ожидается открывающая скобка после имени функции');
+    this.consume('lparen', 'Ожидается открывающая скобка после имени функции');
 
+    return {
+      type: 'function',
+      name: name.toUpperCase(),
+      args: this.parseArguments(),
+    };
+  }
+
+  /**
+   * Парсинг аргументов вызова до закрывающей скобки (открывающая уже пропущена)
+   */
+  private parseArguments(): FormulaNode[] {
     const args: FormulaNode[] = [];
 
-    if (this.currentChar() !== ')') {
+    if (!this.check('rparen')) {
       do {
-        args.push(this.parseExpression());
-      } while (this.match([',']));
+        // Пустой аргумент между запятыми или перед скобкой - пропущенный
+        const isMissing = this.check('comma') || this.check('rparen');
+        args.push(isMissing ? { type: 'missing' } : this.parseExpression());
+      } while (this.match('comma'));
     }
 
-    this.consume(')', 'Ожидается закрывающая скобка');
+    this.consume('rparen', 'Ожидается закрывающая скобка');
+    return args;
+  }
 
-    return {
-      type: 'function',
-      name: name.toUpperCase(),
-      args,
-    };
+  /**
+   * Парсинг LET(имя, значение, ..., выражение)
+   */
+  private parseLet(): LetExpression {
+    this.consume('lparen', 'Ожидается открывающая скобка после LET');
+
+    const bindings: LetExpression['bindings'] = [];
+    const declared = new Set<string>();
+
+    // Имя с запятой после него начинает новую пару, иначе это итоговое выражение
+    while (bindings.length === 0 || this.isDeclaration()) {
+      const name = this.parseDeclaredName(declared);
+      this.consume('comma', 'Ожидается значение имени LET');
+      const value = this.parseExpression();
+      this.consume('comma', 'Ожидается выражение LET');
+      bindings.push({ name, value });
+    }
+
+    const body = this.parseExpression();
+    this.consume('rparen', 'Ожидается закрывающая скобка');
+    return { type: 'let', bindings, body };
   }
 
   /**
-   * Парсинг ссылки на ячейку
+   * Парсинг LAMBDA(параметр, ..., выражение)
    */
-  private parseCellReference(prefix: string): CellReference {
-    let ref = prefix;
+  private parseLambda(): LambdaExpression {
+    this.consume('lparen', 'Ожидается открывающая скобка после LAMBDA');
+
+    const params: string[] = [];
+    const declared = new Set<string>();
+    while (this.isDeclaration()) {
+      params.push(this.parseDeclaredName(declared));
+      this.advance(); // Пропускаем запятую
+    }
 
-    // Парсим остальную часть ссылки
-    while (
-      this.isAlpha(this.currentChar()) ||
-      this.isDigit(this.currentChar()) ||
-      this.currentChar() === '$'
-    ) {
-      ref += this.currentChar();
-      this.advance();
+    const body = this.parseExpression();
+    this.consume('rparen', 'Ожидается закрывающая скобка');
+    return { type: 'lambda', params, body };
+  }
+
+  /**
+   * Вызовы результата выражения: LAMBDA(x,x+1)(5)
+   */
+  private parseCalls(callee: FormulaNode): FormulaNode {
+    let node = callee;
+    while (this.match('lparen')) {
+      node = { type: 'call', callee: node, args: this.parseArguments() };
+    }
+    return node;
+  }
+
+  /**
+   * Проверка, что текущий токен - объявление имени: имя и запятая после него
+   */
+  private isDeclaration(): boolean {
+    return this.check('identifier') && this.tokens[this.current + 1]?.type === 'comma';
+  }
+
+  /**
+   * Парсинг объявляемого имени LET или параметра LAMBDA
+   */
+  private parseDeclaredName(declared: Set<string>): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw this.createError(`Ожидается имя, найдено: ${token.value}`, token);
     }
 
     try {
-      return FormulaUtils.parseCellReference(ref);
+      NameManager.validate(token.value);
     } catch (error) {
-      throw this.createError(`Неверная ссылка на ячейку: ${ref}`);
+      throw this.createError(`Недопустимое имя: ${token.value}`, token);
+    }
+
+    const key = NameManager.normalize(token.value);
+    if (declared.has(key)) {
+      throw this.createError(`Имя ${token.value} уже объявлено`, token);
     }
+    declared.add(key);
+
+    this.advance();
+    return token.value;
   }
 
   /**
-   * Парсинг идентификатора
+   * Парсинг ссылки на ячейку или диапазона (A1, A1:B2, A:A, 1:1, A2:A)
    */
-  private parseIdentifier(): string {
-    let identifier = '';
+  private parseReference(token: FormulaToken): CellReference | CellRange {
+    if (!this.match('colon')) {
+      return this.parseCellReference(token);
+    }
 
-    while (this.isAlpha(this.currentChar()) || this.isDigit(this.currentChar())) {
-      identifier += this.currentChar();
-      this.advance();
+    const endToken = this.peek();
+    if (endToken.type !== 'reference') {
+      throw this.createError('Диапазон может содержать только ссылки на ячейки', endToken);
     }
+    this.advance();
 
-    return identifier;
+    const rangeText = `${token.value}:${endToken.value}`;
+    try {
+      return FormulaUtils.parseCellRange(rangeText.toUpperCase());
+    } catch (error) {
+      throw this.createError(`Неверный диапазон ячеек: ${rangeText}`, token);
+    }
   }
 
   /**
-   * Проверка совпадения с одним из токенов
+   * Парсинг ссылки на другой лист (Sheet2!A1, 'My Sheet'!A1:B2, Sheet1:Sheet3!A1)
    */
-  private match(tokens: string[]): boolean {
-    for (const token of tokens) {
-      if (this.check(token)) {
-        this.advance();
-        return true;
+  private parseSheetReference(sheetToken: FormulaToken): CellReference | CellRange {
+    const referenceToken = this.peek();
+    if (referenceToken.type !== 'reference') {
+      throw this.createError('Ожидается ссылка на ячейку после имени листа', referenceToken);
+    }
+    this.advance();
+
+    const [sheet = '', endSheet] = sheetToken.value.split(':');
+    if (!sheet || endSheet === '') {
+      throw this.createError(`Неверное имя листа: ${sheetToken.value}`, sheetToken);
+    }
+
+    const reference = this.parseReference(referenceToken);
+    if (endSheet === undefined) {
+      return { ...reference, sheet };
+    }
+
+    if (reference.type === 'cell' && reference.spill) {
+      throw this.createError('Ссылка на область переноса не может быть трехмерной', referenceToken);
+    }
+
+    // 3D-ссылка на ячейку представляется диапазоном из одной ячейки
+    const range: CellRange =
+      reference.type === 'range'
+        ? reference
+        : {
+            type: 'range',
+            startRow: reference.row,
+            startCol: reference.col,
+            endRow: reference.row,
+            endCol: reference.col,
+            absoluteStartRow: reference.absoluteRow || false,
+            absoluteStartCol: reference.absoluteCol || false,
+            absoluteEndRow: reference.absoluteRow || false,
+            absoluteEndCol: reference.absoluteCol || false,
+          };
+
+    return { ...range, sheet, endSheet };
+  }
+
+  /**
+   * Парсинг ссылки на ячейку или на область переноса ее массива (A1#)
+   */
+  private parseCellReference(token: FormulaToken): CellReference {
+    try {
+      if (token.value.endsWith('#')) {
+        const cell = FormulaUtils.parseCellReference(token.value.slice(0, -1).toUpperCase());
+        return { ...cell, spill: true };
       }
+      return FormulaUtils.parseCellReference(token.value.toUpperCase());
+    } catch (error) {
+      throw this.createError(`Неверная ссылка на ячейку: ${token.value}`, token);
     }
-    return false;
   }
 
   /**
-   * Проверка текущего символа
+   * Проверка, является ли идентификатор логическим литералом
    */
-  private check(expected: string): boolean {
-    if (this.isAtEnd()) return false;
-    return this.input.substring(this.position, this.position + expected.length) === expected;
+  private isBooleanLiteral(identifier: string): boolean {
+    const upper = identifier.toUpperCase();
+    return upper === 'TRUE' || upper === 'FALSE';
   }
 
   /**
-   * Потребление ожидаемого символа
+   * Проверка совпадения текущего токена с одним из операторов
    */
-  private consume(expected: string, errorMessage: string): void {
-    if (this.check(expected)) {
+  private matchOperator(operators: string[]): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
       this.advance();
-    } else {
-      throw this.createError(errorMessage);
+      return true;
     }
+    return false;
   }
 
   /**
-   * Переход к следующему символу
+   * Проверка совпадения типа текущего токена с продвижением
    */
-  private advance(): void {
-    if (!this.isAtEnd()) {
-      this.position++;
+  private match(type: FormulaTokenType): boolean {
+    if (this.check(type)) {
+      this.advance();
+      return true;
     }
+    return false;
   }
 
   /**
-   * Получение предыдущего токена
+   * Проверка типа текущего токена
+   */
+  private check(type: FormulaTokenType): boolean {
+    return this.peek().type === type;
+  }
+
+  /**
+   * Потребление ожидаемого токена
    */
-  private previousToken(): string {
-    // Упрощенная реализация - возвращаем последний символ
-    return this.input[this.position - 1] || '';
+  private consume(type: FormulaTokenType, errorMessage: string): FormulaToken {
+    if (this.check(type)) {
+      return this.advance();
+    }
+    throw this.createError(errorMessage);
   }
 
   /**
-   * Получение текущего символа
+   * Переход к следующему токену
    */
-  private currentChar(): string {
-    if (this.isAtEnd()) return '\0';
-    return this.input[this.position] || '\0';
+  private advance(): FormulaToken {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.current++;
+    }
+    return token;
   }
 
   /**
-   * Проверка конца ввода
+   * Получение текущего токена
    */
-  private isAtEnd(): boolean {
-    return this.position >= this.length;
+  private peek(): FormulaToken {
+    return this.tokens[this.current] || this.tokens[this.tokens.length - 1]!;
   }
 
   /**
-   * Проверка, является ли символ цифрой
+   * Запоминание положения узла в тексте формулы: от токена start до последнего разобранного
    */
-  private isDigit(char: string): boolean {
-    return char >= '0' && char <= '9';
+  private recordSpan<T extends FormulaNode>(node: T, start: FormulaToken): T {
+    // Позиции токенов отсчитываются без начального =
+    this.spans.set(node, { start: start.position + 1, end: this.previous().end + 1 });
+    return node;
   }
 
   /**
-   * Проверка, является ли символ буквой
+   * Получение предыдущего токена
    */
-  private isAlpha(char: string): boolean {
-    return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z');
+  private previous(): FormulaToken {
+    return this.tokens[this.current - 1] || this.peek();
   }
 
   /**
    * Создание ошибки парсинга
    */
-  private createError(message: string): ParseError {
+  private createError(message: string, token: FormulaToken = this.peek()): ParseError {
     return {
       message,
-      position: this.position,
+      position: token.position,
     };
   }
 }
@@ -0,0 +1,322 @@
+/**
+ * Преобразования и сравнение значений формул - общие для движка и библиотеки функций
+ */
+
+import { CellValue } from './FormulaEngine.js';
+import { DateSerial } from './DateSerial.js';
+import { FormulaError, FormulaErrorCode } from './FormulaErrors.js';
+
+export class FormulaValues {
+  /**
+   * Преобразование значения в число (ошибки и нечисловые строки дают исключение)
+   */
+  static toNumber(value: CellValue): number {
+    // Диапазон там, где ожидается одно число
+    if (Array.isArray(value.value)) {
+      throw new FormulaError('#VALUE!', 'Ожидалось число, а не диапазон');
+    }
+    if (value.type === 'number') {
+      return value.value;
+    }
+    if (value.type === 'string') {
+      const text = String(value.value).trim();
+      const parsed = Number(text);
+      if (text !== '' && !isNaN(parsed)) {
+        return parsed;
+      }
+      // Дата в формате ISO или время: "2026-10-19", "14:30"
+      const date = DateSerial.parse(text);
+      if (date === null) {
+        throw new FormulaError('#VALUE!', `Невозможно преобразовать в число: ${value.value}`);
+      }
+      return date.serial;
+    }
+    if (value.type === 'boolean') {
+      return value.value ? 1 : 0;
+    }
+    if (value.type === 'empty') {
+      return 0;
+    }
+    if (value.type === 'error') {
+      throw new FormulaError(value.value as FormulaErrorCode);
+    }
+    return 0;
+  }
+
+  /**
+   * Преобразование значения в текст (числа - в общем формате, как в ячейке)
+   */
+  static toText(value: CellValue): string {
+    if (Array.isArray(value.value)) {
+      throw new FormulaError('#VALUE!', 'Ожидался текст, а не диапазон');
+    }
+    switch (value.type) {
+      case 'number':
+        return FormulaValues.formatGeneral(value.value);
+      case 'boolean':
+        return value.value ? 'TRUE' : 'FALSE';
+      case 'empty':
+        return '';
+      case 'error':
+        throw new FormulaError(value.value as FormulaErrorCode);
+      default:
+        return String(value.value);
+    }
+  }
+
+  /**
+   * Отбрасывание погрешности двоичного представления до 15 значащих цифр (0.1+0.2 -> 0.3)
+   */
+  static normalize(value: number): number {
+    return Number(value.toPrecision(15));
+  }
+
+  /**
+   * Умножение на 10^digits сдвигом десятичной точки - без погрешности умножения
+   */
+  static shiftDecimal(value: number, digits: number): number {
+    const [mantissa, exponent = '0'] = String(value).split('e');
+    return Number(`${mantissa}e${Number(exponent) + digits}`);
+  }
+
+  /**
+   * Число в общем формате Excel: до 15 значащих цифр, экспонента как 1E+21
+   */
+  static formatGeneral(value: number): string {
+    return String(FormulaValues.normalize(value)).toUpperCase();
+  }
+
+  /**
+   * Регулярное выражение для шаблона с подстановочными знаками Excel:
+   * ? - любой символ, * - любая последовательность, ~ - экранирование (~*, ~?, ~~)
+   */
+  static wildcardSource(pattern: string): string {
+    let source = '';
+    for (let index = 0; index < pattern.length; index++) {
+      const char = pattern[index]!;
+      const next = pattern[index + 1];
+      if (char === '~' && (next === '*' || next === '?' || next === '~')) {
+        source += `\\${next}`;
+        index++;
+      } else if (char === '?') {
+        source += '[\\s\\S]';
+      } else if (char === '*') {
+        source += '[\\s\\S]*';
+      } else {
+        source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return source;
+  }
+
+  /**
+   * Преобразование значения в логическое (null - значение не приводится)
+   */
+  static toBoolean(value: CellValue): boolean | null {
+    switch (value.type) {
+      case 'boolean':
+        return value.value;
+      case 'number':
+        return value.value !== 0;
+      case 'empty':
+        return false;
+      case 'string': {
+        const upper = String(value.value).toUpperCase();
+        if (upper === 'TRUE') return true;
+        if (upper === 'FALSE') return false;
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Сравнение значений по правилам Excel: числа < строки < логические значения,
+   * строки сравниваются без учета регистра, пустая ячейка приводится к типу другого операнда
+   */
+  static compare(left: CellValue, right: CellValue): number {
+    const normalizedLeft = FormulaValues.normalizeEmpty(left, right);
+    const normalizedRight = FormulaValues.normalizeEmpty(right, left);
+
+    const leftRank = FormulaValues.getTypeRank(normalizedLeft);
+    const rightRank = FormulaValues.getTypeRank(normalizedRight);
+    if (leftRank !== rightRank) {
+      return leftRank - rightRank;
+    }
+
+    if (normalizedLeft.type === 'string') {
+      const leftStr = String(normalizedLeft.value).toLowerCase();
+      const rightStr = String(normalizedRight.value).toLowerCase();
+      return leftStr < rightStr ? -1 : leftStr > rightStr ? 1 : 0;
+    }
+
+    const leftNum = FormulaValues.toNumber(normalizedLeft);
+    const rightNum = FormulaValues.toNumber(normalizedRight);
+    return leftNum < rightNum ? -1 : leftNum > rightNum ? 1 : 0;
+  }
+
+  /**
+   * Числа аргументов функции: значения аргументов приводятся к числу,
+   * в диапазонах учитываются только числа; ошибки дают исключение
+   */
+  static collectNumbers(args: CellValue[]): number[] {
+    const numbers: number[] = [];
+
+    for (const arg of args) {
+      if (Array.isArray(arg.value)) {
+        for (const cellValue of arg.value as CellValue[]) {
+          if (cellValue.type === 'error') {
+            throw new FormulaError(cellValue.value as FormulaErrorCode);
+          }
+          if (cellValue.type === 'number') {
+            numbers.push(cellValue.value);
+          }
+        }
+      } else if (arg.type !== 'empty') {
+        numbers.push(FormulaValues.toNumber(arg));
+      }
+    }
+
+    return numbers;
+  }
+
+  /**
+   * Форма значения: массив без известной формы (3D-диапазон) - столбец, одиночное значение - 1x1
+   */
+  static getShape(value: CellValue): { rows: number; cols: number } {
+    if (!Array.isArray(value.value)) {
+      return { rows: 1, cols: 1 };
+    }
+    return { rows: value.rows ?? value.value.length, cols: value.cols ?? 1 };
+  }
+
+  /**
+   * Массив значений с формой (по строкам); массив из одного элемента - одиночное значение
+   */
+  static array(values: CellValue[], rows: number, cols: number): CellValue {
+    if (values.length === 1) {
+      return values[0]!;
+    }
+    return { value: values, type: 'number', rows, cols };
+  }
+
+  /**
+   * Поэлементное применение операции к массивам (=A1:A10*2): массив из одной строки
+   * или одного столбца повторяется до формы большего, позиции вне массива дают #N/A,
+   * исключение операции - ошибку в своей позиции
+   */
+  static mapElements(
+    operands: CellValue[],
+    operation: (elements: CellValue[]) => CellValue
+  ): CellValue {
+    const shapes = operands.map(operand => FormulaValues.getShape(operand));
+    const rows = Math.max(...shapes.map(shape => shape.rows));
+    const cols = Math.max(...shapes.map(shape => shape.cols));
+    const values: CellValue[] = [];
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const elements = operands.map((operand, index) =>
+          FormulaValues.elementAt(operand, shapes[index]!, row, col)
+        );
+
+        if (elements.some(element => element === null)) {
+          values.push(FormulaValues.error('#N/A'));
+          continue;
+        }
+
+        try {
+          values.push(operation(elements as CellValue[]));
+        } catch (error) {
+          values.push(FormulaValues.error(FormulaError.toErrorCode(error)));
+        }
+      }
+    }
+
+    return FormulaValues.array(values, rows, cols);
+  }
+
+  /**
+   * Возведение в степень (оператор ^ и функция POWER)
+   */
+  static power(base: number, exponent: number): CellValue {
+    if (base === 0 && exponent === 0) {
+      return FormulaValues.error('#NUM!');
+    }
+    if (base === 0 && exponent < 0) {
+      return FormulaValues.error('#DIV/0!');
+    }
+    return FormulaValues.number(Math.pow(base, exponent));
+  }
+
+  /**
+   * Создание числового результата (NaN и бесконечность дают #NUM!)
+   */
+  static number(value: number): CellValue {
+    if (!isFinite(value)) {
+      return FormulaValues.error('#NUM!');
+    }
+    return { value, type: 'number' };
+  }
+
+  /**
+   * Создание значения-ошибки
+   */
+  static error(code: FormulaErrorCode): CellValue {
+    return { value: code, type: 'error' };
+  }
+
+  /**
+   * Элемент массива для позиции результата поэлементной операции (null - позиция вне массива)
+   */
+  private static elementAt(
+    value: CellValue,
+    shape: { rows: number; cols: number },
+    row: number,
+    col: number
+  ): CellValue | null {
+    if (!Array.isArray(value.value)) {
+      return value;
+    }
+
+    const elementRow = shape.rows === 1 ? 0 : row;
+    const elementCol = shape.cols === 1 ? 0 : col;
+    if (elementRow >= shape.rows || elementCol >= shape.cols) {
+      return null;
+    }
+    return value.value[elementRow * shape.cols + elementCol] ?? { value: null, type: 'empty' };
+  }
+
+  /**
+   * Приведение пустого значения к типу другого операнда сравнения
+   */
+  private static normalizeEmpty(value: CellValue, other: CellValue): CellValue {
+    if (value.type !== 'empty') {
+      return value;
+    }
+
+    switch (other.type) {
+      case 'string':
+        return { value: '', type: 'string' };
+      case 'boolean':
+        return { value: false, type: 'boolean' };
+      default:
+        return { value: 0, type: 'number' };
+    }
+  }
+
+  /**
+   * Порядок типов при сравнении
+   */
+  private static getTypeRank(value: CellValue): number {
+    switch (value.type) {
+      case 'string':
+        return 1;
+      case 'boolean':
+        return 2;
+      default:
+        return 0;
+    }
+  }
+}
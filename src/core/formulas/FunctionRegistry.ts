@@ -0,0 +1,185 @@
+/**
+ * Реестр функций формул - встроенные и пользовательские функции с метаданными
+ */
+
+import type { CellRange } from './FormulaAST.js';
+import { CellValue } from './FormulaEngine.js';
+
+// Предельное число аргументов функции (как в Excel)
+export const MAX_FUNCTION_ARGUMENTS = 255;
+
+const FUNCTION_NAME_PATTERN = /^[A-Z_][A-Z0-9_.]*$/;
+
+/**
+ * Вид аргумента:
+ * value - вычисленное значение (диапазон - массив значений),
+ * range - то же, но аргумент обязан быть ссылкой на ячейку, диапазон или имя,
+ * lazy - аргумент вычисляется функцией по требованию,
+ * reference - ссылка передается областью листа без чтения ячеек (не ссылка - значением),
+ * array - значение, диапазон читается по позициям с формой (функции динамических массивов),
+ * lambda - LAMBDA или имя функции LAMBDA передается вызываемой функцией, остальное - как array
+ */
+export type ArgumentKind = 'value' | 'range' | 'lazy' | 'reference' | 'array' | 'lambda';
+
+// Ленивый аргумент: ошибки вычисления возвращаются значением, а не исключением
+export type LazyArgument = () => CellValue;
+
+/**
+ * Область листа, на которую ссылается аргумент (ROW, OFFSET, INDEX)
+ */
+export interface ReferenceArgument {
+  type: 'reference';
+  sheet: string | undefined; // undefined - лист формулы
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+  extent?: CellRange['extent']; // Неограниченный диапазон (A:A, 1:1)
+}
+
+/**
+ * Функция LAMBDA, переданная аргументом (MAP, REDUCE); ошибки вызова возвращаются значением
+ */
+export interface LambdaArgument {
+  type: 'lambda';
+  params: number; // Число параметров
+  invoke(args: CellValue[]): CellValue;
+}
+
+export type FunctionArgument = CellValue | LazyArgument | ReferenceArgument | LambdaArgument;
+
+export interface FunctionContext {
+  name: string; // Имя функции в верхнем регистре
+  sheet: string | undefined; // Лист вычисляемой формулы
+  row: number | undefined; // Ячейка вычисляемой формулы, если известна (для ROW(), COLUMN())
+  col: number | undefined;
+  // Значения области листа массивом с формой (неограниченная область - до конца заполненной части)
+  readReference(reference: ReferenceArgument): CellValue;
+  // То же для области, вычисленной функцией (OFFSET, INDIRECT): область - зависимость формулы
+  readDynamicReference(reference: ReferenceArgument): CellValue;
+}
+
+export interface FunctionDefinition<TArgs extends FunctionArgument[] = CellValue[]> {
+  name: string;
+  minArgs: number;
+  maxArgs: number;
+  // Вид каждого аргумента; последний вид действует для остальных аргументов (по умолчанию value)
+  argumentKinds?: ArgumentKind[];
+  // Волатильная функция пересчитывается при каждом пересчете книги (RAND, NOW)
+  volatile?: boolean;
+  description: string;
+  evaluate(args: TArgs, context: FunctionContext): CellValue;
+}
+
+export class FunctionRegistry {
+  private functions: Map<string, FunctionDefinition<FunctionArgument[]>> = new Map();
+  private version = 0;
+  private parent: FunctionRegistry | null; // Функции родительского реестра доступны, если не заменены
+
+  /**
+   * @param parent Реестр, поверх которого добавляются функции (общий реестр книги)
+   */
+  constructor(
+    definitions: FunctionDefinition<FunctionArgument[]>[] = [],
+    parent: FunctionRegistry | null = null
+  ) {
+    this.parent = parent;
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Регистрация функции (функция с тем же именем заменяется)
+   */
+  register<TArgs extends FunctionArgument[] = CellValue[]>(
+    definition: FunctionDefinition<TArgs>
+  ): void {
+    const name = definition.name.toUpperCase();
+    if (!FUNCTION_NAME_PATTERN.test(name)) {
+      throw new Error(`Недопустимое имя функции: ${definition.name}`);
+    }
+    if (
+      definition.minArgs < 0 ||
+      definition.minArgs > definition.maxArgs ||
+      definition.maxArgs > MAX_FUNCTION_ARGUMENTS
+    ) {
+      throw new Error(`Недопустимое число аргументов функции ${name}`);
+    }
+
+    if (this.has(name)) {
+      console.warn(`⚠️ Функция ${name} переопределена`);
+    }
+
+    this.functions.set(name, { ...definition, name } as FunctionDefinition<FunctionArgument[]>);
+    this.version++;
+  }
+
+  /**
+   * Удаление функции этого реестра (функции родительского реестра остаются)
+   */
+  unregister(name: string): boolean {
+    const isRemoved = this.functions.delete(name.toUpperCase());
+    if (isRemoved) {
+      this.version++;
+    }
+    return isRemoved;
+  }
+
+  /**
+   * Определение функции по имени (без учета регистра)
+   */
+  get(name: string): FunctionDefinition<FunctionArgument[]> | null {
+    return this.functions.get(name.toUpperCase()) ?? this.parent?.get(name) ?? null;
+  }
+
+  /**
+   * Проверка наличия функции
+   */
+  has(name: string): boolean {
+    return this.functions.has(name.toUpperCase()) || (this.parent?.has(name) ?? false);
+  }
+
+  /**
+   * Все функции в алфавитном порядке
+   */
+  getAll(): FunctionDefinition<FunctionArgument[]>[] {
+    const inherited = (this.parent?.getAll() ?? []).filter(({ name }) => !this.functions.has(name));
+    return [...inherited, ...this.functions.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Номер версии реестра - меняется при каждой регистрации и удалении функции,
+   * в том числе в родительском реестре
+   */
+  getVersion(): number {
+    return this.version + (this.parent?.getVersion() ?? 0);
+  }
+
+  /**
+   * Вид аргумента функции по его позиции
+   */
+  static getArgumentKind(
+    definition: FunctionDefinition<FunctionArgument[]>,
+    index: number
+  ): ArgumentKind {
+    const kinds = definition.argumentKinds ?? [];
+    return kinds[Math.min(index, kinds.length - 1)] ?? 'value';
+  }
+
+  /**
+   * Значение пропущенного аргумента (IF(A1,,1)): необязательный параметр получает значение
+   * по умолчанию (undefined), обязательный и повторяющийся (SUM(1,,2)) - пустое значение
+   */
+  static getMissingArgument(
+    definition: FunctionDefinition<FunctionArgument[]>,
+    index: number
+  ): FunctionArgument | undefined {
+    // У повторяющихся аргументов (SUM, IFS) нет значения по умолчанию
+    const isRepeated = definition.maxArgs >= MAX_FUNCTION_ARGUMENTS - 1;
+    if (index >= definition.minArgs && !isRepeated) {
+      return undefined;
+    }
+
+    const empty: CellValue = { value: null, type: 'empty' };
+    return this.getArgumentKind(definition, index) === 'lazy' ? () => empty : empty;
+  }
+}
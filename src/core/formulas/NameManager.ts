@@ -0,0 +1,91 @@
+/**
+ * Менеджер имен - именованные диапазоны и константы уровня книги
+ */
+
+import { FormulaNode } from './FormulaAST.js';
+
+export interface DefinedName {
+  name: string; // Имя в том виде, как его задал пользователь
+  refersTo: string; // Текст определения с ведущим = (=Data!$A$2:$A$500)
+  ast: FormulaNode;
+}
+
+// Имя начинается с буквы, _ или \, далее буквы, цифры, _ и точки
+const NAME_PATTERN = /^[\p{L}_\\][\p{L}\p{N}_.]*$/u;
+// Имена, которые совпадают со ссылками на ячейки (A1, XFD100, R1C1)
+const CELL_LIKE_PATTERN = /^([A-Za-z]{1,3}\d+|[Rr]\d*[Cc]\d*|[RrCc])$/;
+const MAX_NAME_LENGTH = 255;
+
+export class NameManager {
+  private names: Map<string, DefinedName> = new Map(); // ИМЯ -> определение
+
+  /**
+   * Нормализация имени для поиска (имена не зависят от регистра)
+   */
+  static normalize(name: string): string {
+    return name.toUpperCase();
+  }
+
+  /**
+   * Проверка допустимости имени, выбрасывает ошибку с описанием
+   */
+  static validate(name: string): void {
+    if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Недопустимая длина имени: ${name}`);
+    }
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Имя содержит недопустимые символы: ${name}`);
+    }
+    if (CELL_LIKE_PATTERN.test(name)) {
+      throw new Error(`Имя совпадает со ссылкой на ячейку: ${name}`);
+    }
+
+    const upper = this.normalize(name);
+    if (upper === 'TRUE' || upper === 'FALSE') {
+      throw new Error(`Имя совпадает с логическим значением: ${name}`);
+    }
+  }
+
+  /**
+   * Установка определения имени (новое или замена существующего)
+   */
+  set(definition: DefinedName): void {
+    NameManager.validate(definition.name);
+    this.names.set(NameManager.normalize(definition.name), definition);
+  }
+
+  /**
+   * Получение определения по имени
+   */
+  get(name: string): DefinedName | null {
+    return this.names.get(NameManager.normalize(name)) ?? null;
+  }
+
+  /**
+   * Проверка наличия имени
+   */
+  has(name: string): boolean {
+    return this.names.has(NameManager.normalize(name));
+  }
+
+  /**
+   * Удаление имени
+   */
+  delete(name: string): boolean {
+    return this.names.delete(NameManager.normalize(name));
+  }
+
+  /**
+   * Все определения в порядке добавления
+   */
+  getAll(): DefinedName[] {
+    return Array.from(this.names.values());
+  }
+
+  /**
+   * Удаление всех имен
+   */
+  clear(): void {
+    this.names.clear();
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Форматирование чисел по кодам формата Excel ("0.00", "#,##0", "0%", "0.00E+00", "+0;-0;0")
+ * и дат ("dd.mm.yyyy", "hh:mm:ss", "d mmm yyyy", "h:mm AM/PM")
+ */
+
+import { DateSerial } from './DateSerial.js';
+import { FormulaError } from './FormulaErrors.js';
+import { FormulaValues } from './FormulaValues.js';
+
+type FormatToken =
+  | { type: 'literal'; text: string }
+  | { type: 'digit'; char: '0' | '#' | '?' }
+  | { type: 'point' }
+  | { type: 'comma' }
+  | { type: 'percent' }
+  | { type: 'exponent'; sign: '+' | '-' }
+  | { type: 'date'; code: string }; // yyyy, m, dd, hh, ss, am/pm...
+
+interface NumberPattern {
+  prefix: FormatToken[];
+  integer: FormatToken[]; // Разряды и литералы целой части
+  decimals: ('0' | '#' | '?')[];
+  hasPoint: boolean;
+  grouping: boolean; // Разделитель тысяч
+  scale: number; // Запятые после последнего разряда делят на 1000
+  exponent: { sign: '+' | '-'; digits: number } | null;
+  suffix: FormatToken[];
+  percent: number;
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export class NumberFormat {
+  /**
+   * Форматирование числа; секции формата: положительные;отрицательные;ноль
+   */
+  static format(value: number, format: string): string {
+    const sections = NumberFormat.splitSections(format);
+
+    let section = sections[0] ?? '';
+    let magnitude = value;
+    let isSignShown = value < 0;
+
+    if (value < 0 && sections.length > 1) {
+      // Секция отрицательных чисел задает знак сама
+      section = sections[1]!;
+      magnitude = -value;
+      isSignShown = false;
+    } else if (value === 0 && sections.length > 2) {
+      section = sections[2]!;
+    }
+
+    if (section.toUpperCase() === 'GENERAL' || section === '') {
+      return FormulaValues.formatGeneral(value);
+    }
+
+    const tokens = NumberFormat.tokenize(section);
+    if (tokens.some(token => token.type === 'date')) {
+      return NumberFormat.formatDate(value, tokens);
+    }
+
+    const text = NumberFormat.formatSection(Math.abs(magnitude), tokens);
+    // Знак не выводится, если после округления осталось только "0"
+    return isSignShown && /[1-9]/.test(text) ? `-${text}` : text;
+  }
+
+  /**
+   * Разбиение формата на секции по ";" вне кавычек
+   */
+  private static splitSections(format: string): string[] {
+    const sections: string[] = [];
+    let current = '';
+    let isQuoted = false;
+
+    for (let index = 0; index < format.length; index++) {
+      const char = format[index]!;
+      if (char === '"') {
+        isQuoted = !isQuoted;
+      } else if (char === '\\' && !isQuoted) {
+        current += char + (format[++index] ?? '');
+        continue;
+      } else if (char === ';' && !isQuoted) {
+        sections.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    sections.push(current);
+    return sections;
+  }
+
+  /**
+   * Разбор секции формата на токены
+   */
+  private static tokenize(section: string): FormatToken[] {
+    const tokens: FormatToken[] = [];
+
+    for (let index = 0; index < section.length; index++) {
+      const char = section[index]!;
+      const next = section[index + 1] ?? '';
+
+      switch (char) {
+        case '"': {
+          const end = section.indexOf('"', index + 1);
+          const stop = end === -1 ? section.length : end;
+          tokens.push({ type: 'literal', text: section.slice(index + 1, stop) });
+          index = stop;
+          break;
+        }
+        case '\\':
+          tokens.push({ type: 'literal', text: next });
+          index++;
+          break;
+        case '_':
+          // Отступ шириной в символ
+          tokens.push({ type: 'literal', text: ' ' });
+          index++;
+          break;
+        case '*':
+          // Заполнение ячейки символом не имеет смысла для текста
+          index++;
+          break;
+        case '0':
+        case '#':
+        case '?':
+          tokens.push({ type: 'digit', char });
+          break;
+        case '.':
+          tokens.push({ type: 'point' });
+          break;
+        case ',':
+          tokens.push({ type: 'comma' });
+          break;
+        case '%':
+          tokens.push({ type: 'percent' });
+          break;
+        case 'E':
+        case 'e':
+          if (next === '+' || next === '-') {
+            tokens.push({ type: 'exponent', sign: next });
+            index++;
+          } else {
+            tokens.push({ type: 'literal', text: char });
+          }
+          break;
+        case 'y':
+        case 'Y':
+        case 'm':
+        case 'M':
+        case 'd':
+        case 'D':
+        case 'h':
+        case 'H':
+        case 's':
+        case 'S': {
+          // Коды даты и времени - повторения одной буквы
+          let end = index + 1;
+          while (section[end]?.toLowerCase() === char.toLowerCase()) {
+            end++;
+          }
+          tokens.push({ type: 'date', code: section.slice(index, end).toLowerCase() });
+          index = end - 1;
+          break;
+        }
+        case 'A':
+        case 'a':
+          if (section.slice(index, index + 5).toUpperCase() === 'AM/PM') {
+            tokens.push({ type: 'date', code: 'am/pm' });
+            index += 4;
+          } else {
+            tokens.push({ type: 'literal', text: char });
+          }
+          break;
+        default:
+          tokens.push({ type: 'literal', text: char });
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Форматирование серийного номера даты; m и mm после часов или перед секундами - минуты
+   */
+  private static formatDate(value: number, tokens: FormatToken[]): string {
+    const seconds = Math.round(value * 86400);
+    if (seconds < 0 || !Number.isFinite(seconds)) {
+      throw new FormulaError('#VALUE!', 'Отрицательное число нельзя показать как дату');
+    }
+
+    const serial = Math.floor(seconds / 86400);
+    const { year, month, day } = DateSerial.toParts(serial);
+    const { hour, minute, second } = DateSerial.toTime((seconds % 86400) / 86400);
+    const dateCodes = tokens.flatMap(token => (token.type === 'date' ? [token.code] : []));
+    const hasMeridiem = dateCodes.includes('am/pm');
+    const pad = (number: number, code: string) => String(number).padStart(code.length, '0');
+
+    let dateIndex = 0;
+    return tokens
+      .map(token => {
+        if (token.type !== 'date') {
+          if (token.type === 'literal') return token.text;
+          if (token.type === 'point') return '.';
+          if (token.type === 'comma') return ',';
+          return '';
+        }
+
+        const previous = dateCodes[dateIndex - 1] ?? '';
+        const next = dateCodes[dateIndex + 1] ?? '';
+        dateIndex++;
+        const { code } = token;
+
+        switch (code[0]) {
+          case 'y':
+            return code.length <= 2 ? pad(year % 100, 'yy') : String(year);
+          case 'm':
+            if (code.length <= 2 && (previous.startsWith('h') || next.startsWith('s'))) {
+              return pad(minute, code);
+            }
+            if (code.length === 3) return MONTH_NAMES[month - 1]!.slice(0, 3);
+            if (code.length === 4) return MONTH_NAMES[month - 1]!;
+            if (code.length === 5) return MONTH_NAMES[month - 1]!.charAt(0);
+            return pad(month, code);
+          case 'd':
+            if (code.length === 3) return DAY_NAMES[DateSerial.weekday(serial)]!.slice(0, 3);
+            if (code.length >= 4) return DAY_NAMES[DateSerial.weekday(serial)]!;
+            return pad(day, code);
+          case 'h':
+            return pad(hasMeridiem ? ((hour + 11) % 12) + 1 : hour, code.slice(0, 2));
+          case 's':
+            return pad(second, code.slice(0, 2));
+          default:
+            return hour < 12 ? 'AM' : 'PM';
+        }
+      })
+      .join('');
+  }
+
+  /**
+   * Разбор токенов на префикс, числовой шаблон и суффикс
+   */
+  private static parsePattern(tokens: FormatToken[]): NumberPattern {
+    const isNumeric = (token: FormatToken) => token.type === 'digit' || token.type === 'point';
+    const first = tokens.findIndex(isNumeric);
+    let last = -1;
+    tokens.forEach((token, index) => {
+      if (isNumeric(token)) {
+        last = index;
+      }
+    });
+
+    const pattern: NumberPattern = {
+      prefix: first === -1 ? tokens : tokens.slice(0, first),
+      integer: [],
+      decimals: [],
+      hasPoint: false,
+      grouping: false,
+      scale: 0,
+      exponent: null,
+      suffix: [],
+      percent: tokens.filter(token => token.type === 'percent').length,
+    };
+
+    if (first === -1) {
+      return pattern;
+    }
+
+    let index = first;
+    for (; index <= last; index++) {
+      const token = tokens[index]!;
+      if (token.type === 'exponent') {
+        break;
+      }
+      if (token.type === 'point') {
+        pattern.hasPoint = true;
+      } else if (token.type === 'digit' && pattern.hasPoint) {
+        pattern.decimals.push(token.char);
+      } else if (token.type === 'comma') {
+        pattern.grouping = !pattern.hasPoint;
+      } else if (!pattern.hasPoint) {
+        pattern.integer.push(token);
+      }
+    }
+
+    // Экспонента: E+00
+    const exponentToken = tokens[index];
+    if (exponentToken?.type === 'exponent') {
+      let digits = 0;
+      for (index++; tokens[index]?.type === 'digit'; index++) {
+        digits++;
+      }
+      pattern.exponent = { sign: exponentToken.sign, digits };
+    } else {
+      index = last + 1;
+    }
+
+    // Запятые сразу после последнего разряда масштабируют число
+    for (; tokens[index]?.type === 'comma'; index++) {
+      pattern.scale++;
+    }
+    pattern.suffix = tokens.slice(index);
+
+    return pattern;
+  }
+
+  /**
+   * Форматирование неотрицательного числа по токенам секции
+   */
+  private static formatSection(value: number, tokens: FormatToken[]): string {
+    const pattern = NumberFormat.parsePattern(tokens);
+    const literal = (items: FormatToken[]) =>
+      items
+        .map(token => {
+          if (token.type === 'literal') return token.text;
+          if (token.type === 'percent') return '%';
+          if (token.type === 'comma') return ',';
+          return '';
+        })
+        .join('');
+
+    if (pattern.integer.length === 0 && !pattern.hasPoint) {
+      return literal(pattern.prefix) + literal(pattern.suffix);
+    }
+
+    // Проценты и масштаб - сдвигом десятичной точки, без погрешности умножения
+    let scaled = FormulaValues.shiftDecimal(value, 2 * pattern.percent - 3 * pattern.scale);
+    let exponent = 0;
+    if (pattern.exponent && scaled !== 0) {
+      exponent = Math.floor(Math.log10(scaled));
+      scaled = FormulaValues.shiftDecimal(scaled, -exponent);
+    }
+
+    // Округление до числа разрядов дробной части (половина - от нуля)
+    const places = pattern.decimals.length;
+    let rounded = Math.round(FormulaValues.shiftDecimal(FormulaValues.normalize(scaled), places));
+    if (pattern.exponent && rounded >= 10 ** (places + 1)) {
+      // Мантисса округлилась до 10: 9.999 -> 1.00E+01
+      rounded /= 10;
+      exponent++;
+    }
+
+    const digits = String(rounded).padStart(places + 1, '0');
+    let integerDigits = digits.slice(0, digits.length - places).replace(/^0+/, '');
+    let decimalDigits = digits.slice(digits.length - places);
+
+    let exponentText = '';
+    if (pattern.exponent) {
+      const sign = exponent < 0 ? '-' : pattern.exponent.sign === '+' ? '+' : '';
+      exponentText = `E${sign}${String(Math.abs(exponent)).padStart(pattern.exponent.digits, '0')}`;
+    }
+
+    if (pattern.grouping) {
+      integerDigits = integerDigits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    }
+
+    const integerText = NumberFormat.fillInteger(integerDigits, pattern.integer);
+
+    // Незначащие нули дробной части: # - убираются, ? - заменяются пробелом
+    for (let index = places - 1; index >= 0 && decimalDigits[index] === '0'; index--) {
+      const placeholder = pattern.decimals[index];
+      if (placeholder === '0') {
+        break;
+      }
+      decimalDigits =
+        decimalDigits.slice(0, index) +
+        (placeholder === '?' ? ' ' : '') +
+        decimalDigits.slice(index + 1);
+    }
+
+    const decimalText = pattern.hasPoint ? `.${decimalDigits}` : '';
+    return (
+      literal(pattern.prefix) + integerText + decimalText + exponentText + literal(pattern.suffix)
+    );
+  }
+
+  /**
+   * Заполнение разрядов целой части справа налево (литералы внутри шаблона: 000-00-00)
+   */
+  private static fillInteger(digits: string, integer: FormatToken[]): string {
+    let remaining = digits;
+    let result = '';
+    let firstDigitIndex = integer.findIndex(token => token.type === 'digit');
+    if (firstDigitIndex === -1) {
+      firstDigitIndex = integer.length;
+    }
+
+    for (let index = integer.length - 1; index >= 0; index--) {
+      const token = integer[index]!;
+      if (token.type === 'literal') {
+        result = token.text + result;
+        continue;
+      }
+      if (token.type !== 'digit') {
+        continue;
+      }
+
+      if (index === firstDigitIndex) {
+        // Старший разряд шаблона забирает все оставшиеся цифры
+        result = (remaining || (token.char === '0' ? '0' : token.char === '?' ? ' ' : '')) + result;
+        remaining = '';
+      } else if (remaining) {
+        result = remaining.slice(-1) + result;
+        remaining = remaining.slice(0, -1);
+      } else {
+        result = (token.char === '0' ? '0' : token.char === '?' ? ' ' : '') + result;
+      }
+    }
+
+    return remaining + result;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Агрегатные функции: SUM, MIN, MAX, AVERAGE, COUNT
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaValues } from '../FormulaValues.js';
+import {
+  FunctionArgument,
+  FunctionDefinition,
+  MAX_FUNCTION_ARGUMENTS,
+} from '../FunctionRegistry.js';
+
+/**
+ * Функция SUM
+ */
+function sum(args: CellValue[]): CellValue {
+  let total = 0;
+
+  for (const arg of args) {
+    if (arg.type === 'error') {
+      return arg;
+    } else if (arg.type === 'number' && !Array.isArray(arg.value)) {
+      // Обычное число
+      total += arg.value;
+    } else if (Array.isArray(arg.value)) {
+      // Диапазон ячеек (может быть type='number' с массивом в value)
+      for (const cellValue of arg.value) {
+        if (cellValue.type === 'error') {
+          return cellValue;
+        }
+        if (cellValue.type === 'number') {
+          total += cellValue.value;
+        }
+      }
+    }
+  }
+
+  return { value: total, type: 'number' };
+}
+
+/**
+ * Функции MIN и MAX (пустой набор чисел дает 0)
+ */
+function extremum(
+  args: CellValue[],
+  isBetter: (candidate: number, current: number) => boolean
+): CellValue {
+  let result: number | null = null;
+
+  for (const arg of args) {
+    if (arg.type === 'error') {
+      return arg;
+    } else if (arg.type === 'number' && !Array.isArray(arg.value)) {
+      if (result === null || isBetter(arg.value, result)) {
+        result = arg.value;
+      }
+    } else if (Array.isArray(arg.value)) {
+      for (const cellValue of arg.value) {
+        if (cellValue.type === 'error') {
+          return cellValue;
+        }
+        if (cellValue.type === 'number' && (result === null || isBetter(cellValue.value, result))) {
+          result = cellValue.value;
+        }
+      }
+    }
+  }
+
+  return { value: result ?? 0, type: 'number' };
+}
+
+/**
+ * Функция AVERAGE
+ */
+function average(args: CellValue[]): CellValue {
+  let total = 0;
+  let count = 0;
+
+  for (const arg of args) {
+    if (arg.type === 'error') {
+      return arg;
+    } else if (arg.type === 'number' && !Array.isArray(arg.value)) {
+      total += arg.value;
+      count++;
+    } else if (Array.isArray(arg.value)) {
+      for (const cellValue of arg.value) {
+        if (cellValue.type === 'error') {
+          return cellValue;
+        }
+        if (cellValue.type === 'number') {
+          total += cellValue.value;
+          count++;
+        }
+      }
+    }
+  }
+
+  if (count === 0) {
+    return FormulaValues.error('#DIV/0!');
+  }
+
+  return { value: total / count, type: 'number' };
+}
+
+/**
+ * Функция COUNT
+ */
+function count(args: CellValue[]): CellValue {
+  let result = 0;
+
+  for (const arg of args) {
+    // Диапазон проверяется первым - у него тоже тип 'number'
+    if (Array.isArray(arg.value)) {
+      for (const cellValue of arg.value) {
+        if (cellValue.type === 'number' || cellValue.type === 'string') {
+          result++;
+        }
+      }
+    } else if (arg.type === 'number' || arg.type === 'string') {
+      result++;
+    }
+  }
+
+  return { value: result, type: 'number' };
+}
+
+export const AGGREGATE_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  {
+    name: 'SUM',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Сумма чисел',
+    evaluate: sum,
+  },
+  {
+    name: 'MIN',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Наименьшее число',
+    evaluate: (args: CellValue[]) => extremum(args, (candidate, current) => candidate < current),
+  },
+  {
+    name: 'MAX',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Наибольшее число',
+    evaluate: (args: CellValue[]) => extremum(args, (candidate, current) => candidate > current),
+  },
+  {
+    name: 'AVERAGE',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Среднее арифметическое',
+    evaluate: average,
+  },
+  {
+    name: 'COUNT',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Количество значений',
+    evaluate: count,
+  },
+];
@@ -0,0 +1,314 @@
+/**
+ * Функции динамических массивов: SEQUENCE, FILTER, SORT, SORTBY, UNIQUE, TRANSPOSE
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError, FormulaErrorCode } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import { MAX_ROW_INDEX } from '../FormulaAST.js';
+import { ArgumentKind, FunctionDefinition, MAX_FUNCTION_ARGUMENTS } from '../FunctionRegistry.js';
+
+// Предельное число элементов создаваемого массива - не больше, чем строк листа
+const MAX_ARRAY_SIZE = MAX_ROW_INDEX + 1;
+
+// Все аргументы функций массивов - массивы с формой
+const arrayKinds: ArgumentKind[] = ['array'];
+
+/**
+ * Строки массива; одиночное значение - таблица 1x1
+ */
+function toRows(value: CellValue): CellValue[][] {
+  if (!Array.isArray(value.value)) {
+    if (value.type === 'error') {
+      throw new FormulaError(value.value as FormulaErrorCode);
+    }
+    return [[value]];
+  }
+
+  const { rows, cols } = FormulaValues.getShape(value);
+  const cells = value.value as CellValue[];
+  return Array.from({ length: rows }, (_, row) => cells.slice(row * cols, (row + 1) * cols));
+}
+
+/**
+ * Массив-результат из строк (пустой результат - #CALC!)
+ */
+function fromRows(rows: CellValue[][]): CellValue {
+  const cols = rows[0]?.length ?? 0;
+  if (rows.length === 0 || cols === 0) {
+    return FormulaValues.error('#CALC!');
+  }
+  return FormulaValues.array(rows.flat(), rows.length, cols);
+}
+
+/**
+ * Транспонирование строк: строки становятся столбцами
+ */
+function transpose(rows: CellValue[][]): CellValue[][] {
+  const cols = rows[0]?.length ?? 0;
+  return Array.from({ length: cols }, (_, col) => rows.map(row => row[col]!));
+}
+
+/**
+ * Ориентация вектора относительно массива: false - столбец высотой с массив,
+ * true - строка шириной с массив, null - вектор не соответствует массиву
+ */
+function getOrientation(rows: CellValue[][], vector: CellValue[][]): boolean | null {
+  const vectorWidth = vector[0]?.length ?? 0;
+  if (vectorWidth === 1 && vector.length === rows.length) {
+    return false;
+  }
+  if (vector.length === 1 && vectorWidth === (rows[0]?.length ?? 0)) {
+    return true;
+  }
+  return null;
+}
+
+/**
+ * Значения вектора-строки или вектора-столбца
+ */
+function toVector(vector: CellValue[][], byCol: boolean): CellValue[] {
+  return byCol ? vector[0]! : vector.map(row => row[0]!);
+}
+
+/**
+ * Необязательный логический аргумент (по умолчанию FALSE)
+ */
+function toFlag(value: CellValue | undefined): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  const flag = FormulaValues.toBoolean(value);
+  if (flag === null) {
+    throw new FormulaError('#VALUE!', 'Ожидалось логическое значение');
+  }
+  return flag;
+}
+
+/**
+ * Порядок сортировки: 1 - по возрастанию, -1 - по убыванию
+ */
+function toSortOrder(value: CellValue | undefined): number {
+  const order = value === undefined ? 1 : FormulaValues.toNumber(value);
+  if (order !== 1 && order !== -1) {
+    throw new FormulaError('#VALUE!', 'Порядок сортировки должен быть 1 или -1');
+  }
+  return order;
+}
+
+/**
+ * Сравнение элементов при сортировке: ошибки - после остальных значений
+ */
+function compareElements(left: CellValue, right: CellValue): number {
+  const leftError = left.type === 'error';
+  const rightError = right.type === 'error';
+  if (leftError || rightError) {
+    return Number(leftError) - Number(rightError);
+  }
+  return FormulaValues.compare(left, right);
+}
+
+/**
+ * Ключ элемента для поиска одинаковых строк (текст - без учета регистра)
+ */
+function elementKey(element: CellValue): string {
+  const value = element.type === 'string' ? String(element.value).toLowerCase() : element.value;
+  return `${element.type}:${value}`;
+}
+
+/**
+ * SEQUENCE: последовательность чисел по строкам
+ */
+function sequence([rowsArg, colsArg, startArg, stepArg]: CellValue[]): CellValue {
+  const rows = Math.trunc(FormulaValues.toNumber(rowsArg!));
+  const cols = colsArg === undefined ? 1 : Math.trunc(FormulaValues.toNumber(colsArg));
+  const start = startArg === undefined ? 1 : FormulaValues.toNumber(startArg);
+  const step = stepArg === undefined ? 1 : FormulaValues.toNumber(stepArg);
+
+  if (rows < 0 || cols < 0) {
+    return FormulaValues.error('#VALUE!');
+  }
+  if (rows === 0 || cols === 0) {
+    return FormulaValues.error('#CALC!');
+  }
+  if (rows * cols > MAX_ARRAY_SIZE) {
+    return FormulaValues.error('#NUM!');
+  }
+
+  const values = Array.from({ length: rows * cols }, (_, index) =>
+    FormulaValues.number(start + index * step)
+  );
+  return FormulaValues.array(values, rows, cols);
+}
+
+/**
+ * FILTER: строки (или столбцы) массива, для которых условие истинно
+ */
+function filter([array, include, ifEmpty]: CellValue[]): CellValue {
+  const rows = toRows(array!);
+  const conditions = toRows(include!);
+
+  // Условие - столбец (отбор строк) или строка (отбор столбцов)
+  const byCol = getOrientation(rows, conditions);
+  if (byCol === null) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  const isIncluded = toVector(conditions, byCol).map(flag => {
+    if (flag.type === 'error') {
+      throw new FormulaError(flag.value as FormulaErrorCode);
+    }
+    const included = FormulaValues.toBoolean(flag);
+    if (included === null) {
+      throw new FormulaError('#VALUE!', 'Условие FILTER должно быть логическим');
+    }
+    return included;
+  });
+
+  const source = byCol ? transpose(rows) : rows;
+  const selected = source.filter((_, index) => isIncluded[index]);
+  if (selected.length === 0) {
+    return ifEmpty ?? FormulaValues.error('#CALC!');
+  }
+  return fromRows(byCol ? transpose(selected) : selected);
+}
+
+/**
+ * Устойчивая сортировка строк по ключам: ключ - значение для каждой строки и порядок
+ */
+function sortRows(
+  rows: CellValue[][],
+  keys: Array<{ values: CellValue[]; order: number }>
+): CellValue[][] {
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((left, right) => {
+      for (const { values, order } of keys) {
+        const comparison = compareElements(values[left.index]!, values[right.index]!);
+        if (comparison !== 0) {
+          return comparison * order;
+        }
+      }
+      return left.index - right.index;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * SORT: сортировка строк (или столбцов) массива по одному столбцу (строке)
+ */
+function sort([array, indexArg, orderArg, byColArg]: CellValue[]): CellValue {
+  const byCol = toFlag(byColArg);
+  const rows = byCol ? transpose(toRows(array!)) : toRows(array!);
+  const index = indexArg === undefined ? 1 : Math.trunc(FormulaValues.toNumber(indexArg));
+  const order = toSortOrder(orderArg);
+
+  if (index < 1 || index > (rows[0]?.length ?? 0)) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  const sorted = sortRows(rows, [{ values: rows.map(row => row[index - 1]!), order }]);
+  return fromRows(byCol ? transpose(sorted) : sorted);
+}
+
+/**
+ * SORTBY: сортировка массива по другим массивам - столбцам (сортировка строк)
+ * или строкам (сортировка столбцов) того же размера
+ */
+function sortBy([array, ...keyArgs]: CellValue[]): CellValue {
+  const rows = toRows(array!);
+  let byCol: boolean | null = null;
+  const keys: Array<{ values: CellValue[]; order: number }> = [];
+
+  for (let index = 0; index < keyArgs.length; index += 2) {
+    const keyRows = toRows(keyArgs[index]!);
+    const keyByCol = getOrientation(rows, keyRows);
+
+    // Все ключи должны соответствовать массиву и быть одной ориентации
+    if (keyByCol === null || (byCol !== null && byCol !== keyByCol)) {
+      return FormulaValues.error('#VALUE!');
+    }
+
+    byCol = keyByCol;
+    keys.push({ values: toVector(keyRows, keyByCol), order: toSortOrder(keyArgs[index + 1]) });
+  }
+
+  const source = byCol ? transpose(rows) : rows;
+  const sorted = sortRows(source, keys);
+  return fromRows(byCol ? transpose(sorted) : sorted);
+}
+
+/**
+ * UNIQUE: уникальные строки (или столбцы) массива в порядке первого появления
+ */
+function unique([array, byColArg, exactlyOnceArg]: CellValue[]): CellValue {
+  const byCol = toFlag(byColArg);
+  const exactlyOnce = toFlag(exactlyOnceArg);
+  const rows = byCol ? transpose(toRows(array!)) : toRows(array!);
+
+  const groups = new Map<string, { row: CellValue[]; count: number }>();
+  for (const row of rows) {
+    const key = row.map(elementKey).join('\u0000');
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, { row, count: 1 });
+    }
+  }
+
+  const result = Array.from(groups.values())
+    .filter(group => !exactlyOnce || group.count === 1)
+    .map(group => group.row);
+  return fromRows(byCol ? transpose(result) : result);
+}
+
+export const ARRAY_FUNCTIONS: FunctionDefinition<CellValue[]>[] = [
+  {
+    name: 'SEQUENCE',
+    minArgs: 1,
+    maxArgs: 4,
+    description: 'Последовательность чисел (строки, столбцы, начало, шаг)',
+    evaluate: sequence,
+  },
+  {
+    name: 'FILTER',
+    minArgs: 2,
+    maxArgs: 3,
+    argumentKinds: arrayKinds,
+    description: 'Строки массива, удовлетворяющие условию',
+    evaluate: filter,
+  },
+  {
+    name: 'SORT',
+    minArgs: 1,
+    maxArgs: 4,
+    argumentKinds: arrayKinds,
+    description: 'Сортировка массива по столбцу или строке',
+    evaluate: sort,
+  },
+  {
+    name: 'SORTBY',
+    minArgs: 2,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    argumentKinds: arrayKinds,
+    description: 'Сортировка массива по значениям других массивов',
+    evaluate: sortBy,
+  },
+  {
+    name: 'UNIQUE',
+    minArgs: 1,
+    maxArgs: 3,
+    argumentKinds: arrayKinds,
+    description: 'Уникальные строки или столбцы массива',
+    evaluate: unique,
+  },
+  {
+    name: 'TRANSPOSE',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: arrayKinds,
+    description: 'Транспонирование массива',
+    evaluate: ([array]: CellValue[]) => fromRows(transpose(toRows(array!))),
+  },
+];
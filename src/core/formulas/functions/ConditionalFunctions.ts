@@ -0,0 +1,185 @@
+/**
+ * Условное агрегирование: SUMIF(S), COUNTIF(S), AVERAGEIF(S), MAXIFS, MINIFS
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaCriteria, CriteriaMatcher } from '../FormulaCriteria.js';
+import { FormulaError, FormulaErrorCode } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import {
+  ArgumentKind,
+  FunctionArgument,
+  FunctionDefinition,
+  MAX_FUNCTION_ARGUMENTS,
+} from '../FunctionRegistry.js';
+
+// Наибольшее четное число аргументов - пары "диапазон; условие" у COUNTIFS
+const MAX_CRITERIA_ARGUMENTS = MAX_FUNCTION_ARGUMENTS - 1;
+
+/**
+ * Виды аргументов: первые аргументы, затем чередование диапазонов и условий
+ */
+function criteriaKinds(leading: ArgumentKind[]): ArgumentKind[] {
+  const pairs = Array.from({ length: MAX_FUNCTION_ARGUMENTS - leading.length }, (_, index) =>
+    index % 2 === 0 ? 'range' : 'value'
+  );
+  return [...leading, ...pairs];
+}
+
+/**
+ * Ячейки диапазона (ссылка на одну ячейку - диапазон из одной ячейки)
+ */
+function cellsOf(arg: CellValue): CellValue[] {
+  return Array.isArray(arg.value) ? (arg.value as CellValue[]) : [arg];
+}
+
+/**
+ * Позиции ячеек, удовлетворяющих всем условиям пар "диапазон; условие";
+ * все диапазоны должны быть одного размера
+ */
+function matchPositions(pairs: CellValue[], size: number): number[] {
+  if (pairs.length % 2 !== 0) {
+    throw new FormulaError('#VALUE!', 'Ожидались пары "диапазон; условие"');
+  }
+
+  const conditions: { cells: CellValue[]; matches: CriteriaMatcher }[] = [];
+  for (let index = 0; index < pairs.length; index += 2) {
+    conditions.push({
+      cells: cellsOf(pairs[index]!),
+      matches: FormulaCriteria.parse(pairs[index + 1]!),
+    });
+  }
+
+  if (conditions.some(({ cells }) => cells.length !== size)) {
+    throw new FormulaError('#VALUE!', 'Диапазоны условий должны быть одного размера');
+  }
+
+  const positions: number[] = [];
+  for (let index = 0; index < size; index++) {
+    if (conditions.every(({ cells, matches }) => matches(cells[index]!))) {
+      positions.push(index);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Числа ячеек на отобранных позициях (текст и логические значения пропускаются)
+ */
+function numbersAt(cells: CellValue[], positions: number[]): number[] {
+  const numbers: number[] = [];
+  for (const position of positions) {
+    const cell = cells[position]!;
+    if (cell.type === 'error') {
+      throw new FormulaError(cell.value as FormulaErrorCode);
+    }
+    if (cell.type === 'number') {
+      numbers.push(cell.value);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Определение XXXIF(диапазон; условие; [диапазон_значений])
+ */
+function singleCriteria(
+  name: string,
+  description: string,
+  compute: (values: number[]) => CellValue
+): FunctionDefinition<CellValue[]> {
+  return {
+    name,
+    minArgs: 2,
+    maxArgs: 3,
+    argumentKinds: ['range', 'value', 'range'],
+    description,
+    evaluate: ([range, criteria, target]: CellValue[]) => {
+      const cells = cellsOf(target ?? range!);
+      return compute(numbersAt(cells, matchPositions([range!, criteria!], cells.length)));
+    },
+  };
+}
+
+/**
+ * Определение XXXIFS(диапазон_значений; диапазон1; условие1; ...)
+ */
+function multipleCriteria(
+  name: string,
+  description: string,
+  compute: (values: number[]) => CellValue
+): FunctionDefinition<CellValue[]> {
+  return {
+    name,
+    minArgs: 3,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    argumentKinds: criteriaKinds(['range']),
+    description,
+    evaluate: ([target, ...pairs]: CellValue[]) => {
+      const cells = cellsOf(target!);
+      return compute(numbersAt(cells, matchPositions(pairs, cells.length)));
+    },
+  };
+}
+
+/**
+ * Сумма отобранных чисел
+ */
+function sum(values: number[]): CellValue {
+  return FormulaValues.number(values.reduce((total, value) => total + value, 0));
+}
+
+/**
+ * Среднее отобранных чисел (без подходящих чисел - #DIV/0!)
+ */
+function average(values: number[]): CellValue {
+  if (values.length === 0) {
+    return FormulaValues.error('#DIV/0!');
+  }
+  return FormulaValues.number(values.reduce((total, value) => total + value, 0) / values.length);
+}
+
+/**
+ * Наибольшее или наименьшее из отобранных чисел (без подходящих чисел - 0)
+ */
+function extremum(values: number[], pick: (a: number, b: number) => number): CellValue {
+  return {
+    value: values.length === 0 ? 0 : values.reduce((result, value) => pick(result, value)),
+    type: 'number',
+  };
+}
+
+export const CONDITIONAL_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  singleCriteria('SUMIF', 'Сумма чисел по условию', sum),
+  multipleCriteria('SUMIFS', 'Сумма чисел по нескольким условиям', sum),
+  singleCriteria('AVERAGEIF', 'Среднее арифметическое по условию', average),
+  multipleCriteria('AVERAGEIFS', 'Среднее арифметическое по нескольким условиям', average),
+  multipleCriteria('MAXIFS', 'Наибольшее число по нескольким условиям', values =>
+    extremum(values, Math.max)
+  ),
+  multipleCriteria('MINIFS', 'Наименьшее число по нескольким условиям', values =>
+    extremum(values, Math.min)
+  ),
+  {
+    name: 'COUNTIF',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: ['range', 'value'],
+    description: 'Количество ячеек, удовлетворяющих условию',
+    evaluate: ([range, criteria]: CellValue[]) => ({
+      value: matchPositions([range!, criteria!], cellsOf(range!).length).length,
+      type: 'number',
+    }),
+  },
+  {
+    name: 'COUNTIFS',
+    minArgs: 2,
+    maxArgs: MAX_CRITERIA_ARGUMENTS,
+    argumentKinds: criteriaKinds([]),
+    description: 'Количество ячеек, удовлетворяющих всем условиям',
+    evaluate: (pairs: CellValue[]) => ({
+      value: matchPositions(pairs, cellsOf(pairs[0]!).length).length,
+      type: 'number',
+    }),
+  },
+];
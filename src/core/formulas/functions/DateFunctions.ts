@@ -0,0 +1,299 @@
+/**
+ * Функции даты и времени (серийные номера системы 1900)
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { DateFormatKind, DateSerial, MAX_DATE_SERIAL } from '../DateSerial.js';
+import { FormulaError } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import { FunctionArgument, FunctionDefinition } from '../FunctionRegistry.js';
+
+// Дни недели, выходные по умолчанию: суббота и воскресенье
+const SATURDAY = 6;
+const SUNDAY = 0;
+
+/**
+ * Результат - дата или время
+ */
+function dateValue(serial: number, format: DateFormatKind = 'date'): CellValue {
+  return { value: serial, type: 'number', format };
+}
+
+/**
+ * Серийный номер из аргумента (вне диапазона дат - #NUM!)
+ */
+function toSerial(arg: CellValue): number {
+  const serial = FormulaValues.toNumber(arg);
+  if (serial < 0 || serial >= MAX_DATE_SERIAL + 1) {
+    throw new FormulaError('#NUM!', `Недопустимая дата: ${serial}`);
+  }
+  return serial;
+}
+
+/**
+ * Дата из аргумента без времени
+ */
+function toDay(arg: CellValue): number {
+  return Math.floor(toSerial(arg));
+}
+
+/**
+ * Сдвиг даты на целое число месяцев; день ограничивается концом месяца
+ */
+function addMonths(serial: number, months: number): number {
+  const { year, month, day } = DateSerial.toParts(serial);
+  const target = month + Math.trunc(months);
+  const lastDay = DateSerial.toParts(DateSerial.fromParts(year, target + 1, 0)).day;
+  return DateSerial.fromParts(year, target, Math.min(day, lastDay));
+}
+
+/**
+ * Выходной ли день (суббота или воскресенье)
+ */
+function isWeekend(serial: number): boolean {
+  const weekday = DateSerial.weekday(serial);
+  return weekday === SATURDAY || weekday === SUNDAY;
+}
+
+/**
+ * Праздничные дни из необязательного аргумента
+ */
+function toHolidays(arg: CellValue | undefined): Set<number> {
+  if (arg === undefined) {
+    return new Set();
+  }
+  return new Set(FormulaValues.collectNumbers([arg]).map(serial => Math.floor(serial)));
+}
+
+/**
+ * Функция DATEDIF - разница дат в единицах "Y", "M", "D", "MD", "YM", "YD"
+ */
+function dateDifference([startArg, endArg, unitArg]: CellValue[]): CellValue {
+  const start = toDay(startArg!);
+  const end = toDay(endArg!);
+  if (start > end) {
+    return FormulaValues.error('#NUM!');
+  }
+
+  const from = DateSerial.toParts(start);
+  const to = DateSerial.toParts(end);
+  const months = (to.year - from.year) * 12 + (to.month - from.month) - (to.day < from.day ? 1 : 0);
+
+  switch (FormulaValues.toText(unitArg!).toUpperCase()) {
+    case 'Y':
+      return FormulaValues.number(Math.floor(months / 12));
+    case 'M':
+      return FormulaValues.number(months);
+    case 'D':
+      return FormulaValues.number(end - start);
+    case 'YM':
+      return FormulaValues.number(months % 12);
+    case 'MD':
+      // Дни от того же числа предыдущего месяца (как в Excel, может быть отрицательным)
+      return FormulaValues.number(
+        to.day >= from.day
+          ? to.day - from.day
+          : end - DateSerial.fromParts(to.year, to.month - 1, from.day)
+      );
+    case 'YD': {
+      let anniversary = DateSerial.fromParts(to.year, from.month, from.day);
+      if (anniversary > end) {
+        anniversary = DateSerial.fromParts(to.year - 1, from.month, from.day);
+      }
+      return FormulaValues.number(end - anniversary);
+    }
+    default:
+      return FormulaValues.error('#NUM!');
+  }
+}
+
+/**
+ * Функция WEEKDAY - номер дня недели; тип 1: 1 - воскресенье, 2: 1 - понедельник,
+ * 3: 0 - понедельник, 11-17: 1 - понедельник ... воскресенье
+ */
+function weekdayNumber([serialArg, typeArg]: CellValue[]): CellValue {
+  const weekday = DateSerial.weekday(toDay(serialArg!));
+  const type = typeArg === undefined ? 1 : Math.trunc(FormulaValues.toNumber(typeArg));
+
+  if (type === 1) {
+    return FormulaValues.number(weekday + 1);
+  }
+  if (type === 2) {
+    return FormulaValues.number(((weekday + 6) % 7) + 1);
+  }
+  if (type === 3) {
+    return FormulaValues.number((weekday + 6) % 7);
+  }
+  if (type >= 11 && type <= 17) {
+    const firstDay = (type - 10) % 7;
+    return FormulaValues.number(((weekday - firstDay + 7) % 7) + 1);
+  }
+  return FormulaValues.error('#NUM!');
+}
+
+/**
+ * Функция WORKDAY - дата через заданное число рабочих дней
+ */
+function addWorkdays([startArg, daysArg, holidaysArg]: CellValue[]): CellValue {
+  let serial = toDay(startArg!);
+  let remaining = Math.trunc(FormulaValues.toNumber(daysArg!));
+  const holidays = toHolidays(holidaysArg);
+  const step = Math.sign(remaining);
+
+  while (remaining !== 0) {
+    serial += step;
+    if (serial < 0 || serial > MAX_DATE_SERIAL) {
+      return FormulaValues.error('#NUM!');
+    }
+    if (!isWeekend(serial) && !holidays.has(serial)) {
+      remaining -= step;
+    }
+  }
+  return dateValue(serial);
+}
+
+/**
+ * Функция NETWORKDAYS - число рабочих дней между датами включительно
+ * (отрицательное, если начальная дата позже конечной)
+ */
+function countWorkdays([startArg, endArg, holidaysArg]: CellValue[]): CellValue {
+  const start = toDay(startArg!);
+  const end = toDay(endArg!);
+  const from = Math.min(start, end);
+  const to = Math.max(start, end);
+
+  // Полные недели содержат по 5 рабочих дней, остаток считается по дням
+  const days = to - from + 1;
+  let count = Math.floor(days / 7) * 5;
+  for (let serial = from + days - (days % 7); serial <= to; serial++) {
+    if (!isWeekend(serial)) {
+      count++;
+    }
+  }
+
+  for (const holiday of toHolidays(holidaysArg)) {
+    if (holiday >= from && holiday <= to && !isWeekend(holiday)) {
+      count--;
+    }
+  }
+
+  return FormulaValues.number(start <= end ? count : -count);
+}
+
+/**
+ * Определение функции, возвращающей часть даты или времени
+ */
+function datePart(
+  name: string,
+  description: string,
+  pick: (serial: number) => number
+): FunctionDefinition<CellValue[]> {
+  return {
+    name,
+    minArgs: 1,
+    maxArgs: 1,
+    description,
+    evaluate: ([serial]: CellValue[]) => FormulaValues.number(pick(toSerial(serial!))),
+  };
+}
+
+export const DATE_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  {
+    name: 'DATE',
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'Дата по году, месяцу и дню',
+    evaluate: (args: CellValue[]) => {
+      const [year, month, day] = args.map(arg => FormulaValues.toNumber(arg)) as [
+        number,
+        number,
+        number,
+      ];
+      return dateValue(DateSerial.fromParts(year, month, day));
+    },
+  },
+  {
+    name: 'TIME',
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'Время по часам, минутам и секундам',
+    evaluate: (args: CellValue[]) => {
+      const [hour, minute, second] = args.map(arg => FormulaValues.toNumber(arg)) as [
+        number,
+        number,
+        number,
+      ];
+      return dateValue(DateSerial.fromTime(hour, minute, second), 'time');
+    },
+  },
+  {
+    name: 'TODAY',
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    description: 'Текущая дата',
+    evaluate: () => dateValue(Math.floor(DateSerial.fromDate(new Date()))),
+  },
+  {
+    name: 'NOW',
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    description: 'Текущие дата и время',
+    evaluate: () => dateValue(DateSerial.fromDate(new Date()), 'datetime'),
+  },
+  datePart('YEAR', 'Год даты', serial => DateSerial.toParts(serial).year),
+  datePart('MONTH', 'Месяц даты (1-12)', serial => DateSerial.toParts(serial).month),
+  datePart('DAY', 'День месяца', serial => DateSerial.toParts(serial).day),
+  datePart('HOUR', 'Часы времени (0-23)', serial => DateSerial.toTime(serial).hour),
+  datePart('MINUTE', 'Минуты времени', serial => DateSerial.toTime(serial).minute),
+  datePart('SECOND', 'Секунды времени', serial => DateSerial.toTime(serial).second),
+  {
+    name: 'EDATE',
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Дата через заданное число месяцев',
+    evaluate: ([start, months]: CellValue[]) =>
+      dateValue(addMonths(toDay(start!), FormulaValues.toNumber(months!))),
+  },
+  {
+    name: 'EOMONTH',
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Последний день месяца через заданное число месяцев',
+    evaluate: ([start, months]: CellValue[]) => {
+      const { year, month } = DateSerial.toParts(toDay(start!));
+      return dateValue(
+        DateSerial.fromParts(year, month + Math.trunc(FormulaValues.toNumber(months!)) + 1, 0)
+      );
+    },
+  },
+  {
+    name: 'DATEDIF',
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'Разница дат в годах, месяцах или днях',
+    evaluate: dateDifference,
+  },
+  {
+    name: 'WEEKDAY',
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Номер дня недели',
+    evaluate: weekdayNumber,
+  },
+  {
+    name: 'WORKDAY',
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'Дата через заданное число рабочих дней',
+    evaluate: addWorkdays,
+  },
+  {
+    name: 'NETWORKDAYS',
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'Число рабочих дней между датами',
+    evaluate: countWorkdays,
+  },
+];
@@ -0,0 +1,108 @@
+/**
+ * Функции обработки ошибок: IFERROR, IFNA, ISERROR, ISERR, ISNA, ERROR.TYPE, NA
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError, FormulaErrorCode } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import { FunctionArgument, FunctionDefinition, LazyArgument } from '../FunctionRegistry.js';
+
+/**
+ * Функции IFERROR/IFNA - подмена значения при ошибке
+ */
+function replaceError(
+  [value, replacement]: [LazyArgument, LazyArgument],
+  shouldReplace: (error: CellValue) => boolean
+): CellValue {
+  const result = value();
+  if (result.type === 'error' && shouldReplace(result)) {
+    return replacement();
+  }
+
+  return result;
+}
+
+/**
+ * Функции ISERROR/ISERR/ISNA - проверка значения на ошибку
+ */
+function isError([value]: [LazyArgument], matches: (error: CellValue) => boolean): CellValue {
+  const result = value();
+  return { value: result.type === 'error' && matches(result), type: 'boolean' };
+}
+
+/**
+ * Функция ERROR.TYPE - номер ошибки
+ */
+function errorType([value]: [LazyArgument]): CellValue {
+  const result = value();
+  const typeNumber =
+    result.type === 'error'
+      ? FormulaError.getErrorTypeNumber(result.value as FormulaErrorCode)
+      : null;
+
+  if (typeNumber === null) {
+    return FormulaValues.error('#N/A');
+  }
+
+  return { value: typeNumber, type: 'number' };
+}
+
+// Проверяемое значение вычисляется лениво, чтобы исключение стало значением-ошибкой
+export const ERROR_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  {
+    name: 'IFERROR',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: ['lazy'],
+    description: 'Значение или замена, если значение - ошибка',
+    evaluate: (args: [LazyArgument, LazyArgument]) => replaceError(args, () => true),
+  },
+  {
+    name: 'IFNA',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: ['lazy'],
+    description: 'Значение или замена, если значение - ошибка #N/A',
+    evaluate: (args: [LazyArgument, LazyArgument]) =>
+      replaceError(args, error => error.value === '#N/A'),
+  },
+  {
+    name: 'ISERROR',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: ['lazy'],
+    description: 'ИСТИНА, если значение - любая ошибка',
+    evaluate: (args: [LazyArgument]) => isError(args, () => true),
+  },
+  {
+    name: 'ISERR',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: ['lazy'],
+    description: 'ИСТИНА, если значение - ошибка, кроме #N/A',
+    evaluate: (args: [LazyArgument]) => isError(args, error => error.value !== '#N/A'),
+  },
+  {
+    name: 'ISNA',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: ['lazy'],
+    description: 'ИСТИНА, если значение - ошибка #N/A',
+    evaluate: (args: [LazyArgument]) => isError(args, error => error.value === '#N/A'),
+  },
+  {
+    name: 'ERROR.TYPE',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: ['lazy'],
+    description: 'Номер типа ошибки',
+    evaluate: errorType,
+  },
+  {
+    name: 'NA',
+    minArgs: 0,
+    maxArgs: 0,
+    description: 'Ошибка #N/A',
+    evaluate: () => FormulaValues.error('#N/A'),
+  },
+];
@@ -0,0 +1,515 @@
+/**
+ * Финансовые функции: аннуитеты, дисконтирование денежных потоков, амортизация
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError, FormulaErrorCode } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import {
+  FunctionArgument,
+  FunctionDefinition,
+  MAX_FUNCTION_ARGUMENTS,
+} from '../FunctionRegistry.js';
+
+// Метод Ньютона для RATE, IRR и XIRR: предел итераций и точность ставки
+const MAX_ITERATIONS = 100;
+const RATE_PRECISION = 1e-10;
+const DAYS_IN_YEAR = 365;
+
+/**
+ * Числовые аргументы с необязательными значениями по умолчанию
+ */
+function toNumbers(args: CellValue[], defaults: number[]): number[] {
+  return defaults.map((fallback, index) => {
+    const arg = args[index];
+    return arg === undefined ? fallback : FormulaValues.toNumber(arg);
+  });
+}
+
+/**
+ * Тип выплаты: 0 - в конце периода, 1 - в начале (любое ненулевое значение)
+ */
+function paymentType(type: number): number {
+  return type === 0 ? 0 : 1;
+}
+
+/**
+ * Будущая стоимость: pv, выплаты pmt за nper периодов по ставке rate
+ */
+function futureValue(rate: number, nper: number, pmt: number, pv: number, type: number): number {
+  if (rate === 0) {
+    return -(pv + pmt * nper);
+  }
+  const growth = Math.pow(1 + rate, nper);
+  return -(pv * growth + (pmt * (1 + rate * type) * (growth - 1)) / rate);
+}
+
+/**
+ * Приведенная стоимость выплат pmt за nper периодов и будущей суммы fv
+ */
+function presentValue(rate: number, nper: number, pmt: number, fv: number, type: number): number {
+  if (rate === 0) {
+    return -(fv + pmt * nper);
+  }
+  const growth = Math.pow(1 + rate, nper);
+  return -(fv + (pmt * (1 + rate * type) * (growth - 1)) / rate) / growth;
+}
+
+/**
+ * Выплата за период, погашающая pv до остатка fv за nper периодов
+ */
+function payment(rate: number, nper: number, pv: number, fv: number, type: number): number {
+  if (nper === 0) {
+    throw new FormulaError('#NUM!', 'Число периодов не может быть нулевым');
+  }
+  if (rate === 0) {
+    return -(pv + fv) / nper;
+  }
+  const growth = Math.pow(1 + rate, nper);
+  return -(rate * (fv + pv * growth)) / ((1 + rate * type) * (growth - 1));
+}
+
+/**
+ * Процентная часть выплаты за период per
+ */
+function interestPayment(
+  rate: number,
+  per: number,
+  nper: number,
+  pv: number,
+  fv: number,
+  type: number
+): number {
+  if (per < 1 || per > nper) {
+    throw new FormulaError('#NUM!', 'Номер периода вне диапазона');
+  }
+
+  const pmt = payment(rate, nper, pv, fv, type);
+  if (per === 1) {
+    return type === 1 ? 0 : -pv * rate;
+  }
+  // Проценты начисляются на остаток после предыдущего периода
+  const balance =
+    type === 1
+      ? futureValue(rate, per - 2, pmt, pv, 1) - pmt
+      : futureValue(rate, per - 1, pmt, pv, 0);
+  return balance * rate;
+}
+
+/**
+ * Поиск корня методом Ньютона; без сходимости - #NUM!
+ */
+function solveRate(
+  value: (rate: number) => number,
+  derivative: (rate: number) => number,
+  guess: number
+): number {
+  let rate = guess;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const slope = derivative(rate);
+    const step = value(rate) / slope;
+    if (!Number.isFinite(step)) {
+      break;
+    }
+
+    rate -= step;
+    if (rate <= -1) {
+      break;
+    }
+    if (Math.abs(step) < RATE_PRECISION) {
+      return rate;
+    }
+  }
+  throw new FormulaError('#NUM!', 'Ставка не найдена: итерации не сошлись');
+}
+
+/**
+ * Функция RATE - ставка за период, при которой аннуитет сходится
+ */
+function annuityRate(args: CellValue[]): CellValue {
+  const [nper, pmt, pv, fv, rawType, guess] = toNumbers(args, [0, 0, 0, 0, 0, 0.1]) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const type = paymentType(rawType);
+  if (nper <= 0) {
+    return FormulaValues.error('#NUM!');
+  }
+
+  // Остаток после nper периодов должен быть равен нулю
+  const balance = (rate: number) =>
+    rate === 0
+      ? pv + pmt * nper + fv
+      : pv * Math.pow(1 + rate, nper) +
+        (pmt * (1 + rate * type) * (Math.pow(1 + rate, nper) - 1)) / rate +
+        fv;
+  const derivative = (rate: number) => {
+    if (rate === 0) {
+      return pv * nper + pmt * (type * nper + (nper * (nper - 1)) / 2);
+    }
+    const growth = Math.pow(1 + rate, nper);
+    const growthSlope = nper * Math.pow(1 + rate, nper - 1);
+    return (
+      pv * growthSlope +
+      (pmt * type * (growth - 1)) / rate +
+      (pmt * (1 + rate * type) * (growthSlope * rate - (growth - 1))) / (rate * rate)
+    );
+  };
+
+  return FormulaValues.number(solveRate(balance, derivative, guess));
+}
+
+/**
+ * Функция NPER - число периодов аннуитета
+ */
+function periodCount(args: CellValue[]): CellValue {
+  const [rate, pmt, pv, fv, rawType] = toNumbers(args, [0, 0, 0, 0, 0]) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const type = paymentType(rawType);
+
+  if (rate === 0) {
+    if (pmt === 0) {
+      return FormulaValues.error('#NUM!');
+    }
+    return FormulaValues.number(-(pv + fv) / pmt);
+  }
+
+  const scaled = (pmt * (1 + rate * type)) / rate;
+  return FormulaValues.number(Math.log((scaled - fv) / (pv + scaled)) / Math.log(1 + rate));
+}
+
+/**
+ * Чистая приведенная стоимость потоков, первый поток - в конце первого периода
+ */
+function netPresentValue(rate: number, flows: number[]): number {
+  return flows.reduce((total, flow, index) => total + flow / Math.pow(1 + rate, index + 1), 0);
+}
+
+/**
+ * Потоки должны содержать хотя бы одно положительное и одно отрицательное значение
+ */
+function checkSignChange(flows: number[]): void {
+  if (!flows.some(flow => flow > 0) || !flows.some(flow => flow < 0)) {
+    throw new FormulaError('#NUM!', 'Нужны положительные и отрицательные потоки');
+  }
+}
+
+/**
+ * Функция IRR - внутренняя ставка доходности периодических потоков
+ */
+function internalRate([valuesArg, guessArg]: CellValue[]): CellValue {
+  // В диапазоне потоков пропускаются пустые ячейки и текст
+  const flows = FormulaValues.collectNumbers([valuesArg!]);
+  checkSignChange(flows);
+  const guess = guessArg === undefined ? 0.1 : FormulaValues.toNumber(guessArg);
+
+  const value = (rate: number) =>
+    flows.reduce((total, flow, index) => total + flow / Math.pow(1 + rate, index), 0);
+  const derivative = (rate: number) =>
+    flows.reduce((total, flow, index) => total - (index * flow) / Math.pow(1 + rate, index + 1), 0);
+
+  return FormulaValues.number(solveRate(value, derivative, guess));
+}
+
+/**
+ * Потоки и даты для XNPV/XIRR: массивы одного размера, все значения - числа,
+ * даты не раньше первой
+ */
+function datedFlows(
+  valuesArg: CellValue,
+  datesArg: CellValue
+): { flows: number[]; years: number[] } {
+  const toCells = (arg: CellValue) =>
+    Array.isArray(arg.value) ? (arg.value as CellValue[]) : [arg];
+  const values = toCells(valuesArg);
+  const dates = toCells(datesArg);
+  if (values.length !== dates.length) {
+    throw new FormulaError('#NUM!', 'Потоки и даты должны быть одного размера');
+  }
+
+  const toNumber = (cell: CellValue) => {
+    if (cell.type === 'error') {
+      throw new FormulaError(cell.value as FormulaErrorCode);
+    }
+    if (cell.type !== 'number') {
+      throw new FormulaError('#VALUE!', 'Потоки и даты должны быть числами');
+    }
+    return cell.value as number;
+  };
+
+  const flows = values.map(toNumber);
+  const days = dates.map(cell => Math.trunc(toNumber(cell)));
+  const start = days[0]!;
+  if (days.some(day => day < start)) {
+    throw new FormulaError('#NUM!', 'Даты не могут быть раньше первой даты');
+  }
+  return { flows, years: days.map(day => (day - start) / DAYS_IN_YEAR) };
+}
+
+/**
+ * Чистая приведенная стоимость потоков по датам
+ */
+function datedPresentValue(rate: number, flows: number[], years: number[]): number {
+  return flows.reduce((total, flow, index) => total + flow / Math.pow(1 + rate, years[index]!), 0);
+}
+
+/**
+ * Функция DB - амортизация фиксированным уменьшением остатка (ставка округляется до 3 знаков)
+ */
+function decliningBalance(args: CellValue[]): CellValue {
+  const [cost, salvage, life, period, month] = toNumbers(args, [0, 0, 0, 0, 12]) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const lastPeriod = month < 12 ? life + 1 : life;
+  if (
+    cost < 0 ||
+    salvage < 0 ||
+    life <= 0 ||
+    month < 1 ||
+    month > 12 ||
+    period < 1 ||
+    period > lastPeriod
+  ) {
+    return FormulaValues.error('#NUM!');
+  }
+  if (cost === 0) {
+    return FormulaValues.number(0);
+  }
+
+  const rate = Math.round((1 - Math.pow(salvage / cost, 1 / life)) * 1000) / 1000;
+  // Первый год - неполный (month месяцев), последний - оставшиеся месяцы
+  let total = (cost * rate * month) / 12;
+  let depreciation = total;
+  for (let current = 2; current <= Math.trunc(period); current++) {
+    depreciation =
+      current === Math.trunc(lastPeriod) && month < 12
+        ? ((cost - total) * rate * (12 - month)) / 12
+        : (cost - total) * rate;
+    total += depreciation;
+  }
+  return FormulaValues.number(depreciation);
+}
+
+/**
+ * Функция DDB - амортизация двойным (factor) уменьшением остатка
+ */
+function doubleDecliningBalance(args: CellValue[]): CellValue {
+  const [cost, salvage, life, period, factor] = toNumbers(args, [0, 0, 0, 0, 2]) as [
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  if (cost < 0 || salvage < 0 || life <= 0 || period < 1 || period > life || factor <= 0) {
+    return FormulaValues.error('#NUM!');
+  }
+
+  // Остаток не опускается ниже ликвидационной стоимости
+  let total = 0;
+  let depreciation = 0;
+  for (let current = 1; current <= period; current++) {
+    depreciation = Math.max(0, Math.min(((cost - total) * factor) / life, cost - salvage - total));
+    total += depreciation;
+  }
+  return FormulaValues.number(depreciation);
+}
+
+export const FINANCIAL_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  {
+    name: 'PMT',
+    minArgs: 3,
+    maxArgs: 5,
+    description: 'Выплата по аннуитету за период',
+    evaluate: (args: CellValue[]) => {
+      const [rate, nper, pv, fv, type] = toNumbers(args, [0, 0, 0, 0, 0]) as [
+        number,
+        number,
+        number,
+        number,
+        number,
+      ];
+      return FormulaValues.number(payment(rate, nper, pv, fv, paymentType(type)));
+    },
+  },
+  {
+    name: 'IPMT',
+    minArgs: 4,
+    maxArgs: 6,
+    description: 'Проценты в выплате за период',
+    evaluate: (args: CellValue[]) => {
+      const [rate, per, nper, pv, fv, type] = toNumbers(args, [0, 0, 0, 0, 0, 0]) as [
+        number,
+        number,
+        number,
+        number,
+        number,
+        number,
+      ];
+      return FormulaValues.number(interestPayment(rate, per, nper, pv, fv, paymentType(type)));
+    },
+  },
+  {
+    name: 'PPMT',
+    minArgs: 4,
+    maxArgs: 6,
+    description: 'Погашение основного долга в выплате за период',
+    evaluate: (args: CellValue[]) => {
+      const [rate, per, nper, pv, fv, rawType] = toNumbers(args, [0, 0, 0, 0, 0, 0]) as [
+        number,
+        number,
+        number,
+        number,
+        number,
+        number,
+      ];
+      const type = paymentType(rawType);
+      return FormulaValues.number(
+        payment(rate, nper, pv, fv, type) - interestPayment(rate, per, nper, pv, fv, type)
+      );
+    },
+  },
+  {
+    name: 'FV',
+    minArgs: 3,
+    maxArgs: 5,
+    description: 'Будущая стоимость вложения',
+    evaluate: (args: CellValue[]) => {
+      const [rate, nper, pmt, pv, type] = toNumbers(args, [0, 0, 0, 0, 0]) as [
+        number,
+        number,
+        number,
+        number,
+        number,
+      ];
+      return FormulaValues.number(futureValue(rate, nper, pmt, pv, paymentType(type)));
+    },
+  },
+  {
+    name: 'PV',
+    minArgs: 3,
+    maxArgs: 5,
+    description: 'Приведенная стоимость вложения',
+    evaluate: (args: CellValue[]) => {
+      const [rate, nper, pmt, fv, type] = toNumbers(args, [0, 0, 0, 0, 0]) as [
+        number,
+        number,
+        number,
+        number,
+        number,
+      ];
+      return FormulaValues.number(presentValue(rate, nper, pmt, fv, paymentType(type)));
+    },
+  },
+  {
+    name: 'NPER',
+    minArgs: 3,
+    maxArgs: 5,
+    description: 'Число периодов выплат',
+    evaluate: periodCount,
+  },
+  {
+    name: 'RATE',
+    minArgs: 3,
+    maxArgs: 6,
+    description: 'Процентная ставка за период',
+    evaluate: annuityRate,
+  },
+  {
+    name: 'NPV',
+    minArgs: 2,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Чистая приведенная стоимость периодических потоков',
+    evaluate: ([rateArg, ...values]: CellValue[]) => {
+      const rate = FormulaValues.toNumber(rateArg!);
+      if (rate === -1) {
+        return FormulaValues.error('#DIV/0!');
+      }
+      return FormulaValues.number(netPresentValue(rate, FormulaValues.collectNumbers(values)));
+    },
+  },
+  {
+    name: 'IRR',
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Внутренняя ставка доходности',
+    evaluate: internalRate,
+  },
+  {
+    name: 'XNPV',
+    minArgs: 3,
+    maxArgs: 3,
+    argumentKinds: ['value', 'range', 'range'],
+    description: 'Чистая приведенная стоимость потоков по датам',
+    evaluate: ([rateArg, valuesArg, datesArg]: CellValue[]) => {
+      const rate = FormulaValues.toNumber(rateArg!);
+      if (rate <= -1) {
+        return FormulaValues.error('#NUM!');
+      }
+      const { flows, years } = datedFlows(valuesArg!, datesArg!);
+      return FormulaValues.number(datedPresentValue(rate, flows, years));
+    },
+  },
+  {
+    name: 'XIRR',
+    minArgs: 2,
+    maxArgs: 3,
+    argumentKinds: ['range', 'range', 'value'],
+    description: 'Внутренняя ставка доходности потоков по датам',
+    evaluate: ([valuesArg, datesArg, guessArg]: CellValue[]) => {
+      const { flows, years } = datedFlows(valuesArg!, datesArg!);
+      checkSignChange(flows);
+      const guess = guessArg === undefined ? 0.1 : FormulaValues.toNumber(guessArg);
+
+      const derivative = (rate: number) =>
+        flows.reduce(
+          (total, flow, index) =>
+            total - (years[index]! * flow) / Math.pow(1 + rate, years[index]! + 1),
+          0
+        );
+      return FormulaValues.number(
+        solveRate(rate => datedPresentValue(rate, flows, years), derivative, guess)
+      );
+    },
+  },
+  {
+    name: 'SLN',
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'Линейная амортизация за период',
+    evaluate: (args: CellValue[]) => {
+      const [cost, salvage, life] = toNumbers(args, [0, 0, 0]) as [number, number, number];
+      if (life === 0) {
+        return FormulaValues.error('#DIV/0!');
+      }
+      return FormulaValues.number((cost - salvage) / life);
+    },
+  },
+  {
+    name: 'DB',
+    minArgs: 4,
+    maxArgs: 5,
+    description: 'Амортизация методом фиксированного уменьшения остатка',
+    evaluate: decliningBalance,
+  },
+  {
+    name: 'DDB',
+    minArgs: 4,
+    maxArgs: 5,
+    description: 'Амортизация методом двойного уменьшения остатка',
+    evaluate: doubleDecliningBalance,
+  },
+];
@@ -0,0 +1,173 @@
+/**
+ * Функции, вызывающие LAMBDA для элементов массива: MAP, REDUCE, SCAN, BYROW, BYCOL
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError, FormulaErrorCode } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import {
+  FunctionArgument,
+  FunctionDefinition,
+  LambdaArgument,
+  MAX_FUNCTION_ARGUMENTS,
+} from '../FunctionRegistry.js';
+
+/**
+ * Проверка, что аргумент - функция LAMBDA
+ */
+function isLambda(arg: FunctionArgument | undefined): arg is LambdaArgument {
+  return typeof arg === 'object' && arg.type === 'lambda';
+}
+
+/**
+ * Функция LAMBDA с заданным числом параметров
+ */
+function toLambda(arg: FunctionArgument | undefined, params: number): LambdaArgument {
+  if (!isLambda(arg)) {
+    throw new FormulaError('#VALUE!', 'Ожидалась функция LAMBDA');
+  }
+  if (arg.params !== params) {
+    throw new FormulaError('#VALUE!', `Функция LAMBDA должна принимать ${params} аргументов`);
+  }
+  return arg;
+}
+
+/**
+ * Значение-массив (функция LAMBDA на его месте - ошибка)
+ */
+function toArray(arg: FunctionArgument | undefined): CellValue {
+  if (
+    arg === undefined ||
+    typeof arg === 'function' ||
+    arg.type === 'lambda' ||
+    arg.type === 'reference'
+  ) {
+    throw new FormulaError('#VALUE!', 'Ожидался массив');
+  }
+  if (arg.type === 'error') {
+    throw new FormulaError(arg.value as FormulaErrorCode);
+  }
+  return arg;
+}
+
+/**
+ * Результат вызова для одного элемента: вложенный массив недопустим (#CALC!)
+ */
+function toElement(result: CellValue): CellValue {
+  return Array.isArray(result.value) ? FormulaValues.error('#CALC!') : result;
+}
+
+/**
+ * Элементы массива по строкам; одиночное значение - массив из одного элемента
+ */
+function toElements(array: CellValue): CellValue[] {
+  return Array.isArray(array.value) ? (array.value as CellValue[]) : [array];
+}
+
+/**
+ * Строки массива (одиночное значение - таблица 1x1)
+ */
+function toRows(array: CellValue): CellValue[][] {
+  const { rows, cols } = FormulaValues.getShape(array);
+  const elements = toElements(array);
+  return Array.from({ length: rows }, (_, row) => elements.slice(row * cols, (row + 1) * cols));
+}
+
+/**
+ * MAP: результат LAMBDA для каждой позиции массивов
+ */
+function map(args: FunctionArgument[]): CellValue {
+  const arrays = args.slice(0, -1).map(toArray);
+  const lambda = toLambda(args[args.length - 1], arrays.length);
+  return FormulaValues.mapElements(arrays, elements => toElement(lambda.invoke(elements)));
+}
+
+/**
+ * Накопление значения по элементам массива; step - вызов для каждого накопленного значения
+ */
+function accumulate(
+  [initial, array, lambdaArg]: FunctionArgument[],
+  step: (accumulator: CellValue) => void
+): CellValue {
+  const lambda = toLambda(lambdaArg, 2);
+  let accumulator = toArray(initial);
+
+  for (const element of toElements(toArray(array))) {
+    accumulator = lambda.invoke([accumulator, element]);
+    step(accumulator);
+  }
+  return accumulator;
+}
+
+/**
+ * SCAN: все промежуточные значения накопления в форме исходного массива
+ */
+function scan(args: FunctionArgument[]): CellValue {
+  const { rows, cols } = FormulaValues.getShape(toArray(args[1]));
+  const values: CellValue[] = [];
+  accumulate(args, accumulator => values.push(toElement(accumulator)));
+  return FormulaValues.array(values, rows, cols);
+}
+
+/**
+ * BYROW и BYCOL: результат LAMBDA для каждой строки (столбца) массива
+ */
+function byLine([array, lambdaArg]: FunctionArgument[], byCol: boolean): CellValue {
+  const lambda = toLambda(lambdaArg, 1);
+  const rows = toRows(toArray(array));
+  const cols = rows[0]?.length ?? 0;
+
+  if (byCol) {
+    const results = Array.from({ length: cols }, (_, col) => {
+      const column = rows.map(row => row[col]!);
+      return toElement(lambda.invoke([FormulaValues.array(column, rows.length, 1)]));
+    });
+    return FormulaValues.array(results, 1, cols);
+  }
+
+  const results = rows.map(row => toElement(lambda.invoke([FormulaValues.array(row, 1, cols)])));
+  return FormulaValues.array(results, rows.length, 1);
+}
+
+export const LAMBDA_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  {
+    name: 'MAP',
+    minArgs: 2,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    argumentKinds: ['lambda'],
+    description: 'Результат LAMBDA для каждого элемента массивов',
+    evaluate: map,
+  },
+  {
+    name: 'REDUCE',
+    minArgs: 3,
+    maxArgs: 3,
+    argumentKinds: ['array', 'array', 'lambda'],
+    description: 'Накопление значения LAMBDA(накопленное, элемент) по массиву',
+    evaluate: args => accumulate(args, () => {}),
+  },
+  {
+    name: 'SCAN',
+    minArgs: 3,
+    maxArgs: 3,
+    argumentKinds: ['array', 'array', 'lambda'],
+    description: 'Промежуточные значения накопления LAMBDA по массиву',
+    evaluate: scan,
+  },
+  {
+    name: 'BYROW',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: ['array', 'lambda'],
+    description: 'Результат LAMBDA для каждой строки массива',
+    evaluate: args => byLine(args, false),
+  },
+  {
+    name: 'BYCOL',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: ['array', 'lambda'],
+    description: 'Результат LAMBDA для каждого столбца массива',
+    evaluate: args => byLine(args, true),
+  },
+];
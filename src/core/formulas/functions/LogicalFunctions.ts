@@ -0,0 +1,200 @@
+/**
+ * Логические функции: IF, IFS, SWITCH, AND, OR, XOR, NOT
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import {
+  FunctionArgument,
+  FunctionDefinition,
+  LazyArgument,
+  MAX_FUNCTION_ARGUMENTS,
+} from '../FunctionRegistry.js';
+
+/**
+ * Функция IF(условие; значение_если_истина; [значение_если_ложь])
+ */
+function evaluateIf([condition, whenTrue, whenFalse]: [
+  CellValue,
+  LazyArgument,
+  ...LazyArgument[],
+]): CellValue {
+  if (condition.type === 'error') {
+    return condition;
+  }
+
+  const flag = FormulaValues.toBoolean(condition);
+  if (flag === null) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  if (flag) {
+    return whenTrue();
+  }
+
+  return whenFalse ? whenFalse() : { value: false, type: 'boolean' };
+}
+
+/**
+ * Функция IFS(условие1; значение1; [условие2; значение2]; ...)
+ */
+function evaluateIfs(args: LazyArgument[]): CellValue {
+  if (args.length % 2 !== 0) {
+    throw new FormulaError('#VALUE!', 'Функция IFS ожидает пары условие-значение');
+  }
+
+  for (let i = 0; i < args.length; i += 2) {
+    const condition = args[i]!();
+    if (condition.type === 'error') {
+      return condition;
+    }
+
+    const flag = FormulaValues.toBoolean(condition);
+    if (flag === null) {
+      return FormulaValues.error('#VALUE!');
+    }
+
+    if (flag) {
+      return args[i + 1]!();
+    }
+  }
+
+  return FormulaValues.error('#N/A');
+}
+
+/**
+ * Функция SWITCH(выражение; значение1; результат1; ...; [по_умолчанию])
+ */
+function evaluateSwitch([expression, ...cases]: [CellValue, ...LazyArgument[]]): CellValue {
+  if (expression.type === 'error') {
+    return expression;
+  }
+
+  const hasDefault = cases.length % 2 !== 0;
+  const pairCount = Math.floor(cases.length / 2);
+
+  for (let i = 0; i < pairCount; i++) {
+    const candidate = cases[i * 2]!();
+    if (candidate.type === 'error') {
+      return candidate;
+    }
+
+    if (FormulaValues.compare(expression, candidate) === 0) {
+      return cases[i * 2 + 1]!();
+    }
+  }
+
+  if (hasDefault) {
+    return cases[cases.length - 1]!();
+  }
+
+  return FormulaValues.error('#N/A');
+}
+
+/**
+ * Функции AND, OR, XOR
+ */
+function evaluateLogical(args: CellValue[], combine: (flags: boolean[]) => boolean): CellValue {
+  const flags: boolean[] = [];
+
+  for (const arg of args) {
+    if (Array.isArray(arg.value)) {
+      // В диапазонах учитываются только логические значения и числа
+      for (const cellValue of arg.value as CellValue[]) {
+        if (cellValue.type === 'error') {
+          return cellValue;
+        }
+        if (cellValue.type === 'boolean' || cellValue.type === 'number') {
+          flags.push(FormulaValues.toBoolean(cellValue) === true);
+        }
+      }
+    } else if (arg.type === 'error') {
+      return arg;
+    } else if (arg.type !== 'empty') {
+      const flag = FormulaValues.toBoolean(arg);
+      if (flag === null) {
+        return FormulaValues.error('#VALUE!');
+      }
+      flags.push(flag);
+    }
+  }
+
+  if (flags.length === 0) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  return { value: combine(flags), type: 'boolean' };
+}
+
+/**
+ * Функция NOT
+ */
+function evaluateNot([arg]: [CellValue]): CellValue {
+  if (arg.type === 'error') {
+    return arg;
+  }
+
+  const flag = FormulaValues.toBoolean(arg);
+  if (flag === null) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  return { value: !flag, type: 'boolean' };
+}
+
+export const LOGICAL_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  {
+    name: 'IF',
+    minArgs: 2,
+    maxArgs: 3,
+    argumentKinds: ['value', 'lazy'],
+    description: 'Значение в зависимости от условия',
+    evaluate: evaluateIf,
+  },
+  {
+    name: 'IFS',
+    minArgs: 2,
+    maxArgs: MAX_FUNCTION_ARGUMENTS - 1,
+    argumentKinds: ['lazy'],
+    description: 'Значение первого выполненного условия',
+    evaluate: evaluateIfs,
+  },
+  {
+    name: 'SWITCH',
+    minArgs: 3,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    argumentKinds: ['value', 'lazy'],
+    description: 'Результат для первого значения, совпавшего с выражением',
+    evaluate: evaluateSwitch,
+  },
+  {
+    name: 'AND',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'ИСТИНА, если все аргументы истинны',
+    evaluate: (args: CellValue[]) => evaluateLogical(args, flags => flags.every(flag => flag)),
+  },
+  {
+    name: 'OR',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'ИСТИНА, если хотя бы один аргумент истинен',
+    evaluate: (args: CellValue[]) => evaluateLogical(args, flags => flags.some(flag => flag)),
+  },
+  {
+    name: 'XOR',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'ИСТИНА, если нечетное число аргументов истинно',
+    evaluate: (args: CellValue[]) =>
+      evaluateLogical(args, flags => flags.filter(flag => flag).length % 2 === 1),
+  },
+  {
+    name: 'NOT',
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'Логическое отрицание',
+    evaluate: evaluateNot,
+  },
+];
@@ -0,0 +1,597 @@
+/**
+ * Функции поиска и ссылок: VLOOKUP, HLOOKUP, MATCH, INDEX, XLOOKUP,
+ * ROW, COLUMN, ROWS, COLUMNS, OFFSET, INDIRECT
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError, FormulaErrorCode } from '../FormulaErrors.js';
+import { FormulaParser } from '../FormulaParser.js';
+import { FormulaValues } from '../FormulaValues.js';
+import { MAX_COL_INDEX, MAX_ROW_INDEX } from '../FormulaAST.js';
+import {
+  FunctionArgument,
+  FunctionContext,
+  FunctionDefinition,
+  ReferenceArgument,
+} from '../FunctionRegistry.js';
+
+type LookupArgument = CellValue | ReferenceArgument;
+
+/**
+ * Двумерная таблица значений (по строкам)
+ */
+interface Table {
+  cells: CellValue[];
+  rows: number;
+  cols: number;
+}
+
+// Ссылка в стиле R1C1: R2C3, R[-1]C, RC[2]
+const R1C1_PATTERN = /^R(\[-?\d+\]|\d*)C(\[-?\d+\]|\d*)$/i;
+
+const parser = new FormulaParser();
+
+/**
+ * Таблица из аргумента: область листа, диапазон или одиночное значение
+ */
+function toTable(arg: LookupArgument, context: FunctionContext): Table {
+  const value = arg.type === 'reference' ? context.readReference(arg) : arg;
+  if (!Array.isArray(value.value)) {
+    if (value.type === 'error') {
+      throw new FormulaError(value.value as FormulaErrorCode);
+    }
+    return { cells: [value], rows: 1, cols: 1 };
+  }
+
+  // Массив без формы (3D-диапазон) считается столбцом
+  const cells = value.value as CellValue[];
+  return { cells, rows: value.rows ?? cells.length, cols: value.cols ?? 1 };
+}
+
+/**
+ * Часть таблицы: строки и столбцы с from по to включительно
+ */
+function slice(
+  table: Table,
+  rowFrom: number,
+  rowTo: number,
+  colFrom: number,
+  colTo: number
+): Table {
+  const cells: CellValue[] = [];
+  for (let row = rowFrom; row <= rowTo; row++) {
+    for (let col = colFrom; col <= colTo; col++) {
+      cells.push(table.cells[row * table.cols + col] ?? { value: null, type: 'empty' });
+    }
+  }
+  return { cells, rows: rowTo - rowFrom + 1, cols: colTo - colFrom + 1 };
+}
+
+/**
+ * Значения одномерной таблицы (строки или столбца)
+ */
+function toVector(table: Table): CellValue[] {
+  if (table.rows !== 1 && table.cols !== 1) {
+    throw new FormulaError('#N/A', 'Ожидалась одна строка или один столбец');
+  }
+  return table.cells;
+}
+
+/**
+ * Результат поиска: одна ячейка - значением (пустая - нулем), несколько - массивом
+ */
+function toResult(value: CellValue | Table): CellValue {
+  if ('cells' in value) {
+    return value.cells.length === 1
+      ? toResult(value.cells[0]!)
+      : { value: value.cells, type: 'number', rows: value.rows, cols: value.cols };
+  }
+  if (Array.isArray(value.value) && value.value.length === 1) {
+    return toResult(value.value[0] as CellValue);
+  }
+  return value.type === 'empty' ? { value: 0, type: 'number' } : value;
+}
+
+/**
+ * Искомое значение (пустая ячейка ищется как 0)
+ */
+function toLookupValue(value: CellValue): CellValue {
+  if (Array.isArray(value.value)) {
+    throw new FormulaError('#VALUE!', 'Искомое значение должно быть одним значением');
+  }
+  if (value.type === 'error') {
+    throw new FormulaError(value.value as FormulaErrorCode);
+  }
+  return value.type === 'empty' ? { value: 0, type: 'number' } : value;
+}
+
+/**
+ * Целочисленный параметр функции
+ */
+function toInteger(value: CellValue): number {
+  return Math.trunc(FormulaValues.toNumber(value));
+}
+
+/**
+ * Проверка точного совпадения: значения одного типа, текст - без учета регистра,
+ * с подстановочными знаками * и ? при useWildcards
+ */
+function exactMatcher(lookup: CellValue, useWildcards: boolean): (value: CellValue) => boolean {
+  if (lookup.type === 'string' && useWildcards) {
+    const pattern = new RegExp(`^${FormulaValues.wildcardSource(String(lookup.value))}$`, 'i');
+    return value => value.type === 'string' && pattern.test(String(value.value));
+  }
+  return value => value.type === lookup.type && FormulaValues.compare(value, lookup) === 0;
+}
+
+/**
+ * Приблизительный поиск в упорядоченных значениях: последняя позиция со значением
+ * не больше искомого (order = -1 - по убыванию, не меньше); значения другого типа пропускаются
+ */
+function findApproximate(values: CellValue[], lookup: CellValue, order: 1 | -1): number {
+  let found = -1;
+  for (let index = 0; index < values.length; index++) {
+    const value = values[index]!;
+    if (value.type !== lookup.type) {
+      continue;
+    }
+    if (FormulaValues.compare(value, lookup) * order > 0) {
+      break;
+    }
+    found = index;
+  }
+  return found;
+}
+
+/**
+ * Функции VLOOKUP и HLOOKUP - поиск в первом столбце (строке) таблицы
+ */
+function tableLookup(
+  [lookupArg, tableArg, indexArg, modeArg]: LookupArgument[],
+  context: FunctionContext,
+  isVertical: boolean
+): CellValue {
+  const lookup = toLookupValue(lookupArg as CellValue);
+  const table = toTable(tableArg!, context);
+  const index = toInteger(indexArg as CellValue);
+
+  if (index < 1) {
+    return FormulaValues.error('#VALUE!');
+  }
+  if (index > (isVertical ? table.cols : table.rows)) {
+    return FormulaValues.error('#REF!');
+  }
+
+  const isApproximate =
+    modeArg === undefined ? true : FormulaValues.toBoolean(modeArg as CellValue);
+  if (isApproximate === null) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  const keys = isVertical
+    ? slice(table, 0, table.rows - 1, 0, 0).cells
+    : slice(table, 0, 0, 0, table.cols - 1).cells;
+  const position = isApproximate
+    ? findApproximate(keys, lookup, 1)
+    : keys.findIndex(exactMatcher(lookup, true));
+
+  if (position === -1) {
+    return FormulaValues.error('#N/A');
+  }
+
+  return toResult(
+    isVertical
+      ? slice(table, position, position, index - 1, index - 1)
+      : slice(table, index - 1, index - 1, position, position)
+  );
+}
+
+/**
+ * Функция MATCH - позиция значения: 0 - точное совпадение,
+ * 1 - наибольшее не больше искомого (по возрастанию), -1 - наименьшее не меньше (по убыванию)
+ */
+function match(
+  [lookupArg, arrayArg, typeArg]: LookupArgument[],
+  context: FunctionContext
+): CellValue {
+  const lookup = toLookupValue(lookupArg as CellValue);
+  const values = toVector(toTable(arrayArg!, context));
+  const matchType = typeArg === undefined ? 1 : Math.sign(toInteger(typeArg as CellValue));
+
+  const position =
+    matchType === 0
+      ? values.findIndex(exactMatcher(lookup, true))
+      : findApproximate(values, lookup, matchType as 1 | -1);
+
+  return position === -1 ? FormulaValues.error('#N/A') : { value: position + 1, type: 'number' };
+}
+
+/**
+ * Функция INDEX - значение по номерам строки и столбца (0 - вся строка или весь столбец);
+ * у одномерного массива единственный номер относится к его длине
+ */
+function index([arrayArg, rowArg, colArg]: LookupArgument[], context: FunctionContext): CellValue {
+  const reference = arrayArg!.type === 'reference' ? arrayArg : null;
+  const table = reference ? null : toTable(arrayArg!, context);
+  const rows = reference ? reference.endRow - reference.startRow + 1 : table!.rows;
+  const cols = reference ? reference.endCol - reference.startCol + 1 : table!.cols;
+
+  let row = toInteger(rowArg as CellValue);
+  let col = colArg === undefined ? null : toInteger(colArg as CellValue);
+  if (col === null) {
+    if (rows === 1) {
+      [row, col] = [1, row];
+    } else {
+      col = cols === 1 ? 1 : 0;
+    }
+  }
+
+  if (row < 0 || col < 0 || row > rows || col > cols) {
+    return FormulaValues.error('#REF!');
+  }
+
+  const [rowFrom, rowTo] = row === 0 ? [0, rows - 1] : [row - 1, row - 1];
+  const [colFrom, colTo] = col === 0 ? [0, cols - 1] : [col - 1, col - 1];
+
+  if (!reference) {
+    return toResult(slice(table!, rowFrom, rowTo, colFrom, colTo));
+  }
+
+  // Из области листа читаются только нужные ячейки
+  return toResult(
+    context.readReference({
+      ...reference,
+      startRow: reference.startRow + rowFrom,
+      startCol: reference.startCol + colFrom,
+      endRow: reference.startRow + rowTo,
+      endCol: reference.startCol + colTo,
+    })
+  );
+}
+
+/**
+ * Функция XLOOKUP(искомое; где_искать; что_вернуть; [если_не_найдено]; [режим_сопоставления];
+ * [режим_поиска]); режим сопоставления: 0 - точное, -1 - точное или ближайшее меньшее,
+ * 1 - точное или ближайшее большее, 2 - с подстановочными знаками; поиск: 1 - с начала, -1 - с конца
+ */
+function xlookup(
+  [lookupArg, keysArg, resultsArg, notFoundArg, matchArg, searchArg]: LookupArgument[],
+  context: FunctionContext
+): CellValue {
+  const lookup = toLookupValue(lookupArg as CellValue);
+  const keysTable = toTable(keysArg!, context);
+  const keys = toVector(keysTable);
+  const results = toTable(resultsArg!, context);
+  const matchMode = matchArg === undefined ? 0 : toInteger(matchArg as CellValue);
+  const searchMode = searchArg === undefined ? 1 : toInteger(searchArg as CellValue);
+
+  if (![0, -1, 1, 2].includes(matchMode) || ![1, -1, 2, -2].includes(searchMode)) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  // Возвращаемый массив должен совпадать по длине с массивом поиска
+  const isVertical = keysTable.cols === 1;
+  if ((isVertical ? results.rows : results.cols) !== keys.length) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  // Двоичный поиск (2, -2) по упорядоченным данным дает тот же результат, что и перебор
+  const positions = keys.map((_, position) => position);
+  if (searchMode < 0) {
+    positions.reverse();
+  }
+
+  const matches = exactMatcher(lookup, matchMode === 2);
+  let found = -1;
+  for (const position of positions) {
+    const key = keys[position]!;
+    if (matches(key)) {
+      found = position;
+      break;
+    }
+    if ((matchMode !== -1 && matchMode !== 1) || key.type !== lookup.type) {
+      continue;
+    }
+
+    // Ближайшее значение с нужной стороны от искомого
+    const isCandidate = FormulaValues.compare(key, lookup) * matchMode > 0;
+    if (isCandidate && (found === -1 || FormulaValues.compare(key, keys[found]!) * matchMode < 0)) {
+      found = position;
+    }
+  }
+
+  if (found === -1) {
+    return notFoundArg === undefined ? FormulaValues.error('#N/A') : (notFoundArg as CellValue);
+  }
+
+  return toResult(
+    isVertical
+      ? slice(results, found, found, 0, results.cols - 1)
+      : slice(results, 0, results.rows - 1, found, found)
+  );
+}
+
+/**
+ * Проверка, что аргумент - ссылка на область листа
+ */
+function requireReference(arg: LookupArgument | undefined): ReferenceArgument {
+  if (arg?.type !== 'reference') {
+    throw new FormulaError('#VALUE!', 'Аргумент должен быть ссылкой');
+  }
+  return arg;
+}
+
+/**
+ * Функция OFFSET - область, смещенная от ссылки (отрицательная высота или ширина - вверх или влево)
+ */
+function offset(
+  [referenceArg, rowsArg, colsArg, heightArg, widthArg]: LookupArgument[],
+  context: FunctionContext
+): CellValue {
+  const base = requireReference(referenceArg);
+  const startRow = base.startRow + toInteger(rowsArg as CellValue);
+  const startCol = base.startCol + toInteger(colsArg as CellValue);
+  const height =
+    heightArg === undefined ? base.endRow - base.startRow + 1 : toInteger(heightArg as CellValue);
+  const width =
+    widthArg === undefined ? base.endCol - base.startCol + 1 : toInteger(widthArg as CellValue);
+
+  if (height === 0 || width === 0) {
+    return FormulaValues.error('#REF!');
+  }
+
+  const [top, bottom] =
+    height > 0 ? [startRow, startRow + height - 1] : [startRow + height + 1, startRow];
+  const [left, right] =
+    width > 0 ? [startCol, startCol + width - 1] : [startCol + width + 1, startCol];
+  if (top < 0 || left < 0 || bottom > MAX_ROW_INDEX || right > MAX_COL_INDEX) {
+    return FormulaValues.error('#REF!');
+  }
+
+  return toResult(
+    context.readDynamicReference({
+      type: 'reference',
+      sheet: base.sheet,
+      startRow: top,
+      startCol: left,
+      endRow: bottom,
+      endCol: right,
+      // Смещенный столбец или строка целиком остаются неограниченными
+      ...(base.extent && heightArg === undefined && widthArg === undefined
+        ? { extent: base.extent }
+        : {}),
+    })
+  );
+}
+
+/**
+ * Ячейка ссылки R1C1 (R[-1]C - относительно ячейки формулы)
+ */
+function parseR1C1Cell(
+  text: string,
+  context: FunctionContext
+): { row: number; col: number } | null {
+  const match = R1C1_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const resolve = (part: string, current: number | undefined) => {
+    if (part === '' || part.startsWith('[')) {
+      return current === undefined ? NaN : current + Number(part.slice(1, -1) || 0);
+    }
+    return Number(part) - 1;
+  };
+
+  const row = resolve(match[1]!, context.row);
+  const col = resolve(match[2]!, context.col);
+  if (!(row >= 0 && row <= MAX_ROW_INDEX && col >= 0 && col <= MAX_COL_INDEX)) {
+    return null;
+  }
+  return { row, col };
+}
+
+/**
+ * Разбор текста ссылки для INDIRECT (A1 или R1C1); null - текст не является ссылкой
+ */
+function parseReference(
+  text: string,
+  isA1: boolean,
+  context: FunctionContext
+): ReferenceArgument | null {
+  if (isA1) {
+    let root;
+    try {
+      root = parser.parse(`=${text}`).root;
+    } catch {
+      return null;
+    }
+
+    if (root.type === 'cell') {
+      const { row, col } = root;
+      return {
+        type: 'reference',
+        sheet: root.sheet ?? context.sheet,
+        startRow: row,
+        startCol: col,
+        endRow: row,
+        endCol: col,
+      };
+    }
+    if (root.type === 'range' && !root.endSheet) {
+      return {
+        type: 'reference',
+        sheet: root.sheet ?? context.sheet,
+        startRow: root.startRow,
+        startCol: root.startCol,
+        endRow: root.endRow,
+        endCol: root.endCol,
+        ...(root.extent ? { extent: root.extent } : {}),
+      };
+    }
+    return null;
+  }
+
+  // R1C1: необязательный лист, ячейка или диапазон из двух ячеек
+  const separator = text.lastIndexOf('!');
+  const sheetText = separator === -1 ? null : text.slice(0, separator);
+  const [startText = '', endText, ...rest] = text.slice(separator + 1).split(':');
+  const start = parseR1C1Cell(startText, context);
+  const end = endText === undefined ? start : parseR1C1Cell(endText, context);
+  if (!start || !end || rest.length > 0) {
+    return null;
+  }
+
+  const sheet =
+    sheetText === null ? context.sheet : sheetText.replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+  return {
+    type: 'reference',
+    sheet,
+    startRow: Math.min(start.row, end.row),
+    startCol: Math.min(start.col, end.col),
+    endRow: Math.max(start.row, end.row),
+    endCol: Math.max(start.col, end.col),
+  };
+}
+
+/**
+ * Функция INDIRECT - значение по ссылке, заданной текстом
+ */
+function indirect([textArg, styleArg]: LookupArgument[], context: FunctionContext): CellValue {
+  const text = FormulaValues.toText(textArg as CellValue).trim();
+  const isA1 = styleArg === undefined ? true : FormulaValues.toBoolean(styleArg as CellValue);
+  if (isA1 === null) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  const reference = parseReference(text, isA1, context);
+  if (!reference) {
+    return FormulaValues.error('#REF!');
+  }
+  return toResult(context.readDynamicReference(reference));
+}
+
+/**
+ * Номер строки или столбца ссылки; без аргумента - ячейки формулы
+ */
+function position(
+  [referenceArg]: LookupArgument[],
+  context: FunctionContext,
+  isRow: boolean
+): CellValue {
+  if (referenceArg === undefined) {
+    const current = isRow ? context.row : context.col;
+    if (current === undefined) {
+      return FormulaValues.error('#VALUE!');
+    }
+    return { value: current + 1, type: 'number' };
+  }
+
+  const reference = requireReference(referenceArg);
+  return { value: (isRow ? reference.startRow : reference.startCol) + 1, type: 'number' };
+}
+
+/**
+ * Число строк или столбцов ссылки либо массива
+ */
+function size([arg]: LookupArgument[], context: FunctionContext, isRows: boolean): CellValue {
+  if (arg!.type === 'reference') {
+    const count = isRows ? arg!.endRow - arg!.startRow : arg!.endCol - arg!.startCol;
+    return { value: count + 1, type: 'number' };
+  }
+
+  const table = toTable(arg!, context);
+  return { value: isRows ? table.rows : table.cols, type: 'number' };
+}
+
+export const LOOKUP_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  {
+    name: 'VLOOKUP',
+    minArgs: 3,
+    maxArgs: 4,
+    argumentKinds: ['value', 'reference', 'value'],
+    description: 'Поиск в первом столбце таблицы и значение из столбца с заданным номером',
+    evaluate: (args: LookupArgument[], context) => tableLookup(args, context, true),
+  },
+  {
+    name: 'HLOOKUP',
+    minArgs: 3,
+    maxArgs: 4,
+    argumentKinds: ['value', 'reference', 'value'],
+    description: 'Поиск в первой строке таблицы и значение из строки с заданным номером',
+    evaluate: (args: LookupArgument[], context) => tableLookup(args, context, false),
+  },
+  {
+    name: 'MATCH',
+    minArgs: 2,
+    maxArgs: 3,
+    argumentKinds: ['value', 'reference', 'value'],
+    description: 'Позиция значения в строке или столбце',
+    evaluate: match,
+  },
+  {
+    name: 'INDEX',
+    minArgs: 2,
+    maxArgs: 3,
+    argumentKinds: ['reference', 'value'],
+    description: 'Значение по номерам строки и столбца',
+    evaluate: index,
+  },
+  {
+    name: 'XLOOKUP',
+    minArgs: 3,
+    maxArgs: 6,
+    argumentKinds: ['value', 'reference', 'reference', 'value'],
+    description: 'Поиск значения и соответствующий элемент другого массива',
+    evaluate: xlookup,
+  },
+  {
+    name: 'ROW',
+    minArgs: 0,
+    maxArgs: 1,
+    argumentKinds: ['reference'],
+    description: 'Номер строки ссылки',
+    evaluate: (args: LookupArgument[], context) => position(args, context, true),
+  },
+  {
+    name: 'COLUMN',
+    minArgs: 0,
+    maxArgs: 1,
+    argumentKinds: ['reference'],
+    description: 'Номер столбца ссылки',
+    evaluate: (args: LookupArgument[], context) => position(args, context, false),
+  },
+  {
+    name: 'ROWS',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: ['reference'],
+    description: 'Число строк ссылки или массива',
+    evaluate: (args: LookupArgument[], context) => size(args, context, true),
+  },
+  {
+    name: 'COLUMNS',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: ['reference'],
+    description: 'Число столбцов ссылки или массива',
+    evaluate: (args: LookupArgument[], context) => size(args, context, false),
+  },
+  {
+    name: 'OFFSET',
+    minArgs: 3,
+    maxArgs: 5,
+    argumentKinds: ['reference', 'value'],
+    volatile: true,
+    description: 'Область, смещенная от ссылки на заданное число строк и столбцов',
+    evaluate: offset,
+  },
+  {
+    name: 'INDIRECT',
+    minArgs: 1,
+    maxArgs: 2,
+    volatile: true,
+    description: 'Значение по ссылке, заданной текстом',
+    evaluate: indirect,
+  },
+];
@@ -0,0 +1,305 @@
+/**
+ * Математические и тригонометрические функции
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import {
+  FunctionArgument,
+  FunctionDefinition,
+  MAX_FUNCTION_ARGUMENTS,
+} from '../FunctionRegistry.js';
+
+// Наибольшее целое, с которым работают GCD/LCM
+const MAX_INTEGER = 2 ** 53;
+
+/**
+ * Округление модуля до знака digits (отрицательный - до десятков, сотен...) с сохранением знака
+ */
+function roundDigits(value: number, digits: number, round: (value: number) => number): number {
+  const places = Math.trunc(digits);
+  const magnitude = FormulaValues.normalize(Math.abs(value));
+  const rounded = FormulaValues.shiftDecimal(
+    round(FormulaValues.shiftDecimal(magnitude, places)),
+    -places
+  );
+  return value < 0 ? -rounded : rounded;
+}
+
+/**
+ * Округление до кратного: знаки числа и кратного должны совпадать
+ */
+function roundToMultiple(
+  value: number,
+  multiple: number,
+  round: (value: number) => number
+): number {
+  if (multiple === 0) {
+    return 0;
+  }
+  if (value > 0 && multiple < 0) {
+    throw new FormulaError('#NUM!', 'Знаки числа и кратного различаются');
+  }
+  return FormulaValues.normalize(round(FormulaValues.normalize(value / multiple)) * multiple);
+}
+
+/**
+ * Проверка области определения функции
+ */
+function requireDomain(isValid: boolean): void {
+  if (!isValid) {
+    throw new FormulaError('#NUM!');
+  }
+}
+
+/**
+ * Целые неотрицательные аргументы GCD/LCM
+ */
+function collectIntegers(args: CellValue[]): number[] {
+  return FormulaValues.collectNumbers(args).map(value => {
+    requireDomain(value >= 0 && value < MAX_INTEGER);
+    return Math.trunc(value);
+  });
+}
+
+/**
+ * Наибольший общий делитель двух чисел
+ */
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Определение функции от чисел фиксированного количества (значения приводятся к числу);
+ * по умолчанию число аргументов равно числу параметров compute
+ */
+function numeric(
+  name: string,
+  description: string,
+  compute: (...values: number[]) => number | CellValue,
+  minArgs = compute.length,
+  maxArgs = minArgs
+): FunctionDefinition<FunctionArgument[]> {
+  return {
+    name,
+    minArgs,
+    maxArgs,
+    description,
+    evaluate: (args: CellValue[]) => {
+      const result = compute(...args.map(arg => FormulaValues.toNumber(arg)));
+      return typeof result === 'number' ? FormulaValues.number(result) : result;
+    },
+  };
+}
+
+/**
+ * Определение функции от всех чисел аргументов и диапазонов
+ */
+function aggregate(
+  name: string,
+  description: string,
+  compute: (values: number[]) => number
+): FunctionDefinition<FunctionArgument[]> {
+  return {
+    name,
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description,
+    evaluate: (args: CellValue[]) =>
+      FormulaValues.number(compute(FormulaValues.collectNumbers(args))),
+  };
+}
+
+/**
+ * Функция SUMPRODUCT - сумма произведений элементов массивов одного размера
+ */
+function sumProduct(args: CellValue[]): CellValue {
+  const arrays = args.map(arg => (Array.isArray(arg.value) ? (arg.value as CellValue[]) : [arg]));
+  const length = arrays[0]!.length;
+  if (arrays.some(array => array.length !== length)) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  let total = 0;
+  for (let index = 0; index < length; index++) {
+    let product = 1;
+    for (const array of arrays) {
+      const item = array[index]!;
+      if (item.type === 'error') {
+        return item;
+      }
+      // Нечисловые элементы считаются нулями
+      product *= item.type === 'number' ? item.value : 0;
+    }
+    total += product;
+  }
+
+  return FormulaValues.number(total);
+}
+
+/**
+ * Функция FACT - факториал целой части числа
+ */
+function factorial(value: number): number {
+  // 171! уже не помещается в число
+  requireDomain(value >= 0 && value < 171);
+  let result = 1;
+  for (let factor = 2; factor <= Math.trunc(value); factor++) {
+    result *= factor;
+  }
+  return result;
+}
+
+export const MATH_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  numeric('ABS', 'Модуль числа', Math.abs),
+  numeric('SIGN', 'Знак числа: 1, 0 или -1', Math.sign),
+  numeric('INT', 'Округление вниз до целого', Math.floor),
+  numeric(
+    'TRUNC',
+    'Отбрасывание дробной части до заданного знака',
+    (value, digits = 0) => roundDigits(value, digits, Math.floor),
+    1,
+    2
+  ),
+  numeric('ROUND', 'Округление до заданного знака (половина - от нуля)', (value, digits) =>
+    roundDigits(value, digits, Math.round)
+  ),
+  numeric('ROUNDUP', 'Округление от нуля', (value, digits) =>
+    roundDigits(value, digits, Math.ceil)
+  ),
+  numeric('ROUNDDOWN', 'Округление к нулю', (value, digits) =>
+    roundDigits(value, digits, Math.floor)
+  ),
+  numeric('MROUND', 'Округление до ближайшего кратного', (value, multiple) => {
+    if (value * multiple < 0) {
+      throw new FormulaError('#NUM!', 'Знаки числа и кратного различаются');
+    }
+    // Половина округляется от нуля, как у ROUND
+    const rounded = roundToMultiple(Math.abs(value), Math.abs(multiple), Math.round);
+    return value < 0 ? -rounded : rounded;
+  }),
+  numeric('CEILING', 'Округление вверх до кратного', (value, significance) =>
+    roundToMultiple(value, significance, Math.ceil)
+  ),
+  numeric('FLOOR', 'Округление вниз до кратного', (value, significance) => {
+    if (significance === 0) {
+      return FormulaValues.error('#DIV/0!');
+    }
+    return roundToMultiple(value, significance, Math.floor);
+  }),
+  numeric('MOD', 'Остаток от деления (со знаком делителя)', (value, divisor) => {
+    if (divisor === 0) {
+      return FormulaValues.error('#DIV/0!');
+    }
+    return FormulaValues.normalize(value - divisor * Math.floor(value / divisor));
+  }),
+  numeric('POWER', 'Число в степени', (base, exponent) => FormulaValues.power(base, exponent)),
+  numeric('SQRT', 'Квадратный корень', value => {
+    requireDomain(value >= 0);
+    return Math.sqrt(value);
+  }),
+  numeric('EXP', 'Экспонента', Math.exp),
+  numeric('LN', 'Натуральный логарифм', value => {
+    requireDomain(value > 0);
+    return Math.log(value);
+  }),
+  numeric(
+    'LOG',
+    'Логарифм по основанию (по умолчанию 10)',
+    (value, base = 10) => {
+      requireDomain(value > 0 && base > 0);
+      if (base === 1) {
+        return FormulaValues.error('#DIV/0!');
+      }
+      return Math.log(value) / Math.log(base);
+    },
+    1,
+    2
+  ),
+  numeric('LOG10', 'Десятичный логарифм', value => {
+    requireDomain(value > 0);
+    return Math.log10(value);
+  }),
+  numeric('PI', 'Число π', () => Math.PI),
+  numeric('SIN', 'Синус угла в радианах', Math.sin),
+  numeric('COS', 'Косинус угла в радианах', Math.cos),
+  numeric('TAN', 'Тангенс угла в радианах', Math.tan),
+  numeric('ASIN', 'Арксинус', value => {
+    requireDomain(Math.abs(value) <= 1);
+    return Math.asin(value);
+  }),
+  numeric('ACOS', 'Арккосинус', value => {
+    requireDomain(Math.abs(value) <= 1);
+    return Math.acos(value);
+  }),
+  numeric('ATAN', 'Арктангенс', Math.atan),
+  numeric('ATAN2', 'Арктангенс по координатам x и y', (x, y) => {
+    if (x === 0 && y === 0) {
+      return FormulaValues.error('#DIV/0!');
+    }
+    return Math.atan2(y, x);
+  }),
+  numeric('FACT', 'Факториал', factorial),
+  aggregate('PRODUCT', 'Произведение чисел', values =>
+    values.length === 0 ? 0 : values.reduce((product, value) => product * value, 1)
+  ),
+  aggregate('SUMSQ', 'Сумма квадратов', values =>
+    values.reduce((total, value) => total + value * value, 0)
+  ),
+  {
+    name: 'SUMPRODUCT',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Сумма произведений соответствующих элементов массивов',
+    evaluate: sumProduct,
+  },
+  {
+    name: 'GCD',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Наибольший общий делитель',
+    evaluate: (args: CellValue[]) => FormulaValues.number(collectIntegers(args).reduce(gcd, 0)),
+  },
+  {
+    name: 'LCM',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Наименьшее общее кратное',
+    evaluate: (args: CellValue[]) => {
+      const lcm = collectIntegers(args).reduce(
+        (result, value) =>
+          result === 0 || value === 0 ? 0 : (result / gcd(result, value)) * value,
+        1
+      );
+      return FormulaValues.number(lcm);
+    },
+  },
+  {
+    name: 'RAND',
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    description: 'Случайное число от 0 до 1',
+    evaluate: () => FormulaValues.number(Math.random()),
+  },
+  {
+    name: 'RANDBETWEEN',
+    minArgs: 2,
+    maxArgs: 2,
+    volatile: true,
+    description: 'Случайное целое число в диапазоне',
+    evaluate: (args: CellValue[]) => {
+      const [bottom, top] = args.map(arg => FormulaValues.toNumber(arg)) as [number, number];
+      const low = Math.ceil(bottom);
+      const high = Math.floor(top);
+      if (low > high) {
+        return FormulaValues.error('#NUM!');
+      }
+      return FormulaValues.number(low + Math.floor(Math.random() * (high - low + 1)));
+    },
+  },
+];
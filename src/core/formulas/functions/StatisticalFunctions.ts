@@ -0,0 +1,406 @@
+/**
+ * Статистические функции: медиана, мода, дисперсия, процентили, ранги, регрессия
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError, FormulaErrorCode } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import {
+  ArgumentKind,
+  FunctionArgument,
+  FunctionContext,
+  FunctionDefinition,
+  MAX_FUNCTION_ARGUMENTS,
+  ReferenceArgument,
+} from '../FunctionRegistry.js';
+
+/**
+ * Определение функции от всех чисел аргументов (в диапазонах - только числа)
+ */
+function numbersFunction(
+  name: string,
+  description: string,
+  compute: (numbers: number[]) => CellValue
+): FunctionDefinition<CellValue[]> {
+  return {
+    name,
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description,
+    evaluate: (args: CellValue[]) => compute(FormulaValues.collectNumbers(args)),
+  };
+}
+
+/**
+ * Среднее арифметическое
+ */
+function mean(numbers: number[]): number {
+  return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+}
+
+/**
+ * Дисперсия по выборке (isSample) или по генеральной совокупности
+ */
+function variance(numbers: number[], isSample: boolean): CellValue {
+  const count = isSample ? numbers.length - 1 : numbers.length;
+  if (count <= 0) {
+    return FormulaValues.error('#DIV/0!');
+  }
+
+  const average = mean(numbers);
+  const squares = numbers.reduce((total, value) => total + (value - average) ** 2, 0);
+  return FormulaValues.number(squares / count);
+}
+
+/**
+ * Стандартное отклонение - корень дисперсии
+ */
+function deviation(numbers: number[], isSample: boolean): CellValue {
+  const result = variance(numbers, isSample);
+  return result.type === 'number' ? FormulaValues.number(Math.sqrt(result.value)) : result;
+}
+
+/**
+ * Функция MEDIAN
+ */
+function median(numbers: number[]): CellValue {
+  return percentile(numbers, 0.5);
+}
+
+/**
+ * Функция MODE - наиболее частое число (при равенстве - встретившееся первым)
+ */
+function mode(numbers: number[]): CellValue {
+  const counts = new Map<number, number>();
+  for (const value of numbers) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  // Map перебирается в порядке первого появления - при равной частоте остается первое число
+  let result: number | null = null;
+  let best = 1;
+  for (const [value, count] of counts) {
+    if (count > best) {
+      best = count;
+      result = value;
+    }
+  }
+
+  return result === null ? FormulaValues.error('#N/A') : FormulaValues.number(result);
+}
+
+/**
+ * Процентиль с линейной интерполяцией между соседними значениями (k от 0 до 1)
+ */
+function percentile(numbers: number[], k: number): CellValue {
+  if (numbers.length === 0 || k < 0 || k > 1) {
+    return FormulaValues.error('#NUM!');
+  }
+
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const rank = k * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return FormulaValues.number(sorted[lower]! + (rank - lower) * (sorted[upper]! - sorted[lower]!));
+}
+
+/**
+ * k-е наибольшее или наименьшее число (дробное k округляется вверх)
+ */
+function kth([arrayArg, kArg]: CellValue[], isLargest: boolean): CellValue {
+  const numbers = FormulaValues.collectNumbers([arrayArg!]);
+  const k = Math.ceil(FormulaValues.toNumber(kArg!));
+  if (k < 1 || k > numbers.length) {
+    return FormulaValues.error('#NUM!');
+  }
+
+  const sorted = numbers.sort((a, b) => (isLargest ? b - a : a - b));
+  return FormulaValues.number(sorted[k - 1]!);
+}
+
+/**
+ * Функция RANK - место числа в списке (order = 0 - по убыванию)
+ */
+function rank([numberArg, refArg, orderArg]: CellValue[]): CellValue {
+  const number = FormulaValues.toNumber(numberArg!);
+  const numbers = FormulaValues.collectNumbers([refArg!]);
+  const isAscending = orderArg !== undefined && FormulaValues.toNumber(orderArg) !== 0;
+
+  if (!numbers.includes(number)) {
+    return FormulaValues.error('#N/A');
+  }
+
+  const before = numbers.filter(value => (isAscending ? value < number : value > number));
+  return FormulaValues.number(before.length + 1);
+}
+
+/**
+ * Пары чисел двух массивов одного размера; пары, где хотя бы одно значение не число, пропускаются
+ */
+function pairedNumbers(
+  first: CellValue,
+  second: CellValue
+): { firsts: number[]; seconds: number[] } {
+  const firstCells = Array.isArray(first.value) ? (first.value as CellValue[]) : [first];
+  const secondCells = Array.isArray(second.value) ? (second.value as CellValue[]) : [second];
+  if (firstCells.length !== secondCells.length) {
+    throw new FormulaError('#N/A', 'Массивы должны быть одного размера');
+  }
+
+  const firsts: number[] = [];
+  const seconds: number[] = [];
+  firstCells.forEach((cell, index) => {
+    const other = secondCells[index]!;
+    for (const value of [cell, other]) {
+      if (value.type === 'error') {
+        throw new FormulaError(value.value as FormulaErrorCode);
+      }
+    }
+    if (cell.type === 'number' && other.type === 'number') {
+      firsts.push(cell.value);
+      seconds.push(other.value);
+    }
+  });
+  return { firsts, seconds };
+}
+
+/**
+ * Сумма произведений отклонений от средних (и сумма квадратов отклонений xs)
+ */
+function deviations(xs: number[], ys: number[]): { products: number; squares: number } {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let products = 0;
+  let squares = 0;
+  xs.forEach((x, index) => {
+    products += (x - meanX) * (ys[index]! - meanY);
+    squares += (x - meanX) ** 2;
+  });
+  return { products, squares };
+}
+
+/**
+ * Ковариация по выборке (isSample) или по генеральной совокупности
+ */
+function covariance([firstArg, secondArg]: CellValue[], isSample: boolean): CellValue {
+  const { firsts: xs, seconds: ys } = pairedNumbers(firstArg!, secondArg!);
+  const count = isSample ? xs.length - 1 : xs.length;
+  if (count <= 0) {
+    return FormulaValues.error('#DIV/0!');
+  }
+  return FormulaValues.number(deviations(xs, ys).products / count);
+}
+
+/**
+ * Функция CORREL - коэффициент корреляции Пирсона
+ */
+function correlation([firstArg, secondArg]: CellValue[]): CellValue {
+  const { firsts: xs, seconds: ys } = pairedNumbers(firstArg!, secondArg!);
+  if (xs.length < 2) {
+    return FormulaValues.error('#DIV/0!');
+  }
+
+  const { products, squares } = deviations(xs, ys);
+  const squaresY = deviations(ys, xs).squares;
+  if (squares === 0 || squaresY === 0) {
+    return FormulaValues.error('#DIV/0!');
+  }
+  return FormulaValues.number(products / Math.sqrt(squares * squaresY));
+}
+
+/**
+ * Линейная регрессия y = intercept + slope * x по известным значениям
+ */
+function regression(knownY: CellValue, knownX: CellValue): { slope: number; intercept: number } {
+  const { firsts: ys, seconds: xs } = pairedNumbers(knownY, knownX);
+  if (xs.length === 0) {
+    throw new FormulaError('#DIV/0!', 'Нет пар чисел');
+  }
+
+  const { products, squares } = deviations(xs, ys);
+  if (squares === 0) {
+    throw new FormulaError('#DIV/0!', 'Дисперсия x равна нулю');
+  }
+
+  const slope = products / squares;
+  return { slope, intercept: mean(ys) - slope * mean(xs) };
+}
+
+/**
+ * Функция COUNTBLANK - число пустых ячеек и пустых строк в области
+ */
+function countBlank([arg]: (CellValue | ReferenceArgument)[], context: FunctionContext): CellValue {
+  if (arg?.type !== 'reference') {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  // Целые столбцы читаются в пределах заполненной области - пустые ячейки за ней считаются по размеру
+  const total = (arg.endRow - arg.startRow + 1) * (arg.endCol - arg.startCol + 1);
+  const area = context.readReference(arg);
+  const cells = Array.isArray(area.value) ? (area.value as CellValue[]) : [area];
+  const filled = cells.filter(
+    cell => cell.type !== 'empty' && !(cell.type === 'string' && cell.value === '')
+  ).length;
+  return FormulaValues.number(total - filled);
+}
+
+/**
+ * Функция COUNTA - число непустых значений
+ */
+function countNonEmpty(args: CellValue[]): CellValue {
+  let result = 0;
+  for (const arg of args) {
+    const cells = Array.isArray(arg.value) ? (arg.value as CellValue[]) : [arg];
+    result += cells.filter(cell => cell.type !== 'empty').length;
+  }
+  return FormulaValues.number(result);
+}
+
+// Пары массивов сопоставляются по позициям - целые столбцы читаются с пустыми ячейками
+const pairKinds: ArgumentKind[] = ['range', 'range'];
+
+export const STATISTICAL_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  numbersFunction('MEDIAN', 'Медиана', median),
+  numbersFunction('MODE', 'Наиболее часто встречающееся число', mode),
+  numbersFunction('MODE.SNGL', 'Наиболее часто встречающееся число', mode),
+  numbersFunction('STDEV', 'Стандартное отклонение по выборке', numbers =>
+    deviation(numbers, true)
+  ),
+  numbersFunction('STDEV.S', 'Стандартное отклонение по выборке', numbers =>
+    deviation(numbers, true)
+  ),
+  numbersFunction('STDEVP', 'Стандартное отклонение по генеральной совокупности', numbers =>
+    deviation(numbers, false)
+  ),
+  numbersFunction('STDEV.P', 'Стандартное отклонение по генеральной совокупности', numbers =>
+    deviation(numbers, false)
+  ),
+  numbersFunction('VAR', 'Дисперсия по выборке', numbers => variance(numbers, true)),
+  numbersFunction('VAR.S', 'Дисперсия по выборке', numbers => variance(numbers, true)),
+  numbersFunction('VARP', 'Дисперсия по генеральной совокупности', numbers =>
+    variance(numbers, false)
+  ),
+  numbersFunction('VAR.P', 'Дисперсия по генеральной совокупности', numbers =>
+    variance(numbers, false)
+  ),
+  ...['PERCENTILE', 'PERCENTILE.INC'].map(
+    (name): FunctionDefinition<CellValue[]> => ({
+      name,
+      minArgs: 2,
+      maxArgs: 2,
+      description: 'Процентиль (k от 0 до 1)',
+      evaluate: ([array, k]: CellValue[]) =>
+        percentile(FormulaValues.collectNumbers([array!]), FormulaValues.toNumber(k!)),
+    })
+  ),
+  ...['QUARTILE', 'QUARTILE.INC'].map(
+    (name): FunctionDefinition<CellValue[]> => ({
+      name,
+      minArgs: 2,
+      maxArgs: 2,
+      description: 'Квартиль (0 - минимум, 2 - медиана, 4 - максимум)',
+      evaluate: ([array, quart]: CellValue[]) => {
+        const quarter = Math.trunc(FormulaValues.toNumber(quart!));
+        if (quarter < 0 || quarter > 4) {
+          return FormulaValues.error('#NUM!');
+        }
+        return percentile(FormulaValues.collectNumbers([array!]), quarter / 4);
+      },
+    })
+  ),
+  ...['RANK', 'RANK.EQ'].map(
+    (name): FunctionDefinition<CellValue[]> => ({
+      name,
+      minArgs: 2,
+      maxArgs: 3,
+      description: 'Место числа в списке',
+      evaluate: rank,
+    })
+  ),
+  {
+    name: 'LARGE',
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'k-е наибольшее число',
+    evaluate: (args: CellValue[]) => kth(args, true),
+  },
+  {
+    name: 'SMALL',
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'k-е наименьшее число',
+    evaluate: (args: CellValue[]) => kth(args, false),
+  },
+  {
+    name: 'CORREL',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: pairKinds,
+    description: 'Коэффициент корреляции',
+    evaluate: correlation,
+  },
+  ...['COVARIANCE.P', 'COVAR'].map(
+    (name): FunctionDefinition<CellValue[]> => ({
+      name,
+      minArgs: 2,
+      maxArgs: 2,
+      argumentKinds: pairKinds,
+      description: 'Ковариация по генеральной совокупности',
+      evaluate: (args: CellValue[]) => covariance(args, false),
+    })
+  ),
+  {
+    name: 'COVARIANCE.S',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: pairKinds,
+    description: 'Ковариация по выборке',
+    evaluate: (args: CellValue[]) => covariance(args, true),
+  },
+  {
+    name: 'SLOPE',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: pairKinds,
+    description: 'Наклон линии линейной регрессии',
+    evaluate: ([knownY, knownX]: CellValue[]) =>
+      FormulaValues.number(regression(knownY!, knownX!).slope),
+  },
+  {
+    name: 'INTERCEPT',
+    minArgs: 2,
+    maxArgs: 2,
+    argumentKinds: pairKinds,
+    description: 'Точка пересечения линии линейной регрессии с осью y',
+    evaluate: ([knownY, knownX]: CellValue[]) =>
+      FormulaValues.number(regression(knownY!, knownX!).intercept),
+  },
+  ...['FORECAST', 'FORECAST.LINEAR'].map(
+    (name): FunctionDefinition<CellValue[]> => ({
+      name,
+      minArgs: 3,
+      maxArgs: 3,
+      argumentKinds: ['value', 'range', 'range'],
+      description: 'Прогноз по линейной регрессии',
+      evaluate: ([x, knownY, knownX]: CellValue[]) => {
+        const { slope, intercept } = regression(knownY!, knownX!);
+        return FormulaValues.number(intercept + slope * FormulaValues.toNumber(x!));
+      },
+    })
+  ),
+  {
+    name: 'COUNTA',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Количество непустых значений',
+    evaluate: countNonEmpty,
+  },
+  {
+    name: 'COUNTBLANK',
+    minArgs: 1,
+    maxArgs: 1,
+    argumentKinds: ['reference'],
+    description: 'Количество пустых ячеек',
+    evaluate: countBlank,
+  },
+];
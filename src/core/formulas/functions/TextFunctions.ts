@@ -0,0 +1,295 @@
+/**
+ * Текстовые функции
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FormulaError } from '../FormulaErrors.js';
+import { FormulaValues } from '../FormulaValues.js';
+import { NumberFormat } from '../NumberFormat.js';
+import {
+  FunctionArgument,
+  FunctionDefinition,
+  MAX_FUNCTION_ARGUMENTS,
+} from '../FunctionRegistry.js';
+
+// Предельная длина текста ячейки (как в Excel)
+const MAX_TEXT_LENGTH = 32767;
+
+/**
+ * Текстовый результат; слишком длинный текст - ошибка #VALUE!
+ */
+function text(value: string): CellValue {
+  if (value.length > MAX_TEXT_LENGTH) {
+    return FormulaValues.error('#VALUE!');
+  }
+  return { value, type: 'string' };
+}
+
+/**
+ * Целое число из аргумента (дробная часть отбрасывается) с проверкой нижней границы
+ */
+function toCount(arg: CellValue | undefined, fallback: number, min: number): number {
+  const count = arg === undefined ? fallback : Math.trunc(FormulaValues.toNumber(arg));
+  if (count < min) {
+    throw new FormulaError('#VALUE!', `Ожидалось число не меньше ${min}`);
+  }
+  return count;
+}
+
+/**
+ * Тексты всех значений аргументов и диапазонов (пустые ячейки - пустые строки)
+ */
+function collectTexts(args: CellValue[]): string[] {
+  return args.flatMap(arg => {
+    const values = Array.isArray(arg.value) ? (arg.value as CellValue[]) : [arg];
+    return values.map(value => FormulaValues.toText(value));
+  });
+}
+
+/**
+ * Функция PROPER - заглавная буква в начале каждого слова
+ */
+function proper(value: string): string {
+  let result = '';
+  let isWordStart = true;
+  for (const char of value.toLowerCase()) {
+    const isLetter = /\p{L}/u.test(char);
+    result += isWordStart && isLetter ? char.toUpperCase() : char;
+    isWordStart = !isLetter;
+  }
+  return result;
+}
+
+/**
+ * Функция SUBSTITUTE - замена всех или n-го вхождения
+ */
+function substitute([source, search, replacement, instance]: CellValue[]): CellValue {
+  const value = FormulaValues.toText(source!);
+  const oldText = FormulaValues.toText(search!);
+  const newText = FormulaValues.toText(replacement!);
+
+  if (oldText === '') {
+    return text(value);
+  }
+
+  if (instance === undefined) {
+    return text(value.split(oldText).join(newText));
+  }
+
+  const occurrence = toCount(instance, 1, 1);
+  let position = -1;
+  for (let found = 0; found < occurrence; found++) {
+    position = value.indexOf(oldText, position + 1);
+    if (position === -1) {
+      return text(value);
+    }
+  }
+
+  return text(value.slice(0, position) + newText + value.slice(position + oldText.length));
+}
+
+/**
+ * Функции FIND/SEARCH - позиция подстроки (с 1)
+ */
+function find(args: CellValue[], isCaseSensitive: boolean): CellValue {
+  const search = FormulaValues.toText(args[0]!);
+  const within = FormulaValues.toText(args[1]!);
+  const start = toCount(args[2], 1, 1);
+
+  if (start > within.length + 1) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  let index: number;
+  if (isCaseSensitive) {
+    index = within.indexOf(search, start - 1);
+  } else {
+    // SEARCH поддерживает подстановочные знаки ? и *
+    const match = new RegExp(FormulaValues.wildcardSource(search), 'i').exec(
+      within.slice(start - 1)
+    );
+    index = match ? match.index + start - 1 : -1;
+  }
+
+  return index === -1 ? FormulaValues.error('#VALUE!') : { value: index + 1, type: 'number' };
+}
+
+/**
+ * Функция TEXTJOIN(разделитель; пропускать_пустые; текст1; ...)
+ */
+function textJoin([delimiter, ignoreEmpty, ...values]: CellValue[]): CellValue {
+  const flag = FormulaValues.toBoolean(ignoreEmpty!);
+  if (flag === null) {
+    return FormulaValues.error('#VALUE!');
+  }
+
+  const texts = collectTexts(values);
+  return text(
+    (flag ? texts.filter(item => item !== '') : texts).join(FormulaValues.toText(delimiter!))
+  );
+}
+
+/**
+ * Функция TEXT - число по коду формата; нечисловой текст возвращается без изменений
+ */
+function formatText([value, format]: CellValue[]): CellValue {
+  const formatCode = FormulaValues.toText(format!);
+  let number: number;
+  try {
+    number = FormulaValues.toNumber(value!);
+  } catch (error) {
+    if (value!.type === 'string') {
+      return text(value!.value);
+    }
+    throw error;
+  }
+  return text(NumberFormat.format(number, formatCode));
+}
+
+/**
+ * Функция VALUE - число из текста ("12.5", " 7 ", "15%")
+ */
+function parseValue([value]: CellValue[]): CellValue {
+  if (value!.type !== 'string') {
+    return FormulaValues.number(FormulaValues.toNumber(value!));
+  }
+
+  const source = String(value!.value).trim();
+  const isPercent = source.endsWith('%');
+  const number = FormulaValues.toNumber({
+    value: isPercent ? source.slice(0, -1) : source,
+    type: 'string',
+  });
+  return FormulaValues.number(isPercent ? FormulaValues.shiftDecimal(number, -2) : number);
+}
+
+/**
+ * Определение функции от текста с необязательными числовыми параметрами
+ */
+function textFunction(
+  name: string,
+  description: string,
+  minArgs: number,
+  maxArgs: number,
+  compute: (value: string, args: CellValue[]) => string | CellValue
+): FunctionDefinition<FunctionArgument[]> {
+  return {
+    name,
+    minArgs,
+    maxArgs,
+    description,
+    evaluate: (args: CellValue[]) => {
+      const result = compute(FormulaValues.toText(args[0]!), args.slice(1));
+      return typeof result === 'string' ? text(result) : result;
+    },
+  };
+}
+
+export const TEXT_FUNCTIONS: FunctionDefinition<FunctionArgument[]>[] = [
+  textFunction('LEN', 'Длина текста', 1, 1, value => ({ value: value.length, type: 'number' })),
+  textFunction('LEFT', 'Первые символы текста', 1, 2, (value, [count]) =>
+    value.slice(0, toCount(count, 1, 0))
+  ),
+  textFunction('RIGHT', 'Последние символы текста', 1, 2, (value, [count]) => {
+    const length = toCount(count, 1, 0);
+    return length === 0 ? '' : value.slice(-length);
+  }),
+  textFunction('MID', 'Символы из середины текста', 3, 3, (value, [start, count]) => {
+    const from = toCount(start, 1, 1) - 1;
+    return value.slice(from, from + toCount(count, 0, 0));
+  }),
+  textFunction('UPPER', 'Текст в верхнем регистре', 1, 1, value => value.toUpperCase()),
+  textFunction('LOWER', 'Текст в нижнем регистре', 1, 1, value => value.toLowerCase()),
+  textFunction('PROPER', 'Каждое слово с заглавной буквы', 1, 1, proper),
+  textFunction('TRIM', 'Удаление лишних пробелов', 1, 1, value =>
+    value.replace(/ +/g, ' ').replace(/^ | $/g, '')
+  ),
+  textFunction('REPT', 'Повторение текста', 2, 2, (value, [count]) => {
+    const times = toCount(count, 0, 0);
+    if (value.length * times > MAX_TEXT_LENGTH) {
+      return FormulaValues.error('#VALUE!');
+    }
+    return value.repeat(times);
+  }),
+  textFunction(
+    'REPLACE',
+    'Замена части текста по позиции',
+    4,
+    4,
+    (value, [start, count, newText]) => {
+      const from = toCount(start, 1, 1) - 1;
+      const length = toCount(count, 0, 0);
+      return value.slice(0, from) + FormulaValues.toText(newText!) + value.slice(from + length);
+    }
+  ),
+  textFunction('EXACT', 'Совпадение текстов с учетом регистра', 2, 2, (value, [other]) => ({
+    value: value === FormulaValues.toText(other!),
+    type: 'boolean',
+  })),
+  textFunction('CODE', 'Код первого символа', 1, 1, value => {
+    const code = value.codePointAt(0);
+    return code === undefined ? FormulaValues.error('#VALUE!') : { value: code, type: 'number' };
+  }),
+  {
+    name: 'CHAR',
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'Символ по коду (1-255)',
+    evaluate: ([code]: CellValue[]) => {
+      const value = Math.trunc(FormulaValues.toNumber(code!));
+      if (value < 1 || value > 255) {
+        return FormulaValues.error('#VALUE!');
+      }
+      return text(String.fromCharCode(value));
+    },
+  },
+  {
+    name: 'CONCAT',
+    minArgs: 1,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Объединение текстов и диапазонов',
+    evaluate: (args: CellValue[]) => text(collectTexts(args).join('')),
+  },
+  {
+    name: 'TEXTJOIN',
+    minArgs: 3,
+    maxArgs: MAX_FUNCTION_ARGUMENTS,
+    description: 'Объединение текстов через разделитель',
+    evaluate: textJoin,
+  },
+  {
+    name: 'SUBSTITUTE',
+    minArgs: 3,
+    maxArgs: 4,
+    description: 'Замена фрагмента текста',
+    evaluate: substitute,
+  },
+  {
+    name: 'FIND',
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'Позиция подстроки с учетом регистра',
+    evaluate: (args: CellValue[]) => find(args, true),
+  },
+  {
+    name: 'SEARCH',
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'Позиция подстроки без учета регистра, с подстановочными знаками',
+    evaluate: (args: CellValue[]) => find(args, false),
+  },
+  {
+    name: 'TEXT',
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Число в виде текста по коду формата',
+    evaluate: formatText,
+  },
+  {
+    name: 'VALUE',
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'Число из текста',
+    evaluate: parseValue,
+  },
+];
@@ -0,0 +1,45 @@
+/**
+ * Библиотека функций формул и общий реестр
+ */
+
+import { CellValue } from '../FormulaEngine.js';
+import { FunctionArgument, FunctionDefinition, FunctionRegistry } from '../FunctionRegistry.js';
+import { AGGREGATE_FUNCTIONS } from './AggregateFunctions.js';
+import { CONDITIONAL_FUNCTIONS } from './ConditionalFunctions.js';
+import { LOGICAL_FUNCTIONS } from './LogicalFunctions.js';
+import { ERROR_FUNCTIONS } from './ErrorFunctions.js';
+import { MATH_FUNCTIONS } from './MathFunctions.js';
+import { TEXT_FUNCTIONS } from './TextFunctions.js';
+import { LOOKUP_FUNCTIONS } from './LookupFunctions.js';
+import { DATE_FUNCTIONS } from './DateFunctions.js';
+import { STATISTICAL_FUNCTIONS } from './StatisticalFunctions.js';
+import { FINANCIAL_FUNCTIONS } from './FinancialFunctions.js';
+import { ARRAY_FUNCTIONS } from './ArrayFunctions.js';
+import { LAMBDA_FUNCTIONS } from './LambdaFunctions.js';
+
+/**
+ * Общий реестр: встроенные функции и функции, добавленные через registerFunction
+ */
+export const functionRegistry = new FunctionRegistry([
+  ...AGGREGATE_FUNCTIONS,
+  ...CONDITIONAL_FUNCTIONS,
+  ...LOGICAL_FUNCTIONS,
+  ...ERROR_FUNCTIONS,
+  ...MATH_FUNCTIONS,
+  ...TEXT_FUNCTIONS,
+  ...LOOKUP_FUNCTIONS,
+  ...DATE_FUNCTIONS,
+  ...STATISTICAL_FUNCTIONS,
+  ...FINANCIAL_FUNCTIONS,
+  ...ARRAY_FUNCTIONS,
+  ...LAMBDA_FUNCTIONS,
+]);
+
+/**
+ * Регистрация пользовательской функции в общем реестре
+ */
+export function registerFunction<TArgs extends FunctionArgument[] = CellValue[]>(
+  definition: FunctionDefinition<TArgs>
+): void {
+  functionRegistry.register(definition);
+}
@@ -2,9 +2,20 @@
  * История операций для Undo/Redo системы
  */
 
+import type { AxisShift } from '../formulas/FormulaAST.js';
+import type { RewrittenFormula } from '../formulas/FormulaManager.js';
+
 export interface Operation {
   id: string;
-  type: 'insert_row' | 'delete_row' | 'insert_column' | 'delete_column' | 'set_cell' | 'clear_cell';
+  type:
+    | 'insert_row'
+    | 'delete_row'
+    | 'insert_column'
+    | 'delete_column'
+    | 'move_rows'
+    | 'move_columns'
+    | 'set_cell'
+    | 'clear_cell';
   timestamp: number;
   data: any;
   description: string;
@@ -14,6 +25,7 @@ export interface InsertRowOperation extends Operation {
   type: 'insert_row';
   data: {
     atRow: number;
+    count: number;
     affectedCells: Array<{ row: number; col: number; value: any }>;
   };
 }
@@ -22,7 +34,9 @@ export interface DeleteRowOperation extends Operation {
   type: 'delete_row';
   data: {
     atRow: number;
+    count: number;
     deletedCells: Array<{ row: number; col: number; value: any }>;
+    rewrittenFormulas: RewrittenFormula[]; // Формулы вне удаленных строк, ссылки которых изменились
   };
 }
 
@@ -30,6 +44,7 @@ export interface InsertColumnOperation extends Operation {
   type: 'insert_column';
   data: {
     atCol: number;
+    count: number;
     affectedCells: Array<{ row: number; col: number; value: any }>;
   };
 }
@@ -38,7 +53,27 @@ export interface DeleteColumnOperation extends Operation {
   type: 'delete_column';
   data: {
     atCol: number;
+    count: number;
     deletedCells: Array<{ row: number; col: number; value: any }>;
+    rewrittenFormulas: RewrittenFormula[]; // Формулы вне удаленных столбцов, ссылки которых изменились
+  };
+}
+
+export interface MoveRowsOperation extends Operation {
+  type: 'move_rows';
+  data: {
+    atRow: number;
+    count: number;
+    toRow: number; // Строка, перед которой вставлены перенесенные строки
+  };
+}
+
+export interface MoveColumnsOperation extends Operation {
+  type: 'move_columns';
+  data: {
+    atCol: number;
+    count: number;
+    toCol: number; // Столбец, перед которым вставлены перенесенные столбцы
   };
 }
 
@@ -66,9 +101,31 @@ export type AnyOperation =
   | DeleteRowOperation
   | InsertColumnOperation
   | DeleteColumnOperation
+  | MoveRowsOperation
+  | MoveColumnsOperation
   | SetCellOperation
   | ClearCellOperation;
 
+/**
+ * Вставка, удаление или перенос строк (столбцов) листа
+ */
+export interface StructuralChange {
+  axis: 'rows' | 'columns';
+  shift: AxisShift;
+}
+
+/**
+ * Книга, к которой применяются операции истории
+ */
+export interface OperationTarget {
+  // Структурное изменение активного листа вместе со сдвигом ссылок формул; промис разрешается
+  // формулами, которые переписал сдвиг, - их прежними положением и текстом
+  shiftLines(change: StructuralChange): Promise<RewrittenFormula[]>;
+  // Запись значения ячейки (без листа - ячейка активного листа)
+  setCell(row: number, col: number, value: any, sheet?: string): void;
+  removeCell(row: number, col: number): void;
+}
+
 export class OperationHistory {
   private history: AnyOperation[] = [];
   private currentIndex: number = -1;
@@ -145,6 +202,95 @@ export class OperationHistory {
     return operation;
   }
 
+  /**
+   * Структурное изменение листа для отмены или повтора операции (null - операция с ячейкой)
+   */
+  static getStructuralChange(operation: AnyOperation, isUndo: boolean): StructuralChange | null {
+    // Отмена вставки - удаление тех же строк, отмена удаления - вставка
+    switch (operation.type) {
+      case 'insert_row':
+        return {
+          axis: 'rows',
+          shift: this.getLineShift(!isUndo, operation.data.atRow, operation.data.count),
+        };
+      case 'delete_row':
+        return {
+          axis: 'rows',
+          shift: this.getLineShift(isUndo, operation.data.atRow, operation.data.count),
+        };
+      case 'insert_column':
+        return {
+          axis: 'columns',
+          shift: this.getLineShift(!isUndo, operation.data.atCol, operation.data.count),
+        };
+      case 'delete_column':
+        return {
+          axis: 'columns',
+          shift: this.getLineShift(isUndo, operation.data.atCol, operation.data.count),
+        };
+      case 'move_rows': {
+        const { atRow, count, toRow } = operation.data;
+        return { axis: 'rows', shift: this.getMoveShift(atRow, count, toRow, isUndo) };
+      }
+      case 'move_columns': {
+        const { atCol, count, toCol } = operation.data;
+        return { axis: 'columns', shift: this.getMoveShift(atCol, count, toCol, isUndo) };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Выполнение (повтор) или отмена операции. При удалении строк и столбцов запоминаются
+   * прежние тексты переписанных формул: отмена возвращает удаленные ячейки и эти тексты
+   */
+  static applyOperation(operation: AnyOperation, isUndo: boolean, target: OperationTarget): void {
+    const structuralChange = this.getStructuralChange(operation, isUndo);
+    const rewritten = structuralChange ? target.shiftLines(structuralChange) : null;
+
+    switch (operation.type) {
+      case 'delete_row':
+      case 'delete_column': {
+        const { data } = operation;
+        if (!isUndo) {
+          rewritten?.then(formulas => (data.rewrittenFormulas = formulas));
+          break;
+        }
+
+        // Ячейки вернулись на прежние места обратным сдвигом
+        for (const cell of data.deletedCells) {
+          target.setCell(cell.row, cell.col, cell.value);
+        }
+        for (const { sheet, row, col, formula } of data.rewrittenFormulas) {
+          target.setCell(row, col, formula, sheet);
+        }
+        break;
+      }
+      case 'set_cell': {
+        const { row, col, oldValue, newValue } = operation.data;
+        target.setCell(row, col, isUndo ? oldValue : newValue);
+        break;
+      }
+      case 'clear_cell': {
+        const { row, col, oldValue } = operation.data;
+        if (isUndo) {
+          target.setCell(row, col, oldValue);
+        } else {
+          target.removeCell(row, col);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Обратный перенос: откуда и куда перенести блок, чтобы вернуть его на место
+   */
+  static getReverseMove(at: number, count: number, to: number): [number, number] {
+    return to > at ? [to - count, at] : [to, at + count];
+  }
+
   /**
    * Проверка возможности отмены
    */
@@ -272,4 +418,19 @@ export class OperationHistory {
       throw new Error('Не удалось импортировать историю операций');
     }
   }
+
+  /**
+   * Вставка или удаление count строк (столбцов)
+   */
+  private static getLineShift(isInsert: boolean, at: number, count: number): AxisShift {
+    return { type: isInsert ? 'insert' : 'delete', at, count };
+  }
+
+  /**
+   * Перенос count строк (столбцов) или его отмена
+   */
+  private static getMoveShift(at: number, count: number, to: number, isUndo: boolean): AxisShift {
+    const [from, target] = isUndo ? this.getReverseMove(at, count, to) : [at, to];
+    return { type: 'move', at: from, count, to: target };
+  }
 }
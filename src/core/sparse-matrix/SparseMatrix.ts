@@ -2,16 +2,35 @@
  * Разреженная матрица для эффективного хранения данных таблицы
  */
 
+import type { AxisShift } from '../formulas/FormulaAST.js';
+
+/**
+ * Слушатель изменений: координаты ячейки или null, если изменилась вся матрица
+ * (isShift - ячейки только сдвинуты вставкой, удалением или переносом)
+ */
+export type CellChangeListener = (
+  change: { row: number; col: number } | null,
+  isShift?: boolean
+) => void;
+
 export class SparseMatrix {
   private blocks: Map<string, Map<string, any>> = new Map();
   private blockSize = 1000; // Размер блока
   private totalCells = 0;
+  private changeListener: CellChangeListener | null = null;
 
   constructor(blockSize = 1000) {
     this.blockSize = blockSize;
     console.log(`📊 Разреженная матрица инициализирована с размером блока: ${blockSize}`);
   }
 
+  /**
+   * Установка слушателя изменений (используется для пересчета формул)
+   */
+  setChangeListener(listener: CellChangeListener | null): void {
+    this.changeListener = listener;
+  }
+
   /**
    * Установка значения ячейки
    */
@@ -39,6 +58,8 @@ export class SparseMatrix {
     if (!hadValue) {
       this.totalCells++;
     }
+
+    this.changeListener?.({ row, col });
   }
 
   /**
@@ -72,6 +93,8 @@ export class SparseMatrix {
       if (block.size === 0) {
         this.blocks.delete(blockKey);
       }
+
+      this.changeListener?.({ row, col });
     }
   }
 
@@ -96,17 +119,66 @@ export class SparseMatrix {
     endCol: number
   ): Array<{ row: number; col: number; value: any }> {
     const cells: Array<{ row: number; col: number; value: any }> = [];
+    const area = (endRow - startRow + 1) * (endCol - startCol + 1);
+
+    // Небольшой диапазон быстрее обойти по координатам
+    if (area <= this.totalCells) {
+      for (let row = startRow; row <= endRow; row++) {
+        for (let col = startCol; col <= endCol; col++) {
+          const value = this.getCell(row, col);
+          if (value !== null) {
+            cells.push({ row, col, value });
+          }
+        }
+      }
+      return cells;
+    }
 
-    for (let row = startRow; row <= endRow; row++) {
-      for (let col = startCol; col <= endCol; col++) {
-        const value = this.getCell(row, col);
-        if (value !== null) {
+    // Большой диапазон (A:A, 1:1) - обходим только заполненные ячейки пересекающихся блоков
+    for (const [blockKey, block] of this.blocks) {
+      const [blockRow = 0, blockCol = 0] = blockKey.split('_').map(Number);
+      const blockStartRow = blockRow * this.blockSize;
+      const blockStartCol = blockCol * this.blockSize;
+
+      if (
+        blockStartRow > endRow ||
+        blockStartRow + this.blockSize <= startRow ||
+        blockStartCol > endCol ||
+        blockStartCol + this.blockSize <= startCol
+      ) {
+        continue;
+      }
+
+      for (const [cellKey, value] of block) {
+        const local = this.parseCellKey(cellKey);
+        const row = blockStartRow + local.row;
+        const col = blockStartCol + local.col;
+        if (row >= startRow && row <= endRow && col >= startCol && col <= endCol) {
           cells.push({ row, col, value });
         }
       }
     }
 
-    return cells;
+    return cells.sort((a, b) => a.row - b.row || a.col - b.col);
+  }
+
+  /**
+   * Последние заполненные строка и столбец (null - матрица пуста)
+   */
+  getUsedBounds(): { lastRow: number; lastCol: number } | null {
+    let lastRow = -1;
+    let lastCol = -1;
+
+    for (const [blockKey, block] of this.blocks) {
+      const [blockRow = 0, blockCol = 0] = blockKey.split('_').map(Number);
+      for (const cellKey of block.keys()) {
+        const local = this.parseCellKey(cellKey);
+        lastRow = Math.max(lastRow, blockRow * this.blockSize + local.row);
+        lastCol = Math.max(lastCol, blockCol * this.blockSize + local.col);
+      }
+    }
+
+    return lastRow === -1 ? null : { lastRow, lastCol };
   }
 
   /**
@@ -131,6 +203,7 @@ export class SparseMatrix {
   clear(): void {
     this.blocks.clear();
     this.totalCells = 0;
+    this.changeListener?.(null);
     console.log('🧹 Разреженная матрица очищена');
   }
 
@@ -205,6 +278,69 @@ export class SparseMatrix {
     });
   }
 
+  /**
+   * Перенос всех ячеек в новые координаты за один проход (null - ячейка удаляется)
+   */
+  private remapCells(
+    mapCell: (row: number, col: number) => { row: number; col: number } | null
+  ): void {
+    const newBlocks = new Map<string, Map<string, any>>();
+    let totalCells = 0;
+
+    for (const [blockKey, block] of this.blocks) {
+      const [blockRow = 0, blockCol = 0] = blockKey.split('_').map(Number);
+
+      for (const [cellKey, value] of block) {
+        const local = this.parseCellKey(cellKey);
+        const position = mapCell(
+          blockRow * this.blockSize + local.row,
+          blockCol * this.blockSize + local.col
+        );
+        if (!position) {
+          continue;
+        }
+
+        // Ячейка может перейти в другой блок
+        const newBlockKey = this.getBlockKey(position.row, position.col);
+        let newBlock = newBlocks.get(newBlockKey);
+        if (!newBlock) {
+          newBlock = new Map();
+          newBlocks.set(newBlockKey, newBlock);
+        }
+        newBlock.set(this.getCellKey(position.row, position.col), value);
+        totalCells++;
+      }
+    }
+
+    this.blocks = newBlocks;
+    this.totalCells = totalCells;
+    this.changeListener?.(null, true);
+  }
+
+  /**
+   * Индекс после удаления count строк (столбцов) с позиции at; null - удален
+   */
+  private deleteIndex(index: number, at: number, count: number): number | null {
+    if (index < at) {
+      return index;
+    }
+    return index < at + count ? null : index - count;
+  }
+
+  /**
+   * Индекс после переноса count строк (столбцов) с позиции at на место перед to
+   */
+  private moveIndex(index: number, at: number, count: number, to: number): number {
+    const target = to > at ? to - count : to;
+    if (index >= at && index < at + count) {
+      return target + index - at;
+    }
+
+    // Остальные строки сдвигаются так, будто блок удалили и вставили на новое место
+    const remaining = index >= at + count ? index - count : index;
+    return remaining >= target ? remaining + count : remaining;
+  }
+
   /**
    * Получение ключа блока
    */
@@ -270,6 +406,7 @@ export class SparseMatrix {
         }
       }
 
+      this.changeListener?.(null);
       console.log('✅ Данные импортированы из JSON');
     } catch (error) {
       console.error('❌ Ошибка импорта JSON:', error);
@@ -281,207 +418,150 @@ export class SparseMatrix {
    * Вставка строки на указанную позицию
    */
   insertRow(atRow: number): void {
-    console.log(`🔧 Вставка строки на позиции ${atRow}`);
-
-    // Отладка: показываем данные до вставки
-    console.log(`🔧 ДАННЫЕ ДО ВСТАВКИ:`);
-    for (let row = 1; row <= 4; row++) {
-      for (let col = 3; col <= 3; col++) {
-        const value = this.getCell(row, col);
-        console.log(`🔧   ${row},${col}: ${value}`);
-      }
-    }
-
-    // Создаем новую карту для обновленных данных
-    const newBlocks = new Map<string, Map<string, any>>();
-
-    // Перебираем все блоки
-    for (const [blockKey, block] of this.blocks) {
-      const newBlock = new Map<string, any>();
-
-      // Получаем глобальные координаты блока
-      const [blockRowStr, blockColStr] = blockKey.split('_');
-      const blockRow = parseInt(blockRowStr || '0', 10) * this.blockSize;
-      const blockCol = parseInt(blockColStr || '0', 10) * this.blockSize;
-
-      // Перебираем все ячейки в блоке
-      for (const [cellKey, value] of block) {
-        const { row: localRow, col: localCol } = this.parseCellKey(cellKey);
-
-        // Восстанавливаем глобальные координаты
-        const globalRow = blockRow + localRow;
-        const globalCol = blockCol + localCol;
-
-        if (globalRow >= atRow) {
-          // Сдвигаем строки вниз
-          const newGlobalRow = globalRow + 1;
-          const newCellKey = this.getCellKey(newGlobalRow, globalCol);
-          newBlock.set(newCellKey, value);
-        } else {
-          // Оставляем как есть
-          newBlock.set(cellKey, value);
-        }
-      }
-
-      if (newBlock.size > 0) {
-        newBlocks.set(blockKey, newBlock);
-      }
-    }
-
-    this.blocks = newBlocks;
-    console.log(`✅ Строка вставлена на позиции ${atRow}`);
-
-    // Отладка: показываем данные после вставки
-    console.log(`🔧 ДАННЫЕ ПОСЛЕ ВСТАВКИ:`);
-    for (let row = 1; row <= 5; row++) {
-      for (let col = 3; col <= 3; col++) {
-        const value = this.getCell(row, col);
-        console.log(`🔧   ${row},${col}: ${value}`);
-      }
-    }
+    this.insertRows(atRow, 1);
   }
 
   /**
    * Удаление строки
    */
   deleteRow(atRow: number): void {
-    console.log(`🗑️ Удаление строки ${atRow}`);
-
-    // Создаем новую карту для обновленных данных
-    const newBlocks = new Map<string, Map<string, any>>();
-
-    // Перебираем все блоки
-    for (const [blockKey, block] of this.blocks) {
-      const newBlock = new Map<string, any>();
-
-      // Получаем глобальные координаты блока
-      const [blockRowStr, blockColStr] = blockKey.split('_');
-      const blockRow = parseInt(blockRowStr || '0', 10) * this.blockSize;
-      const blockCol = parseInt(blockColStr || '0', 10) * this.blockSize;
-
-      // Перебираем все ячейки в блоке
-      for (const [cellKey, value] of block) {
-        const { row: localRow, col: localCol } = this.parseCellKey(cellKey);
-
-        // Восстанавливаем глобальные координаты
-        const globalRow = blockRow + localRow;
-        const globalCol = blockCol + localCol;
-
-        if (globalRow === atRow) {
-          // Удаляем ячейки из удаляемой строки
-          continue;
-        } else if (globalRow > atRow) {
-          // Сдвигаем строки вверх
-          const newGlobalRow = globalRow - 1;
-          const newCellKey = this.getCellKey(newGlobalRow, globalCol);
-          newBlock.set(newCellKey, value);
-        } else {
-          // Оставляем как есть
-          newBlock.set(cellKey, value);
-        }
-      }
-
-      if (newBlock.size > 0) {
-        newBlocks.set(blockKey, newBlock);
-      }
-    }
-
-    this.blocks = newBlocks;
-    console.log(`✅ Строка ${atRow} удалена`);
+    this.deleteRows(atRow, 1);
   }
 
   /**
    * Вставка столбца на указанную позицию
    */
   insertColumn(atCol: number): void {
-    console.log(`🔧 Вставка столбца на позиции ${atCol}`);
-
-    // Создаем новую карту для обновленных данных
-    const newBlocks = new Map<string, Map<string, any>>();
-
-    // Перебираем все блоки
-    for (const [blockKey, block] of this.blocks) {
-      const newBlock = new Map<string, any>();
-
-      // Получаем глобальные координаты блока
-      const [blockRowStr, blockColStr] = blockKey.split('_');
-      const blockRow = parseInt(blockRowStr || '0', 10) * this.blockSize;
-      const blockCol = parseInt(blockColStr || '0', 10) * this.blockSize;
-
-      // Перебираем все ячейки в блоке
-      for (const [cellKey, value] of block) {
-        const { row: localRow, col: localCol } = this.parseCellKey(cellKey);
-
-        // Восстанавливаем глобальные координаты
-        const globalRow = blockRow + localRow;
-        const globalCol = blockCol + localCol;
-
-        if (globalCol >= atCol) {
-          // Сдвигаем столбцы вправо
-          const newGlobalCol = globalCol + 1;
-          const newCellKey = this.getCellKey(globalRow, newGlobalCol);
-          newBlock.set(newCellKey, value);
-        } else {
-          // Оставляем как есть
-          newBlock.set(cellKey, value);
-        }
-      }
-
-      if (newBlock.size > 0) {
-        newBlocks.set(blockKey, newBlock);
-      }
-    }
-
-    this.blocks = newBlocks;
-    console.log(`✅ Столбец вставлен на позиции ${atCol}`);
+    this.insertColumns(atCol, 1);
   }
 
   /**
    * Удаление столбца
    */
   deleteColumn(atCol: number): void {
-    console.log(`🗑️ Удаление столбца ${atCol}`);
+    this.deleteColumns(atCol, 1);
+  }
 
-    // Создаем новую карту для обновленных данных
-    const newBlocks = new Map<string, Map<string, any>>();
+  /**
+   * Вставка count строк перед строкой atRow
+   */
+  insertRows(atRow: number, count: number): void {
+    console.log(`🔧 Вставка ${count} строк на позиции ${atRow}`);
+    this.remapCells((row, col) => ({ row: row >= atRow ? row + count : row, col }));
+    console.log(`✅ Вставлено строк: ${count}`);
+  }
 
-    // Перебираем все блоки
-    for (const [blockKey, block] of this.blocks) {
-      const newBlock = new Map<string, any>();
+  /**
+   * Удаление count строк, начиная со строки atRow
+   */
+  deleteRows(atRow: number, count: number): void {
+    console.log(`🗑️ Удаление ${count} строк с позиции ${atRow}`);
+    this.remapCells((row, col) => {
+      const newRow = this.deleteIndex(row, atRow, count);
+      return newRow === null ? null : { row: newRow, col };
+    });
+    console.log(`✅ Удалено строк: ${count}`);
+  }
 
-      // Получаем глобальные координаты блока
-      const [blockRowStr, blockColStr] = blockKey.split('_');
-      const blockRow = parseInt(blockRowStr || '0', 10) * this.blockSize;
-      const blockCol = parseInt(blockColStr || '0', 10) * this.blockSize;
+  /**
+   * Перенос count строк, начиная со строки atRow, на место перед строкой toRow
+   */
+  moveRows(atRow: number, count: number, toRow: number): void {
+    console.log(`🔧 Перенос ${count} строк с позиции ${atRow} перед строкой ${toRow}`);
+    this.remapCells((row, col) => ({ row: this.moveIndex(row, atRow, count, toRow), col }));
+  }
 
-      // Перебираем все ячейки в блоке
-      for (const [cellKey, value] of block) {
-        const { row: localRow, col: localCol } = this.parseCellKey(cellKey);
+  /**
+   * Вставка count столбцов перед столбцом atCol
+   */
+  insertColumns(atCol: number, count: number): void {
+    console.log(`🔧 Вставка ${count} столбцов на позиции ${atCol}`);
+    this.remapCells((row, col) => ({ row, col: col >= atCol ? col + count : col }));
+    console.log(`✅ Вставлено столбцов: ${count}`);
+  }
 
-        // Восстанавливаем глобальные координаты
-        const globalRow = blockRow + localRow;
-        const globalCol = blockCol + localCol;
+  /**
+   * Удаление count столбцов, начиная со столбца atCol
+   */
+  deleteColumns(atCol: number, count: number): void {
+    console.log(`🗑️ Удаление ${count} столбцов с позиции ${atCol}`);
+    this.remapCells((row, col) => {
+      const newCol = this.deleteIndex(col, atCol, count);
+      return newCol === null ? null : { row, col: newCol };
+    });
+    console.log(`✅ Удалено столбцов: ${count}`);
+  }
 
-        if (globalCol === atCol) {
-          // Удаляем ячейки из удаляемого столбца
-          continue;
-        } else if (globalCol > atCol) {
-          // Сдвигаем столбцы влево
-          const newGlobalCol = globalCol - 1;
-          const newCellKey = this.getCellKey(globalRow, newGlobalCol);
-          newBlock.set(newCellKey, value);
-        } else {
-          // Оставляем как есть
-          newBlock.set(cellKey, value);
-        }
-      }
+  /**
+   * Перенос count столбцов, начиная со столбца atCol, на место перед столбцом toCol
+   */
+  moveColumns(atCol: number, count: number, toCol: number): void {
+    console.log(`🔧 Перенос ${count} столбцов с позиции ${atCol} перед столбцом ${toCol}`);
+    this.remapCells((row, col) => ({ row, col: this.moveIndex(col, atCol, count, toCol) }));
+  }
 
-      if (newBlock.size > 0) {
-        newBlocks.set(blockKey, newBlock);
-      }
+  /**
+   * Вставка, удаление или перенос строк (столбцов) по описанию сдвига
+   */
+  shiftLines(axis: 'rows' | 'columns', shift: AxisShift): void {
+    const isRows = axis === 'rows';
+    switch (shift.type) {
+      case 'insert':
+        if (isRows) this.insertRows(shift.at, shift.count);
+        else this.insertColumns(shift.at, shift.count);
+        break;
+      case 'delete':
+        if (isRows) this.deleteRows(shift.at, shift.count);
+        else this.deleteColumns(shift.at, shift.count);
+        break;
+      case 'move':
+        if (isRows) this.moveRows(shift.at, shift.count, shift.to);
+        else this.moveColumns(shift.at, shift.count, shift.to);
+        break;
     }
+  }
 
-    this.blocks = newBlocks;
-    console.log(`✅ Столбец ${atCol} удален`);
+  /**
+   * Перемещение блока ячеек так, чтобы его левый верхний угол оказался в targetRow, targetCol;
+   * прежнее содержимое целевой области заменяется
+   */
+  moveBlock(
+    startRow: number,
+    startCol: number,
+    endRow: number,
+    endCol: number,
+    targetRow: number,
+    targetCol: number
+  ): void {
+    console.log(
+      `🔧 Перемещение блока ${startRow},${startCol}:${endRow},${endCol} -> ${targetRow},${targetCol}`
+    );
+
+    const rowOffset = targetRow - startRow;
+    const colOffset = targetCol - startCol;
+    const cells = this.getCellsInRange(startRow, startCol, endRow, endCol);
+
+    // Слушатель получает одно уведомление после перемещения
+    const listener = this.changeListener;
+    this.changeListener = null;
+
+    for (const { row, col } of cells) {
+      this.removeCell(row, col);
+    }
+    const targetCells = this.getCellsInRange(
+      targetRow,
+      targetCol,
+      endRow + rowOffset,
+      endCol + colOffset
+    );
+    for (const { row, col } of targetCells) {
+      this.removeCell(row, col);
+    }
+    for (const { row, col, value } of cells) {
+      this.setCell(row + rowOffset, col + colOffset, value);
+    }
+
+    this.changeListener = listener;
+    this.changeListener?.(null, true);
   }
 }
@@ -71,11 +71,8 @@ export class VirtualGrid {
 
     for (let row = this.viewport.startRow; row < this.viewport.endRow; row++) {
       for (let col = this.viewport.startCol; col < this.viewport.endCol; col++) {
-        // Получаем значение ячейки через провайдер (для формул)
-        const cellValue = this.getCellValue ? this.getCellValue(row, col) : null;
-
-        // Извлекаем значение из CellValue объекта
-        const value = cellValue ? cellValue.value : null;
+        // Отображаемое значение ячейки из провайдера (вычисленные формулы, перенесенные массивы)
+        const value = this.getCellValue ? this.getCellValue(row, col) : null;
 
         const cell: Cell = {
           row,
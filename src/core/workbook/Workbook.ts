@@ -0,0 +1,567 @@
+/**
+ * Книга - набор листов с общим менеджером формул
+ */
+
+import { SparseMatrix } from '../sparse-matrix/SparseMatrix.js';
+import {
+  FormulaManager,
+  DEFAULT_SHEET_NAME,
+  RewrittenFormula,
+  SpillRange,
+} from '../formulas/FormulaManager.js';
+import { CellValue, FormulaContext } from '../formulas/FormulaEngine.js';
+import { FormulaError } from '../formulas/FormulaErrors.js';
+import { FormulaParser } from '../formulas/FormulaParser.js';
+import { AxisShift, FormulaUtils } from '../formulas/FormulaAST.js';
+import { DateSerial, DEFAULT_DATE_LOCALE } from '../formulas/DateSerial.js';
+
+export interface Sheet {
+  name: string;
+  matrix: SparseMatrix;
+}
+
+/**
+ * Наблюдатель изменений ячеек книги (change = null - изменился весь лист)
+ */
+export type SheetChangeObserver = (
+  sheet: string,
+  change: { row: number; col: number } | null
+) => void;
+
+// Ограничения имени листа как в Excel
+const MAX_SHEET_NAME_LENGTH = 31;
+const INVALID_SHEET_NAME_PATTERN = /[[\]:*?/\\]/;
+
+export class Workbook implements FormulaContext {
+  private sheets: Sheet[] = [];
+  private activeSheetIndex: number = 0;
+  private formulaManager: FormulaManager;
+  private parser: FormulaParser = new FormulaParser(); // Ошибки формул, которые не удалось разобрать
+  private changeObserver: SheetChangeObserver | null = null;
+  private isShiftingCells = false; // Ячейки сдвигает структурная операция - формулы обновляются ею
+  private isTrackingFormulas = true; // Формулы листов регистрируются в менеджере
+  private dateLocale: string = DEFAULT_DATE_LOCALE; // Порядок частей введенных дат
+
+  constructor() {
+    this.formulaManager = new FormulaManager(this);
+    this.addSheet(DEFAULT_SHEET_NAME);
+
+    // Сдвинутые и переписанные формулы сохраняются в матрицу своего листа
+    this.formulaManager.setUpdateFormulaCallback((row, col, formula, sheet) => {
+      this.getSheet(sheet)?.matrix.setCell(row, col, formula);
+    });
+    console.log('📚 Workbook инициализирован');
+  }
+
+  /**
+   * Получение менеджера формул книги
+   */
+  getFormulaManager(): FormulaManager {
+    return this.formulaManager;
+  }
+
+  /**
+   * Установка наблюдателя изменений ячеек (синхронизация с потоком вычислений)
+   */
+  setChangeObserver(observer: SheetChangeObserver | null): void {
+    this.changeObserver = observer;
+  }
+
+  /**
+   * Включение регистрации формул листов в менеджере; выключается, когда формулы вычисляет
+   * поток вычислений, - главный поток хранит только их текст
+   */
+  setFormulaTracking(enabled: boolean): void {
+    if (enabled === this.isTrackingFormulas) {
+      return;
+    }
+
+    this.isTrackingFormulas = enabled;
+    for (const sheet of this.sheets) {
+      this.syncSheetFormulas(sheet);
+    }
+  }
+
+  /**
+   * Список листов в порядке книги
+   */
+  getSheets(): readonly Sheet[] {
+    return this.sheets;
+  }
+
+  /**
+   * Поиск листа по имени (без учета регистра)
+   */
+  getSheet(name: string): Sheet | null {
+    const key = FormulaUtils.normalizeSheetName(name);
+    return this.sheets.find(sheet => FormulaUtils.normalizeSheetName(sheet.name) === key) ?? null;
+  }
+
+  /**
+   * Получение активного листа
+   */
+  getActiveSheet(): Sheet {
+    const sheet = this.sheets[this.activeSheetIndex];
+    if (!sheet) {
+      throw new Error('В книге нет листов');
+    }
+    return sheet;
+  }
+
+  /**
+   * Переключение активного листа
+   */
+  setActiveSheet(name: string): Sheet {
+    const index = this.getSheetIndex(name);
+    if (index === -1) {
+      throw new Error(`Лист не найден: ${name}`);
+    }
+    this.activeSheetIndex = index;
+    return this.getActiveSheet();
+  }
+
+  /**
+   * Добавление листа (по умолчанию - SheetN со следующим свободным номером)
+   */
+  addSheet(name?: string): Sheet {
+    const sheetName = name ?? this.generateSheetName();
+    this.validateSheetName(sheetName);
+
+    const sheet: Sheet = { name: sheetName, matrix: new SparseMatrix() };
+    sheet.matrix.setChangeListener((change, isShift) =>
+      this.handleCellChange(sheet, change, isShift)
+    );
+    this.sheets.push(sheet);
+    console.log(`📄 Добавлен лист ${sheetName}`);
+    return sheet;
+  }
+
+  /**
+   * Переименование листа с обновлением ссылок во всех формулах
+   */
+  renameSheet(oldName: string, newName: string): void {
+    const sheet = this.getSheet(oldName);
+    if (!sheet) {
+      throw new Error(`Лист не найден: ${oldName}`);
+    }
+
+    this.validateSheetName(newName, sheet);
+
+    const previousName = sheet.name;
+    sheet.name = newName;
+    this.formulaManager.handleSheetRename(previousName, newName);
+    console.log(`✏️ Лист ${previousName} переименован в ${newName}`);
+  }
+
+  /**
+   * Удаление листа - ссылки на него в формулах становятся #REF!
+   */
+  deleteSheet(name: string): void {
+    const index = this.getSheetIndex(name);
+    if (index === -1) {
+      throw new Error(`Лист не найден: ${name}`);
+    }
+    if (this.sheets.length === 1) {
+      throw new Error('Нельзя удалить единственный лист книги');
+    }
+
+    const sheetOrder = this.sheets.map(sheet => sheet.name);
+    const [deleted] = this.sheets.splice(index, 1);
+
+    if (this.activeSheetIndex >= index && this.activeSheetIndex > 0) {
+      this.activeSheetIndex--;
+    }
+
+    this.formulaManager.handleSheetDeletion(deleted?.name ?? name, sheetOrder);
+    console.log(`🗑️ Лист ${name} удален`);
+  }
+
+  /**
+   * Перемещение листа на новую позицию (меняет состав 3D-диапазонов)
+   */
+  moveSheet(name: string, toIndex: number): void {
+    const index = this.getSheetIndex(name);
+    if (index === -1) {
+      throw new Error(`Лист не найден: ${name}`);
+    }
+
+    const activeSheet = this.getActiveSheet();
+    const [sheet] = this.sheets.splice(index, 1);
+    if (!sheet) {
+      return;
+    }
+
+    const targetIndex = Math.max(0, Math.min(toIndex, this.sheets.length));
+    this.sheets.splice(targetIndex, 0, sheet);
+    this.activeSheetIndex = this.sheets.indexOf(activeSheet);
+    this.formulaManager.handleSheetMove();
+    console.log(`↔️ Лист ${sheet.name} перемещен на позицию ${targetIndex}`);
+  }
+
+  /**
+   * Вставка, удаление или перенос строк либо столбцов листа со сдвигом ссылок в формулах;
+   * пересчитываются только затронутые формулы
+   * @returns Формулы с переписанными ссылками - их прежние положение и текст (для отмены)
+   */
+  shiftLines(sheetName: string, axis: 'rows' | 'columns', shift: AxisShift): RewrittenFormula[] {
+    const sheet = this.getSheet(sheetName);
+    if (!sheet) {
+      throw new Error(`Лист не найден: ${sheetName}`);
+    }
+
+    this.shiftCells(() => sheet.matrix.shiftLines(axis, shift));
+    return this.formulaManager.handleLineShift(sheet.name, axis, shift);
+  }
+
+  /**
+   * Перемещение блока ячеек (вырезание и вставка) - ссылки на ячейки блока следуют за ними
+   */
+  moveCells(
+    sheetName: string,
+    source: { startRow: number; startCol: number; endRow: number; endCol: number },
+    targetRow: number,
+    targetCol: number
+  ): void {
+    const sheet = this.getSheet(sheetName);
+    if (!sheet) {
+      throw new Error(`Лист не найден: ${sheetName}`);
+    }
+
+    const { startRow, startCol, endRow, endCol } = source;
+    this.shiftCells(() =>
+      sheet.matrix.moveBlock(startRow, startCol, endRow, endCol, targetRow, targetCol)
+    );
+    this.formulaManager.handleMove({ sheet: sheet.name, ...source }, targetRow, targetCol);
+  }
+
+  /**
+   * Пересчет формул, помеченных после изменения ячеек
+   */
+  recalculate(): number {
+    return this.formulaManager.recalculate();
+  }
+
+  /**
+   * Определение имени книги; ссылки без имени листа относятся к активному листу
+   */
+  defineName(name: string, refersTo: string): void {
+    this.formulaManager.defineName(name, refersTo, this.getActiveSheet().name);
+  }
+
+  /**
+   * Удаление имени книги
+   */
+  removeName(name: string): void {
+    this.formulaManager.removeName(name);
+  }
+
+  /**
+   * Определенные имена книги для сохранения
+   */
+  getNames(): Array<{ name: string; refersTo: string }> {
+    return this.formulaManager.getNames().map(({ name, refersTo }) => ({ name, refersTo }));
+  }
+
+  /**
+   * Установка локали разбора введенных дат ("ru-RU" - 19.10.2026, "en-US" - 10/19/2026)
+   */
+  setDateLocale(locale: string): void {
+    if (!DateSerial.isSupportedLocale(locale)) {
+      throw new Error(`Неподдерживаемая локаль: ${locale}`);
+    }
+
+    this.dateLocale = locale;
+    this.formulaManager.invalidateAll();
+    console.log(`📅 Локаль дат: ${locale}`);
+  }
+
+  /**
+   * Локаль разбора введенных дат
+   */
+  getDateLocale(): string {
+    return this.dateLocale;
+  }
+
+  /**
+   * Получение значения ячейки для формул
+   */
+  getCellValue(row: number, col: number, sheetName?: string): CellValue {
+    const sheet = sheetName === undefined ? this.getActiveSheet() : this.getSheet(sheetName);
+    if (!sheet) {
+      return { value: '#REF!', type: 'error' };
+    }
+
+    const value = sheet.matrix.getCell(row, col);
+
+    // В пустой ячейке может быть значение, перенесенное формулой динамического массива
+    if (value === null || value === undefined) {
+      return (
+        this.formulaManager.getSpillValue(row, col, sheet.name) ?? { value: null, type: 'empty' }
+      );
+    }
+
+    // Формулы регистрируются в менеджере при изменении ячейки; не зарегистрирована -
+    // формулу не удалось разобрать
+    if (typeof value === 'string' && value.startsWith('=')) {
+      return this.formulaManager.getFormula(row, col, sheet.name) === value
+        ? this.formulaManager.evaluateFormula(row, col, sheet.name)
+        : this.getFormulaError(value);
+    }
+
+    if (typeof value === 'number') {
+      return { value, type: 'number' };
+    }
+
+    if (typeof value === 'boolean') {
+      return { value, type: 'boolean' };
+    }
+
+    if (typeof value === 'string') {
+      // Коды ошибок, введенные как текст (#N/A и т.п.)
+      const upperValue = value.toUpperCase();
+      if (FormulaError.isErrorCode(upperValue)) {
+        return { value: upperValue, type: 'error' };
+      }
+
+      // Логические значения, введенные как текст
+      if (upperValue === 'TRUE' || upperValue === 'FALSE') {
+        return { value: upperValue === 'TRUE', type: 'boolean' };
+      }
+
+      // Даты и время в формате локали книги хранятся как серийные номера
+      const date = DateSerial.parse(value, this.dateLocale);
+      if (date !== null) {
+        return { value: date.serial, type: 'number', format: date.kind };
+      }
+
+      // Проверяем, является ли строка числом целиком ("10/26/2026" - не число 10)
+      const numValue = value.trim() === '' ? NaN : Number(value);
+      if (!isNaN(numValue) && isFinite(numValue)) {
+        return { value: numValue, type: 'number' };
+      }
+
+      return { value, type: 'string' };
+    }
+
+    return { value: null, type: 'empty' };
+  }
+
+  /**
+   * Получение диапазона ячеек для формул
+   */
+  getCellRange(
+    startRow: number,
+    startCol: number,
+    endRow: number,
+    endCol: number,
+    sheetName?: string
+  ): CellValue[] {
+    const values: CellValue[] = [];
+
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        values.push(this.getCellValue(row, col, sheetName));
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Значения только заполненных ячеек диапазона (для A:A, 1:1, A2:A)
+   */
+  getPopulatedCells(
+    startRow: number,
+    startCol: number,
+    endRow: number,
+    endCol: number,
+    sheetName?: string
+  ): CellValue[] {
+    const sheet = sheetName === undefined ? this.getActiveSheet() : this.getSheet(sheetName);
+    if (!sheet) {
+      return [{ value: '#REF!', type: 'error' }];
+    }
+
+    return sheet.matrix
+      .getCellsInRange(startRow, startCol, endRow, endCol)
+      .map(cell => this.getCellValue(cell.row, cell.col, sheet.name));
+  }
+
+  /**
+   * Границы заполненной области листа (для выравнивания A:A и B:B в SUMIF)
+   */
+  getUsedBounds(sheetName?: string): { lastRow: number; lastCol: number } | null {
+    const sheet = sheetName === undefined ? this.getActiveSheet() : this.getSheet(sheetName);
+    return sheet ? sheet.matrix.getUsedBounds() : null;
+  }
+
+  /**
+   * Область переноса массива формулы ячейки (для ссылки A1#)
+   */
+  getSpillArea(row: number, col: number, sheetName?: string): SpillRange | null {
+    const sheet = sheetName === undefined ? this.getActiveSheet() : this.getSheet(sheetName);
+    if (!sheet) {
+      return null;
+    }
+
+    // Формула ячейки регистрируется и вычисляется при первом обращении
+    this.getCellValue(row, col, sheet.name);
+    return this.formulaManager.getSpillArea(row, col, sheet.name);
+  }
+
+  /**
+   * Проверка, что ячейка не заполнена (для области переноса массива)
+   */
+  isBlank(row: number, col: number, sheetName?: string): boolean {
+    const sheet = sheetName === undefined ? this.getActiveSheet() : this.getSheet(sheetName);
+    const value = sheet?.matrix.getCell(row, col);
+    return value === null || value === undefined;
+  }
+
+  /**
+   * Листы 3D-диапазона в порядке книги (крайние листы можно указывать в любом порядке)
+   */
+  getSheetSpan(startSheet: string, endSheet: string): string[] | null {
+    const startIndex = this.getSheetIndex(startSheet);
+    const endIndex = this.getSheetIndex(endSheet);
+    if (startIndex === -1 || endIndex === -1) {
+      return null;
+    }
+
+    const from = Math.min(startIndex, endIndex);
+    const to = Math.max(startIndex, endIndex);
+    return this.sheets.slice(from, to + 1).map(sheet => sheet.name);
+  }
+
+  /**
+   * Ошибка разбора формулы, которая не зарегистрирована в менеджере
+   */
+  private getFormulaError(formula: string): CellValue {
+    try {
+      this.parser.parse(formula);
+    } catch (error) {
+      return { value: FormulaError.toErrorCode(error), type: 'error' };
+    }
+    return { value: '#VALUE!', type: 'error' };
+  }
+
+  /**
+   * Обработка изменения ячейки листа - формула ячейки заменяется в менеджере,
+   * зависимые формулы помечаются для пересчета
+   */
+  private handleCellChange(
+    sheet: Sheet,
+    change: { row: number; col: number } | null,
+    isShift = false
+  ): void {
+    this.changeObserver?.(sheet.name, change);
+
+    if (!change) {
+      // Сдвинутые формулы переносит обработка структурной операции в менеджере
+      if (!isShift) {
+        this.syncSheetFormulas(sheet);
+      }
+      if (!this.isShiftingCells) {
+        this.formulaManager.invalidateAll();
+      }
+      return;
+    }
+
+    this.updateCellFormula(sheet, change.row, change.col);
+  }
+
+  /**
+   * Замена формулы ячейки в менеджере по содержимому листа; формула с ошибкой разбора
+   * не регистрируется - ошибка возвращается при чтении ячейки
+   */
+  private updateCellFormula(sheet: Sheet, row: number, col: number): void {
+    const value = sheet.matrix.getCell(row, col);
+    const formula =
+      this.isTrackingFormulas && typeof value === 'string' && value.startsWith('=') ? value : null;
+    const current = this.formulaManager.getFormula(row, col, sheet.name);
+
+    if (formula !== null && formula !== current) {
+      try {
+        this.formulaManager.setFormula(row, col, formula, sheet.name);
+        return;
+      } catch (error) {
+        // Прежняя формула удаляется ниже
+      }
+    }
+
+    if (current !== null && formula !== current) {
+      this.formulaManager.removeFormula(row, col, sheet.name);
+    } else {
+      this.formulaManager.invalidateCell(row, col, sheet.name);
+    }
+  }
+
+  /**
+   * Замена формул листа в менеджере после изменения всего листа (очистка, загрузка)
+   */
+  private syncSheetFormulas(sheet: Sheet): void {
+    const sheetKey = FormulaUtils.normalizeSheetName(sheet.name);
+    for (const cell of this.formulaManager.getFormulaCells()) {
+      if (FormulaUtils.normalizeSheetName(cell.sheet) === sheetKey) {
+        this.updateCellFormula(sheet, cell.row, cell.col);
+      }
+    }
+    for (const { row, col } of sheet.matrix.getAllCells()) {
+      this.updateCellFormula(sheet, row, col);
+    }
+  }
+
+  /**
+   * Перемещение ячеек листа без пометки всех формул для пересчета
+   */
+  private shiftCells(move: () => void): void {
+    this.isShiftingCells = true;
+    try {
+      move();
+    } finally {
+      this.isShiftingCells = false;
+    }
+  }
+
+  /**
+   * Индекс листа по имени
+   */
+  private getSheetIndex(name: string): number {
+    const key = FormulaUtils.normalizeSheetName(name);
+    return this.sheets.findIndex(sheet => FormulaUtils.normalizeSheetName(sheet.name) === key);
+  }
+
+  /**
+   * Генерация имени нового листа
+   */
+  private generateSheetName(): string {
+    let index = this.sheets.length + 1;
+    while (this.getSheet(`Sheet${index}`)) {
+      index++;
+    }
+    return `Sheet${index}`;
+  }
+
+  /**
+   * Проверка допустимости имени листа
+   */
+  private validateSheetName(name: string, ignoredSheet?: Sheet): void {
+    if (name.trim().length === 0) {
+      throw new Error('Имя листа не может быть пустым');
+    }
+    if (name.length > MAX_SHEET_NAME_LENGTH) {
+      throw new Error(`Имя листа длиннее ${MAX_SHEET_NAME_LENGTH} символов: ${name}`);
+    }
+    if (INVALID_SHEET_NAME_PATTERN.test(name)) {
+      throw new Error(`Имя листа содержит недопустимые символы: ${name}`);
+    }
+    if (name.startsWith("'") || name.endsWith("'")) {
+      throw new Error(`Имя листа не может начинаться или заканчиваться апострофом: ${name}`);
+    }
+
+    const existing = this.getSheet(name);
+    if (existing && existing !== ignoredSheet) {
+      throw new Error(`Лист с именем ${name} уже существует`);
+    }
+  }
+}
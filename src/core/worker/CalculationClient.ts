@@ -0,0 +1,576 @@
+/**
+ * Клиент потока вычислений - синхронизация книги с Web Worker и кэш значений формул
+ */
+
+import { Workbook } from '../workbook/Workbook.js';
+import { CellValue } from '../formulas/FormulaEngine.js';
+import { AxisShift, FormulaUtils } from '../formulas/FormulaAST.js';
+import {
+  CellPosition,
+  IterativeCalculationOptions,
+  RewrittenFormula,
+} from '../formulas/FormulaManager.js';
+import { CalculationService } from './CalculationService.js';
+import { CellRelocation, CellRelocator } from './CellRelocation.js';
+import {
+  CalculationRequest,
+  CalculationResponse,
+  CellValueChange,
+  SheetSnapshot,
+  StructuralOperation,
+} from './CalculationProtocol.js';
+
+/**
+ * Канал сообщений (Web Worker или его замена в том же потоке)
+ */
+export interface CalculationTransport {
+  postMessage(message: CalculationRequest): void;
+  onmessage: ((event: MessageEvent<CalculationResponse>) => void) | null;
+}
+
+export type RecalculatedListener = (changes: CellValueChange[], reset: boolean) => void;
+
+/**
+ * Вычисления в главном потоке, асинхронно - если Web Worker недоступен
+ */
+export class LocalCalculationTransport implements CalculationTransport {
+  onmessage: ((event: MessageEvent<CalculationResponse>) => void) | null = null;
+  private service: CalculationService;
+
+  constructor() {
+    this.service = new CalculationService(response => {
+      const data = structuredClone(response);
+      setTimeout(() => this.onmessage?.({ data } as MessageEvent<CalculationResponse>), 0);
+    });
+  }
+
+  postMessage(message: CalculationRequest): void {
+    // Копия, как при передаче в Worker: изменения объекта после отправки не влияют на сервис
+    const copy = structuredClone(message);
+    setTimeout(() => this.service.handle(copy), 0);
+  }
+}
+
+export class CalculationClient {
+  private transport: CalculationTransport;
+  private workbook: Workbook | null = null;
+  private values: Map<string, CellValue> = new Map(); // "ЛИСТ!row:col" -> значение формулы
+  // Ячейка области переноса -> ячейка формулы и индекс значения в ее массиве
+  private spillCells: Map<string, { anchorKey: string; index: number }> = new Map();
+  private listeners: RecalculatedListener[] = [];
+  private pendingRequests: Map<number, (changes: CellValueChange[]) => void> = new Map();
+  private pendingShifts: Map<number, (formulas: RewrittenFormula[]) => void> = new Map();
+  private nextRequestId = 1;
+  private isApplyingUpdates = false;
+  private changedSheets: Set<string> = new Set(); // Листы, целиком измененные в главном потоке
+  private shiftedSheets: Set<string> = new Set(); // Листы, для которых отправлен структурный сдвиг
+  private isSheetSyncScheduled = false;
+  private sentRequests = 0;
+  // Переносы ячеек по номерам отправленных сообщений - пока поток вычислений их не обработал
+  private relocations: Array<{ request: number; relocate: CellRelocator }> = [];
+
+  /**
+   * @param functionModules URL модулей пользовательских функций (FunctionModule) - поток
+   * вычислений загружает их до снимка книги
+   */
+  constructor(transport: CalculationTransport, functionModules: string[] = []) {
+    this.transport = transport;
+    this.transport.onmessage = event => this.handleResponse(event.data);
+    if (functionModules.length > 0) {
+      this.send({ type: 'loadFunctions', modules: functionModules });
+    }
+    console.log('🧵 CalculationClient инициализирован');
+  }
+
+  /**
+   * Клиент с Web Worker (или с вычислениями в главном потоке, если Worker недоступен)
+   * @param functionModules URL модулей пользовательских функций
+   */
+  static create(functionModules: string[] = []): CalculationClient {
+    if (typeof Worker !== 'undefined') {
+      try {
+        const worker = new Worker(new URL('./CalculationWorker.ts', import.meta.url), {
+          type: 'module',
+        });
+        return new CalculationClient(worker, functionModules);
+      } catch (error) {
+        console.warn('⚠️ Web Worker недоступен, формулы вычисляются в главном потоке:', error);
+      }
+    }
+    return new CalculationClient(new LocalCalculationTransport(), functionModules);
+  }
+
+  /**
+   * Подключение книги: отправка снимка и подписка на изменения ячеек
+   */
+  connect(workbook: Workbook): void {
+    this.workbook?.setChangeObserver(null);
+    this.workbook?.setFormulaTracking(true);
+    this.workbook = workbook;
+    this.values.clear();
+    this.spillCells.clear();
+
+    // Формулы вычисляет поток вычислений
+    workbook.setFormulaTracking(false);
+    workbook.setChangeObserver((sheet, change) => this.handleCellChange(sheet, change));
+
+    this.send({
+      type: 'load',
+      sheets: workbook.getSheets().map(sheet => this.createSnapshot(sheet.name)),
+      names: workbook.getNames(),
+      iterativeCalculation: workbook.getFormulaManager().getIterativeCalculation(),
+      dateLocale: workbook.getDateLocale(),
+    });
+  }
+
+  /**
+   * Значение формулы из кэша (null - значение еще не вычислено)
+   */
+  getCellValue(row: number, col: number, sheet: string): CellValue | null {
+    const value = this.values.get(this.getCellKey(sheet, row, col));
+    // Формула динамического массива показывает его первый элемент
+    return Array.isArray(value?.value) ? value.value[0] : (value ?? null);
+  }
+
+  /**
+   * Значение, перенесенное в ячейку формулой динамического массива (null - ячейка вне областей переноса)
+   */
+  getSpillValue(row: number, col: number, sheet: string): CellValue | null {
+    const spillCell = this.spillCells.get(this.getCellKey(sheet, row, col));
+    const anchor = spillCell ? this.values.get(spillCell.anchorKey) : undefined;
+    return Array.isArray(anchor?.value) ? (anchor.value[spillCell!.index] ?? null) : null;
+  }
+
+  /**
+   * Подписка на завершение пересчета
+   */
+  onRecalculated(listener: RecalculatedListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Явный пересчет; промис разрешается, когда поток вычислений обработал все изменения
+   */
+  recalculate(): Promise<CellValueChange[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise(resolve => {
+      this.pendingRequests.set(requestId, resolve);
+      this.send({ type: 'recalculate', requestId });
+    });
+  }
+
+  /**
+   * Запись формулы в ячейку потока вычислений
+   */
+  setFormula(sheet: string, row: number, col: number, formula: string): void {
+    this.send({ type: 'setFormula', sheet, row, col, formula });
+  }
+
+  /**
+   * Вставка count строк перед строкой index
+   */
+  insertRows(sheet: string, index: number, count: number): void {
+    this.sendStructural(sheet, 'insertRows', index, count);
+  }
+
+  /**
+   * Удаление count строк, начиная со строки index
+   */
+  deleteRows(sheet: string, index: number, count: number): void {
+    this.sendStructural(sheet, 'deleteRows', index, count);
+  }
+
+  /**
+   * Вставка count столбцов перед столбцом index
+   */
+  insertColumns(sheet: string, index: number, count: number): void {
+    this.sendStructural(sheet, 'insertColumns', index, count);
+  }
+
+  /**
+   * Удаление count столбцов, начиная со столбца index
+   */
+  deleteColumns(sheet: string, index: number, count: number): void {
+    this.sendStructural(sheet, 'deleteColumns', index, count);
+  }
+
+  /**
+   * Перенос строк или столбцов; ячейки листа уже перенесены
+   */
+  moveLines(
+    sheet: string,
+    axis: 'rows' | 'columns',
+    index: number,
+    count: number,
+    target: number
+  ): Promise<RewrittenFormula[]> {
+    this.shiftedSheets.add(sheet);
+    this.scheduleSheetSync();
+    return this.sendShift(requestId => ({
+      type: 'structuralMove',
+      sheet,
+      axis,
+      index,
+      count,
+      target,
+      requestId,
+    }));
+  }
+
+  /**
+   * Вставка, удаление или перенос строк (столбцов) по описанию сдвига; ячейки листа уже изменены.
+   * Промис разрешается формулами, которые переписал сдвиг, - их прежними положением и текстом
+   */
+  shiftLines(
+    sheet: string,
+    axis: 'rows' | 'columns',
+    shift: AxisShift
+  ): Promise<RewrittenFormula[]> {
+    const isRows = axis === 'rows';
+    switch (shift.type) {
+      case 'insert':
+        return this.sendStructural(
+          sheet,
+          isRows ? 'insertRows' : 'insertColumns',
+          shift.at,
+          shift.count
+        );
+      case 'delete':
+        return this.sendStructural(
+          sheet,
+          isRows ? 'deleteRows' : 'deleteColumns',
+          shift.at,
+          shift.count
+        );
+      case 'move':
+        return this.moveLines(sheet, axis, shift.at, shift.count, shift.to);
+    }
+  }
+
+  /**
+   * Перемещение блока ячеек (вырезание и вставка); ячейки листа уже перемещены
+   */
+  moveCells(
+    sheet: string,
+    source: { startRow: number; startCol: number; endRow: number; endCol: number },
+    targetRow: number,
+    targetCol: number
+  ): void {
+    this.shiftedSheets.add(sheet);
+    this.scheduleSheetSync();
+    this.send({ type: 'moveCells', sheet, source, targetRow, targetCol });
+  }
+
+  /**
+   * Добавление листа
+   */
+  addSheet(name: string): void {
+    this.send({ type: 'addSheet', name });
+  }
+
+  /**
+   * Переименование листа
+   */
+  renameSheet(oldName: string, newName: string): void {
+    this.send({ type: 'renameSheet', oldName, newName });
+  }
+
+  /**
+   * Удаление листа
+   */
+  deleteSheet(name: string): void {
+    this.send({ type: 'deleteSheet', name });
+  }
+
+  /**
+   * Перемещение листа
+   */
+  moveSheet(name: string, index: number): void {
+    this.send({ type: 'moveSheet', name, index });
+  }
+
+  /**
+   * Определение имени (ссылки без имени листа относятся к sheet)
+   */
+  defineName(name: string, refersTo: string, sheet?: string): void {
+    this.send({ type: 'defineName', name, refersTo, ...(sheet !== undefined ? { sheet } : {}) });
+  }
+
+  /**
+   * Удаление имени
+   */
+  removeName(name: string): void {
+    this.send({ type: 'removeName', name });
+  }
+
+  /**
+   * Настройка итеративного вычисления
+   */
+  setIterativeCalculation(options: Partial<IterativeCalculationOptions>): void {
+    this.send({ type: 'setIterativeCalculation', options });
+  }
+
+  /**
+   * Локаль разбора введенных дат
+   */
+  setDateLocale(locale: string): void {
+    this.send({ type: 'setDateLocale', locale });
+  }
+
+  /**
+   * Обработка сообщения потока вычислений
+   */
+  private handleResponse(response: CalculationResponse): void {
+    switch (response.type) {
+      case 'formulasUpdated': {
+        const translate = this.createTranslator(response.handledRequests);
+
+        // Формулы, переписанные потоком вычислений, не отправляются обратно
+        this.isApplyingUpdates = true;
+        try {
+          for (const { formula, ...position } of response.updates) {
+            const cell = translate(position);
+            if (cell) {
+              this.workbook?.getSheet(cell.sheet)?.matrix.setCell(cell.row, cell.col, formula);
+            }
+          }
+        } finally {
+          this.isApplyingUpdates = false;
+        }
+        break;
+      }
+
+      case 'linesShifted':
+        this.pendingShifts.get(response.requestId)?.(response.formulas);
+        this.pendingShifts.delete(response.requestId);
+        break;
+
+      case 'recalculated': {
+        const translate = this.createTranslator(response.handledRequests);
+        const changes = response.changes.flatMap(({ value, ...position }) => {
+          const cell = translate(position);
+          return cell ? [{ ...cell, value }] : [];
+        });
+
+        if (response.reset) {
+          this.values.clear();
+          this.spillCells.clear();
+        }
+        for (const { sheet, row, col, value } of changes) {
+          this.setValue(sheet, row, col, value);
+        }
+
+        this.listeners.forEach(listener => listener(changes, response.reset));
+
+        if (response.requestId !== undefined) {
+          this.pendingRequests.get(response.requestId)?.(changes);
+          this.pendingRequests.delete(response.requestId);
+        }
+        break;
+      }
+
+      case 'error':
+        console.error(`❌ Ошибка потока вычислений (${response.request}): ${response.message}`);
+        break;
+    }
+  }
+
+  /**
+   * Положение ячейки из ответа потока вычислений в текущих координатах главного потока:
+   * применяются переносы из сообщений, отправленных после handledRequests обработанных
+   */
+  private createTranslator(
+    handledRequests: number
+  ): (position: CellPosition) => CellPosition | null {
+    this.relocations = this.relocations.filter(({ request }) => request > handledRequests);
+    const relocations = this.relocations.map(({ relocate }) => relocate);
+
+    return position =>
+      relocations.reduce<CellPosition | null>(
+        (moved, relocate) => (moved ? relocate(moved) : null),
+        position
+      );
+  }
+
+  /**
+   * Перенос кэша значений формул вместе с ячейками листа (так же переносит
+   * известные ему значения поток вычислений)
+   */
+  private relocateValues(relocate: CellRelocator): void {
+    const relocated = CellRelocation.relocateValues(this.values, relocate);
+
+    this.values.clear();
+    this.spillCells.clear();
+    for (const [{ sheet, row, col }, value] of relocated) {
+      this.setValue(sheet, row, col, value);
+    }
+  }
+
+  /**
+   * Замена значения формулы в кэше (null - удаление) вместе с областью переноса ее массива
+   */
+  private setValue(sheet: string, row: number, col: number, value: CellValue | null): void {
+    const cellKey = this.getCellKey(sheet, row, col);
+    const previous = this.values.get(cellKey);
+
+    this.forEachSpillCell(sheet, row, col, previous, spillKey => {
+      if (this.spillCells.get(spillKey)?.anchorKey === cellKey) {
+        this.spillCells.delete(spillKey);
+      }
+    });
+
+    if (value === null) {
+      this.values.delete(cellKey);
+      return;
+    }
+
+    this.values.set(cellKey, value);
+    this.forEachSpillCell(sheet, row, col, value, (spillKey, index) =>
+      this.spillCells.set(spillKey, { anchorKey: cellKey, index })
+    );
+  }
+
+  /**
+   * Обход ячеек области переноса массива (кроме ячейки формулы)
+   */
+  private forEachSpillCell(
+    sheet: string,
+    row: number,
+    col: number,
+    value: CellValue | undefined,
+    callback: (spillKey: string, index: number) => void
+  ): void {
+    if (!value || !Array.isArray(value.value)) {
+      return;
+    }
+
+    const cols = value.cols ?? 1;
+    const rows = value.rows ?? value.value.length;
+    for (let rowOffset = 0; rowOffset < rows; rowOffset++) {
+      for (let colOffset = 0; colOffset < cols; colOffset++) {
+        if (rowOffset !== 0 || colOffset !== 0) {
+          const spillKey = this.getCellKey(sheet, row + rowOffset, col + colOffset);
+          callback(spillKey, rowOffset * cols + colOffset);
+        }
+      }
+    }
+  }
+
+  /**
+   * Пересылка изменения ячейки книги в поток вычислений
+   */
+  private handleCellChange(sheet: string, change: { row: number; col: number } | null): void {
+    if (this.isApplyingUpdates) {
+      return;
+    }
+
+    // Лист изменился целиком (вставка строки, отмена, очистка) - после текущей операции
+    // отправляется снимок, если для листа не был отправлен структурный сдвиг
+    if (!change) {
+      this.changedSheets.add(sheet);
+      this.scheduleSheetSync();
+      return;
+    }
+
+    const value = this.workbook?.getSheet(sheet)?.matrix.getCell(change.row, change.col) ?? null;
+    if (!(typeof value === 'string' && value.startsWith('='))) {
+      this.setValue(sheet, change.row, change.col, null);
+    }
+
+    this.send({ type: 'setCell', sheet, row: change.row, col: change.col, value });
+  }
+
+  /**
+   * Планирование синхронизации листов после завершения текущей операции
+   */
+  private scheduleSheetSync(): void {
+    if (!this.isSheetSyncScheduled) {
+      this.isSheetSyncScheduled = true;
+      queueMicrotask(() => this.sendChangedSheets());
+    }
+  }
+
+  /**
+   * Отправка снимков листов, измененных целиком
+   */
+  private sendChangedSheets(): void {
+    this.isSheetSyncScheduled = false;
+    const shifted = new Set(Array.from(this.shiftedSheets, FormulaUtils.normalizeSheetName));
+
+    for (const sheet of this.changedSheets) {
+      if (!shifted.has(FormulaUtils.normalizeSheetName(sheet)) && this.workbook?.getSheet(sheet)) {
+        this.send({ type: 'replaceSheet', sheet: this.createSnapshot(sheet) });
+      }
+    }
+
+    this.changedSheets.clear();
+    this.shiftedSheets.clear();
+  }
+
+  /**
+   * Отправка вставки/удаления строк или столбцов
+   */
+  private sendStructural(
+    sheet: string,
+    operation: StructuralOperation,
+    index: number,
+    count: number
+  ): Promise<RewrittenFormula[]> {
+    this.shiftedSheets.add(sheet);
+    this.scheduleSheetSync();
+    return this.sendShift(requestId => ({
+      type: 'structural',
+      sheet,
+      operation,
+      index,
+      count,
+      requestId,
+    }));
+  }
+
+  /**
+   * Отправка структурной операции; промис разрешается ответом linesShifted
+   */
+  private sendShift(
+    createRequest: (requestId: number) => CalculationRequest
+  ): Promise<RewrittenFormula[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise(resolve => {
+      this.pendingShifts.set(requestId, resolve);
+      this.send(createRequest(requestId));
+    });
+  }
+
+  /**
+   * Снимок ячеек листа
+   */
+  private createSnapshot(name: string): SheetSnapshot {
+    const sheet = this.workbook?.getSheet(name);
+    return { name, cells: sheet ? sheet.matrix.getAllCells() : [] };
+  }
+
+  /**
+   * Отправка сообщения в поток вычислений
+   */
+  private send(request: CalculationRequest): void {
+    // Снимки измененных листов должны прийти раньше следующих сообщений
+    if (this.isSheetSyncScheduled) {
+      this.sendChangedSheets();
+    }
+    this.transport.postMessage(request);
+    this.sentRequests++;
+
+    const relocate = CellRelocation.fromRequest(request);
+    if (relocate) {
+      this.relocations.push({ request: this.sentRequests, relocate });
+      this.relocateValues(relocate);
+    }
+  }
+
+  /**
+   * Ключ ячейки (имя листа без учета регистра)
+   */
+  private getCellKey(sheet: string, row: number, col: number): string {
+    return `${FormulaUtils.normalizeSheetName(sheet)}!${row}:${col}`;
+  }
+}
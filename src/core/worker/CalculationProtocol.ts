@@ -0,0 +1,97 @@
+/**
+ * Протокол обмена сообщениями между главным потоком и потоком вычислений формул
+ */
+
+import { CellValue } from '../formulas/FormulaEngine.js';
+import { IterativeCalculationOptions, RewrittenFormula } from '../formulas/FormulaManager.js';
+
+// Значение ячейки в том виде, как оно хранится в SparseMatrix
+export type RawCellValue = string | number | boolean | null;
+
+export interface SheetSnapshot {
+  name: string;
+  cells: Array<{ row: number; col: number; value: RawCellValue }>;
+}
+
+export type StructuralOperation = 'insertRows' | 'deleteRows' | 'insertColumns' | 'deleteColumns';
+
+/**
+ * Сообщения главного потока
+ */
+export type CalculationRequest =
+  // Модули пользовательских функций (FunctionModule) - загружаются до следующих сообщений
+  | { type: 'loadFunctions'; modules: string[] }
+  | {
+      type: 'load';
+      sheets: SheetSnapshot[];
+      names: Array<{ name: string; refersTo: string }>;
+      iterativeCalculation: IterativeCalculationOptions;
+      dateLocale: string;
+    }
+  | { type: 'replaceSheet'; sheet: SheetSnapshot }
+  | { type: 'setCell'; sheet: string; row: number; col: number; value: RawCellValue }
+  | { type: 'setFormula'; sheet: string; row: number; col: number; formula: string }
+  | {
+      type: 'structural';
+      sheet: string;
+      operation: StructuralOperation;
+      index: number;
+      count: number;
+      requestId: number; // Ответ linesShifted с тем же номером
+    }
+  | {
+      type: 'structuralMove';
+      sheet: string;
+      axis: 'rows' | 'columns';
+      index: number;
+      count: number;
+      target: number; // Строка (столбец), перед которой вставляется перенесенный блок
+      requestId: number;
+    }
+  | {
+      type: 'moveCells';
+      sheet: string;
+      source: { startRow: number; startCol: number; endRow: number; endCol: number };
+      targetRow: number;
+      targetCol: number;
+    }
+  | { type: 'addSheet'; name: string }
+  | { type: 'renameSheet'; oldName: string; newName: string }
+  | { type: 'deleteSheet'; name: string }
+  | { type: 'moveSheet'; name: string; index: number }
+  | { type: 'defineName'; name: string; refersTo: string; sheet?: string }
+  | { type: 'removeName'; name: string }
+  | { type: 'setIterativeCalculation'; options: Partial<IterativeCalculationOptions> }
+  | { type: 'setDateLocale'; locale: string }
+  | { type: 'recalculate'; requestId: number };
+
+export interface CellValueChange {
+  sheet: string;
+  row: number;
+  col: number;
+  value: CellValue; // Формула динамического массива - массив с формой, перенесенный вправо и вниз
+}
+
+export interface FormulaUpdate {
+  sheet: string;
+  row: number;
+  col: number;
+  formula: string;
+}
+
+/**
+ * Сообщения потока вычислений
+ */
+export type CalculationResponse =
+  | {
+      type: 'recalculated';
+      changes: CellValueChange[];
+      reset: boolean; // true - changes содержит значения всех формул, старый кэш устарел
+      duration: number;
+      handledRequests: number; // Положения ячеек - после стольких сообщений главного потока
+      requestId?: number;
+    }
+  | { type: 'formulasUpdated'; updates: FormulaUpdate[]; handledRequests: number }
+  // Формулы, переписанные структурной операцией: прежние положение и текст (для отмены)
+  | { type: 'linesShifted'; requestId: number; formulas: RewrittenFormula[] }
+  | { type: 'error'; request: CalculationRequest['type']; message: string };
@@ -0,0 +1,447 @@
+/**
+ * Сервис вычислений - книга с формулами на стороне потока вычислений
+ */
+
+import { Workbook, Sheet } from '../workbook/Workbook.js';
+import { CellValue } from '../formulas/FormulaEngine.js';
+import { FormulaUtils } from '../formulas/FormulaAST.js';
+import { CellPosition } from '../formulas/FormulaManager.js';
+import { registerFunction } from '../formulas/functions/index.js';
+import {
+  CalculationRequest,
+  CalculationResponse,
+  CellValueChange,
+  FormulaUpdate,
+  RawCellValue,
+  SheetSnapshot,
+} from './CalculationProtocol.js';
+import { CellRelocation, CellRelocator, STRUCTURAL_SHIFTS } from './CellRelocation.js';
+
+/**
+ * Модуль пользовательских функций: экспорт по умолчанию регистрирует функции
+ * в реестре потока вычислений (регистрация в главном потоке формулам Worker не видна)
+ */
+export interface FunctionModule {
+  default: (register: typeof registerFunction) => void;
+}
+
+// Сообщения, при обработке которых менеджер формул сам пересчитывает затронутые формулы
+const RECALCULATING_REQUESTS: ReadonlySet<CalculationRequest['type']> = new Set([
+  'structural',
+  'structuralMove',
+  'moveCells',
+  'renameSheet',
+  'deleteSheet',
+  'moveSheet',
+  'defineName',
+  'removeName',
+  'setIterativeCalculation',
+]);
+
+export class CalculationService {
+  private workbook: Workbook = new Workbook();
+  private post: (response: CalculationResponse) => void;
+  private changedCells: Map<string, CellPosition> = new Map(); // Ячейки, измененные главным потоком
+  private reportedValues: Map<string, CellValue> = new Map(); // Значения, известные главному потоку
+  private formulaUpdates: Map<string, FormulaUpdate> = new Map(); // Переписанные формулы по ячейкам
+  private isApplyingCell = false;
+  private needsReset = false;
+  private handledRequests = 0;
+  private isFlushScheduled = false;
+  private queuedRequests: CalculationRequest[] | null = null; // Сообщения, ждущие загрузки модулей
+
+  constructor(post: (response: CalculationResponse) => void) {
+    this.post = post;
+    this.connectWorkbook();
+    console.log('🧵 CalculationService инициализирован');
+  }
+
+  /**
+   * Обработка сообщения главного потока
+   */
+  handle(request: CalculationRequest): void {
+    if (this.queuedRequests) {
+      this.queuedRequests.push(request);
+      return;
+    }
+    if (request.type === 'loadFunctions') {
+      this.handledRequests++;
+      this.loadFunctions(request.modules);
+      return;
+    }
+    this.handledRequests++;
+
+    try {
+      this.apply(request);
+    } catch (error) {
+      console.error(`❌ Ошибка обработки ${request.type}:`, error);
+      this.post({
+        type: 'error',
+        request: request.type,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (request.type === 'recalculate') {
+      this.flush(request.requestId);
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Применение изменения к книге; значения формул, перенесенные вместе с ячейками,
+   * главный поток переносит у себя сам - сообщаются только пересчитанные
+   */
+  private apply(request: CalculationRequest): void {
+    const formulaManager = this.workbook.getFormulaManager();
+
+    // Ячейки переносятся до операции: формулы, переписанные ею, уже на новых местах
+    const relocate = CellRelocation.fromRequest(request);
+    if (relocate) {
+      this.relocateCells(relocate);
+    }
+
+    switch (request.type) {
+      case 'load':
+        this.workbook = new Workbook();
+        this.connectWorkbook();
+        this.formulaUpdates.clear();
+        this.changedCells.clear();
+        request.sheets.forEach((snapshot, index) => {
+          // Первый лист уже создан в новой книге - переименовываем его
+          const firstSheet = this.workbook.getActiveSheet();
+          if (index > 0) {
+            this.workbook.addSheet(snapshot.name);
+          } else if (firstSheet.name !== snapshot.name) {
+            this.workbook.renameSheet(firstSheet.name, snapshot.name);
+          }
+          this.loadSheet(snapshot);
+        });
+        for (const { name, refersTo } of request.names) {
+          this.workbook.getFormulaManager().defineName(name, refersTo);
+        }
+        this.workbook.getFormulaManager().setIterativeCalculation(request.iterativeCalculation);
+        this.workbook.setDateLocale(request.dateLocale);
+        this.needsReset = true;
+        break;
+
+      case 'replaceSheet':
+        this.loadSheet(request.sheet);
+        this.needsReset = true;
+        break;
+
+      case 'setCell':
+        this.setCell(request.sheet, request.row, request.col, request.value);
+        break;
+
+      case 'setFormula':
+        this.setCell(request.sheet, request.row, request.col, request.formula);
+        break;
+
+      case 'structural': {
+        const { axis, type } = STRUCTURAL_SHIFTS[request.operation];
+        const formulas = this.workbook.shiftLines(request.sheet, axis, {
+          type,
+          at: request.index,
+          count: request.count,
+        });
+        this.post({ type: 'linesShifted', requestId: request.requestId, formulas });
+        break;
+      }
+
+      case 'structuralMove': {
+        const { index, count, target } = request;
+        const formulas = this.workbook.shiftLines(request.sheet, request.axis, {
+          type: 'move',
+          at: index,
+          count,
+          to: target,
+        });
+        this.post({ type: 'linesShifted', requestId: request.requestId, formulas });
+        break;
+      }
+
+      case 'moveCells':
+        this.workbook.moveCells(
+          request.sheet,
+          request.source,
+          request.targetRow,
+          request.targetCol
+        );
+        break;
+
+      case 'addSheet':
+        this.workbook.addSheet(request.name);
+        break;
+
+      case 'renameSheet':
+        this.workbook.renameSheet(request.oldName, request.newName);
+        break;
+
+      case 'deleteSheet':
+        this.workbook.deleteSheet(request.name);
+        break;
+
+      case 'moveSheet':
+        this.workbook.moveSheet(request.name, request.index);
+        break;
+
+      case 'defineName':
+        formulaManager.defineName(request.name, request.refersTo, request.sheet);
+        break;
+
+      case 'removeName':
+        formulaManager.removeName(request.name);
+        break;
+
+      case 'setIterativeCalculation':
+        formulaManager.setIterativeCalculation(request.options);
+        break;
+
+      case 'setDateLocale':
+        this.workbook.setDateLocale(request.locale);
+        this.needsReset = true;
+        break;
+
+      case 'recalculate':
+        break;
+    }
+
+    // Следующий recalculate эти формулы уже не вернет
+    if (RECALCULATING_REQUESTS.has(request.type)) {
+      for (const position of formulaManager.getRecalculatedFormulas()) {
+        this.changedCells.set(
+          this.getCellKey(position.sheet, position.row, position.col),
+          position
+        );
+      }
+    }
+  }
+
+  /**
+   * Перенос значений, известных главному потоку, ожидающих пересчета ячеек и переписанных
+   * формул так же, как ячейки переносит главный поток
+   */
+  private relocateCells(relocate: CellRelocator): void {
+    this.reportedValues = new Map(
+      CellRelocation.relocateValues(this.reportedValues, relocate).map(([position, value]) => [
+        this.getCellKey(position.sheet, position.row, position.col),
+        value,
+      ])
+    );
+    this.changedCells = this.relocatePositions(this.changedCells, relocate);
+    this.formulaUpdates = this.relocatePositions(this.formulaUpdates, relocate);
+  }
+
+  /**
+   * Перенос ячеек, хранящих свое положение (имя листа - как в книге)
+   */
+  private relocatePositions<T extends CellPosition>(
+    cells: Map<string, T>,
+    relocate: CellRelocator
+  ): Map<string, T> {
+    const relocated = new Map<string, T>();
+    for (const cell of cells.values()) {
+      const position = relocate({ sheet: cell.sheet, row: cell.row, col: cell.col });
+      if (position) {
+        relocated.set(this.getCellKey(position.sheet, position.row, position.col), {
+          ...cell,
+          ...position,
+        });
+      }
+    }
+    return relocated;
+  }
+
+  /**
+   * Загрузка модулей пользовательских функций; остальные сообщения ждут ее завершения,
+   * чтобы формулы снимка книги сразу вычислялись с этими функциями
+   */
+  private loadFunctions(modules: string[]): void {
+    this.queuedRequests = [];
+
+    Promise.all(
+      modules.map(async url => {
+        try {
+          const module: FunctionModule = await import(/* @vite-ignore */ url);
+          module.default(registerFunction);
+        } catch (error) {
+          console.error(`❌ Ошибка загрузки модуля функций ${url}:`, error);
+          this.post({
+            type: 'error',
+            request: 'loadFunctions',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      })
+    ).then(() => {
+      const queued = this.queuedRequests ?? [];
+      this.queuedRequests = null;
+      console.log(`🧵 Загружено модулей функций: ${modules.length}`);
+      queued.forEach(request => this.handle(request));
+    });
+  }
+
+  /**
+   * Пересчет и отправка измененных значений формул в главный поток
+   */
+  private flush(requestId?: number): void {
+    this.isFlushScheduled = false;
+    const startTime = performance.now();
+    const formulaManager = this.workbook.getFormulaManager();
+
+    // Переписанные формулы (сдвиг ссылок, переименование листа) уходят до значений
+    if (this.formulaUpdates.size > 0) {
+      this.post({
+        type: 'formulasUpdated',
+        updates: Array.from(this.formulaUpdates.values()),
+        handledRequests: this.handledRequests,
+      });
+      this.formulaUpdates.clear();
+    }
+
+    // Волатильные формулы пересчитываются при каждом пересчете и сообщаются как измененные
+    formulaManager.recalculate();
+    const positions = this.needsReset
+      ? formulaManager.getFormulaCells()
+      : [...this.changedCells.values(), ...formulaManager.getRecalculatedFormulas()];
+
+    if (this.needsReset) {
+      this.reportedValues.clear();
+    }
+
+    const changes: CellValueChange[] = [];
+    for (const { sheet, row, col } of positions) {
+      const cellKey = this.getCellKey(sheet, row, col);
+
+      // Значения обычных ячеек главный поток вычисляет сам
+      if (!this.isFormulaCell(sheet, row, col)) {
+        this.reportedValues.delete(cellKey);
+        continue;
+      }
+
+      // Формула динамического массива сообщает массив целиком - вместе с перенесенными значениями
+      const value =
+        formulaManager.getSpillArea(row, col, sheet)?.result ??
+        this.workbook.getCellValue(row, col, sheet);
+      const reported = this.reportedValues.get(cellKey);
+      if (
+        !reported ||
+        reported.type !== value.type ||
+        reported.value !== value.value ||
+        reported.format !== value.format
+      ) {
+        this.reportedValues.set(cellKey, value);
+        changes.push({ sheet, row, col, value });
+      }
+    }
+
+    const duration = performance.now() - startTime;
+    this.post({
+      type: 'recalculated',
+      changes,
+      reset: this.needsReset,
+      duration,
+      handledRequests: this.handledRequests,
+      ...(requestId !== undefined ? { requestId } : {}),
+    });
+
+    this.changedCells.clear();
+    this.needsReset = false;
+    console.log(`🧵 Пересчет: ${changes.length} изменений за ${duration.toFixed(2)}ms`);
+  }
+
+  /**
+   * Отложенный пересчет - сообщения, пришедшие подряд, обрабатываются одним пересчетом
+   */
+  private scheduleFlush(): void {
+    if (this.isFlushScheduled) {
+      return;
+    }
+    this.isFlushScheduled = true;
+    setTimeout(() => {
+      // Пересчет мог уже выполниться по явному запросу
+      if (this.isFlushScheduled) {
+        this.flush();
+      }
+    }, 0);
+  }
+
+  /**
+   * Подписка на изменения книги - формулы, переписанные менеджером, отправляются в главный поток
+   */
+  private connectWorkbook(): void {
+    this.workbook.setChangeObserver((sheet, change) => {
+      if (!change || this.isApplyingCell) {
+        return;
+      }
+
+      const formula = this.getSheet(sheet).matrix.getCell(change.row, change.col);
+      this.formulaUpdates.set(this.getCellKey(sheet, change.row, change.col), {
+        sheet,
+        row: change.row,
+        col: change.col,
+        formula,
+      });
+    });
+  }
+
+  /**
+   * Запись значения ячейки, пришедшего из главного потока
+   */
+  private setCell(sheetName: string, row: number, col: number, value: RawCellValue): void {
+    const sheet = this.getSheet(sheetName);
+
+    this.isApplyingCell = true;
+    try {
+      sheet.matrix.setCell(row, col, value);
+    } finally {
+      this.isApplyingCell = false;
+    }
+
+    // Значение из главного потока заменяет формулу, переписанную до него (отмена удаления строк)
+    const cellKey = this.getCellKey(sheet.name, row, col);
+    this.formulaUpdates.delete(cellKey);
+    this.changedCells.set(cellKey, { sheet: sheet.name, row, col });
+  }
+
+  /**
+   * Замена содержимого листа снимком из главного потока
+   */
+  private loadSheet(snapshot: SheetSnapshot): void {
+    const sheet = this.getSheet(snapshot.name);
+
+    // Формулы листа удаляются из менеджера вместе с ячейками
+    sheet.matrix.clear();
+    for (const cell of snapshot.cells) {
+      this.setCell(sheet.name, cell.row, cell.col, cell.value);
+    }
+  }
+
+  /**
+   * Лист книги по имени; неизвестный лист - ошибка протокола
+   */
+  private getSheet(name: string): Sheet {
+    const sheet = this.workbook.getSheet(name);
+    if (!sheet) {
+      throw new Error(`Лист не найден: ${name}`);
+    }
+    return sheet;
+  }
+
+  /**
+   * Проверка, что в ячейке записана формула
+   */
+  private isFormulaCell(sheet: string, row: number, col: number): boolean {
+    const value = this.workbook.getSheet(sheet)?.matrix.getCell(row, col);
+    return typeof value === 'string' && value.startsWith('=');
+  }
+
+  /**
+   * Ключ ячейки (имя листа без учета регистра)
+   */
+  private getCellKey(sheet: string, row: number, col: number): string {
+    return `${FormulaUtils.normalizeSheetName(sheet)}!${row}:${col}`;
+  }
+}
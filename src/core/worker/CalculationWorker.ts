@@ -0,0 +1,12 @@
+/**
+ * Точка входа Web Worker - вычисление формул вне главного потока
+ */
+
+import { CalculationService } from './CalculationService.js';
+import { CalculationRequest } from './CalculationProtocol.js';
+
+const service = new CalculationService(response => self.postMessage(response));
+
+self.onmessage = (event: MessageEvent<CalculationRequest>) => {
+  service.handle(event.data);
+};
@@ -0,0 +1,146 @@
+/**
+ * Перенос ячеек изменениями листов - одинаково для кэша значений в главном потоке
+ * и значений, известных потоку вычислений (формулы переносятся менеджером формул так же)
+ */
+
+import { AxisShift, FormulaUtils } from '../formulas/FormulaAST.js';
+import { CellPosition } from '../formulas/FormulaManager.js';
+import { CalculationRequest, StructuralOperation } from './CalculationProtocol.js';
+
+// Новое положение ячейки; null - ячейка удалена или заменена
+export type CellRelocator = (position: CellPosition) => CellPosition | null;
+
+// Ось и вид сдвига структурных операций
+export const STRUCTURAL_SHIFTS: Record<
+  StructuralOperation,
+  { axis: 'rows' | 'columns'; type: 'insert' | 'delete' }
+> = {
+  insertRows: { axis: 'rows', type: 'insert' },
+  deleteRows: { axis: 'rows', type: 'delete' },
+  insertColumns: { axis: 'columns', type: 'insert' },
+  deleteColumns: { axis: 'columns', type: 'delete' },
+};
+
+export class CellRelocation {
+  /**
+   * Перенос ячеек сообщением главного потока; null - сообщение не меняет положение ячеек
+   */
+  static fromRequest(request: CalculationRequest): CellRelocator | null {
+    switch (request.type) {
+      case 'structural': {
+        const { axis, type } = STRUCTURAL_SHIFTS[request.operation];
+        return this.shiftLines(request.sheet, axis, {
+          type,
+          at: request.index,
+          count: request.count,
+        });
+      }
+
+      case 'structuralMove':
+        return this.shiftLines(request.sheet, request.axis, {
+          type: 'move',
+          at: request.index,
+          count: request.count,
+          to: request.target,
+        });
+
+      case 'moveCells':
+        return this.moveBlock(request.sheet, request.source, request.targetRow, request.targetCol);
+
+      case 'renameSheet':
+        return position =>
+          this.isOnSheet(position, request.oldName)
+            ? { ...position, sheet: request.newName }
+            : position;
+
+      case 'deleteSheet':
+        return position => (this.isOnSheet(position, request.name) ? null : position);
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Значения карты с ключами "ЛИСТ!строка:столбец" на новых местах;
+   * значения удаленных ячеек отбрасываются
+   */
+  static relocateValues<T>(
+    values: Map<string, T>,
+    relocate: CellRelocator
+  ): Array<[CellPosition, T]> {
+    const relocated: Array<[CellPosition, T]> = [];
+    for (const [cellKey, value] of values) {
+      const separator = cellKey.lastIndexOf('!');
+      const [row = 0, col = 0] = cellKey
+        .slice(separator + 1)
+        .split(':')
+        .map(Number);
+      const position = relocate({ sheet: cellKey.slice(0, separator), row, col });
+      if (position) {
+        relocated.push([position, value]);
+      }
+    }
+    return relocated;
+  }
+
+  /**
+   * Вставка, удаление или перенос строк (столбцов) листа
+   */
+  private static shiftLines(
+    sheet: string,
+    axis: 'rows' | 'columns',
+    shift: AxisShift
+  ): CellRelocator {
+    return position => {
+      if (!this.isOnSheet(position, sheet)) {
+        return position;
+      }
+
+      // Ячейка в удаляемой строке/столбце удаляется
+      const index = FormulaUtils.shiftIndex(axis === 'rows' ? position.row : position.col, shift);
+      if (index === null) {
+        return null;
+      }
+      return axis === 'rows' ? { ...position, row: index } : { ...position, col: index };
+    };
+  }
+
+  /**
+   * Перемещение блока ячеек: ячейки на месте вставки блока заменяются
+   */
+  private static moveBlock(
+    sheet: string,
+    source: { startRow: number; startCol: number; endRow: number; endCol: number },
+    targetRow: number,
+    targetCol: number
+  ): CellRelocator {
+    const rowOffset = targetRow - source.startRow;
+    const colOffset = targetCol - source.startCol;
+    const isInBlock = (row: number, col: number, rowShift: number, colShift: number) =>
+      row >= source.startRow + rowShift &&
+      row <= source.endRow + rowShift &&
+      col >= source.startCol + colShift &&
+      col <= source.endCol + colShift;
+
+    return position => {
+      const { row, col } = position;
+      if (!this.isOnSheet(position, sheet)) {
+        return position;
+      }
+      if (isInBlock(row, col, 0, 0)) {
+        return { ...position, row: row + rowOffset, col: col + colOffset };
+      }
+      return isInBlock(row, col, rowOffset, colOffset) ? null : position;
+    };
+  }
+
+  /**
+   * Проверка листа ячейки (имя листа без учета регистра)
+   */
+  private static isOnSheet(position: CellPosition, sheet: string): boolean {
+    return (
+      FormulaUtils.normalizeSheetName(position.sheet) === FormulaUtils.normalizeSheetName(sheet)
+    );
+  }
+}
@@ -130,4 +130,5 @@ export interface AppConfig {
   cellHeight: number;
   enableWebGPU: boolean;
   enableCollaborative: boolean;
+  functionModules?: string[]; // URL модулей пользовательских функций для потока вычислений
 }
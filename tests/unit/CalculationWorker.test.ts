@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import {
+  CalculationClient,
+  CalculationTransport,
+  LocalCalculationTransport,
+} from '../../src/core/worker/CalculationClient';
+import { CalculationService } from '../../src/core/worker/CalculationService';
+import { CalculationResponse, CellValueChange } from '../../src/core/worker/CalculationProtocol';
+import { functionRegistry } from '../../src/core/formulas/functions/index';
+
+describe('Поток вычислений', () => {
+  let workbook: Workbook;
+  let client: CalculationClient;
+
+  beforeEach(() => {
+    workbook = new Workbook();
+    workbook.getActiveSheet().matrix.setCell(0, 0, 2);
+    workbook.getActiveSheet().matrix.setCell(0, 1, '=A1*3');
+    client = new CalculationClient(new LocalCalculationTransport());
+    client.connect(workbook);
+  });
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+
+  it('должен вычислять формулы асинхронно и кэшировать значения', async () => {
+    expect(client.getCellValue(0, 1, 'Sheet1')).toBeNull();
+
+    await client.recalculate();
+    expect(client.getCellValue(0, 1, 'Sheet1')).toEqual({ value: 6, type: 'number' });
+    // Главный поток не регистрирует формулы
+    expect(workbook.getFormulaManager().getStats().totalFormulas).toBe(0);
+  });
+
+  it('должен загружать модули пользовательских функций до снимка книги', async () => {
+    const modules = ['/tests/unit/helpers/fxRateFunctions.ts', '/tests/unit/helpers/missing.ts'];
+    matrix().setCell(1, 0, '=FXRATE("USD")*A1');
+
+    try {
+      // Модуль с ошибкой не останавливает вычисления
+      client = new CalculationClient(new LocalCalculationTransport(), modules);
+      client.connect(workbook);
+      await client.recalculate();
+      expect(client.getCellValue(1, 0, 'Sheet1')?.value).toBe(185);
+    } finally {
+      functionRegistry.unregister('FXRATE');
+    }
+  });
+
+  it('должен сообщать только об измененных значениях', async () => {
+    matrix().setCell(1, 1, '=A1+1');
+    await client.recalculate();
+
+    const events: CellValueChange[][] = [];
+    client.onRecalculated(changes => events.push(changes));
+
+    matrix().setCell(0, 0, 5);
+    matrix().setCell(5, 5, 'текст');
+    const changes = await client.recalculate();
+
+    expect(changes.map(({ row, col, value }) => [row, col, value.value])).toEqual([
+      [0, 1, 15],
+      [1, 1, 6],
+    ]);
+    expect(events).toHaveLength(1);
+  });
+
+  it('должен сдвигать ссылки и возвращать переписанные формулы', async () => {
+    matrix().insertRow(0);
+    client.insertRows('Sheet1', 0, 1);
+    await client.recalculate();
+
+    expect(matrix().getCell(1, 1)).toBe('=A2*3');
+    expect(client.getCellValue(1, 1, 'Sheet1')?.value).toBe(6);
+    expect(client.getCellValue(0, 1, 'Sheet1')).toBeNull();
+  });
+
+  it('должен переносить кэш при вставке строк и сообщать только пересчитанные формулы', async () => {
+    for (let row = 1; row <= 20; row++) {
+      matrix().setCell(row, 0, row);
+      matrix().setCell(row, 1, `=A${row + 1}*2`);
+    }
+    matrix().setCell(0, 2, '=SUM(A2:A21)');
+    await client.recalculate();
+
+    const events: Array<{ changes: CellValueChange[]; reset: boolean }> = [];
+    client.onRecalculated((changes, reset) => events.push({ changes, reset }));
+
+    matrix().insertRow(5);
+    client.insertRows('Sheet1', 5, 1);
+    // Кэш перенесен в главном потоке, не дожидаясь потока вычислений
+    expect(client.getCellValue(6, 1, 'Sheet1')?.value).toBe(10);
+    expect(client.getCellValue(5, 1, 'Sheet1')).toBeNull();
+
+    await client.recalculate();
+    expect(events).toEqual([{ changes: [], reset: false }]);
+    expect(matrix().getCell(0, 2)).toBe('=SUM(A2:A22)');
+
+    matrix().setCell(5, 0, 100);
+    await client.recalculate();
+    expect(events[1]).toEqual({
+      changes: [{ sheet: 'Sheet1', row: 0, col: 2, value: { type: 'number', value: 310 } }],
+      reset: false,
+    });
+  });
+
+  it('должен переносить значения ответа, вычисленного до сдвига строк', () => {
+    const transport: CalculationTransport = { onmessage: null, postMessage: () => {} };
+    client = new CalculationClient(transport);
+    client.connect(workbook);
+
+    matrix().insertRow(0);
+    client.insertRows('Sheet1', 0, 1);
+    // Ответ на снимок книги - поток вычислений еще не получил вставку строки
+    transport.onmessage?.({
+      data: {
+        type: 'recalculated',
+        changes: [{ sheet: 'Sheet1', row: 0, col: 1, value: { type: 'number', value: 6 } }],
+        reset: true,
+        duration: 0,
+        handledRequests: 1,
+      },
+    } as MessageEvent<CalculationResponse>);
+
+    expect(client.getCellValue(1, 1, 'Sheet1')?.value).toBe(6);
+    expect(client.getCellValue(0, 1, 'Sheet1')).toBeNull();
+  });
+
+  it('должен переносить строки вместе со ссылками на них', async () => {
+    matrix().moveRows(0, 1, 3);
+    client.moveLines('Sheet1', 'rows', 0, 1, 3);
+    await client.recalculate();
+
+    expect(matrix().getCell(2, 1)).toBe('=A3*3');
+    expect(client.getCellValue(2, 1, 'Sheet1')?.value).toBe(6);
+  });
+
+  it('должен перемещать ячейки вместе со ссылками на них', async () => {
+    matrix().moveBlock(0, 0, 0, 0, 2, 2);
+    client.moveCells('Sheet1', { startRow: 0, startCol: 0, endRow: 0, endCol: 0 }, 2, 2);
+    await client.recalculate();
+
+    expect(matrix().getCell(0, 1)).toBe('=C3*3');
+    expect(client.getCellValue(0, 1, 'Sheet1')?.value).toBe(6);
+  });
+
+  it('должен отправлять снимок листа после изменения без сдвига формул', async () => {
+    await client.recalculate();
+    matrix().clear();
+    matrix().setCell(3, 3, '=10/2');
+
+    await client.recalculate();
+    expect(client.getCellValue(0, 1, 'Sheet1')).toBeNull();
+    expect(client.getCellValue(3, 3, 'Sheet1')?.value).toBe(5);
+  });
+
+  it('должен синхронизировать листы и имена', async () => {
+    workbook.addSheet('Data');
+    client.addSheet('Data');
+    workbook.getSheet('Data')!.matrix.setCell(0, 0, 7);
+    matrix().setCell(2, 0, '=Data!A1+Rate');
+    client.defineName('Rate', '$A$1', 'Sheet1');
+
+    await client.recalculate();
+    expect(client.getCellValue(2, 0, 'Sheet1')?.value).toBe(9);
+
+    workbook.renameSheet('Data', 'Факты');
+    client.renameSheet('Data', 'Факты');
+    await client.recalculate();
+    expect(matrix().getCell(2, 0)).toBe('=Факты!A1+Rate');
+  });
+
+  it('должен передавать перенесенные значения массива', async () => {
+    matrix().setCell(0, 3, '=SEQUENCE(2,2)');
+    matrix().setCell(3, 3, '=SUM(D1#)');
+    await client.recalculate();
+
+    expect(client.getCellValue(0, 3, 'Sheet1')?.value).toBe(1);
+    expect(client.getSpillValue(1, 4, 'Sheet1')?.value).toBe(4);
+    expect(client.getCellValue(3, 3, 'Sheet1')?.value).toBe(10);
+
+    matrix().setCell(0, 3, '=SEQUENCE(1,2)');
+    await client.recalculate();
+    expect(client.getSpillValue(0, 4, 'Sheet1')?.value).toBe(2);
+    expect(client.getSpillValue(1, 4, 'Sheet1')).toBeNull();
+    expect(client.getCellValue(3, 3, 'Sheet1')?.value).toBe(3);
+  });
+});
+
+describe('CalculationService', () => {
+  it('должен сообщать об ошибке протокола и продолжать работу', async () => {
+    const responses: CalculationResponse[] = [];
+    const service = new CalculationService(response => responses.push(response));
+
+    service.handle({ type: 'setFormula', sheet: 'Missing', row: 0, col: 0, formula: '=1' });
+    service.handle({ type: 'setFormula', sheet: 'Sheet1', row: 0, col: 0, formula: '=1+1' });
+    service.handle({ type: 'recalculate', requestId: 1 });
+
+    expect(responses[0]).toMatchObject({ type: 'error', request: 'setFormula' });
+    expect(responses[1]).toMatchObject({
+      type: 'recalculated',
+      requestId: 1,
+      changes: [{ sheet: 'Sheet1', row: 0, col: 0, value: { value: 2, type: 'number' } }],
+    });
+  });
+});
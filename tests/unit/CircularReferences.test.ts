@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { CycleDetector } from '../../src/core/formulas/CycleDetector';
+
+describe('CycleDetector', () => {
+  const graph: Record<string, string[]> = {
+    a: ['b'],
+    b: ['c'],
+    c: ['a', 'd'],
+    d: ['e'],
+    e: [],
+    f: ['f'],
+  };
+
+  it('должен находить компоненты сильной связности и петли', () => {
+    const cycles = CycleDetector.findCycles(Object.keys(graph), key => graph[key] ?? []);
+    expect(cycles.map(cycle => [...cycle].sort())).toEqual([['a', 'b', 'c'], ['f']]);
+  });
+
+  it('должен обходить длинные цепочки без переполнения стека', () => {
+    const size = 50000;
+    const successors = (key: string) => {
+      const index = Number(key);
+      return index < size ? [String(index + 1)] : ['0'];
+    };
+    const cycles = CycleDetector.findCycles(['0'], successors);
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]).toHaveLength(size + 1);
+  });
+});
+
+describe('Циклические ссылки', () => {
+  let workbook: Workbook;
+
+  beforeEach(() => {
+    workbook = new Workbook();
+  });
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+  const manager = () => workbook.getFormulaManager();
+
+  it('должен возвращать #CIRC! для ссылки на саму себя', () => {
+    matrix().setCell(0, 0, '=A1');
+    expect(workbook.getCellValue(0, 0)).toEqual({ value: '#CIRC!', type: 'error' });
+    expect(manager().getCyclePath(0, 0)).toEqual([
+      { sheet: 'Sheet1', row: 0, col: 0 },
+      { sheet: 'Sheet1', row: 0, col: 0 },
+    ]);
+  });
+
+  it('должен находить цикл при установке формулы и возвращать его путь', () => {
+    manager().setFormula(0, 0, '=B1+1');
+    manager().setFormula(0, 1, '=C1+1');
+    expect(manager().getCircularReferences()).toEqual([]);
+
+    manager().setFormula(0, 2, '=A1*2');
+    manager().setFormula(1, 0, '=C1+10');
+
+    expect(manager().getCircularReferences()).toHaveLength(1);
+    expect(
+      manager()
+        .getCyclePath(0, 0)
+        ?.map(cell => cell.col)
+    ).toEqual([0, 1, 2, 0]);
+    expect(manager().getCyclePath(1, 0)).toBeNull();
+  });
+
+  it('должен распространять #CIRC! на формулы, ссылающиеся на цикл', () => {
+    matrix().setCell(0, 0, '=B1+1');
+    matrix().setCell(0, 1, '=A1*2');
+    matrix().setCell(1, 0, '=B1+10');
+
+    expect(workbook.getCellValue(1, 0).value).toBe('#CIRC!');
+    expect(workbook.getCellValue(0, 0).value).toBe('#CIRC!');
+    expect(manager().getStats().circularReferences).toBe(1);
+  });
+
+  it('должен находить циклы через диапазоны и другие листы', () => {
+    workbook.addSheet('Data');
+    workbook.getSheet('Data')!.matrix.setCell(0, 0, '=Sheet1!B1');
+    matrix().setCell(0, 1, '=SUM(Data!A:A)');
+
+    expect(workbook.getCellValue(0, 1).value).toBe('#CIRC!');
+    expect(
+      manager()
+        .getCyclePath(0, 1, 'Sheet1')
+        ?.map(cell => cell.sheet)
+    ).toEqual(['Sheet1', 'Data', 'Sheet1']);
+  });
+
+  it('должен снимать ошибку после разрыва цикла', () => {
+    matrix().setCell(0, 0, '=B1');
+    matrix().setCell(0, 1, '=A1');
+    expect(workbook.getCellValue(0, 0).value).toBe('#CIRC!');
+
+    matrix().setCell(0, 1, 5);
+    expect(manager().getCircularReferences()).toEqual([]);
+    expect(workbook.getCellValue(0, 0).value).toBe(5);
+  });
+
+  it('должен вычислять цикл итерациями до сходимости', () => {
+    manager().setIterativeCalculation({ enabled: true });
+    matrix().setCell(0, 0, '=B1/2+1');
+    matrix().setCell(0, 1, '=A1');
+
+    expect(workbook.getCellValue(0, 0).value).toBeCloseTo(2, 2);
+    expect(workbook.getCellValue(0, 1).value).toBeCloseTo(2, 2);
+  });
+
+  it('должен останавливаться на предельном числе итераций', () => {
+    manager().setIterativeCalculation({ enabled: true, maxIterations: 10 });
+    matrix().setCell(0, 0, '=A1+1');
+    expect(workbook.getCellValue(0, 0).value).toBe(10);
+
+    manager().setIterativeCalculation({ enabled: false });
+    expect(workbook.getCellValue(0, 0).value).toBe('#CIRC!');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DependencyGraph } from '../../src/core/formulas/DependencyGraph';
+import { FormulaManager } from '../../src/core/formulas/FormulaManager';
+import { FormulaContext } from '../../src/core/formulas/FormulaEngine';
+import { MAX_ROW_INDEX } from '../../src/core/formulas/FormulaAST';
+
+const area = (
+  sheet: string,
+  startRow: number,
+  startCol: number,
+  endRow = startRow,
+  endCol = startCol
+) => ({
+  sheet,
+  startRow,
+  startCol,
+  endRow,
+  endCol,
+});
+
+describe('DependencyGraph', () => {
+  let graph: DependencyGraph;
+
+  beforeEach(() => {
+    graph = new DependencyGraph();
+  });
+
+  it('должен находить формулы, зависящие от ячейки внутри диапазона', () => {
+    graph.setPrecedents('SHEET1!0:5', [area('Sheet1', 0, 0, 99999, 0)]);
+    graph.setPrecedents('SHEET1!1:5', [area('Sheet1', 500, 0)]);
+
+    expect(graph.getDependents('Sheet1', 500, 0)).toEqual(new Set(['SHEET1!0:5', 'SHEET1!1:5']));
+    expect(graph.getDependents('Sheet1', 99999, 0)).toEqual(new Set(['SHEET1!0:5']));
+    expect(graph.getDependents('Sheet1', 100000, 0).size).toBe(0);
+    expect(graph.getDependents('Sheet1', 500, 1).size).toBe(0);
+  });
+
+  it('должен хранить большие области без перечисления ячеек', () => {
+    graph.setPrecedents('SHEET1!0:0', [area('Sheet1', 0, 3, MAX_ROW_INDEX, 3)]);
+    graph.setPrecedents('SHEET1!0:1', [area('Sheet1', 0, 0, 999, 999)]);
+
+    expect(graph.getStats()).toMatchObject({ formulas: 2, areas: 2, rangeAreas: 2, largeAreas: 1 });
+    expect(graph.getDependents('Sheet1', 900000, 3)).toEqual(new Set(['SHEET1!0:0']));
+    expect(graph.getDependents('Sheet1', 999, 999)).toEqual(new Set(['SHEET1!0:1']));
+  });
+
+  it('должен учитывать лист без учета регистра', () => {
+    graph.setPrecedents('SHEET1!0:0', [area('Data', 1, 1)]);
+    expect(graph.getDependents('DATA', 1, 1).size).toBe(1);
+    expect(graph.getDependents('Sheet1', 1, 1).size).toBe(0);
+  });
+
+  it('должен заменять и удалять зависимости формулы', () => {
+    graph.setPrecedents('SHEET1!0:0', [area('Sheet1', 1, 1)]);
+    graph.setPrecedents('SHEET1!0:0', [area('Sheet1', 2, 2)]);
+
+    expect(graph.getDependents('Sheet1', 1, 1).size).toBe(0);
+    expect(graph.getPrecedents('SHEET1!0:0')).toEqual([area('SHEET1', 2, 2)]);
+
+    graph.removeFormula('SHEET1!0:0');
+    expect(graph.getDependents('Sheet1', 2, 2).size).toBe(0);
+    expect(graph.getStats().formulas).toBe(0);
+  });
+});
+
+describe('Зависимости в FormulaManager', () => {
+  let formulaManager: FormulaManager;
+
+  beforeEach(() => {
+    const context: FormulaContext = {
+      getCellValue: () => ({ type: 'number', value: 1 }),
+      getCellRange: () => [],
+    };
+    formulaManager = new FormulaManager(context);
+  });
+
+  it('должен находить зависимые формулы для ячеек с обычными значениями', () => {
+    formulaManager.setFormula(0, 5, '=SUM(A1:A100000)');
+    formulaManager.setFormula(1, 5, '=A50*2');
+
+    expect(formulaManager.getDependents(49, 0).sort()).toEqual(['SHEET1!0:5', 'SHEET1!1:5']);
+    expect(formulaManager.getStats().totalDependencies).toBe(2);
+  });
+
+  it('должен обновлять граф при удалении формулы и сдвиге строк', () => {
+    formulaManager.setFormula(0, 5, '=A10');
+    formulaManager.handleRowInsertion(5);
+    expect(formulaManager.getDependents(9, 0)).toEqual([]);
+    expect(formulaManager.getDependents(10, 0)).toEqual(['SHEET1!0:5']);
+
+    formulaManager.removeFormula(0, 5);
+    expect(formulaManager.getDependents(10, 0)).toEqual([]);
+  });
+});
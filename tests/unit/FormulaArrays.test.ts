@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+import { FormulaUtils } from '../../src/core/formulas/FormulaAST';
+import { CellValue } from '../../src/core/formulas/FormulaEngine';
+
+describe('Динамические массивы', () => {
+  let workbook: Workbook;
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+  const value = (row: number, col: number) => workbook.getCellValue(row, col).value;
+
+  // Значения прямоугольной области листа по строкам
+  const area = (startRow: number, startCol: number, rows: number, cols: number) =>
+    Array.from({ length: rows }, (_, row) =>
+      Array.from({ length: cols }, (_, col) => value(startRow + row, startCol + col))
+    );
+
+  const evaluate = (formula: string): CellValue => {
+    matrix().setCell(99, 99, formula);
+    return workbook.getCellValue(99, 99);
+  };
+
+  beforeEach(() => {
+    workbook = new Workbook();
+    // A1:B5 - имена и баллы
+    const rows: [string, number][] = [
+      ['Анна', 30],
+      ['борис', 10],
+      ['Вера', 20],
+      ['Борис', 10],
+      ['Глеб', 40],
+    ];
+    rows.forEach(([name, score], row) => {
+      matrix().setCell(row, 0, name);
+      matrix().setCell(row, 1, score);
+    });
+  });
+
+  it('должен разбирать и форматировать ссылку на область переноса', () => {
+    const ast = new FormulaParser().parse('=SUM($D$1#)');
+    const root = ast.root.type === 'function' ? ast.root.args[0] : null;
+    expect(root).toMatchObject({ type: 'cell', row: 0, col: 3, spill: true });
+    expect(FormulaUtils.formatCellReference(root as any)).toBe('$D$1#');
+    expect(() => new FormulaParser().parse('=Sheet1:Sheet2!A1#')).toThrow();
+  });
+
+  it('должен выполнять операции над массивами поэлементно', () => {
+    matrix().setCell(0, 3, '=B1:B5*2');
+    workbook.recalculate();
+
+    expect(area(0, 3, 5, 1)).toEqual([[60], [20], [40], [20], [80]]);
+    expect(evaluate('=SUM(B1:B5*2)').value).toBe(220);
+    expect(evaluate('=SUM((B1:B5>15)*B1:B5)').value).toBe(90);
+    expect(evaluate('=SUM(-B1:B2)').value).toBe(-40);
+    // Строка и столбец расширяются до таблицы, лишние позиции - #N/A
+    expect(evaluate('=SUM(SEQUENCE(2)*SEQUENCE(1,3))').value).toBe(18);
+    expect(evaluate('=INDEX(B1:B5+SEQUENCE(2),3)').value).toBe('#N/A');
+    expect(evaluate('=INDEX(A1:A2&"!",2)').value).toBe('борис!');
+    expect(evaluate('=INDEX(A1:A2*1,1)').value).toBe('#VALUE!');
+  });
+
+  it('должен переносить массив в соседние ячейки и читать его по ссылке A1#', () => {
+    matrix().setCell(0, 3, '=SEQUENCE(3,2,10,5)');
+    matrix().setCell(0, 6, '=SUM(D1#)');
+    matrix().setCell(1, 6, '=E3');
+
+    expect(value(0, 6)).toBe(135);
+    expect(area(0, 3, 3, 2)).toEqual([
+      [10, 15],
+      [20, 25],
+      [30, 35],
+    ]);
+    expect(value(1, 6)).toBe(35);
+    // Перенесенные значения не хранятся в листе
+    expect(matrix().getCell(1, 3)).toBeNull();
+    expect(workbook.getSpillArea(0, 3)).toMatchObject({ endRow: 2, endCol: 4 });
+    expect(evaluate('=ROWS(D1#)').value).toBe(3);
+    expect(evaluate('=A1#').value).toBe('#REF!');
+
+    // Изменение размера массива пересчитывает читающие формулы
+    matrix().setCell(0, 3, '=SEQUENCE(2)');
+    workbook.recalculate();
+    expect(value(0, 6)).toBe(3);
+    expect(value(1, 6)).toBeNull();
+    expect(value(2, 3)).toBeNull();
+  });
+
+  it('должен возвращать #SPILL!, если область переноса занята', () => {
+    matrix().setCell(0, 3, '=SEQUENCE(3)');
+    matrix().setCell(0, 4, '=D3');
+    expect(value(0, 3)).toBe(1);
+    expect(value(0, 4)).toBe(3);
+
+    matrix().setCell(2, 3, 'мешает');
+    workbook.recalculate();
+    expect(value(0, 3)).toBe('#SPILL!');
+    expect(value(1, 3)).toBeNull();
+    expect(value(0, 4)).toBe('мешает');
+
+    matrix().setCell(2, 3, null);
+    workbook.recalculate();
+    expect(value(0, 3)).toBe(1);
+    expect(value(0, 4)).toBe(3);
+
+    // Пересечение с областью переноса другой формулы
+    matrix().setCell(1, 2, '=SEQUENCE(1,3)');
+    expect(value(1, 2)).toBe('#SPILL!');
+  });
+
+  it('должен фильтровать и сортировать массивы', () => {
+    expect(evaluate('=ROWS(FILTER(A1:B5,B1:B5>15))').value).toBe(3);
+    matrix().setCell(0, 3, '=FILTER(A1:A5,B1:B5>=20)');
+    matrix().setCell(0, 4, '=FILTER(A1:A5,B1:B5>100,"нет")');
+    matrix().setCell(5, 3, '=FILTER(A1:B5,B1:B5>100)');
+    workbook.recalculate();
+    expect(area(0, 3, 3, 1)).toEqual([['Анна'], ['Вера'], ['Глеб']]);
+    expect(value(0, 4)).toBe('нет');
+    expect(value(5, 3)).toBe('#CALC!');
+    expect(evaluate('=FILTER(A1:A5,B1:B2>1)').value).toBe('#VALUE!');
+
+    matrix().setCell(0, 6, '=SORT(A1:B5,2,-1)');
+    expect(area(0, 6, 5, 2)).toEqual([
+      ['Глеб', 40],
+      ['Анна', 30],
+      ['Вера', 20],
+      ['борис', 10],
+      ['Борис', 10],
+    ]);
+    expect(evaluate('=INDEX(SORT(A1:A5),5)').value).toBe('Глеб');
+    expect(evaluate('=INDEX(SORT(SEQUENCE(1,3),1,-1,TRUE),1,1)').value).toBe(3);
+    expect(evaluate('=SORT(A1:B5,3)').value).toBe('#VALUE!');
+
+    expect(evaluate('=INDEX(SORTBY(A1:A5,B1:B5,1,A1:A5,-1),1)').value).toBe('борис');
+    expect(evaluate('=INDEX(SORTBY(A1:A5,B1:B5,-1),1)').value).toBe('Глеб');
+    expect(evaluate('=SORTBY(A1:A5,B1:B4)').value).toBe('#VALUE!');
+  });
+
+  it('должен выделять уникальные значения и транспонировать массивы', () => {
+    expect(evaluate('=ROWS(UNIQUE(A1:A5))').value).toBe(4);
+    expect(evaluate('=ROWS(UNIQUE(B1:B5))').value).toBe(4);
+    expect(evaluate('=INDEX(UNIQUE(B1:B5,FALSE,TRUE),2)').value).toBe(20);
+    expect(evaluate('=UNIQUE(SEQUENCE(1,4)*0,TRUE)').value).toBe(0);
+
+    matrix().setCell(6, 0, '=TRANSPOSE(B1:B3)');
+    expect(area(6, 0, 1, 3)).toEqual([[30, 10, 20]]);
+    expect(evaluate('=SEQUENCE(0)').value).toBe('#CALC!');
+    expect(evaluate('=SEQUENCE(-1)').value).toBe('#VALUE!');
+    expect(evaluate('=SEQUENCE(1048577,2)').value).toBe('#NUM!');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { FormulaAssist } from '../../src/core/formulas/FormulaAssist';
+import { functionRegistry } from '../../src/core/formulas/functions/index';
+
+describe('Подсказки строки формул', () => {
+  const functions = functionRegistry.getAll();
+  const names = [
+    { name: 'TaxRate', refersTo: '=$B$1' },
+    { name: 'Sales', refersTo: '=Data!$A$2:$A$500' },
+  ];
+
+  // Подсказки для текста, где | - положение курсора
+  const analyze = (textWithCaret: string) => {
+    const caret = textWithCaret.indexOf('|');
+    const text = textWithCaret.replace('|', '');
+    return FormulaAssist.analyze(text, caret, functions, names);
+  };
+
+  const labels = (textWithCaret: string) =>
+    analyze(textWithCaret).suggestions.map(suggestion => suggestion.label);
+
+  it('должен предлагать функции и имена по началу слова', () => {
+    expect(labels('=su|')).toEqual(expect.arrayContaining(['SUM', 'SUMIF', 'SUMPRODUCT']));
+    expect(labels('=su|').every(label => label.startsWith('SU'))).toBe(true);
+    expect(labels('=1+ta|')).toEqual(['TaxRate', 'TAN']);
+    expect(labels('=LOG1|')).toEqual(['LOG10']);
+
+    // Не формула, ссылка на лист, строка и число - без подсказок
+    expect(labels('su|')).toEqual([]);
+    expect(labels('=Data!A|')).toEqual([]);
+    expect(labels('="su|')).toEqual([]);
+    expect(labels('=1|')).toEqual([]);
+    expect(labels('=SUM(|')).toEqual([]);
+  });
+
+  it('должен подставлять функцию со скобкой и имя без нее', () => {
+    const state = analyze('=1+su|*2');
+    const sum = state.suggestions.find(suggestion => suggestion.label === 'SUM')!;
+    expect(FormulaAssist.applySuggestion('=1+su*2', state, sum)).toEqual({
+      text: '=1+SUM(*2',
+      caret: 7,
+    });
+
+    const withParen = analyze('=ro|(A1)');
+    const rows = withParen.suggestions.find(suggestion => suggestion.label === 'ROWS')!;
+    expect(FormulaAssist.applySuggestion('=ro(A1)', withParen, rows).text).toBe('=ROWS(A1)');
+
+    const name = analyze('=Sa|');
+    expect(FormulaAssist.applySuggestion('=Sa', name, name.suggestions[0]!)).toEqual({
+      text: '=Sales',
+      caret: 6,
+    });
+  });
+
+  it('должен показывать параметры функции и текущий аргумент', () => {
+    expect(analyze('=IF(A1>0,|').signature).toMatchObject({
+      name: 'IF',
+      params: ['значение1', 'значение2', '[значение3]'],
+      activeParam: 1,
+    });
+    expect(analyze('=SUM(1,2,3,|').signature).toMatchObject({
+      params: ['значение1', '[значение2]', '...'],
+      activeParam: 2,
+    });
+    expect(analyze('=REDUCE(0,A1:A3,|').signature!.params).toEqual([
+      'массив1',
+      'массив2',
+      'функция',
+    ]);
+
+    // Вложенные вызовы и скобки группировки: подсказка для ближайшей функции
+    expect(analyze('=ROUND(SUM(1,2)|').signature).toMatchObject({ name: 'ROUND', activeParam: 0 });
+    expect(analyze('=ROUND((1+|').signature).toMatchObject({ name: 'ROUND', activeParam: 0 });
+    expect(analyze('=ROUND(1,2,|').signature!.activeParam).toBe(-1);
+    expect(analyze('=ROUND(1,2)|').signature).toBeNull();
+    expect(analyze('=Unknown(|').signature).toBeNull();
+  });
+
+  it('должен находить парные скобки и скобки без пары', () => {
+    expect(analyze('=SUM((1+2)|*3)')).toMatchObject({
+      brackets: { open: 5, close: 9 },
+      unmatched: [],
+    });
+    expect(analyze('=|(1)').brackets).toEqual({ open: 1, close: 3 });
+    expect(analyze('=SUM(1,|2').unmatched).toEqual([4]);
+    expect(analyze('=1)+(2|').unmatched).toEqual([2, 4]);
+    // Скобки внутри строки не учитываются
+    expect(analyze('=LEN(")(")|').unmatched).toEqual([]);
+  });
+});
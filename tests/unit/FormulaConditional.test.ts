@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { CellValue } from '../../src/core/formulas/FormulaEngine';
+import { FormulaCriteria } from '../../src/core/formulas/FormulaCriteria';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Условное агрегирование', () => {
+  // Столбцы: A - регион, B - продажи, C - менеджер; в B6 - ошибка
+  const { value } = createFormulaHarness([
+    ['Север', 100, 'Анна'],
+    ['Юг', 250, 'Борис'],
+    ['север', 300, 'Анна'],
+    ['Восток', '150', null],
+    [null, 50, 'Вера'],
+    [null, { type: 'error', value: '#N/A' }, null],
+  ]);
+
+  describe('Синтаксис условий', () => {
+    it('должен сравнивать числа с операторами', () => {
+      expect(value('=COUNTIF(B1:B5,">100")')).toBe(2);
+      expect(value('=COUNTIF(B1:B5,">=100")')).toBe(3);
+      expect(value('=COUNTIF(B1:B5,"<>250")')).toBe(4);
+      expect(value('=COUNTIF(B1:B5,100)')).toBe(1);
+      expect(value('=COUNTIF(B1:B5,"=150")')).toBe(1);
+      expect(value('=COUNTIF(B1:B5,"<"&B2)')).toBe(2);
+    });
+
+    it('должен сравнивать текст без учета регистра и с подстановочными знаками', () => {
+      expect(value('=COUNTIF(A1:A5,"север")')).toBe(2);
+      expect(value('=COUNTIF(A1:A5,"<>Север")')).toBe(3);
+      expect(value('=COUNTIF(A1:A5,"?г")')).toBe(1);
+      expect(value('=COUNTIF(A1:A5,"*о*")')).toBe(1);
+      expect(value('=COUNTIF(A1:A5,">Север")')).toBe(1);
+    });
+
+    it('должен отбирать пустые и непустые ячейки', () => {
+      expect(value('=COUNTIF(C1:C5,"")')).toBe(1);
+      expect(value('=COUNTIF(C1:C5,"<>")')).toBe(4);
+      expect(value('=COUNTIF(C1:C5,"=")')).toBe(1);
+    });
+
+    it('должен разбирать условия с типизированным сравнением', () => {
+      const matches = (criterion: CellValue, cell: CellValue) =>
+        FormulaCriteria.parse(criterion)(cell);
+
+      expect(matches({ type: 'string', value: 'TRUE' }, { type: 'boolean', value: true })).toBe(
+        true
+      );
+      expect(matches({ type: 'string', value: 'TRUE' }, { type: 'string', value: 'true' })).toBe(
+        false
+      );
+      expect(matches({ type: 'number', value: 0.3 }, { type: 'number', value: 0.1 + 0.2 })).toBe(
+        true
+      );
+      expect(matches({ type: 'string', value: '>5' }, { type: 'string', value: '10' })).toBe(false);
+      expect(matches({ type: 'string', value: '#N/A' }, { type: 'error', value: '#N/A' })).toBe(
+        true
+      );
+      expect(matches({ type: 'string', value: 'a~*' }, { type: 'string', value: 'ab' })).toBe(
+        false
+      );
+      expect(matches({ type: 'empty', value: null }, { type: 'number', value: 0 })).toBe(true);
+    });
+  });
+
+  describe('Функции', () => {
+    it('должен суммировать и усреднять по одному условию', () => {
+      expect(value('=SUMIF(B1:B5,">100")')).toBe(550);
+      expect(value('=SUMIF(A1:A5,"Север",B1:B5)')).toBe(400);
+      expect(value('=SUMIF(A1:A5,"Восток",B1:B5)')).toBe(0);
+      expect(value('=AVERAGEIF(C1:C5,"Анна",B1:B5)')).toBe(200);
+      expect(value('=AVERAGEIF(A1:A5,"Запад",B1:B5)')).toBe('#DIV/0!');
+    });
+
+    it('должен применять несколько условий', () => {
+      expect(value('=SUMIFS(B1:B5,A1:A5,"север",C1:C5,"Анна",B1:B5,">100")')).toBe(300);
+      expect(value('=COUNTIFS(A1:A5,"<>",B1:B5,">=100")')).toBe(3);
+      expect(value('=AVERAGEIFS(B1:B5,C1:C5,"<>Борис")')).toBe(150);
+      expect(value('=MAXIFS(B1:B5,C1:C5,"Анна")')).toBe(300);
+      expect(value('=MINIFS(B1:B5,A1:A5,"Юг")')).toBe(250);
+      expect(value('=MAXIFS(B1:B5,A1:A5,"Запад")')).toBe(0);
+    });
+
+    it('должен проверять размеры диапазонов и распространять ошибки', () => {
+      expect(value('=SUMIFS(B1:B5,A1:A4,"Юг")')).toBe('#VALUE!');
+      expect(value('=COUNTIFS(A1:A5,"Юг",B1:B5)')).toBe('#VALUE!');
+      expect(value('=SUMIF(A1:A6,"",B1:B6)')).toBe('#N/A');
+      expect(value('=COUNTIF(B1:B6,">0")')).toBe(4);
+      expect(value('=SUMIF(1,">0")')).toBe('#VALUE!');
+    });
+  });
+
+  it('должен сопоставлять ячейки целых столбцов по позициям', () => {
+    const workbook = new Workbook();
+    const matrix = workbook.getActiveSheet().matrix;
+    matrix.setCell(0, 0, 'да');
+    matrix.setCell(2, 0, 'да');
+    matrix.setCell(1, 1, 10);
+    matrix.setCell(2, 1, 20);
+    matrix.setCell(700, 1, 40);
+    matrix.setCell(0, 3, '=SUMIF(A:A,"да",B:B)');
+    matrix.setCell(1, 3, '=COUNTIFS(A:A,"",B:B,">0")');
+
+    expect(workbook.getCellValue(0, 3).value).toBe(20);
+    expect(workbook.getCellValue(1, 3).value).toBe(2);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DateSerial } from '../../src/core/formulas/DateSerial';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Даты и время', () => {
+  const harness = createFormulaHarness([]);
+  const { evaluate, value } = harness;
+
+  describe('Серийные номера', () => {
+    it('должен считать даты в системе 1900 с несуществующим 29.02.1900', () => {
+      expect(value('=DATE(1900,1,1)')).toBe(1);
+      expect(value('=DATE(1900,2,28)')).toBe(59);
+      expect(value('=DATE(1900,2,29)')).toBe(60);
+      expect(value('=DATE(1900,3,1)')).toBe(61);
+      expect(value('=DATE(2026,10,19)')).toBe(46314);
+      expect(value('=DATE(126,10,19)')).toBe(46314);
+      expect(value('=DATE(2026,14,0)')).toBe(value('=DATE(2027,1,31)'));
+      expect(value('=DAY(60)')).toBe(29);
+      expect(value('=DATE(10000,1,1)')).toBe('#NUM!');
+      expect(evaluate('=DATE(2026,10,19)').format).toBe('date');
+    });
+
+    it('должен разбирать даты по локали', () => {
+      expect(DateSerial.parse('19.10.2026', 'ru-RU')).toEqual({ serial: 46314, kind: 'date' });
+      expect(DateSerial.parse('10/19/2026', 'en-US')).toEqual({ serial: 46314, kind: 'date' });
+      expect(DateSerial.parse('2026-10-19')).toEqual({ serial: 46314, kind: 'date' });
+      expect(DateSerial.parse('19.10.2026')).toBeNull();
+      expect(DateSerial.parse('31.04.2026', 'ru-RU')).toBeNull();
+      expect(DateSerial.parse('12.5', 'ru-RU')).toBeNull();
+      expect(DateSerial.parse('29.02.1900', 'ru-RU')?.serial).toBe(60);
+      expect(DateSerial.parse('14:30')).toEqual({ serial: 14.5 / 24, kind: 'time' });
+      expect(DateSerial.parse('19.10.26 2:30 PM', 'ru-RU')).toEqual({
+        serial: 46314 + 14.5 / 24,
+        kind: 'datetime',
+      });
+      expect(DateSerial.formatCode('date', 'en-US')).toBe('mm/dd/yyyy');
+      expect(DateSerial.formatCode('datetime', 'ru-RU')).toBe('dd.mm.yyyy hh:mm');
+    });
+  });
+
+  describe('Функции', () => {
+    it('должен возвращать части даты и времени', () => {
+      expect(value('=YEAR("2026-10-19")')).toBe(2026);
+      expect(value('=MONTH(DATE(2026,10,19))')).toBe(10);
+      expect(value('=DAY(0)')).toBe(0);
+      expect(value('=HOUR(0.75)')).toBe(18);
+      expect(value('=MINUTE(TIME(14,30,59))')).toBe(30);
+      expect(value('=SECOND("14:30:15")')).toBe(15);
+      expect(value('=HOUR(TIME(25,0,0))')).toBe(1);
+      expect(value('=TIME(-1,0,0)')).toBe('#NUM!');
+      expect(value('=YEAR(-1)')).toBe('#NUM!');
+      expect(value('="2026-10-19"+1')).toBe(46315);
+    });
+
+    it('должен сдвигать даты на месяцы', () => {
+      expect(value('=EDATE(DATE(2026,1,31),1)')).toBe(value('=DATE(2026,2,28)'));
+      expect(value('=EDATE(DATE(2024,2,29),-12)')).toBe(value('=DATE(2023,2,28)'));
+      expect(value('=EOMONTH(DATE(2026,10,19),0)')).toBe(value('=DATE(2026,10,31)'));
+      expect(value('=EOMONTH(DATE(2026,10,19),-10)')).toBe(value('=DATE(2025,12,31)'));
+    });
+
+    it('должен вычислять разницу дат в DATEDIF', () => {
+      const datedif = (unit: string) =>
+        value(`=DATEDIF(DATE(2020,5,15),DATE(2026,10,19),"${unit}")`);
+      expect(datedif('Y')).toBe(6);
+      expect(datedif('M')).toBe(77);
+      expect(datedif('D')).toBe(value('=DATE(2026,10,19)-DATE(2020,5,15)'));
+      expect(datedif('YM')).toBe(5);
+      expect(datedif('MD')).toBe(4);
+      expect(datedif('YD')).toBe(157);
+      expect(datedif('X')).toBe('#NUM!');
+      expect(value('=DATEDIF(DATE(2026,10,19),DATE(2020,5,15),"D")')).toBe('#NUM!');
+    });
+
+    it('должен определять день недели и считать рабочие дни', () => {
+      // 19.10.2026 - понедельник
+      expect(value('=WEEKDAY(DATE(2026,10,19))')).toBe(2);
+      expect(value('=WEEKDAY(DATE(2026,10,19),2)')).toBe(1);
+      expect(value('=WEEKDAY(DATE(2026,10,19),3)')).toBe(0);
+      expect(value('=WEEKDAY(DATE(2026,10,19),16)')).toBe(3);
+      expect(value('=WEEKDAY(1)')).toBe(1);
+      expect(value('=WEEKDAY(1,4)')).toBe('#NUM!');
+
+      expect(value('=WORKDAY(DATE(2026,10,16),1)')).toBe(46314);
+      expect(value('=WORKDAY(DATE(2026,10,19),-1)')).toBe(value('=DATE(2026,10,16)'));
+      expect(value('=WORKDAY(DATE(2026,10,16),2,DATE(2026,10,20))')).toBe(
+        value('=DATE(2026,10,21)')
+      );
+      expect(value('=NETWORKDAYS(DATE(2026,10,1),DATE(2026,10,31))')).toBe(22);
+      expect(value('=NETWORKDAYS(DATE(2026,10,31),DATE(2026,10,1))')).toBe(-22);
+      expect(value('=NETWORKDAYS(DATE(2026,10,1),DATE(2026,10,31),DATE(2026,10,19))')).toBe(21);
+    });
+
+    it('должен форматировать даты в TEXT', () => {
+      expect(value('=TEXT(DATE(2026,10,19),"dd.mm.yyyy")')).toBe('19.10.2026');
+      expect(value('=TEXT(DATE(2026,10,19),"d mmm yy, dddd")')).toBe('19 Oct 26, Monday');
+      expect(value('=TEXT(TIME(14,5,9),"hh:mm:ss")')).toBe('14:05:09');
+      expect(value('=TEXT(TIME(14,5,9),"h:mm AM/PM")')).toBe('2:05 PM');
+      expect(value('=TEXT(-1,"dd.mm.yyyy")')).toBe('#VALUE!');
+    });
+
+    describe('TODAY и NOW', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('должен возвращать текущую дату и время как волатильные функции', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2026, 9, 19, 18, 0, 0));
+
+        expect(evaluate('=TODAY()')).toMatchObject({ value: 46314, format: 'date' });
+        expect(evaluate('=NOW()')).toMatchObject({ value: 46314.75, format: 'datetime' });
+        expect(harness.formulaManager.getStats().volatileFormulas).toBe(1);
+      });
+    });
+  });
+
+  it('должен хранить введенные даты как серийные номера в формате локали книги', () => {
+    const workbook = new Workbook();
+    const matrix = workbook.getActiveSheet().matrix;
+    matrix.setCell(0, 0, '19.10.2026');
+    matrix.setCell(1, 0, '10/26/2026');
+    matrix.setCell(2, 0, '2026-10-20');
+    matrix.setCell(3, 0, '14:30');
+    matrix.setCell(0, 1, '=NETWORKDAYS(A1,DATE(2026,10,31),A3:A3)');
+    matrix.setCell(1, 1, '=A2-A1');
+
+    expect(workbook.getCellValue(0, 0)).toEqual({ value: 46314, type: 'number', format: 'date' });
+    expect(workbook.getCellValue(1, 0).type).toBe('string');
+    expect(workbook.getCellValue(2, 0).value).toBe(46315);
+    expect(workbook.getCellValue(3, 0).format).toBe('time');
+    expect(workbook.getCellValue(0, 1).value).toBe(9);
+    expect(workbook.getCellValue(1, 1).value).toBe('#VALUE!');
+
+    workbook.setDateLocale('en-US');
+    expect(workbook.getCellValue(0, 0).type).toBe('string');
+    expect(workbook.getCellValue(1, 0).value).toBe(46321);
+    expect(workbook.getCellValue(0, 1).value).toBe('#VALUE!');
+
+    expect(() => workbook.setDateLocale('не локаль')).toThrow('Неподдерживаемая локаль');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { FormulaError } from '../../src/core/formulas/FormulaErrors';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Ошибки формул', () => {
+  // A1:C2: ошибки в A1 и A2, число и текст
+  const { evaluate } = createFormulaHarness([
+    [{ type: 'error', value: '#DIV/0!' }, 5, 'abc'],
+    [{ type: 'error', value: '#N/A' }],
+  ]);
+
+  describe('Распространение ошибок', () => {
+    it('должен распространять ошибку через бинарные операции', () => {
+      expect(evaluate('=A1+1')).toEqual({ type: 'error', value: '#DIV/0!' });
+      expect(evaluate('=1*A2')).toEqual({ type: 'error', value: '#N/A' });
+    });
+
+    it('должен распространять ошибку через унарные операции', () => {
+      expect(evaluate('=-A1')).toEqual({ type: 'error', value: '#DIV/0!' });
+    });
+
+    it('должен распространять ошибку через агрегатные функции', () => {
+      expect(evaluate('=SUM(A1:B1)').value).toBe('#DIV/0!');
+      expect(evaluate('=MAX(B1,A2)').value).toBe('#N/A');
+    });
+
+    it('должен возвращать #VALUE! для арифметики с текстом', () => {
+      expect(evaluate('=C1+1').value).toBe('#VALUE!');
+      expect(evaluate('="2"+1')).toEqual({ type: 'number', value: 3 });
+    });
+
+    it('должен возвращать #NAME? для неизвестной функции', () => {
+      expect(evaluate('=UNKNOWN(1)').value).toBe('#NAME?');
+    });
+
+    it('должен возвращать #NUM! для невычислимых степеней', () => {
+      expect(evaluate('=(-8)^0.5').value).toBe('#NUM!');
+      expect(evaluate('=0^0').value).toBe('#NUM!');
+    });
+
+    it('должен возвращать #DIV/0! для AVERAGE без чисел', () => {
+      expect(evaluate('=AVERAGE(C1)').value).toBe('#DIV/0!');
+    });
+
+    it('должен парсить литералы ошибок', () => {
+      expect(evaluate('=#N/A')).toEqual({ type: 'error', value: '#N/A' });
+      expect(evaluate('=NA()')).toEqual({ type: 'error', value: '#N/A' });
+    });
+  });
+
+  describe('Функции проверки ошибок', () => {
+    it('должен проверять ошибки через ISERROR, ISERR и ISNA', () => {
+      expect(evaluate('=ISERROR(A1)').value).toBe(true);
+      expect(evaluate('=ISERROR(B1)').value).toBe(false);
+      expect(evaluate('=ISERR(A2)').value).toBe(false);
+      expect(evaluate('=ISERR(C1*2)').value).toBe(true);
+      expect(evaluate('=ISNA(A2)').value).toBe(true);
+    });
+
+    it('должен возвращать номер ошибки в ERROR.TYPE', () => {
+      expect(evaluate('=ERROR.TYPE(A1)').value).toBe(2);
+      expect(evaluate('=ERROR.TYPE(#NULL!)').value).toBe(1);
+      expect(evaluate('=ERROR.TYPE(B1)').value).toBe('#N/A');
+    });
+  });
+
+  describe('FormulaError', () => {
+    it('должен распознавать коды ошибок', () => {
+      expect(FormulaError.isErrorCode('#REF!')).toBe(true);
+      expect(FormulaError.isErrorCode('#CIRC!')).toBe(true);
+      expect(FormulaError.isErrorCode('#ERROR')).toBe(false);
+    });
+
+    it('должен преобразовывать исключения в коды ошибок', () => {
+      expect(FormulaError.toErrorCode(new FormulaError('#REF!'))).toBe('#REF!');
+      expect(FormulaError.toErrorCode(new Error('boom'))).toBe('#VALUE!');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+// Эталонные значения из примеров документации Excel: формула, результат, знаков после запятой
+const GOLDEN_VALUES: [string, number, number][] = [
+  ['=PMT(0.08/12,10,10000)', -1037.03, 2],
+  ['=PMT(0.06/12,18*12,0,50000)', -129.08, 2],
+  ['=IPMT(0.1/12,1,3*12,8000)', -66.67, 2],
+  ['=IPMT(0.1,3,3,8000)', -292.45, 2],
+  ['=PPMT(0.1/12,1,2*12,2000)', -75.62, 2],
+  ['=PPMT(0.08,10,10,200000)', -27598.05, 2],
+  ['=FV(0.06/12,10,-200,-500,1)', 2581.4, 2],
+  ['=FV(0.12/12,12,-1000)', 12682.5, 2],
+  ['=PV(0.08/12,12*20,500)', -59777.15, 2],
+  ['=NPER(0.12/12,-100,-1000,10000,1)', 59.6738657, 7],
+  ['=NPER(0.12/12,-100,-1000,10000)', 60.0821229, 7],
+  ['=NPER(0.12/12,-100,-1000)', -9.57859404, 7],
+  ['=RATE(4*12,-200,8000)', 0.00770147, 8],
+  ['=RATE(4*12,-200,8000)*12', 0.09241767, 8],
+  ['=NPV(0.1,-10000,3000,4200,6800)', 1188.44, 2],
+  ['=NPV(0.08,8000,9200,10000,12000,14500)-40000', 1922.06, 2],
+  ['=IRR(A1:A5)', -0.02124485, 8],
+  ['=IRR(A1:A6)', 0.08663095, 8],
+  ['=IRR(A1:A3,-0.1)', -0.44350694, 8],
+  ['=XNPV(0.09,B1:B5,C1:C5)', 2086.65, 2],
+  ['=XIRR(B1:B5,C1:C5,0.1)', 0.373362535, 8],
+  ['=SLN(30000,7500,10)', 2250, 10],
+  ['=DB(1000000,100000,6,1,7)', 186083.33, 2],
+  ['=DB(1000000,100000,6,2,7)', 259639.42, 2],
+  ['=DB(1000000,100000,6,3,7)', 176814.44, 2],
+  ['=DB(1000000,100000,6,4,7)', 120410.64, 2],
+  ['=DB(1000000,100000,6,5,7)', 81999.64, 2],
+  ['=DB(1000000,100000,6,6,7)', 55841.76, 2],
+  ['=DB(1000000,100000,6,7,7)', 15845.1, 2],
+  ['=DDB(2400,300,10*365,1)', 1.32, 2],
+  ['=DDB(2400,300,10*12,1,2)', 40, 2],
+  ['=DDB(2400,300,10,1,2)', 480, 2],
+  ['=DDB(2400,300,10,2,1.5)', 306, 2],
+  ['=DDB(2400,300,10,10)', 22.12, 2],
+];
+
+describe('Финансовые функции', () => {
+  // A - потоки для IRR, B и C - потоки и даты для XNPV/XIRR, D - только положительные потоки
+  const { evaluate, value } = createFormulaHarness([
+    [-70000, -10000, 39448, 100],
+    [12000, 2750, 39508, 200],
+    [15000, 4250, 39751],
+    [18000, 3250, 39859],
+    [21000, 2750, 39904],
+    [26000],
+  ]);
+
+  describe('Эталонные значения', () => {
+    for (const [formula, expected, digits] of GOLDEN_VALUES) {
+      it(`должен вычислять ${formula}`, () => {
+        const result = evaluate(formula);
+        expect(result.type).toBe('number');
+        expect(result.value).toBeCloseTo(expected, digits);
+      });
+    }
+  });
+
+  it('должен возвращать #NUM!, если ставка не сходится или аргументы недопустимы', () => {
+    expect(value('=RATE(10,100,1000)')).toBe('#NUM!');
+    expect(value('=IRR(D1:D2)')).toBe('#NUM!');
+    expect(value('=XIRR(D1:D2,C1:C2)')).toBe('#NUM!');
+    expect(value('=XNPV(0.09,B1:B5,C1:C4)')).toBe('#NUM!');
+    expect(value('=XNPV(0.09,B1:B2,C2:C3)')).toBeCloseTo(-10000 + 2750 / 1.09 ** (243 / 365), 8);
+    expect(value('=PMT(0.1,0,1000)')).toBe('#NUM!');
+    expect(value('=IPMT(0.1,4,3,8000)')).toBe('#NUM!');
+    expect(value('=DDB(2400,300,10,11)')).toBe('#NUM!');
+    expect(value('=DB(1000000,100000,6,8,7)')).toBe('#NUM!');
+    expect(value('=SLN(1000,100,0)')).toBe('#DIV/0!');
+  });
+
+  it('должен считать аннуитет с нулевой ставкой', () => {
+    expect(value('=PMT(0,10,1000)')).toBe(-100);
+    expect(value('=FV(0,10,-100)')).toBe(1000);
+    expect(value('=PV(0,10,-100)')).toBe(1000);
+    expect(value('=NPER(0,-100,1000)')).toBe(10);
+    expect(value('=RATE(10,-100,1000)')).toBeCloseTo(0, 8);
+  });
+});
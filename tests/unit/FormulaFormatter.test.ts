@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+import { FormulaFormatter } from '../../src/core/formulas/FormulaFormatter';
+import { FormulaNode } from '../../src/core/formulas/FormulaAST';
+
+// Формула и ее текст после форматирования AST: лишние скобки убираются, нужные остаются
+const FORMATTED: [string, string][] = [
+  ['=(A1+B1)*2', '(A1+B1)*2'],
+  ['=A1+(B1*2)', 'A1+B1*2'],
+  ['=(A1-B1)-C1', 'A1-B1-C1'],
+  ['=A1-(B1-C1)', 'A1-(B1-C1)'],
+  ['=A1/(B1*C1)', 'A1/(B1*C1)'],
+  ['=(2^3)^2', '2^3^2'],
+  ['=2^(3^2)', '2^(3^2)'],
+  ['=-(A1^2)', '-(A1^2)'],
+  ['=(-A1)^2', '-A1^2'],
+  ['=-(-A1)', '--A1'],
+  ['=(A1&B1)=C1', 'A1&B1=C1'],
+  ['=A1&(B1=C1)', 'A1&(B1=C1)'],
+  ['=SUM((A1:A3))*(1+2)', 'SUM(A1:A3)*(1+2)'],
+  ['="он сказал ""да"""', '"он сказал ""да"""'],
+  ['=LET(x,(1+2),x*(x-1))', 'LET(x,1+2,x*(x-1))'],
+  ['=IF(A1,,(1))', 'IF(A1,,1)'],
+];
+
+describe('Форматирование формул', () => {
+  let workbook: Workbook;
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+  const formulaManager = () => workbook.getFormulaManager();
+
+  // Вставка строки перед первой и обновление формул
+  const insertRow = () => {
+    matrix().insertRow(0);
+    formulaManager().handleRowInsertion(0, 'Sheet1');
+  };
+
+  beforeEach(() => {
+    workbook = new Workbook();
+    [1, 2, 3].forEach((value, col) => matrix().setCell(0, col, value));
+  });
+
+  describe('Минимальные скобки', () => {
+    const parser = new FormulaParser();
+    for (const [formula, expected] of FORMATTED) {
+      it(`должен форматировать ${formula}`, () => {
+        const text = FormulaFormatter.format(parser.parse(formula).root);
+        expect(text).toBe(expected);
+        // Повторный разбор дает то же дерево
+        expect(parser.parse(`=${text}`).root).toEqual(parser.parse(formula).root);
+      });
+    }
+  });
+
+  it('должен сохранять скобки и значение формулы при вставке строки', () => {
+    matrix().setCell(0, 3, '=(A1+B1)*2');
+    expect(workbook.getCellValue(0, 3).value).toBe(6);
+
+    insertRow();
+    expect(matrix().getCell(1, 3)).toBe('=(A2+B2)*2');
+    expect(workbook.getCellValue(1, 3).value).toBe(6);
+  });
+
+  it('должен сохранять пробелы и регистр при замене ссылок', () => {
+    matrix().setCell(0, 3, '= sum( a1 , B1:c1 )  *  if(TRUE, 1, "x")');
+    expect(workbook.getCellValue(0, 3).value).toBe(6);
+
+    insertRow();
+    expect(matrix().getCell(1, 3)).toBe('= sum( A2 , B2:C2 )  *  if(TRUE, 1, "x")');
+
+    // Положения ссылок обновлены: повторный сдвиг тоже меняет только ссылки
+    insertRow();
+    expect(matrix().getCell(2, 3)).toBe('= sum( A3 , B3:C3 )  *  if(TRUE, 1, "x")');
+    expect(workbook.getCellValue(2, 3).value).toBe(6);
+  });
+
+  it('должен сохранять оформление при копировании формулы', () => {
+    const translated = formulaManager().translateFormula('=Sheet1!a1 + $B$1 * """A1"""', 1, 1);
+    expect(translated).toBe('=Sheet1!B2 + $B$1 * """A1"""');
+    expect(formulaManager().translateFormula('=A1 +  B2', -1, 0)).toBe('=#REF! +  B1');
+  });
+
+  it('должен заменять текст ссылок в нужных позициях', () => {
+    const ast = new FormulaParser().parse('=A1+ Data!B2 +C3');
+    const [first, second, third] = [...ast.spans!.keys()];
+    expect([...ast.spans!.values()]).toEqual([
+      { start: 1, end: 3 },
+      { start: 5, end: 12 },
+      { start: 14, end: 16 },
+    ]);
+
+    const wide = { type: 'cell', row: 99, col: 26 } as const;
+    const replaced = FormulaFormatter.replaceReferences(
+      ast,
+      new Map<FormulaNode, FormulaNode>([
+        [first!, wide],
+        [third!, { type: 'error', value: '#REF!' }],
+      ])
+    );
+    expect(replaced!.text).toBe('=AA100+ Data!B2 +#REF!');
+    const { start, end } = replaced!.spans.get(second!)!;
+    expect(replaced!.text.slice(start, end)).toBe('Data!B2');
+    expect(replaced!.spans.get(wide)).toEqual({ start: 1, end: 6 });
+
+    // Без положений ссылок замена невозможна - формула собирается из AST
+    expect(
+      FormulaFormatter.replaceReferences(
+        { root: ast.root, originalFormula: ast.originalFormula },
+        new Map()
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+
+describe('LET и LAMBDA', () => {
+  let workbook: Workbook;
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+  const value = (row: number, col: number) => workbook.getCellValue(row, col).value;
+
+  const evaluate = (formula: string) => {
+    matrix().setCell(99, 99, formula);
+    return workbook.getCellValue(99, 99).value;
+  };
+
+  beforeEach(() => {
+    workbook = new Workbook();
+    // A1:B3 - числа по строкам
+    [
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ].forEach((cells, row) => cells.forEach((cell, col) => matrix().setCell(row, col, cell)));
+  });
+
+  it('должен разбирать LET, LAMBDA и вызов выражения', () => {
+    const parser = new FormulaParser();
+    expect(parser.parse('=LET(x,1,y,x+1,x*y)').root).toMatchObject({
+      type: 'let',
+      bindings: [{ name: 'x' }, { name: 'y' }],
+      body: { type: 'binary' },
+    });
+    expect(parser.parse('=LAMBDA(a,b,a+b)(1,2)').root).toMatchObject({
+      type: 'call',
+      callee: { type: 'lambda', params: ['a', 'b'] },
+      args: [{ value: 1 }, { value: 2 }],
+    });
+
+    expect(() => parser.parse('=LET(x,1)')).toThrow();
+    expect(() => parser.parse('=LET(x,1,x,2,x)')).toThrow();
+    expect(() => parser.parse('=LET(A1,1,A1)')).toThrow();
+    expect(() => parser.parse('=LAMBDA(x,x,x)')).toThrow();
+    // R и C зарезервированы для ссылок R1C1
+    expect(() => parser.parse('=LAMBDA(r,r+1)')).toThrow();
+  });
+
+  it('должен вычислять LET с локальными именами', () => {
+    expect(evaluate('=LET(x,2,y,x*10,x+y)')).toBe(22);
+    expect(evaluate('=LET(data,A1:B3,SUM(data)/ROWS(data))')).toBe(7);
+    // Локальное имя перекрывает имя книги, но не видно в его определении
+    workbook.defineName('x', '100');
+    workbook.defineName('Total', '=x+1');
+    expect(evaluate('=LET(x,1,x+Total)')).toBe(102);
+    expect(evaluate('=LET(f,LAMBDA(n,n*2),f)')).toBe('#CALC!');
+  });
+
+  it('должен вызывать LAMBDA с замыканием и проверять число аргументов', () => {
+    expect(evaluate('=LAMBDA(a,b,a*b)(6,7)')).toBe(42);
+    expect(evaluate('=LET(k,3,times,LAMBDA(n,n*k),times(5))')).toBe(15);
+    expect(evaluate('=LET(apply,LAMBDA(f,v,f(v)),apply(LAMBDA(n,n+1),1))')).toBe(2);
+    expect(evaluate('=LAMBDA(a,a)(1,2)')).toBe('#VALUE!');
+    expect(evaluate('=LAMBDA(a,a)')).toBe('#CALC!');
+    expect(evaluate('=LET(v,1,v(2))')).toBe('#NAME?');
+  });
+
+  it('должен вызывать именованные LAMBDA как пользовательские функции', () => {
+    matrix().setCell(0, 3, '=Hypot(A2,B2)');
+    expect(value(0, 3)).toBe('#NAME?');
+
+    workbook.defineName('Hypot', '=LAMBDA(a,b,SQRT(a^2+b^2))');
+    expect(value(0, 3)).toBe(5);
+    expect(workbook.getNames()).toContainEqual({
+      name: 'Hypot',
+      refersTo: '=LAMBDA(a,b,SQRT(a^2+b^2))',
+    });
+
+    // Рекурсия и ссылка на ячейку в теле функции
+    workbook.defineName('Fact', '=LAMBDA(n,IF(n<=1,1,n*Fact(n-1)))');
+    workbook.defineName('Scaled', '=LAMBDA(v,v*$A$3)');
+    matrix().setCell(1, 3, '=Fact(5)+Scaled(2)');
+    expect(value(1, 3)).toBe(130);
+    matrix().setCell(2, 0, 1);
+    workbook.recalculate();
+    expect(value(1, 3)).toBe(122);
+
+    workbook.defineName('Loop', '=LAMBDA(n,Loop(n+1))');
+    expect(evaluate('=Loop(1)')).toBe('#NUM!');
+  });
+
+  it('должен применять LAMBDA к элементам, строкам и столбцам массивов', () => {
+    matrix().setCell(0, 3, '=MAP(A1:A3,B1:B3,LAMBDA(a,b,a*b))');
+    expect([value(0, 3), value(1, 3), value(2, 3)]).toEqual([2, 12, 30]);
+
+    expect(evaluate('=REDUCE(0,A1:B3,LAMBDA(acc,v,acc+v^2))')).toBe(91);
+    expect(evaluate('=INDEX(SCAN(1,A1:A3,LAMBDA(acc,v,acc*v)),3)')).toBe(15);
+    expect(evaluate('=INDEX(BYROW(A1:B3,LAMBDA(line,SUM(line))),2)')).toBe(7);
+    expect(evaluate('=INDEX(BYCOL(A1:B3,LAMBDA(line,MAX(line))),1,2)')).toBe(6);
+
+    workbook.defineName('Twice', '=LAMBDA(v,v*2)');
+    expect(evaluate('=SUM(MAP(A1:A3,Twice))')).toBe(18);
+    expect(evaluate('=MAP(A1:A3,LAMBDA(a,b,a))')).toBe('#VALUE!');
+    expect(evaluate('=BYROW(A1:B3,5)')).toBe('#VALUE!');
+    expect(evaluate('=INDEX(BYROW(A1:B3,LAMBDA(line,line*2)),1)')).toBe('#CALC!');
+  });
+
+  it('должен сохранять LAMBDA при сдвиге ссылок', () => {
+    matrix().setCell(0, 3, '=LET(x,A1,LAMBDA(y,y+x+B1)(1))');
+    expect(value(0, 3)).toBe(4);
+
+    matrix().insertRow(0);
+    workbook.getFormulaManager().handleRowInsertion(0, 'Sheet1');
+    expect(matrix().getCell(1, 3)).toBe('=LET(x,A2,LAMBDA(y,y+x+B2)(1))');
+    expect(value(1, 3)).toBe(4);
+  });
+});
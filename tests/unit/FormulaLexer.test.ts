@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FormulaLexer } from '../../src/core/formulas/FormulaLexer';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+import { FormulaManager } from '../../src/core/formulas/FormulaManager';
+import { FormulaContext } from '../../src/core/formulas/FormulaEngine';
+
+describe('FormulaLexer', () => {
+  let lexer: FormulaLexer;
+
+  beforeEach(() => {
+    lexer = new FormulaLexer();
+  });
+
+  describe('Токенизация', () => {
+    it('должен распознавать многосимвольные операторы сравнения', () => {
+      const tokens = lexer.tokenize('A1<=B1>=C1<>D1');
+      const operators = tokens.filter(t => t.type === 'operator').map(t => t.value);
+      expect(operators).toEqual(['<=', '>=', '<>']);
+    });
+
+    it('должен распознавать числа с экспонентой и без целой части', () => {
+      const tokens = lexer.tokenize('1e5+.5+2.5E-3+10.');
+      const numbers = tokens.filter(t => t.type === 'number').map(t => t.value);
+      expect(numbers).toEqual(['1e5', '.5', '2.5E-3', '10.']);
+    });
+
+    it('должен обрабатывать экранирование кавычек в строках', () => {
+      const tokens = lexer.tokenize('"say ""hi"""');
+      expect(tokens[0]).toMatchObject({ type: 'string', value: 'say "hi"' });
+    });
+
+    it('должен отличать ссылки от имен функций', () => {
+      const tokens = lexer.tokenize('LOG10(A1) + $B$2');
+      expect(tokens.map(t => t.type)).toEqual([
+        'identifier',
+        'lparen',
+        'reference',
+        'rparen',
+        'operator',
+        'reference',
+        'eof',
+      ]);
+    });
+
+    it('должен пропускать пробелы и сохранять позиции токенов', () => {
+      const tokens = lexer.tokenize('  SUM( A1 , B2 )');
+      expect(tokens[0]).toMatchObject({ value: 'SUM', position: 2, end: 5 });
+      expect(tokens[2]).toMatchObject({ value: 'A1', position: 7 });
+      expect(tokens[4]).toMatchObject({ value: 'B2', position: 12 });
+    });
+
+    it('должен сообщать позицию незакрытой строки', () => {
+      expect(() => lexer.tokenize('1+"abc')).toThrow();
+      try {
+        lexer.tokenize('1+"abc');
+      } catch (error) {
+        expect(error).toMatchObject({ position: 2 });
+      }
+    });
+  });
+});
+
+describe('FormulaParser с лексером', () => {
+  let parser: FormulaParser;
+
+  beforeEach(() => {
+    parser = new FormulaParser();
+  });
+
+  it('должен строить бинарные узлы для <=, >= и <>', () => {
+    expect(parser.parse('=A1<=5').root).toMatchObject({ type: 'binary', operator: '<=' });
+    expect(parser.parse('=A1>=5').root).toMatchObject({ type: 'binary', operator: '>=' });
+    expect(parser.parse('=A1<>5').root).toMatchObject({ type: 'binary', operator: '<>' });
+  });
+
+  it('должен парсить числа в экспоненциальной записи', () => {
+    expect(parser.parse('=1e5').root).toEqual({ type: 'number', value: 100000 });
+    expect(parser.parse('=.5').root).toEqual({ type: 'number', value: 0.5 });
+  });
+
+  it('должен давать диапазону приоритет выше арифметики', () => {
+    const root = parser.parse('=SUM(A1:A3)*2').root;
+    expect(root).toMatchObject({
+      type: 'binary',
+      operator: '*',
+      left: { type: 'function', name: 'SUM', args: [{ type: 'range', endRow: 2 }] },
+    });
+  });
+
+  it('должен возвращать позицию ошибки парсинга', () => {
+    try {
+      parser.parse('=1+)');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({ position: 2 });
+    }
+  });
+});
+
+describe('Вычисление сравнений', () => {
+  let formulaManager: FormulaManager;
+
+  beforeEach(() => {
+    const context: FormulaContext = {
+      getCellValue: (row: number, col: number) =>
+        row === 0 && col === 0 ? { type: 'number', value: 5 } : { type: 'empty', value: null },
+      getCellRange: () => [],
+    };
+    formulaManager = new FormulaManager(context);
+  });
+
+  it('должен корректно вычислять <= и >=', () => {
+    formulaManager.setFormula(1, 0, '=A1<=4');
+    formulaManager.setFormula(2, 0, '=A1>=5');
+    expect(formulaManager.evaluateFormula(1, 0).value).toBe(false);
+    expect(formulaManager.evaluateFormula(2, 0).value).toBe(true);
+  });
+});
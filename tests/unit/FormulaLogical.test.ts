@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Логические функции', () => {
+  // A1:C3: число, логические значения, текст и ошибка в A3
+  const { evaluate, reads } = createFormulaHarness([
+    [10, true, 'Текст'],
+    [0, false],
+    [{ type: 'error', value: '#N/A' }],
+  ]);
+
+  describe('Логический тип', () => {
+    it('должен парсить литералы TRUE и FALSE', () => {
+      expect(evaluate('=TRUE')).toEqual({ type: 'boolean', value: true });
+      expect(evaluate('=false')).toEqual({ type: 'boolean', value: false });
+    });
+
+    it('должен возвращать логический тип для сравнений', () => {
+      expect(evaluate('=A1>5')).toEqual({ type: 'boolean', value: true });
+      expect(evaluate('=A1<>10')).toEqual({ type: 'boolean', value: false });
+    });
+
+    it('должен сравнивать строки без учета регистра', () => {
+      expect(evaluate('=C1="текст"').value).toBe(true);
+      expect(evaluate('="a"<"B"').value).toBe(true);
+    });
+
+    it('должен считать строки больше чисел, а логические значения больше строк', () => {
+      expect(evaluate('="1">100').value).toBe(true);
+      expect(evaluate('=TRUE>"z"').value).toBe(true);
+    });
+
+    it('должен приводить логические значения к числам в арифметике', () => {
+      expect(evaluate('=TRUE+TRUE')).toEqual({ type: 'number', value: 2 });
+    });
+  });
+
+  describe('IF', () => {
+    it('должен выбирать ветку по условию', () => {
+      expect(evaluate('=IF(A1>5,"big","small")').value).toBe('big');
+      expect(evaluate('=IF(A2,"yes","no")').value).toBe('no');
+    });
+
+    it('должен возвращать FALSE, если ветка "иначе" не указана', () => {
+      expect(evaluate('=IF(A1<5,1)')).toEqual({ type: 'boolean', value: false });
+    });
+
+    it('должен вычислять только выбранную ветку', () => {
+      evaluate('=IF(TRUE,A1,C1)');
+      expect(reads).toContain('0:0');
+      expect(reads).not.toContain('0:2');
+    });
+
+    it('должен возвращать #VALUE! для нелогического условия', () => {
+      expect(evaluate('=IF(C1,1,2)').value).toBe('#VALUE!');
+    });
+  });
+
+  describe('AND, OR, XOR, NOT', () => {
+    it('должен вычислять AND и OR', () => {
+      expect(evaluate('=AND(A1>5,B1)').value).toBe(true);
+      expect(evaluate('=AND(A1>5,B2)').value).toBe(false);
+      expect(evaluate('=OR(A2,B2,A1=10)').value).toBe(true);
+    });
+
+    it('должен учитывать только логические значения и числа в диапазонах', () => {
+      expect(evaluate('=AND(A1:C1)').value).toBe(true);
+      expect(evaluate('=OR(A2:B2)').value).toBe(false);
+    });
+
+    it('должен вычислять XOR по нечетному количеству истинных значений', () => {
+      expect(evaluate('=XOR(TRUE,FALSE)').value).toBe(true);
+      expect(evaluate('=XOR(TRUE,TRUE)').value).toBe(false);
+    });
+
+    it('должен инвертировать значение в NOT', () => {
+      expect(evaluate('=NOT(A2)').value).toBe(true);
+      expect(evaluate('=NOT("TRUE")').value).toBe(false);
+    });
+  });
+
+  describe('IFS и SWITCH', () => {
+    it('должен возвращать значение первого истинного условия IFS', () => {
+      expect(evaluate('=IFS(A1>100,"A",A1>5,"B",TRUE,"C")').value).toBe('B');
+      expect(evaluate('=IFS(A1>100,"A")').value).toBe('#N/A');
+    });
+
+    it('должен выбирать значение SWITCH по совпадению', () => {
+      expect(evaluate('=SWITCH(A1,1,"one",10,"ten")').value).toBe('ten');
+      expect(evaluate('=SWITCH(A1,1,"one","other")').value).toBe('other');
+      expect(evaluate('=SWITCH(A1,1,"one")').value).toBe('#N/A');
+    });
+  });
+
+  describe('IFERROR и IFNA', () => {
+    it('должен подменять ошибки в IFERROR', () => {
+      expect(evaluate('=IFERROR(1/0,"div")').value).toBe('div');
+      expect(evaluate('=IFERROR(A1,"div")').value).toBe(10);
+    });
+
+    it('должен подменять только #N/A в IFNA', () => {
+      expect(evaluate('=IFNA(A3,"нет")').value).toBe('нет');
+      expect(evaluate('=IFNA(1/0,"нет")').value).toBe('#DIV/0!');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Функции поиска и ссылок', () => {
+  // A1:C4 - артикул, название, цена; E1:H2 - горизонтальная таблица
+  const harness = createFormulaHarness([
+    [10, 'Болт', 5, null, 'Код', 'a', 'b', 'c'],
+    [20, 'Гайка', 3, null, 'Цена', 1, 2, 3],
+    [30, 'Шайба', 1],
+    [40, 'Винт', null],
+  ]);
+  const { value } = harness;
+
+  describe('VLOOKUP и HLOOKUP', () => {
+    it('должен находить точное и приблизительное совпадение', () => {
+      expect(value('=VLOOKUP(20,A1:C4,2,FALSE)')).toBe('Гайка');
+      expect(value('=VLOOKUP(25,A1:C4,2)')).toBe('Гайка');
+      expect(value('=VLOOKUP(25,A1:C4,2,FALSE)')).toBe('#N/A');
+      expect(value('=VLOOKUP(5,A1:C4,2,TRUE)')).toBe('#N/A');
+      expect(value('=VLOOKUP(40,A1:C4,3,FALSE)')).toBe(0);
+      expect(value('=VLOOKUP(99,A:C,2)')).toBe('Винт');
+    });
+
+    it('должен проверять номер столбца', () => {
+      expect(value('=VLOOKUP(20,A1:C4,4,FALSE)')).toBe('#REF!');
+      expect(value('=VLOOKUP(20,A1:C4,0,FALSE)')).toBe('#VALUE!');
+    });
+
+    it('должен искать в первой строке с подстановочными знаками', () => {
+      expect(value('=HLOOKUP("b",F1:H2,2,FALSE)')).toBe(2);
+      expect(value('=HLOOKUP("Ц*",E1:H2,1,FALSE)')).toBe('#N/A');
+      expect(value('=VLOOKUP("Ц*",E1:H2,2,FALSE)')).toBe(1);
+    });
+  });
+
+  describe('MATCH и INDEX', () => {
+    it('должен находить позицию с типами сопоставления 0, 1 и -1', () => {
+      expect(value('=MATCH("шайба",B1:B4,0)')).toBe(3);
+      expect(value('=MATCH(35,A1:A4)')).toBe(3);
+      expect(value('=MATCH(35,A1:A4,1)')).toBe(3);
+      expect(value('=MATCH(4,C1:C3,-1)')).toBe(1);
+      expect(value('=MATCH(2,C1:C3,-1)')).toBe(2);
+      expect(value('=MATCH(1,A1:C4,0)')).toBe('#N/A');
+    });
+
+    it('должен возвращать значения по номерам строки и столбца', () => {
+      expect(value('=INDEX(A1:C4,2,3)')).toBe(3);
+      expect(value('=INDEX(B1:B4,4)')).toBe('Винт');
+      expect(value('=INDEX(F2:H2,2)')).toBe(2);
+      expect(value('=INDEX(A1:C4,5,1)')).toBe('#REF!');
+      expect(value('=SUM(INDEX(A1:C4,0,3))')).toBe(9);
+      expect(value('=INDEX(A1:C4,MATCH("Шайба",B1:B4,0),1)')).toBe(30);
+      expect(value('=INDEX(A:A,2)')).toBe(20);
+    });
+  });
+
+  describe('XLOOKUP', () => {
+    it('должен возвращать значение, строку или результат по умолчанию', () => {
+      expect(value('=XLOOKUP("Шайба",B1:B4,A1:A4)')).toBe(30);
+      expect(value('=XLOOKUP("нет",B1:B4,A1:A4,"—")')).toBe('—');
+      expect(value('=XLOOKUP("нет",B1:B4,A1:A4)')).toBe('#N/A');
+      expect(value('=XLOOKUP("c",F1:H1,F2:H2)')).toBe(3);
+      expect(value('=XLOOKUP(20,A1:A4,B1:C4)')).toBe('Гайка');
+      expect(harness.formulaManager.getSpillArea(99, 99)?.result).toMatchObject({
+        rows: 1,
+        cols: 2,
+      });
+      expect(value('=XLOOKUP(20,A1:A4,B1:B3)')).toBe('#VALUE!');
+    });
+
+    it('должен поддерживать режимы сопоставления и поиска', () => {
+      expect(value('=XLOOKUP(25,A1:A4,B1:B4,"нет",-1)')).toBe('Гайка');
+      expect(value('=XLOOKUP(25,A1:A4,B1:B4,"нет",1)')).toBe('Шайба');
+      expect(value('=XLOOKUP("г*",B1:B4,A1:A4,"нет",2)')).toBe(20);
+      expect(value('=XLOOKUP("*а",B1:B4,A1:A4,"нет",2,-1)')).toBe(30);
+      expect(value('=XLOOKUP(1,A1:A4,B1:B4,"нет",3)')).toBe('#VALUE!');
+    });
+
+    it('должен принимать пропущенные аргументы', () => {
+      // Пропущенный результат по умолчанию - #N/A, режимы после него применяются
+      expect(value('=XLOOKUP(25,A1:A4,B1:B4,,-1)')).toBe('Гайка');
+      expect(value('=XLOOKUP("*а",B1:B4,A1:A4,,2,-1)')).toBe(30);
+      expect(value('=XLOOKUP("нет",B1:B4,A1:A4,,0,-1)')).toBe('#N/A');
+      // Пропущенный обязательный аргумент - пустое значение, как ссылка на пустую ячейку
+      expect(value('=IF(TRUE,,1)')).toBeNull();
+      expect(value('=IF(FALSE,,1)')).toBe(1);
+      expect(value('=SUM(1,,2)')).toBe(3);
+    });
+  });
+
+  describe('Ссылки', () => {
+    it('должен возвращать номера и размеры ссылок', () => {
+      expect(value('=ROW(C5)')).toBe(5);
+      expect(value('=COLUMN(C5)')).toBe(3);
+      expect(value('=ROW()')).toBe(100);
+      expect(value('=COLUMN()')).toBe(100);
+      expect(value('=ROWS(A1:C4)')).toBe(4);
+      expect(value('=COLUMNS(A1:C4)')).toBe(3);
+      expect(value('=ROWS(A:A)')).toBe(1048576);
+      expect(value('=ROW(5)')).toBe('#VALUE!');
+    });
+
+    it('должен вычислять OFFSET и INDIRECT как волатильные', () => {
+      expect(value('=OFFSET(A1,2,1)')).toBe('Шайба');
+      expect(value('=SUM(OFFSET(A1,1,2,2,1))')).toBe(4);
+      expect(value('=SUM(OFFSET(C4,0,0,-3))')).toBe(4);
+      expect(value('=OFFSET(A1,-1,0)')).toBe('#REF!');
+      expect(value('=INDIRECT("B"&2)')).toBe('Гайка');
+      expect(value('=SUM(INDIRECT("C1:C3"))')).toBe(9);
+      expect(value('=INDIRECT("R3C2",FALSE)')).toBe('Шайба');
+      expect(value('=INDIRECT("нет ссылки")')).toBe('#REF!');
+      expect(harness.formulaManager.getStats().volatileFormulas).toBe(1);
+    });
+  });
+
+  it('должен пересчитывать INDIRECT и OFFSET при изменении ячеек, прочитанных по ссылке', () => {
+    const workbook = new Workbook();
+    const matrix = workbook.getActiveSheet().matrix;
+    matrix.setCell(0, 0, 'B2');
+    matrix.setCell(1, 1, 5);
+    matrix.setCell(0, 2, '=INDIRECT(A1)*2');
+    matrix.setCell(1, 2, '=OFFSET(A1,1,1)+1');
+    expect(workbook.getCellValue(0, 2).value).toBe(10);
+    expect(workbook.getCellValue(1, 2).value).toBe(6);
+
+    // B2 не упоминается в формулах, но зарегистрирован как динамическая зависимость
+    expect(workbook.getFormulaManager().getDependents(1, 1, 'Sheet1')).toHaveLength(2);
+    matrix.setCell(1, 1, 7);
+    expect(workbook.getCellValue(0, 2).value).toBe(14);
+    expect(workbook.getCellValue(1, 2).value).toBe(8);
+
+    matrix.setCell(0, 0, 'B3');
+    matrix.setCell(2, 1, 1);
+    expect(workbook.getCellValue(0, 2).value).toBe(2);
+    expect(workbook.getFormulaManager().getDependents(1, 1, 'Sheet1')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Математические функции', () => {
+  // A1:B4: числа, текст в A3 и ошибка в A4
+  const harness = createFormulaHarness([
+    [2, 4],
+    [3, 5],
+    ['x', 6],
+    [{ type: 'error', value: '#DIV/0!' }],
+  ]);
+  const { value } = harness;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Округление', () => {
+    it('должен округлять половину от нуля без погрешности двоичных дробей', () => {
+      expect(value('=ROUND(2.5,0)')).toBe(3);
+      expect(value('=ROUND(-2.5,0)')).toBe(-3);
+      expect(value('=ROUND(1.005,2)')).toBe(1.01);
+      expect(value('=ROUND(1234.567,-2)')).toBe(1200);
+      expect(value('=ROUND(2.15,1.9)')).toBe(2.2);
+    });
+
+    it('должен округлять от нуля и к нулю', () => {
+      expect(value('=ROUNDUP(3.141,2)')).toBe(3.15);
+      expect(value('=ROUNDUP(-3.141,2)')).toBe(-3.15);
+      expect(value('=ROUNDUP(0.1+0.2,1)')).toBe(0.3);
+      expect(value('=ROUNDDOWN(-3.149,2)')).toBe(-3.14);
+      expect(value('=TRUNC(-8.9)')).toBe(-8);
+      expect(value('=TRUNC(8.96,1)')).toBe(8.9);
+      expect(value('=INT(-8.9)')).toBe(-9);
+    });
+
+    it('должен округлять до кратного', () => {
+      expect(value('=MROUND(10,3)')).toBe(9);
+      expect(value('=MROUND(1.3,0.2)')).toBe(1.4);
+      expect(value('=MROUND(-10,-3)')).toBe(-9);
+      expect(value('=MROUND(5,-2)')).toBe('#NUM!');
+      expect(value('=CEILING(2.5,1)')).toBe(3);
+      expect(value('=CEILING(-2.5,2)')).toBe(-2);
+      expect(value('=CEILING(-2.5,-2)')).toBe(-4);
+      expect(value('=CEILING(2.5,-2)')).toBe('#NUM!');
+      expect(value('=FLOOR(-2.5,2)')).toBe(-4);
+      expect(value('=FLOOR(0.234,0.01)')).toBe(0.23);
+      expect(value('=FLOOR(3,0)')).toBe('#DIV/0!');
+    });
+  });
+
+  describe('Арифметика', () => {
+    it('должен вычислять остаток со знаком делителя', () => {
+      expect(value('=MOD(3,2)')).toBe(1);
+      expect(value('=MOD(-3,2)')).toBe(1);
+      expect(value('=MOD(3,-2)')).toBe(-1);
+      expect(value('=MOD(5.5,1)')).toBe(0.5);
+      expect(value('=MOD(1,0)')).toBe('#DIV/0!');
+    });
+
+    it('должен проверять область определения', () => {
+      expect(value('=SQRT(16)')).toBe(4);
+      expect(value('=SQRT(-1)')).toBe('#NUM!');
+      expect(value('=LN(0)')).toBe('#NUM!');
+      expect(value('=LOG(8,2)')).toBe(3);
+      expect(value('=LOG(100)')).toBe(2);
+      expect(value('=LOG(10,1)')).toBe('#DIV/0!');
+      expect(value('=LOG10(0.001)')).toBe(-3);
+      expect(value('=POWER(2,10)')).toBe(1024);
+      expect(value('=POWER(0,0)')).toBe('#NUM!');
+      expect(value('=POWER(-8,1/3)')).toBe('#NUM!');
+      expect(value('=FACT(5.9)')).toBe(120);
+      expect(value('=FACT(-1)')).toBe('#NUM!');
+      expect(value('=FACT(171)')).toBe('#NUM!');
+    });
+
+    it('должен приводить аргументы к числу', () => {
+      expect(value('=ABS("-5")')).toBe(5);
+      expect(value('=SIGN(TRUE)')).toBe(1);
+      expect(value('=ABS("abc")')).toBe('#VALUE!');
+      expect(value('=ABS(A1:A2)')).toBe('#VALUE!');
+      expect(value('=ABS(A4)')).toBe('#DIV/0!');
+    });
+  });
+
+  describe('Тригонометрия', () => {
+    it('должен вычислять тригонометрические функции и обратные к ним', () => {
+      expect(value('=PI()')).toBe(Math.PI);
+      expect(value('=SIN(PI()/2)')).toBe(1);
+      expect(value('=COS(0)')).toBe(1);
+      expect(value('=TAN(PI()/4)')).toBeCloseTo(1, 12);
+      expect(value('=ASIN(1)')).toBe(Math.PI / 2);
+      expect(value('=ACOS(2)')).toBe('#NUM!');
+      expect(value('=ATAN(1)')).toBe(Math.PI / 4);
+      expect(value('=ATAN2(-1,0)')).toBe(Math.PI);
+      expect(value('=ATAN2(0,0)')).toBe('#DIV/0!');
+    });
+  });
+
+  describe('Функции от диапазонов', () => {
+    it('должен вычислять PRODUCT и SUMSQ по числам диапазонов', () => {
+      expect(value('=PRODUCT(A1:A3,10)')).toBe(60);
+      expect(value('=SUMSQ(A1:A2,1)')).toBe(14);
+      expect(value('=PRODUCT(A1:A4)')).toBe('#DIV/0!');
+    });
+
+    it('должен вычислять SUMPRODUCT для массивов одного размера', () => {
+      expect(value('=SUMPRODUCT(A1:A3,B1:B3)')).toBe(23);
+      expect(value('=SUMPRODUCT(A1:A2,B1:B3)')).toBe('#VALUE!');
+    });
+
+    it('должен вычислять GCD и LCM', () => {
+      expect(value('=GCD(24,36,A1)')).toBe(2);
+      expect(value('=LCM(4,6,A2)')).toBe(12);
+      expect(value('=GCD(5.9,10)')).toBe(5);
+      expect(value('=LCM(3,0)')).toBe(0);
+      expect(value('=GCD(-4,2)')).toBe('#NUM!');
+    });
+  });
+
+  describe('Случайные числа', () => {
+    it('должен выдавать случайные числа и пересчитывать их как волатильные', () => {
+      vi.spyOn(Math, 'random').mockReturnValueOnce(0.25).mockReturnValueOnce(0.999);
+
+      expect(value('=RANDBETWEEN(1,10)')).toBe(3);
+      expect(harness.formulaManager.getStats().volatileFormulas).toBe(1);
+
+      harness.formulaManager.recalculate();
+      expect(harness.formulaManager.evaluateFormula(99, 99).value).toBe(10);
+      expect(value('=RANDBETWEEN(5,1)')).toBe('#NUM!');
+    });
+
+    it('должен выдавать RAND от 0 до 1', () => {
+      const result = value('=RAND()');
+      expect(result).toBeGreaterThanOrEqual(0);
+      expect(result).toBeLessThan(1);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Статистические функции', () => {
+  // A1:A8 - выборка, B1:B8 - номера 1-8, C1:C4 - текст, пустая строка и пустые ячейки
+  const { value } = createFormulaHarness([
+    [2, 1, 'x'],
+    [4, 2, ''],
+    [4, 3, null],
+    [4, 4, null],
+    [5, 5],
+    [5, 6],
+    [7, 7],
+    [9, 8],
+  ]);
+
+  it('должен вычислять медиану и моду', () => {
+    expect(value('=MEDIAN(A1:A8)')).toBe(4.5);
+    expect(value('=MEDIAN(3,1,2)')).toBe(2);
+    expect(value('=MEDIAN(C1:C4)')).toBe('#NUM!');
+    expect(value('=MODE(A1:A8)')).toBe(4);
+    expect(value('=MODE.SNGL(1,2,2,1)')).toBe(1);
+    expect(value('=MODE(1,2,3)')).toBe('#N/A');
+  });
+
+  it('должен вычислять дисперсию и стандартное отклонение', () => {
+    expect(value('=STDEV.P(A1:A8)')).toBe(2);
+    expect(value('=VAR.P(A1:A8)')).toBe(4);
+    expect(value('=VAR.S(A1:A8)')).toBeCloseTo(32 / 7, 10);
+    expect(value('=STDEV(A1:A8)')).toBeCloseTo(Math.sqrt(32 / 7), 10);
+    expect(value('=STDEV.S(1)')).toBe('#DIV/0!');
+  });
+
+  it('должен вычислять процентили, квартили, ранги и k-е значения', () => {
+    expect(value('=PERCENTILE(B1:B8,0.25)')).toBe(2.75);
+    expect(value('=PERCENTILE.INC(B1:B8,1.5)')).toBe('#NUM!');
+    expect(value('=QUARTILE(B1:B8,2)')).toBe(4.5);
+    expect(value('=QUARTILE(B1:B8,5)')).toBe('#NUM!');
+    expect(value('=RANK(5,A1:A8)')).toBe(3);
+    expect(value('=RANK.EQ(5,A1:A8,1)')).toBe(5);
+    expect(value('=RANK(6,A1:A8)')).toBe('#N/A');
+    expect(value('=LARGE(A1:A8,2)')).toBe(7);
+    expect(value('=SMALL(A1:A8,3)')).toBe(4);
+    expect(value('=LARGE(A1:A8,9)')).toBe('#NUM!');
+  });
+
+  it('должен вычислять корреляцию, ковариацию и линейную регрессию', () => {
+    expect(value('=CORREL(A1:A8,B1:B8)')).toBeCloseTo(34 / Math.sqrt(42 * 32), 10);
+    expect(value('=COVARIANCE.P(A1:A8,B1:B8)')).toBe(4.25);
+    expect(value('=COVARIANCE.S(A1:A8,B1:B8)')).toBeCloseTo(34 / 7, 10);
+    expect(value('=SLOPE(A1:A8,B1:B8)')).toBeCloseTo(34 / 42, 10);
+    expect(value('=INTERCEPT(A1:A8,B1:B8)')).toBeCloseTo(5 - (34 / 42) * 4.5, 10);
+    expect(value('=FORECAST.LINEAR(9,A1:A8,B1:B8)')).toBeCloseTo(5 + (34 / 42) * 4.5, 10);
+    expect(value('=SLOPE(A1:A8,B1:B7)')).toBe('#N/A');
+    expect(value('=SLOPE(A1:A4,C1:C4)')).toBe('#DIV/0!');
+  });
+
+  it('должен считать непустые и пустые ячейки', () => {
+    expect(value('=COUNTA(A1:C4)')).toBe(10);
+    expect(value('=COUNTA(C1:C4,"x",1)')).toBe(4);
+    expect(value('=COUNTBLANK(C1:C4)')).toBe(3);
+    expect(value('=COUNTBLANK(5)')).toBe('#VALUE!');
+  });
+
+  it('должен учитывать пустые ячейки целых столбцов', () => {
+    const workbook = new Workbook();
+    const matrix = workbook.getActiveSheet().matrix;
+    matrix.setCell(0, 0, 1);
+    matrix.setCell(1, 1, 5);
+    matrix.setCell(2, 0, 3);
+    matrix.setCell(2, 1, 7);
+    matrix.setCell(3, 0, 5);
+    matrix.setCell(3, 1, 9);
+    matrix.setCell(0, 3, '=COUNTBLANK(A:A)');
+    matrix.setCell(1, 3, '=SLOPE(B:B,A:A)');
+
+    expect(workbook.getCellValue(0, 3).value).toBe(1048573);
+    expect(workbook.getCellValue(1, 3).value).toBe(1);
+  });
+});
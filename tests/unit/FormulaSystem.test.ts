@@ -40,34 +40,35 @@ describe('Formula System Tests', () => {
     formulaManager = new FormulaManager(mockContext);
   });
 
+  // Формулы размещаются в столбце F, вне диапазонов, на которые ссылаются (иначе это цикл)
   describe('Базовые функции', () => {
     it('должен устанавливать и вычислять простые формулы', () => {
-      formulaManager.setFormula(0, 0, '=SUM(A1:B2)');
-      const result = formulaManager.evaluateFormula(0, 0);
+      formulaManager.setFormula(0, 5, '=SUM(A1:B2)');
+      const result = formulaManager.evaluateFormula(0, 5);
       expect(result.type).toBe('number');
     });
 
     it('должен вычислять функции MIN', () => {
-      formulaManager.setFormula(0, 0, '=MIN(A1:B2)');
-      const result = formulaManager.evaluateFormula(0, 0);
+      formulaManager.setFormula(0, 5, '=MIN(A1:B2)');
+      const result = formulaManager.evaluateFormula(0, 5);
       expect(result.type).toBe('number');
     });
 
     it('должен вычислять функции MAX', () => {
-      formulaManager.setFormula(0, 0, '=MAX(A1:B2)');
-      const result = formulaManager.evaluateFormula(0, 0);
+      formulaManager.setFormula(0, 5, '=MAX(A1:B2)');
+      const result = formulaManager.evaluateFormula(0, 5);
       expect(result.type).toBe('number');
     });
 
     it('должен вычислять функции AVERAGE', () => {
-      formulaManager.setFormula(0, 0, '=AVERAGE(A1:B2)');
-      const result = formulaManager.evaluateFormula(0, 0);
+      formulaManager.setFormula(0, 5, '=AVERAGE(A1:B2)');
+      const result = formulaManager.evaluateFormula(0, 5);
       expect(result.type).toBe('number');
     });
 
     it('должен вычислять бинарные операции', () => {
-      formulaManager.setFormula(0, 0, '=A1+B2');
-      const result = formulaManager.evaluateFormula(0, 0);
+      formulaManager.setFormula(0, 5, '=A1+B2');
+      const result = formulaManager.evaluateFormula(0, 5);
       expect(result.type).toBe('number');
     });
   });
@@ -89,45 +90,95 @@ describe('Formula System Tests', () => {
 
   describe('Сдвиг формул', () => {
     it('должен сдвигать формулы при вставке строки', () => {
-      formulaManager.setFormula(1, 0, '=SUM(A1:B2)');
+      formulaManager.setFormula(1, 5, '=SUM(A1:B2)');
       formulaManager.handleRowInsertion(1);
-      const result = formulaManager.evaluateFormula(2, 0);
+      const result = formulaManager.evaluateFormula(2, 5);
       expect(result.type).toBe('number');
     });
 
     it('должен сдвигать формулы при вставке столбца', () => {
-      formulaManager.setFormula(0, 1, '=SUM(A1:B2)');
+      formulaManager.setFormula(0, 5, '=SUM(A1:B2)');
       formulaManager.handleColumnInsertion(1);
-      const result = formulaManager.evaluateFormula(0, 2);
+      const result = formulaManager.evaluateFormula(0, 6);
       expect(result.type).toBe('number');
     });
 
     it('должен сдвигать формулы при удалении строки', () => {
       formulaManager.setFormula(2, 0, '=SUM(A1:B2)');
-      // Ожидаем, что удаление строки выбросит ошибку, так как формула ссылается на удаленную ячейку B2
-      expect(() => {
-        formulaManager.handleRowDeletion(1);
-      }).toThrow('Ссылка на удаленную ячейку: B2');
+      formulaManager.setFormula(2, 1, '=B2+A1');
+      formulaManager.handleRowDeletion(1);
+
+      // Диапазон сужается, ссылка на удаленную ячейку становится #REF!
+      expect(formulaManager.getFormula(1, 0)).toBe('=SUM(A1:B1)');
+      expect(formulaManager.getFormula(1, 1)).toBe('=#REF!+A1');
+      expect(formulaManager.evaluateFormula(1, 1).value).toBe('#REF!');
     });
 
     it('должен сдвигать формулы при удалении столбца', () => {
       formulaManager.setFormula(0, 2, '=SUM(A1:B2)');
-      // Ожидаем, что удаление столбца выбросит ошибку, так как формула ссылается на удаленную ячейку B2
-      expect(() => {
-        formulaManager.handleColumnDeletion(1);
-      }).toThrow('Ссылка на удаленную ячейку: B2');
+      formulaManager.setFormula(1, 2, '=SUM(B1:B2)*$B$1');
+      formulaManager.handleColumnDeletion(1);
+
+      expect(formulaManager.getFormula(0, 1)).toBe('=SUM(A1:A2)');
+      expect(formulaManager.getFormula(1, 1)).toBe('=SUM(#REF!)*#REF!');
+    });
+
+    it('должен сужать и расширять диапазоны при удалении и вставке строк', () => {
+      formulaManager.setFormula(9, 0, '=SUM(A2:A5)+SUM($B$2:$B$5)+A7');
+      const formulaAfter = (change: () => void) => {
+        change();
+        return formulaManager
+          .getFormulaCells()
+          .map(({ row, col }) => formulaManager.getFormula(row, col));
+      };
+
+      // Удаление первой строки сужает диапазон, вставка внутрь - расширяет
+      expect(formulaAfter(() => formulaManager.handleRowDeletion(1))).toEqual([
+        '=SUM(A2:A4)+SUM($B$2:$B$4)+A6',
+      ]);
+      expect(formulaAfter(() => formulaManager.handleRowInsertion(2))).toEqual([
+        '=SUM(A2:A5)+SUM($B$2:$B$5)+A7',
+      ]);
+      // Удаление внутренней и последней строки
+      expect(formulaAfter(() => formulaManager.handleRowDeletion(2))).toEqual([
+        '=SUM(A2:A4)+SUM($B$2:$B$4)+A6',
+      ]);
+      expect(formulaAfter(() => formulaManager.handleRowDeletion(3))).toEqual([
+        '=SUM(A2:A3)+SUM($B$2:$B$3)+A5',
+      ]);
+      // Вставка перед диапазоном сдвигает его целиком
+      expect(formulaAfter(() => formulaManager.handleRowInsertion(0))).toEqual([
+        '=SUM(A3:A4)+SUM($B$3:$B$4)+A6',
+      ]);
+      // Диапазон удален целиком
+      formulaManager.handleRowDeletion(2);
+      formulaManager.handleRowDeletion(2);
+      expect(
+        formulaManager.getFormulaCells().map(({ row, col }) => formulaManager.getFormula(row, col))
+      ).toEqual(['=SUM(#REF!)+SUM(#REF!)+A4']);
+    });
+
+    it('должен заменять ссылку в имени на #REF! при удалении строки', () => {
+      formulaManager.defineName('Rate', '=Sheet1!$B$2*2');
+      formulaManager.defineName('Area', '=Sheet1!A1:A3');
+      formulaManager.handleRowDeletion(1, 'Sheet1');
+
+      expect(formulaManager.getNames()).toMatchObject([
+        { name: 'Rate', refersTo: '=#REF!*2' },
+        { name: 'Area', refersTo: '=Sheet1!A1:A2' },
+      ]);
     });
   });
 
   describe('Сложные сценарии', () => {
     it('должен обрабатывать цепочки зависимостей', () => {
-      formulaManager.setFormula(0, 0, '=SUM(A2:A3)');
-      formulaManager.setFormula(1, 0, '=A1*2');
-      formulaManager.setFormula(2, 0, '=A2+10');
+      formulaManager.setFormula(0, 5, '=SUM(A2:A3)');
+      formulaManager.setFormula(1, 5, '=F1*2');
+      formulaManager.setFormula(2, 5, '=F2+10');
 
-      const result1 = formulaManager.evaluateFormula(0, 0);
-      const result2 = formulaManager.evaluateFormula(1, 0);
-      const result3 = formulaManager.evaluateFormula(2, 0);
+      const result1 = formulaManager.evaluateFormula(0, 5);
+      const result2 = formulaManager.evaluateFormula(1, 5);
+      const result3 = formulaManager.evaluateFormula(2, 5);
 
       expect(result1.type).toBe('number');
       expect(result2.type).toBe('number');
@@ -135,19 +186,19 @@ describe('Formula System Tests', () => {
     });
 
     it('должен обрабатывать операции со строками и столбцами', () => {
-      formulaManager.setFormula(0, 0, '=SUM(A1:B2)');
-      formulaManager.setFormula(1, 0, '=MAX(A1:B2)');
-      formulaManager.setFormula(2, 0, '=MIN(A1:B2)');
+      formulaManager.setFormula(0, 5, '=SUM(A1:B2)');
+      formulaManager.setFormula(1, 5, '=MAX(A1:B2)');
+      formulaManager.setFormula(2, 5, '=MIN(A1:B2)');
 
       formulaManager.handleRowInsertion(1);
 
       // После вставки строки на позиции 1:
-      // - Формула 0,0 остается на 0,0
-      // - Формула 1,0 сдвигается на 2,0
-      // - Формула 2,0 сдвигается на 3,0
-      const result1 = formulaManager.evaluateFormula(0, 0); // Исходная формула
-      const result2 = formulaManager.evaluateFormula(2, 0); // Сдвинутая формула
-      const result3 = formulaManager.evaluateFormula(3, 0); // Сдвинутая формула
+      // - Формула 0,5 остается на 0,5
+      // - Формула 1,5 сдвигается на 2,5
+      // - Формула 2,5 сдвигается на 3,5
+      const result1 = formulaManager.evaluateFormula(0, 5); // Исходная формула
+      const result2 = formulaManager.evaluateFormula(2, 5); // Сдвинутая формула
+      const result3 = formulaManager.evaluateFormula(3, 5); // Сдвинутая формула
 
       expect(result1.type).toBe('number');
       expect(result2.type).toBe('number');
@@ -162,7 +213,7 @@ describe('Formula System Tests', () => {
       // Создаем 100 формул
       for (let i = 0; i < 10; i++) {
         for (let j = 0; j < 10; j++) {
-          formulaManager.setFormula(i, j, `=SUM(A${i + 1}:B${j + 1})`);
+          formulaManager.setFormula(i, j + 5, `=SUM(A${i + 1}:B${j + 1})`);
         }
       }
 
@@ -173,7 +224,7 @@ describe('Formula System Tests', () => {
       expect(duration).toBeLessThan(100);
 
       // Проверяем, что все формулы работают
-      const result = formulaManager.evaluateFormula(0, 0);
+      const result = formulaManager.evaluateFormula(0, 5);
       expect(result.type).toBe('number');
     });
   });
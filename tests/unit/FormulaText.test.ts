@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+import { NumberFormat } from '../../src/core/formulas/NumberFormat';
+import { createFormulaHarness } from './helpers/formulaHarness';
+
+describe('Текстовые функции', () => {
+  // A1:A5: имя, фамилия, пустая ячейка, число и ошибка
+  const { evaluate, value } = createFormulaHarness([
+    ['Иван'],
+    ['Петров'],
+    [null],
+    [42],
+    [{ type: 'error', value: '#N/A' }],
+  ]);
+
+  describe('Оператор &', () => {
+    it('должен объединять строки, числа и логические значения', () => {
+      expect(evaluate('=A1&" "&A2')).toEqual({ type: 'string', value: 'Иван Петров' });
+      expect(value('="№"&A4&TRUE&A3')).toBe('№42TRUE');
+      expect(value('=0.1+0.2&""')).toBe('0.3');
+      expect(value('=A1&A5')).toBe('#N/A');
+    });
+
+    it('должен иметь приоритет ниже сложения и выше сравнения', () => {
+      const root = new FormulaParser().parse('=1+2&3=33').root;
+      expect(root).toMatchObject({ operator: '=', left: { operator: '&' } });
+      expect(value('=1+2&3')).toBe('33');
+      expect(value('=1+2&3="33"')).toBe(true);
+    });
+  });
+
+  describe('Извлечение и поиск', () => {
+    it('должен вырезать части текста', () => {
+      expect(value('=LEN(A2)')).toBe(6);
+      expect(value('=LEFT(A2)')).toBe('П');
+      expect(value('=LEFT(A2,3)')).toBe('Пет');
+      expect(value('=RIGHT(A2,2)')).toBe('ов');
+      expect(value('=MID(A2,2,3)')).toBe('етр');
+      expect(value('=MID(A2,10,3)')).toBe('');
+      expect(value('=LEFT(A2,-1)')).toBe('#VALUE!');
+      expect(value('=MID(A2,0,1)')).toBe('#VALUE!');
+    });
+
+    it('должен искать с учетом регистра в FIND и с шаблонами в SEARCH', () => {
+      expect(value('=FIND("о",A2)')).toBe(5);
+      expect(value('=FIND("П",A2,2)')).toBe('#VALUE!');
+      expect(value('=SEARCH("п",A2,1)')).toBe(1);
+      expect(value('=SEARCH("т?о","Петров")')).toBe(3);
+      expect(value('=SEARCH("~*","a*b")')).toBe(2);
+      expect(value('=SEARCH("x","abc")')).toBe('#VALUE!');
+    });
+  });
+
+  describe('Преобразование текста', () => {
+    it('должен менять регистр и убирать лишние пробелы', () => {
+      expect(value('=UPPER(A1)')).toBe('ИВАН');
+      expect(value('=LOWER("ABC")')).toBe('abc');
+      expect(value('=PROPER("иВАН петров-водкин 2b")')).toBe('Иван Петров-Водкин 2B');
+      expect(value('=TRIM("  много   пробелов ")')).toBe('много пробелов');
+    });
+
+    it('должен заменять фрагменты', () => {
+      expect(value('=SUBSTITUTE("a-b-c","-","+")')).toBe('a+b+c');
+      expect(value('=SUBSTITUTE("a-b-c","-","+",2)')).toBe('a-b+c');
+      expect(value('=SUBSTITUTE("a-b-c","-","+",5)')).toBe('a-b-c');
+      expect(value('=REPLACE("abcdef",2,3,"X")')).toBe('aXef');
+      expect(value('=REPT("ab",3)')).toBe('ababab');
+      expect(value('=REPT("ab",20000)')).toBe('#VALUE!');
+    });
+
+    it('должен объединять значения диапазонов', () => {
+      expect(value('=CONCAT(A1:A2,"!")')).toBe('ИванПетров!');
+      expect(value('=TEXTJOIN(", ",TRUE,A1:A3,A4)')).toBe('Иван, Петров, 42');
+      expect(value('=TEXTJOIN("-",FALSE,A1:A3)')).toBe('Иван-Петров-');
+      expect(value('=CONCAT(A4:A5)')).toBe('#N/A');
+    });
+
+    it('должен сравнивать тексты и работать с кодами символов', () => {
+      expect(value('=EXACT("Abc","abc")')).toBe(false);
+      expect(value('=EXACT(A4,"42")')).toBe(true);
+      expect(value('=CHAR(65)')).toBe('A');
+      expect(value('=CHAR(0)')).toBe('#VALUE!');
+      expect(value('=CODE("A")')).toBe(65);
+      expect(value('=CODE("")')).toBe('#VALUE!');
+    });
+
+    it('должен преобразовывать текст в число', () => {
+      expect(evaluate('=VALUE(" 12.5 ")')).toEqual({ type: 'number', value: 12.5 });
+      expect(value('=VALUE("15%")')).toBe(0.15);
+      expect(value('=VALUE("abc")')).toBe('#VALUE!');
+    });
+  });
+
+  describe('Функция TEXT', () => {
+    it('должен форматировать числа по коду формата', () => {
+      expect(value('=TEXT(1234.567,"#,##0.00")')).toBe('1,234.57');
+      expect(value('=TEXT(0.256,"0.0%")')).toBe('25.6%');
+      expect(value('=TEXT(5,"000")')).toBe('005');
+      expect(value('=TEXT(A4,"0.00 ""руб.""")')).toBe('42.00 руб.');
+      expect(value('=TEXT("abc","0.00")')).toBe('abc');
+    });
+
+    it('NumberFormat должен поддерживать секции, экспоненту и масштаб', () => {
+      expect(NumberFormat.format(-5, '0.00')).toBe('-5.00');
+      expect(NumberFormat.format(-5, '0.00;(0.00)')).toBe('(5.00)');
+      expect(NumberFormat.format(0, '0;-0;"ноль"')).toBe('ноль');
+      expect(NumberFormat.format(-0.001, '0.00')).toBe('0.00');
+      expect(NumberFormat.format(12345, '0.00E+00')).toBe('1.23E+04');
+      expect(NumberFormat.format(9.999, '0.00E+00')).toBe('1.00E+01');
+      expect(NumberFormat.format(0.00012, '0.0E+0')).toBe('1.2E-4');
+      expect(NumberFormat.format(1234567, '#,##0,"K"')).toBe('1,235K');
+      expect(NumberFormat.format(1.5, '#.##')).toBe('1.5');
+      expect(NumberFormat.format(1.005, '0.00')).toBe('1.01');
+      expect(NumberFormat.format(9161234567, '000-000-00-00')).toBe('916-123-45-67');
+      expect(NumberFormat.format(12.3, 'General')).toBe('12.3');
+    });
+  });
+});
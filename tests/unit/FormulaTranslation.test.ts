@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+
+describe('Копирование и перемещение формул', () => {
+  let workbook: Workbook;
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+  const value = (row: number, col: number) => workbook.getCellValue(row, col).value;
+  const translate = (formula: string, rowOffset: number, colOffset: number) =>
+    workbook.getFormulaManager().translateFormula(formula, rowOffset, colOffset);
+
+  // Перемещение блока листа так же, как при вырезании и вставке
+  const move = (
+    [startRow, startCol, endRow, endCol]: number[],
+    targetRow: number,
+    targetCol: number
+  ) => {
+    matrix().moveBlock(startRow!, startCol!, endRow!, endCol!, targetRow, targetCol);
+    workbook.getFormulaManager().handleMove(
+      {
+        sheet: 'Sheet1',
+        startRow: startRow!,
+        startCol: startCol!,
+        endRow: endRow!,
+        endCol: endCol!,
+      },
+      targetRow,
+      targetCol
+    );
+  };
+
+  beforeEach(() => {
+    workbook = new Workbook();
+    matrix().setCell(0, 0, 1);
+    matrix().setCell(1, 0, 2);
+    matrix().setCell(0, 1, '=A1*2');
+    matrix().setCell(0, 2, '=SUM(A1:A2)+$A$1');
+    matrix().setCell(0, 3, '=B1+A2');
+    // Формулы регистрируются при первом чтении
+    [1, 2, 3].forEach(col => value(0, col));
+  });
+
+  it('должен сдвигать относительные ссылки и сохранять абсолютные', () => {
+    expect(translate('=A1+$B$1+B$2+$C3', 1, 2)).toBe('=C2+$B$1+D$2+$C4');
+    expect(translate('=SUM(A1:B2)*Sheet2!A1', 2, 0)).toBe('=SUM(A3:B4)*Sheet2!A3');
+    expect(translate('=SUM(A:A)+D1#', 0, 1)).toBe('=SUM(B:B)+E1#');
+    expect(translate('=LET(x,A1,x+1)', 1, 0)).toBe('=LET(x,A2,x+1)');
+    // Ссылка за пределы листа становится #REF!
+    expect(translate('=A1+1', -1, 0)).toBe('=#REF!+1');
+    expect(translate('текст', 1, 1)).toBe('текст');
+    expect(translate('=SUM(', 1, 1)).toBe('=SUM(');
+  });
+
+  it('должен переносить ссылки вслед за перемещенной ячейкой', () => {
+    move([0, 0, 0, 0], 4, 4);
+
+    expect(matrix().getCell(4, 4)).toBe(1);
+    expect(matrix().getCell(0, 0)).toBeNull();
+    expect(matrix().getCell(0, 1)).toBe('=E5*2');
+    // Диапазон, выходящий за пределы блока, не меняется; абсолютная ссылка следует за ячейкой
+    expect(matrix().getCell(0, 2)).toBe('=SUM(A1:A2)+$E$5');
+    expect([value(0, 1), value(0, 2), value(0, 3)]).toEqual([2, 3, 4]);
+  });
+
+  it('должен перемещать формулы без изменения ссылок на ячейки вне блока', () => {
+    move([0, 1, 0, 2], 5, 1);
+
+    expect(matrix().getCell(5, 1)).toBe('=A1*2');
+    expect(matrix().getCell(5, 2)).toBe('=SUM(A1:A2)+$A$1');
+    expect(matrix().getCell(0, 3)).toBe('=B6+A2');
+    expect(workbook.getFormulaManager().getFormula(0, 1)).toBeNull();
+
+    matrix().setCell(0, 0, 10);
+    workbook.recalculate();
+    expect([value(5, 1), value(5, 2), value(0, 3)]).toEqual([20, 22, 22]);
+  });
+
+  it('должен заменять ссылки на замененные ячейки на #REF!', () => {
+    workbook.defineName('Second', '=Sheet1!$A$2');
+    matrix().setCell(2, 0, '=Second*10');
+    expect(value(2, 0)).toBe(20);
+
+    move([0, 1, 0, 1], 1, 0);
+
+    expect(matrix().getCell(1, 0)).toBe('=A1*2');
+    expect(matrix().getCell(0, 3)).toBe('=A2+#REF!');
+    expect(workbook.getNames()).toContainEqual({ name: 'Second', refersTo: '=#REF!' });
+    expect(value(2, 0)).toBe('#REF!');
+    expect(value(1, 0)).toBe(2);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { CellValue } from '../../src/core/formulas/FormulaEngine';
+import { FunctionRegistry, LazyArgument } from '../../src/core/formulas/FunctionRegistry';
+import { functionRegistry, registerFunction } from '../../src/core/formulas/functions/index';
+
+describe('Реестр функций', () => {
+  let workbook: Workbook;
+  const customNames = ['FXRATE', 'SKU_PRICE', 'FIRST_VALID', 'TICK', 'LATE'];
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+
+  beforeEach(() => {
+    workbook = new Workbook();
+  });
+
+  afterEach(() => {
+    customNames.forEach(name => functionRegistry.unregister(name));
+  });
+
+  describe('Метаданные', () => {
+    it('должен содержать встроенные функции с описанием и числом аргументов', () => {
+      expect(functionRegistry.get('sum')).toMatchObject({ name: 'SUM', minArgs: 1 });
+      expect(functionRegistry.get('IF')).toMatchObject({
+        minArgs: 2,
+        maxArgs: 3,
+        argumentKinds: ['value', 'lazy'],
+      });
+      expect(functionRegistry.getAll().every(definition => definition.description)).toBe(true);
+      expect(functionRegistry.has('UNKNOWN')).toBe(false);
+    });
+
+    it('должен определять вид аргумента по позиции', () => {
+      const definition = functionRegistry.get('SWITCH')!;
+      expect(FunctionRegistry.getArgumentKind(definition, 0)).toBe('value');
+      expect(FunctionRegistry.getArgumentKind(definition, 5)).toBe('lazy');
+      expect(FunctionRegistry.getArgumentKind(functionRegistry.get('SUM')!, 3)).toBe('value');
+    });
+
+    it('должен отклонять некорректные определения', () => {
+      const registry = new FunctionRegistry();
+      const evaluate = (): CellValue => ({ value: 0, type: 'number' });
+
+      expect(() =>
+        registry.register({ name: '1X', minArgs: 0, maxArgs: 0, description: '', evaluate })
+      ).toThrow();
+      expect(() =>
+        registry.register({ name: 'X', minArgs: 2, maxArgs: 1, description: '', evaluate })
+      ).toThrow();
+      expect(registry.getAll()).toHaveLength(0);
+    });
+  });
+
+  describe('Пользовательские функции', () => {
+    it('должен вычислять зарегистрированную функцию', () => {
+      const rates: Record<string, number> = { USD: 92.5, EUR: 100 };
+      registerFunction({
+        name: 'fxrate',
+        minArgs: 1,
+        maxArgs: 1,
+        description: 'Курс валюты к рублю',
+        evaluate: ([currency]) => {
+          const rate = rates[String(currency!.value).toUpperCase()];
+          return rate === undefined
+            ? { value: '#N/A', type: 'error' }
+            : { value: rate, type: 'number' };
+        },
+      });
+
+      matrix().setCell(0, 0, 10);
+      matrix().setCell(0, 1, '=A1*FXRATE("usd")');
+      matrix().setCell(0, 2, '=FxRate("GBP")');
+
+      expect(workbook.getCellValue(0, 1).value).toBe(925);
+      expect(workbook.getCellValue(0, 2).value).toBe('#N/A');
+    });
+
+    it('должен проверять число аргументов и требовать ссылку для аргумента range', () => {
+      registerFunction({
+        name: 'SKU_PRICE',
+        minArgs: 2,
+        maxArgs: 2,
+        argumentKinds: ['range', 'value'],
+        description: 'Цена артикула из прайс-листа',
+        evaluate: ([prices, sku]) => {
+          const cells = prices!.value as CellValue[];
+          const index = cells.findIndex(cell => cell.value === sku!.value);
+          return cells[index + 1] ?? { value: '#N/A', type: 'error' };
+        },
+      });
+
+      matrix().setCell(0, 0, 'A-1');
+      matrix().setCell(0, 1, 150);
+      matrix().setCell(1, 0, '=SKU_PRICE(A1:B1,"A-1")');
+      matrix().setCell(1, 1, '=SKU_PRICE(5,"A-1")');
+      matrix().setCell(1, 2, '=SKU_PRICE(A1:B1)');
+      matrix().setCell(1, 3, '=NOT(TRUE,FALSE)');
+      matrix().setCell(1, 4, '=UNKNOWN(1)');
+
+      expect(workbook.getCellValue(1, 0).value).toBe(150);
+      expect(workbook.getCellValue(1, 1).value).toBe('#VALUE!');
+      expect(workbook.getCellValue(1, 2).value).toBe('#VALUE!');
+      expect(workbook.getCellValue(1, 3).value).toBe('#VALUE!');
+      expect(workbook.getCellValue(1, 4).value).toBe('#NAME?');
+    });
+
+    it('должен вычислять ленивые аргументы только по требованию', () => {
+      const evaluated: number[] = [];
+      registerFunction<LazyArgument[]>({
+        name: 'FIRST_VALID',
+        minArgs: 1,
+        maxArgs: 10,
+        argumentKinds: ['lazy'],
+        description: 'Первый аргумент без ошибки',
+        evaluate: args => {
+          for (const [index, arg] of args.entries()) {
+            evaluated.push(index);
+            const value = arg();
+            if (value.type !== 'error') {
+              return value;
+            }
+          }
+          return { value: '#N/A', type: 'error' };
+        },
+      });
+
+      matrix().setCell(0, 0, '=FIRST_VALID(1/0,MISSING,7,1/0)');
+      expect(workbook.getCellValue(0, 0).value).toBe(7);
+      expect(evaluated).toEqual([0, 1, 2]);
+    });
+
+    it('должен пересчитывать формулы, вызывавшие функцию до ее регистрации', () => {
+      matrix().setCell(0, 0, '=LATE(2)+1');
+      expect(workbook.getCellValue(0, 0).value).toBe('#NAME?');
+
+      workbook.getFormulaManager().registerFunction({
+        name: 'LATE',
+        minArgs: 1,
+        maxArgs: 1,
+        description: 'Удвоение',
+        evaluate: ([value]) => ({ value: value!.value * 2, type: 'number' }),
+      });
+
+      expect(workbook.getCellValue(0, 0).value).toBe(5);
+    });
+
+    it('должен регистрировать функцию менеджера только для его книги', () => {
+      workbook.getFormulaManager().registerFunction({
+        name: 'LATE',
+        minArgs: 0,
+        maxArgs: 0,
+        description: 'Константа',
+        evaluate: () => ({ value: 1, type: 'number' }),
+      });
+      const other = new Workbook();
+      other.getActiveSheet().matrix.setCell(0, 0, '=LATE()');
+      expect(other.getCellValue(0, 0).value).toBe('#NAME?');
+      expect(functionRegistry.has('LATE')).toBe(false);
+
+      // Функции общего реестра видны всем книгам, в том числе созданным раньше
+      registerFunction({
+        name: 'TICK',
+        minArgs: 0,
+        maxArgs: 0,
+        description: 'Константа',
+        evaluate: () => ({ value: 2, type: 'number' }),
+      });
+      matrix().setCell(0, 0, '=LATE()+TICK()');
+      expect(workbook.getCellValue(0, 0).value).toBe(3);
+      expect(
+        workbook
+          .getFormulaManager()
+          .getFunctions()
+          .map(({ name }) => name)
+      ).toEqual(expect.arrayContaining(['LATE', 'TICK', 'SUM']));
+    });
+  });
+
+  describe('Волатильные функции', () => {
+    it('должен пересчитывать волатильные формулы и зависящие от них при каждом пересчете', () => {
+      let ticks = 0;
+      registerFunction({
+        name: 'TICK',
+        minArgs: 0,
+        maxArgs: 0,
+        volatile: true,
+        description: 'Номер вызова',
+        evaluate: () => ({ value: ++ticks, type: 'number' }),
+      });
+
+      matrix().setCell(0, 0, '=TICK()');
+      matrix().setCell(0, 1, '=A1*10');
+      matrix().setCell(0, 2, '=SUM(1,2)');
+      expect(workbook.getCellValue(0, 1).value).toBe(10);
+
+      const manager = workbook.getFormulaManager();
+      expect(manager.getStats().volatileFormulas).toBe(1);
+
+      manager.recalculate();
+      expect(workbook.getCellValue(0, 0).value).toBe(2);
+      expect(workbook.getCellValue(0, 1).value).toBe(20);
+      expect(manager.getDirtyFormulas()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+import { NameManager } from '../../src/core/formulas/NameManager';
+
+describe('Именованные диапазоны', () => {
+  let workbook: Workbook;
+
+  beforeEach(() => {
+    workbook = new Workbook();
+    workbook.addSheet('Data');
+  });
+
+  const sheet = (name: string) => workbook.getSheet(name)!.matrix;
+
+  it('должен парсить идентификатор как ссылку на имя', () => {
+    expect(new FormulaParser().parse('=TaxRate*2').root).toMatchObject({
+      type: 'binary',
+      left: { type: 'name', name: 'TaxRate' },
+    });
+  });
+
+  it('должен вычислять имя, ссылающееся на ячейку', () => {
+    sheet('Sheet1').setCell(0, 1, 0.2);
+    sheet('Sheet1').setCell(1, 0, '=100*taxrate');
+    workbook.defineName('TaxRate', '$B$1');
+
+    expect(workbook.getNames()).toEqual([{ name: 'TaxRate', refersTo: '=Sheet1!$B$1' }]);
+    expect(workbook.getCellValue(1, 0, 'Sheet1').value).toBe(20);
+  });
+
+  it('должен вычислять имя диапазона на другом листе', () => {
+    sheet('Data').setCell(1, 0, 10);
+    sheet('Data').setCell(2, 0, 15);
+    workbook.defineName('Sales', 'Data!A2:A500');
+    sheet('Sheet1').setCell(0, 0, '=SUM(Sales)');
+
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe(25);
+  });
+
+  it('должен учитывать ячейки имени в зависимостях формулы', () => {
+    workbook.defineName('Rate', 'Data!B1');
+    sheet('Sheet1').setCell(0, 0, '=Rate+1');
+    workbook.getCellValue(0, 0, 'Sheet1');
+
+    const manager = workbook.getFormulaManager();
+    expect(manager.getNameDependents('RATE')).toEqual([{ sheet: 'Sheet1', row: 0, col: 0 }]);
+
+    workbook.defineName('Rate', '5');
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe(6);
+  });
+
+  it('должен возвращать #NAME? для неопределенного или удаленного имени', () => {
+    sheet('Sheet1').setCell(0, 0, '=Missing+1');
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe('#NAME?');
+
+    workbook.defineName('Missing', '1');
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe(2);
+
+    workbook.removeName('missing');
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe('#NAME?');
+  });
+
+  it('должен обновлять определения при переименовании листа и сдвиге строк', () => {
+    workbook.defineName('Sales', 'Data!A2:A5');
+    workbook.renameSheet('Data', 'Продажи');
+    expect(workbook.getFormulaManager().getName('Sales')?.refersTo).toBe('=Продажи!A2:A5');
+
+    workbook.getFormulaManager().handleRowInsertion(0, 'Продажи');
+    expect(workbook.getFormulaManager().getName('Sales')?.refersTo).toBe('=Продажи!A3:A6');
+  });
+
+  it('должен возвращать #CIRC! для имени, ссылающегося на себя', () => {
+    workbook.defineName('Loop', 'Loop+1');
+    sheet('Sheet1').setCell(0, 0, '=Loop');
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe('#CIRC!');
+  });
+
+  it('должен отклонять недопустимые имена', () => {
+    expect(() => NameManager.validate('A1')).toThrow();
+    expect(() => NameManager.validate('R1C1')).toThrow();
+    expect(() => NameManager.validate('TRUE')).toThrow();
+    expect(() => NameManager.validate('Tax Rate')).toThrow();
+    expect(() => NameManager.validate('Ставка_НДС')).not.toThrow();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { FormulaManager } from '../../src/core/formulas/FormulaManager';
+import { FormulaContext, FormulaEngine } from '../../src/core/formulas/FormulaEngine';
+
+describe('Инкрементальный пересчет', () => {
+  let workbook: Workbook;
+
+  beforeEach(() => {
+    workbook = new Workbook();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const matrix = () => workbook.getActiveSheet().matrix;
+
+  it('должен возвращать значение из кэша без повторного вычисления', () => {
+    const context: FormulaContext = {
+      getCellValue: vi.fn(() => ({ type: 'number' as const, value: 2 })),
+      getCellRange: () => [],
+    };
+    const formulaManager = new FormulaManager(context);
+
+    formulaManager.setFormula(0, 1, '=A1*10');
+    expect(formulaManager.evaluateFormula(0, 1).value).toBe(20);
+    expect(formulaManager.evaluateFormula(0, 1).value).toBe(20);
+    expect(context.getCellValue).toHaveBeenCalledTimes(1);
+  });
+
+  it('должен помечать зависимые формулы при изменении ячейки', () => {
+    matrix().setCell(0, 0, 1);
+    matrix().setCell(0, 1, '=A1*2');
+    matrix().setCell(0, 2, '=B1+1');
+    matrix().setCell(0, 3, 5);
+    matrix().setCell(0, 4, '=D1');
+    expect(workbook.getCellValue(0, 2).value).toBe(3);
+    expect(workbook.getCellValue(0, 4).value).toBe(5);
+
+    matrix().setCell(0, 0, 5);
+
+    const stats = workbook.getFormulaManager().getStats();
+    expect(stats.dirtyFormulas).toBe(2);
+    expect(workbook.getCellValue(0, 2).value).toBe(11);
+  });
+
+  it('должен пересчитывать формулы в топологическом порядке', () => {
+    matrix().setCell(0, 0, 1);
+    matrix().setCell(0, 3, '=C1+1');
+    matrix().setCell(0, 2, '=B1+1');
+    matrix().setCell(0, 1, '=A1*2');
+    workbook.getCellValue(0, 3);
+
+    const evaluated: string[] = [];
+    const original = FormulaEngine.prototype.evaluate;
+    vi.spyOn(FormulaEngine.prototype, 'evaluate').mockImplementation(function (
+      this: FormulaEngine,
+      ast,
+      sheet
+    ) {
+      evaluated.push(ast.originalFormula);
+      return original.call(this, ast, sheet);
+    });
+
+    matrix().setCell(0, 0, 10);
+    expect(workbook.recalculate()).toBe(3);
+    expect(evaluated).toEqual(['=A1*2', '=B1+1', '=C1+1']);
+    expect(workbook.getCellValue(0, 3).value).toBe(22);
+    expect(evaluated).toHaveLength(3);
+  });
+
+  it('должен пересчитывать формулы с диапазонами и ссылками на другие листы', () => {
+    workbook.addSheet('Data');
+    const data = workbook.getSheet('Data')!.matrix;
+    data.setCell(0, 0, 1);
+    matrix().setCell(0, 0, '=SUM(Data!A:A)');
+    expect(workbook.getCellValue(0, 0).value).toBe(1);
+
+    data.setCell(5000, 0, 4);
+    expect(workbook.getCellValue(0, 0).value).toBe(5);
+
+    data.removeCell(0, 0);
+    expect(workbook.getCellValue(0, 0).value).toBe(4);
+  });
+
+  it('должен пересчитывать зависимые формулы при удалении формулы из ячейки', () => {
+    matrix().setCell(0, 0, '=2+3');
+    matrix().setCell(0, 1, '=A1*2');
+    expect(workbook.getCellValue(0, 1).value).toBe(10);
+
+    matrix().setCell(0, 0, 7);
+    expect(workbook.getFormulaManager().getFormula(0, 0)).toBeNull();
+    expect(workbook.getCellValue(0, 1).value).toBe(14);
+  });
+
+  it('должен заменять формулу при изменении ячейки, а не при чтении', () => {
+    const formulaManager = workbook.getFormulaManager();
+    matrix().setCell(0, 0, 4);
+    matrix().setCell(0, 1, '=A1*2');
+    expect(formulaManager.getFormula(0, 1)).toBe('=A1*2');
+    workbook.recalculate();
+    expect(formulaManager.evaluateFormula(0, 1).value).toBe(8);
+
+    // Новая формула разбирается сразу - пересчет использует ее
+    matrix().setCell(0, 1, '=A1+10');
+    expect(workbook.recalculate()).toBe(1);
+    expect(formulaManager.evaluateFormula(0, 1).value).toBe(14);
+
+    // Формула с ошибкой разбора не регистрируется, чтение ее не меняет
+    matrix().setCell(0, 1, '=A1+');
+    expect(formulaManager.getFormula(0, 1)).toBeNull();
+    expect(workbook.getCellValue(0, 1).type).toBe('error');
+    expect(formulaManager.getFormulaCells()).toEqual([]);
+  });
+
+  it('должен возвращать #CIRC! вместо бесконечной рекурсии', () => {
+    matrix().setCell(0, 0, '=B1+1');
+    matrix().setCell(0, 1, '=A1+1');
+    expect(workbook.getCellValue(0, 0).value).toBe('#CIRC!');
+  });
+});
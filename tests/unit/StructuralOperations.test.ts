@@ -0,0 +1,399 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SparseMatrix } from '../../src/core/sparse-matrix/SparseMatrix';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import {
+  CalculationClient,
+  LocalCalculationTransport,
+} from '../../src/core/worker/CalculationClient';
+import {
+  OperationHistory,
+  type AnyOperation,
+  type OperationTarget,
+} from '../../src/core/operation-history/OperationHistory';
+import { MAX_COL_INDEX, MAX_ROW_INDEX } from '../../src/core/formulas/FormulaAST';
+
+describe('Групповые операции со строками и столбцами', () => {
+  describe('SparseMatrix', () => {
+    let matrix: SparseMatrix;
+    let notifications: number;
+
+    // Значения первого столбца по строкам
+    const column = (rows: number) =>
+      Array.from({ length: rows }, (_, row) => matrix.getCell(row, 0));
+
+    beforeEach(() => {
+      // Маленькие блоки, чтобы ячейки переходили между ними
+      matrix = new SparseMatrix(4);
+      ['a', 'b', 'c', 'd', 'e', 'f'].forEach((value, row) => matrix.setCell(row, 0, value));
+      notifications = 0;
+      matrix.setChangeListener(() => notifications++);
+    });
+
+    it('должен вставлять и удалять несколько строк за один проход', () => {
+      matrix.insertRows(1, 3);
+      expect(column(9)).toEqual(['a', null, null, null, 'b', 'c', 'd', 'e', 'f']);
+
+      matrix.deleteRows(3, 4);
+      expect(column(6)).toEqual(['a', null, null, 'e', 'f', null]);
+      expect(matrix.getStats().totalCells).toBe(3);
+      expect(notifications).toBe(2);
+    });
+
+    it('должен переносить строки и столбцы', () => {
+      matrix.moveRows(1, 2, 5);
+      expect(column(6)).toEqual(['a', 'd', 'e', 'b', 'c', 'f']);
+
+      matrix.moveRows(3, 2, 0);
+      expect(column(6)).toEqual(['b', 'c', 'a', 'd', 'e', 'f']);
+
+      matrix.setCell(0, 1, 'x');
+      matrix.moveColumns(1, 1, 0);
+      expect([matrix.getCell(0, 0), matrix.getCell(0, 1), matrix.getCell(1, 1)]).toEqual([
+        'x',
+        'b',
+        'c',
+      ]);
+      expect(matrix.getStats().totalCells).toBe(7);
+    });
+
+    it('должен удалять и вставлять столбцы', () => {
+      matrix.setCell(0, 5, 'z');
+      matrix.insertColumns(0, 2);
+      expect([matrix.getCell(0, 2), matrix.getCell(0, 7)]).toEqual(['a', 'z']);
+
+      matrix.deleteColumns(1, 3);
+      expect([matrix.getCell(0, 0), matrix.getCell(0, 4)]).toEqual([null, 'z']);
+      expect(matrix.getStats().totalCells).toBe(1);
+    });
+  });
+
+  describe('Формулы', () => {
+    let workbook: Workbook;
+
+    const matrix = () => workbook.getActiveSheet().matrix;
+    const formulas = () => workbook.getFormulaManager();
+    const value = (row: number, col: number) => workbook.getCellValue(row, col).value;
+
+    beforeEach(() => {
+      workbook = new Workbook();
+      // A1:A10 - числа 1..10, формулы в столбце C
+      for (let row = 0; row < 10; row++) {
+        matrix().setCell(row, 0, row + 1);
+      }
+      matrix().setCell(0, 2, '=SUM(A2:A9)');
+      matrix().setCell(1, 2, '=A3*$A$10');
+      matrix().setCell(2, 2, '=SUM(A:A)');
+      [0, 1, 2].forEach(row => value(row, 2));
+    });
+
+    it('должен сдвигать ссылки при вставке и удалении нескольких строк', () => {
+      matrix().insertRows(2, 3);
+      formulas().handleRowInsertion(2, 'Sheet1', 3);
+      expect(matrix().getCell(0, 2)).toBe('=SUM(A2:A12)');
+      expect(matrix().getCell(1, 2)).toBe('=A6*$A$13');
+      expect(matrix().getCell(2, 2)).toBeNull();
+      expect(matrix().getCell(5, 2)).toBe('=SUM(A:A)');
+
+      // Удаляются вставленные строки и строки 4-5 исходных данных
+      matrix().deleteRows(2, 5);
+      formulas().handleRowDeletion(2, 'Sheet1', 5);
+      expect(matrix().getCell(0, 2)).toBe('=SUM(A2:A7)');
+      expect(matrix().getCell(1, 2)).toBe('=#REF!*$A$8');
+      expect(value(0, 2)).toBe(2 + 5 + 6 + 7 + 8 + 9);
+    });
+
+    it('должен удалять много строк за один проход', () => {
+      matrix().setCell(600, 2, '=SUM(A1:A700)');
+      value(600, 2);
+
+      matrix().deleteRows(5, 500);
+      formulas().handleRowDeletion(5, 'Sheet1', 500);
+      expect(matrix().getCell(100, 2)).toBe('=SUM(A1:A200)');
+      expect(value(100, 2)).toBe(15);
+    });
+
+    it('должен переносить ссылки вместе со строками и столбцами', () => {
+      // Строки 2-3 переносятся в конец данных
+      matrix().moveRows(1, 2, 10);
+      formulas().handleRowMove(1, 2, 10, 'Sheet1');
+      expect(matrix().getCell(1, 2)).toBeNull();
+      expect(matrix().getCell(8, 2)).toBe('=A10*$A$8');
+      expect(matrix().getCell(9, 2)).toBe('=SUM(A:A)');
+      // Диапазон теряет перенесенную строку A3
+      expect(matrix().getCell(0, 2)).toBe('=SUM(A2:A7)');
+      expect(value(8, 2)).toBe(30);
+
+      matrix().moveColumns(0, 1, 4);
+      formulas().handleColumnMove(0, 1, 4, 'Sheet1');
+      expect(matrix().getCell(8, 1)).toBe('=D10*$D$8');
+      expect(value(8, 1)).toBe(30);
+    });
+
+    it('должен пересчитывать только затронутые формулы и переносить массивы', () => {
+      matrix().setCell(0, 4, '=$A$1*2');
+      matrix().setCell(14, 4, '=ROW()');
+      matrix().setCell(19, 4, '=SEQUENCE(2)');
+      [0, 14, 19].forEach(row => value(row, 4));
+
+      const recalculated = () =>
+        formulas()
+          .getRecalculatedFormulas()
+          .map(({ row, col }) => `${row}:${col}`)
+          .sort();
+
+      // Ссылки не меняются; пересчитываются SUM(A:A) и сдвинутая ROW()
+      workbook.shiftLines('Sheet1', 'rows', { type: 'insert', at: 12, count: 2 });
+      expect(recalculated()).toEqual(['16:4', '2:2']);
+      expect(value(16, 4)).toBe(17);
+      expect(workbook.getSpillArea(21, 4)).toMatchObject({ startRow: 21, endRow: 22 });
+      expect(value(22, 4)).toBe(2);
+
+      // Удаление строки внутри области переноса - массив переносится заново
+      workbook.shiftLines('Sheet1', 'rows', { type: 'delete', at: 22, count: 1 });
+      expect(recalculated()).toEqual(['21:4', '2:2']);
+      expect(value(22, 4)).toBe(2);
+    });
+  });
+
+  describe('Отмена и повтор', () => {
+    let workbook: Workbook;
+    let client: CalculationClient;
+    let history: OperationHistory;
+
+    const matrix = () => workbook.getActiveSheet().matrix;
+
+    // Книга, как в приложении: ячейки листа сдвигаются сразу, ссылки формул - в потоке вычислений
+    const target: OperationTarget = {
+      shiftLines: ({ axis, shift }) => {
+        matrix().shiftLines(axis, shift);
+        return client.shiftLines('Sheet1', axis, shift);
+      },
+      setCell: (row, col, value, sheet = 'Sheet1') =>
+        workbook.getSheet(sheet)!.matrix.setCell(row, col, value),
+      removeCell: (row, col) => matrix().removeCell(row, col),
+    };
+
+    const apply = async (operation: AnyOperation | null, isUndo: boolean) => {
+      OperationHistory.applyOperation(operation!, isUndo, target);
+      await client.recalculate();
+    };
+
+    // Удаление строк или столбцов, как в приложении: удаленные ячейки запоминаются для отмены
+    const deleteLines = async (axis: 'rows' | 'columns', at: number, count: number) => {
+      const end = at + count - 1;
+      const deletedCells =
+        axis === 'rows'
+          ? matrix().getCellsInRange(at, 0, end, MAX_COL_INDEX)
+          : matrix().getCellsInRange(0, at, MAX_ROW_INDEX, end);
+      history.addOperation(
+        axis === 'rows'
+          ? {
+              type: 'delete_row',
+              data: { atRow: at, count, deletedCells, rewrittenFormulas: [] },
+              description: '',
+            }
+          : {
+              type: 'delete_column',
+              data: { atCol: at, count, deletedCells, rewrittenFormulas: [] },
+              description: '',
+            }
+      );
+      await apply(history.getState().lastOperation, false);
+    };
+
+    // Тексты и значения формул в ячейках
+    const formulas = (cells: Array<[number, number]>) =>
+      cells.map(([row, col]) => [
+        matrix().getCell(row, col),
+        client.getCellValue(row, col, 'Sheet1')?.value,
+      ]);
+
+    // Операция, ее отмена и повтор; after - проверка после операции и повтора
+    const roundTrip = async (
+      operation: Omit<AnyOperation, 'id' | 'timestamp'>,
+      after: () => void
+    ) => {
+      history.addOperation(operation);
+      await apply(history.getState().lastOperation, false);
+      after();
+
+      await apply(history.undo(), true);
+      expect(matrix().getCell(4, 2)).toBe('=A2*2');
+      expect(client.getCellValue(4, 2, 'Sheet1')?.value).toBe(10);
+
+      await apply(history.redo(), false);
+      after();
+      await apply(history.undo(), true);
+    };
+
+    beforeEach(async () => {
+      workbook = new Workbook();
+      history = new OperationHistory();
+      matrix().setCell(0, 0, 1);
+      matrix().setCell(1, 0, 5);
+      matrix().setCell(4, 2, '=A2*2');
+      client = new CalculationClient(new LocalCalculationTransport());
+      client.connect(workbook);
+      await client.recalculate();
+    });
+
+    it('должен возвращать ссылки формул при отмене вставки, удаления и переноса строк', async () => {
+      await roundTrip(
+        { type: 'insert_row', data: { atRow: 0, count: 1, affectedCells: [] }, description: '' },
+        () => expect(matrix().getCell(5, 2)).toBe('=A3*2')
+      );
+
+      const deletedCells = [{ row: 0, col: 0, value: 1 }];
+      await roundTrip(
+        {
+          type: 'delete_row',
+          data: { atRow: 0, count: 1, deletedCells, rewrittenFormulas: [] },
+          description: '',
+        },
+        () => {
+          expect(matrix().getCell(3, 2)).toBe('=A1*2');
+          expect(client.getCellValue(3, 2, 'Sheet1')?.value).toBe(10);
+        }
+      );
+      expect(matrix().getCell(0, 0)).toBe(1);
+
+      await roundTrip(
+        { type: 'move_rows', data: { atRow: 1, count: 1, toRow: 4 }, description: '' },
+        () => expect(matrix().getCell(4, 2)).toBe('=A4*2')
+      );
+      expect(matrix().getCell(1, 0)).toBe(5);
+    });
+
+    it('должен возвращать ссылки формул при отмене операций со столбцами', async () => {
+      await roundTrip(
+        { type: 'insert_column', data: { atCol: 0, count: 2, affectedCells: [] }, description: '' },
+        () => expect(matrix().getCell(4, 4)).toBe('=C2*2')
+      );
+      await roundTrip(
+        { type: 'move_columns', data: { atCol: 0, count: 1, toCol: 2 }, description: '' },
+        () => expect(matrix().getCell(4, 2)).toBe('=B2*2')
+      );
+    });
+
+    it('должен возвращать формулы, ссылки которых изменило удаление строк', async () => {
+      // A2 удаляется: ссылка на нее становится #REF!, диапазон A2:A3 сужается
+      matrix().setCell(2, 0, 2);
+      matrix().setCell(5, 2, '=A2*10');
+      matrix().setCell(5, 3, '=SUM(A2:A3)');
+      await client.recalculate();
+
+      await deleteLines('rows', 1, 1);
+      const deleted = () =>
+        expect(
+          formulas([
+            [3, 2],
+            [4, 2],
+            [4, 3],
+          ])
+        ).toEqual([
+          ['=#REF!*2', '#REF!'],
+          ['=#REF!*10', '#REF!'],
+          ['=SUM(A2:A2)', 2],
+        ]);
+      deleted();
+
+      // Отмена возвращает и удаленную строку, и прежние тексты формул; повтор - снова удаляет
+      for (let round = 0; round < 2; round++) {
+        await apply(history.undo(), true);
+        expect(
+          formulas([
+            [4, 2],
+            [5, 2],
+            [5, 3],
+          ])
+        ).toEqual([
+          ['=A2*2', 10],
+          ['=A2*10', 50],
+          ['=SUM(A2:A3)', 7],
+        ]);
+
+        await apply(history.redo(), false);
+        deleted();
+      }
+    });
+
+    it('должен возвращать формулы, ссылки которых изменило удаление столбцов', async () => {
+      // B удаляется: ссылка на B1 становится #REF!, диапазон B1:C1 сужается
+      matrix().setCell(0, 1, 3);
+      matrix().setCell(0, 2, 4);
+      matrix().setCell(0, 5, '=B1*10');
+      matrix().setCell(0, 6, '=SUM(B1:C1)');
+      await client.recalculate();
+
+      await deleteLines('columns', 1, 1);
+      expect(
+        formulas([
+          [0, 4],
+          [0, 5],
+        ])
+      ).toEqual([
+        ['=#REF!*10', '#REF!'],
+        ['=SUM(B1:B1)', 4],
+      ]);
+
+      await apply(history.undo(), true);
+      expect(matrix().getCell(0, 1)).toBe(3);
+      expect(
+        formulas([
+          [0, 5],
+          [0, 6],
+          [4, 2],
+        ])
+      ).toEqual([
+        ['=B1*10', 30],
+        ['=SUM(B1:C1)', 7],
+        ['=A2*2', 10],
+      ]);
+
+      await apply(history.redo(), false);
+      expect(
+        formulas([
+          [0, 4],
+          [0, 5],
+        ])
+      ).toEqual([
+        ['=#REF!*10', '#REF!'],
+        ['=SUM(B1:B1)', 4],
+      ]);
+    });
+
+    it('должен возвращать переписанные формулы в книге, которая сама вычисляет формулы', async () => {
+      const book = new Workbook();
+      const sheet = book.getActiveSheet().matrix;
+      [1, 5, 2].forEach((value, row) => sheet.setCell(row, 0, value));
+      sheet.setCell(5, 2, '=A2*10');
+      sheet.setCell(5, 3, '=SUM(A2:A3)');
+
+      const bookTarget: OperationTarget = {
+        shiftLines: async ({ axis, shift }) => book.shiftLines('Sheet1', axis, shift),
+        setCell: (row, col, value) => sheet.setCell(row, col, value),
+        removeCell: (row, col) => sheet.removeCell(row, col),
+      };
+      history.addOperation({
+        type: 'delete_row',
+        data: {
+          atRow: 1,
+          count: 1,
+          deletedCells: [{ row: 1, col: 0, value: 5 }],
+          rewrittenFormulas: [],
+        },
+        description: '',
+      });
+      const operation = history.getState().lastOperation!;
+
+      // Прежние тексты формул запоминаются, когда разрешается промис сдвига
+      OperationHistory.applyOperation(operation, false, bookTarget);
+      await Promise.resolve();
+      expect([sheet.getCell(4, 2), sheet.getCell(4, 3)]).toEqual(['=#REF!*10', '=SUM(A2:A2)']);
+
+      OperationHistory.applyOperation(operation, true, bookTarget);
+      expect([sheet.getCell(5, 2), sheet.getCell(5, 3)]).toEqual(['=A2*10', '=SUM(A2:A3)']);
+      expect([book.getCellValue(5, 2).value, book.getCellValue(5, 3).value]).toEqual([50, 7]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+import { FormulaUtils, MAX_ROW_INDEX, MAX_COL_INDEX } from '../../src/core/formulas/FormulaAST';
+import { SparseMatrix } from '../../src/core/sparse-matrix/SparseMatrix';
+
+describe('Неограниченные диапазоны', () => {
+  describe('Парсинг и форматирование', () => {
+    const parser = new FormulaParser();
+
+    it('должен парсить столбцы целиком', () => {
+      expect(parser.parse('=SUM(D:D)').root).toMatchObject({
+        args: [
+          { type: 'range', extent: 'column', startRow: 0, endRow: MAX_ROW_INDEX, startCol: 3 },
+        ],
+      });
+      expect(parser.parse('=$B:D').root).toMatchObject({
+        extent: 'column',
+        startCol: 1,
+        endCol: 3,
+        absoluteStartCol: true,
+      });
+    });
+
+    it('должен парсить строки целиком', () => {
+      expect(parser.parse('=SUM(1:1)').root).toMatchObject({
+        args: [{ type: 'range', extent: 'row', startRow: 0, endRow: 0, endCol: MAX_COL_INDEX }],
+      });
+      expect(parser.parse('=$2:5').root).toMatchObject({ startRow: 1, absoluteStartRow: true });
+    });
+
+    it('должен парсить открытые диапазоны до конца листа', () => {
+      expect(parser.parse('=A2:A').root).toMatchObject({
+        extent: 'open',
+        startRow: 1,
+        endRow: MAX_ROW_INDEX,
+        endCol: 0,
+      });
+    });
+
+    it('должен отклонять неполные ссылки вне диапазона', () => {
+      expect(() => parser.parse('=A:1')).toThrow();
+      expect(() => parser.parse('=SUM(A2:3)')).toThrow();
+    });
+
+    it('должен форматировать диапазоны обратно в исходный вид', () => {
+      for (const text of ['A:A', '$B:$D', '1:1', '$3:5', 'A2:A', 'Data!C:C']) {
+        const root = parser.parse(`=${text}`).root;
+        expect(FormulaUtils.formatCellRange(root as any)).toBe(text);
+      }
+    });
+
+    it('должен сохранять границы при сдвиге', () => {
+      const column = FormulaUtils.parseCellRange('B:B');
+      const insert = { type: 'insert', at: 0, count: 1 } as const;
+      const shifted = FormulaUtils.shiftCellRange(column, 0, 0, insert, insert);
+      expect(shifted).toMatchObject({ startRow: 0, endRow: MAX_ROW_INDEX, startCol: 2 });
+
+      const open = FormulaUtils.shiftCellRange(FormulaUtils.parseCellRange('A2:A'), 0, 0, insert);
+      expect(open).toMatchObject({ startRow: 2, endRow: MAX_ROW_INDEX });
+    });
+  });
+
+  describe('Вычисление', () => {
+    let workbook: Workbook;
+
+    beforeEach(() => {
+      workbook = new Workbook();
+    });
+
+    const matrix = () => workbook.getActiveSheet().matrix;
+
+    it('должен суммировать только заполненные ячейки столбца', () => {
+      matrix().setCell(0, 3, 'Зарплата');
+      matrix().setCell(1, 3, 100);
+      matrix().setCell(5000, 3, 50);
+      matrix().setCell(900000, 3, '25');
+      matrix().setCell(0, 0, '=SUM(D:D)');
+
+      expect(workbook.getCellValue(0, 0).value).toBe(175);
+    });
+
+    it('должен вычислять строки и открытые диапазоны', () => {
+      matrix().setCell(2, 1, 4);
+      matrix().setCell(2, 10000, 6);
+      matrix().setCell(0, 0, '=SUM(3:3)');
+      matrix().setCell(1, 1, 'Заголовок');
+      matrix().setCell(3, 1, 10);
+      matrix().setCell(1, 0, '=COUNT(B3:B)');
+
+      expect(workbook.getCellValue(0, 0).value).toBe(10);
+      expect(workbook.getCellValue(1, 0).value).toBe(2);
+    });
+
+    it('должен регистрировать зависимость от диапазона, а не от каждой ячейки', () => {
+      matrix().setCell(4, 3, '=1+1');
+      matrix().setCell(0, 4, '=SUM(D:D)');
+      workbook.getCellValue(4, 3);
+      workbook.getCellValue(0, 4);
+
+      const manager = workbook.getFormulaManager();
+      const stats = manager.getStats();
+      expect(stats.totalDependencies).toBe(1);
+      expect(stats.totalRangeDependencies).toBe(1);
+      expect(manager.getDependents(4, 3, 'Sheet1')).toEqual(['SHEET1!0:4']);
+    });
+  });
+
+  it('SparseMatrix должен возвращать ячейки большого диапазона по порядку строк', () => {
+    const sparseMatrix = new SparseMatrix();
+    sparseMatrix.setCell(2500, 0, 'c');
+    sparseMatrix.setCell(10, 0, 'a');
+    sparseMatrix.setCell(10, 5, 'x');
+    sparseMatrix.setCell(1500, 0, 'b');
+
+    const cells = sparseMatrix.getCellsInRange(0, 0, MAX_ROW_INDEX, 0);
+    expect(cells).toEqual([
+      { row: 10, col: 0, value: 'a' },
+      { row: 1500, col: 0, value: 'b' },
+      { row: 2500, col: 0, value: 'c' },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Workbook } from '../../src/core/workbook/Workbook';
+import { FormulaParser } from '../../src/core/formulas/FormulaParser';
+import { FormulaLexer } from '../../src/core/formulas/FormulaLexer';
+
+describe('Ссылки на другие листы', () => {
+  const parser = new FormulaParser();
+
+  it('должен распознавать префиксы листов как отдельный токен', () => {
+    const tokens = new FormulaLexer().tokenize("Sheet2!A1+'My Sheet'!B2+Sheet1:Sheet3!C3");
+    const sheets = tokens.filter(t => t.type === 'sheet').map(t => t.value);
+    expect(sheets).toEqual(['Sheet2', 'My Sheet', 'Sheet1:Sheet3']);
+  });
+
+  it('должен парсить ссылки и диапазоны с именем листа', () => {
+    expect(parser.parse('=Sheet2!A1').root).toMatchObject({ type: 'cell', sheet: 'Sheet2' });
+    expect(parser.parse("='It''s'!A1:B2").root).toMatchObject({
+      type: 'range',
+      sheet: "It's",
+      endRow: 1,
+    });
+    expect(parser.parse('=Лист2!A1').root).toMatchObject({ type: 'cell', sheet: 'Лист2' });
+  });
+
+  it('должен парсить 3D-диапазоны', () => {
+    expect(parser.parse('=SUM(Sheet1:Sheet3!A1)').root).toMatchObject({
+      args: [{ type: 'range', sheet: 'Sheet1', endSheet: 'Sheet3', startRow: 0, endRow: 0 }],
+    });
+  });
+
+  it('должен требовать ссылку после имени листа', () => {
+    expect(() => parser.parse('=Sheet2!SUM(A1)')).toThrow();
+  });
+});
+
+describe('Workbook', () => {
+  let workbook: Workbook;
+
+  beforeEach(() => {
+    workbook = new Workbook();
+    workbook.addSheet();
+    workbook.addSheet();
+  });
+
+  const sheet = (name: string) => workbook.getSheet(name)!.matrix;
+
+  it('должен создавать листы с именами по умолчанию', () => {
+    expect(workbook.getSheets().map(s => s.name)).toEqual(['Sheet1', 'Sheet2', 'Sheet3']);
+    expect(workbook.getActiveSheet().name).toBe('Sheet1');
+  });
+
+  it('должен вычислять ссылки на другой лист', () => {
+    sheet('Sheet2').setCell(0, 0, 10);
+    sheet('Sheet1').setCell(0, 0, '=Sheet2!A1*2');
+    sheet('Sheet2').setCell(1, 0, '=A1+1');
+
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe(20);
+    // Неквалифицированная ссылка относится к листу самой формулы
+    expect(workbook.getCellValue(1, 0, 'Sheet2').value).toBe(11);
+  });
+
+  it('должен не учитывать регистр имени листа', () => {
+    sheet('Sheet2').setCell(0, 0, 5);
+    sheet('Sheet1').setCell(0, 0, '=sheet2!A1');
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe(5);
+  });
+
+  it('должен суммировать 3D-диапазон по порядку листов', () => {
+    sheet('Sheet1').setCell(0, 0, 1);
+    sheet('Sheet2').setCell(0, 0, 2);
+    sheet('Sheet3').setCell(0, 0, 3);
+    sheet('Sheet1').setCell(1, 0, '=SUM(Sheet2:Sheet3!A1)');
+
+    expect(workbook.getCellValue(1, 0, 'Sheet1').value).toBe(5);
+
+    workbook.moveSheet('Sheet1', 2);
+    sheet('Sheet1').setCell(1, 0, '=SUM(Sheet2:Sheet1!A1)');
+    expect(workbook.getCellValue(1, 0, 'Sheet1').value).toBe(6);
+  });
+
+  it('должен возвращать #REF! для несуществующего листа', () => {
+    sheet('Sheet1').setCell(0, 0, '=Missing!A1');
+    sheet('Sheet1').setCell(1, 0, '=SUM(Sheet1:Missing!A1)');
+    expect(workbook.getCellValue(0, 0, 'Sheet1')).toEqual({ value: '#REF!', type: 'error' });
+    expect(workbook.getCellValue(1, 0, 'Sheet1')).toEqual({ value: '#REF!', type: 'error' });
+  });
+
+  it('должен переписывать ссылки при переименовании листа', () => {
+    sheet('Sheet2').setCell(0, 0, 7);
+    sheet('Sheet1').setCell(0, 0, '=Sheet2!A1+1');
+    workbook.getCellValue(0, 0, 'Sheet1');
+
+    workbook.renameSheet('Sheet2', 'Data Q1');
+
+    expect(sheet('Sheet1').getCell(0, 0)).toBe("='Data Q1'!A1+1");
+    expect(workbook.getCellValue(0, 0, 'Sheet1').value).toBe(8);
+  });
+
+  it('должен проверять имя листа', () => {
+    expect(() => workbook.renameSheet('Sheet1', '')).toThrow();
+    expect(() => workbook.renameSheet('Sheet1', 'a/b')).toThrow();
+    expect(() => workbook.renameSheet('Sheet1', 'x'.repeat(32))).toThrow();
+    expect(() => workbook.renameSheet('Sheet1', 'SHEET2')).toThrow();
+    expect(() => workbook.renameSheet('Sheet1', 'sheet1')).not.toThrow();
+  });
+
+  it('должен заменять ссылки на удаленный лист на #REF!', () => {
+    sheet('Sheet1').setCell(0, 0, 1);
+    sheet('Sheet2').setCell(0, 0, 2);
+    sheet('Sheet3').setCell(0, 0, 3);
+    sheet('Sheet1').setCell(1, 0, '=Sheet2!A1');
+    sheet('Sheet1').setCell(2, 0, '=SUM(Sheet1:Sheet3!A1)');
+    workbook.getCellValue(1, 0, 'Sheet1');
+    workbook.getCellValue(2, 0, 'Sheet1');
+
+    workbook.deleteSheet('Sheet3');
+
+    expect(sheet('Sheet1').getCell(1, 0)).toBe('=Sheet2!A1');
+    expect(sheet('Sheet1').getCell(2, 0)).toBe('=SUM(Sheet1:Sheet2!A1)');
+    expect(workbook.getCellValue(2, 0, 'Sheet1').value).toBe(3);
+
+    workbook.deleteSheet('Sheet2');
+
+    expect(sheet('Sheet1').getCell(1, 0)).toBe('=#REF!');
+    expect(workbook.getCellValue(1, 0, 'Sheet1').value).toBe('#REF!');
+  });
+
+  it('должен сдвигать только ссылки на лист со вставленной строкой', () => {
+    sheet('Sheet2').setCell(1, 0, 4);
+    sheet('Sheet1').setCell(0, 0, '=Sheet2!A2+A2');
+    workbook.getCellValue(0, 0, 'Sheet1');
+
+    sheet('Sheet2').insertRow(0);
+    workbook.getFormulaManager().handleRowInsertion(0, 'Sheet2');
+
+    expect(sheet('Sheet1').getCell(0, 0)).toBe('=Sheet2!A3+A2');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Общая обвязка тестов функций: лист из таблицы значений и вычисление формулы в ячейке вне нее
+ */
+
+import { beforeEach } from 'vitest';
+import { FormulaManager } from '../../../src/core/formulas/FormulaManager';
+import { FormulaContext, CellValue } from '../../../src/core/formulas/FormulaEngine';
+
+// Значение ячейки таблицы: null - пустая ячейка, объект - значение как есть (ошибка)
+export type GridValue = number | string | boolean | null | CellValue;
+
+export interface FormulaHarness {
+  readonly formulaManager: FormulaManager;
+  readonly reads: string[]; // Прочитанные в текущем тесте ячейки: 'строка:столбец'
+  evaluate: (formula: string) => CellValue;
+  value: (formula: string) => any;
+}
+
+// Ячейка формулы - за пределами таблиц тестов
+const FORMULA_ROW = 99;
+const FORMULA_COL = 99;
+
+/**
+ * Значение ячейки по значению из таблицы
+ */
+function toCellValue(raw: GridValue | undefined): CellValue {
+  switch (typeof raw) {
+    case 'number':
+      return { type: 'number', value: raw };
+    case 'string':
+      return { type: 'string', value: raw };
+    case 'boolean':
+      return { type: 'boolean', value: raw };
+    default:
+      return raw ?? { type: 'empty', value: null };
+  }
+}
+
+/**
+ * Обвязка для describe: перед каждым тестом создает менеджер формул над листом
+ * из строк rows (rows[0][0] - A1)
+ */
+export function createFormulaHarness(rows: GridValue[][]): FormulaHarness {
+  let formulaManager: FormulaManager;
+  const reads: string[] = [];
+
+  const context: FormulaContext = {
+    getCellValue: (row: number, col: number) => {
+      reads.push(`${row}:${col}`);
+      return toCellValue(rows[row]?.[col]);
+    },
+    getCellRange: (startRow: number, startCol: number, endRow: number, endCol: number) => {
+      const result: CellValue[] = [];
+      for (let row = startRow; row <= endRow; row++) {
+        for (let col = startCol; col <= endCol; col++) {
+          result.push(context.getCellValue(row, col));
+        }
+      }
+      return result;
+    },
+    getUsedBounds: () =>
+      rows.length > 0
+        ? { lastRow: rows.length - 1, lastCol: Math.max(...rows.map(cells => cells.length - 1)) }
+        : null,
+  };
+
+  beforeEach(() => {
+    reads.length = 0;
+    formulaManager = new FormulaManager(context);
+  });
+
+  const evaluate = (formula: string): CellValue => {
+    formulaManager.setFormula(FORMULA_ROW, FORMULA_COL, formula);
+    return formulaManager.evaluateFormula(FORMULA_ROW, FORMULA_COL);
+  };
+
+  return {
+    get formulaManager() {
+      return formulaManager;
+    },
+    reads,
+    evaluate,
+    value: formula => evaluate(formula).value,
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Модуль пользовательских функций, который загружает поток вычислений
+ */
+
+import type { FunctionModule } from '../../../src/core/worker/CalculationService';
+
+const RATES: Record<string, number> = { USD: 92.5, EUR: 100 };
+
+const registerFunctions: FunctionModule['default'] = registerFunction => {
+  registerFunction({
+    name: 'FXRATE',
+    minArgs: 1,
+    maxArgs: 1,
+    description: 'Курс валюты к рублю',
+    evaluate: ([currency]) =>
+      currency!.value in RATES
+        ? { value: RATES[currency!.value], type: 'number' }
+        : { value: '#N/A', type: 'error' },
+  });
+};
+
+export default registerFunctions;